@@ -5,6 +5,16 @@ import mongoose from 'mongoose';
 import swaggerUi from 'swagger-ui-express';
 import { swaggerSpecs } from './swagger';
 import contractRoutes from './routes/contracts';
+import indexingRoutes from './routes/indexing';
+import trackRoutes from './routes/tracks';
+import marketplaceRoutes from './routes/marketplace';
+import royaltyRoutes from './routes/royalties';
+import engagementRoutes from './routes/engagement';
+import governanceRoutes from './routes/governance';
+import graphRoutes from './routes/graph';
+import stakingRoutes from './routes/staking';
+import tokenRoutes from './routes/token';
+import usersRoutes from './routes/users';
 import { errorHandler } from './middleware/error-handler';
 import { securityMiddleware } from './middleware/security';
 
@@ -16,7 +26,8 @@ app.use(helmet());
 app.use(cors());
 app.use(securityMiddleware);
 
-// Body parsing middleware
+// Body parsing middleware; broadcast files embed init code and exceed the default limit
+app.use(`${API_PREFIX}/contracts/import`, express.json({ limit: '10mb' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -24,7 +35,17 @@ app.use(express.urlencoded({ extended: true }));
 app.use(`${API_PREFIX}/docs`, swaggerUi.serve, swaggerUi.setup(swaggerSpecs));
 
 // API Routes
+app.use(`${API_PREFIX}/contracts/:address/indexing`, indexingRoutes);
 app.use(`${API_PREFIX}/contracts`, contractRoutes);
+app.use(`${API_PREFIX}/tracks`, trackRoutes);
+app.use(`${API_PREFIX}/marketplace`, marketplaceRoutes);
+app.use(`${API_PREFIX}/royalties`, royaltyRoutes);
+app.use(`${API_PREFIX}/staking`, stakingRoutes);
+app.use(`${API_PREFIX}/token`, tokenRoutes);
+app.use(`${API_PREFIX}/users`, usersRoutes);
+app.use(`${API_PREFIX}/governance`, governanceRoutes);
+app.use(`${API_PREFIX}/engagement`, engagementRoutes);
+app.use(`${API_PREFIX}/graph`, graphRoutes);
 
 // Error handling middleware
 app.use(errorHandler);
@@ -1,12 +1,71 @@
 import mongoose from 'mongoose';
+import { Block } from '../models/Block';
+import { Contract } from '../models/Contract';
+import { Event } from '../models/Event';
+import { MetadataCache } from '../models/MetadataCache';
+import { Transaction } from '../models/Transaction';
 
 const DEFAULT_DB_URI = 'mongodb://localhost:27017/tunefi';
 
+/**
+ * Assigns a network to the blocks, transactions and events stored before
+ * they were scoped by network. Transactions and events take their
+ * contract's; blocks take LEGACY_NETWORK, or the only network contracts are
+ * registered on. Blocks that cannot be attributed are left as they are.
+ */
+export const migrateLegacyNetworks = async () => {
+  const legacy = { network: null };
+  const [events, transactions, blocks] = await Promise.all([
+    Event.exists(legacy),
+    Transaction.exists(legacy),
+    Block.exists(legacy)
+  ]);
+
+  if (events || transactions) {
+    for (const contract of await Contract.find().select('network').lean()) {
+      await Promise.all([
+        Event.updateMany({ ...legacy, contract: contract._id }, { $set: { network: contract.network } }),
+        Transaction.updateMany({ ...legacy, contract: contract._id }, { $set: { network: contract.network } })
+      ]);
+    }
+  }
+
+  if (blocks) {
+    const networks: string[] = await Contract.distinct('network');
+    const network = process.env.LEGACY_NETWORK || (networks.length === 1 ? networks[0] : undefined);
+    if (network) {
+      await Block.updateMany(legacy, { $set: { network } });
+    } else {
+      console.warn('Blocks stored without a network were left as they are, set LEGACY_NETWORK to assign one');
+    }
+  }
+};
+
+/**
+ * Brings indexes left by earlier versions in line with the schemas. Contracts
+ * used to have a unique `address_1` index, blocks unique `number_1` and
+ * `hash_1`, transactions `hash_1` and events `transactionHash_1_logIndex_1`,
+ * all of which reject the same value on a second network; syncing replaces
+ * them with the schemas' network scoped indexes. The metadata cache's unique
+ * `contract_1_tokenId_1` index keeps a token to one URI and gives way to one
+ * per version's URI.
+ */
+export const migrateIndexes = async () => {
+  for (const model of [Contract, Block, Transaction, Event, MetadataCache]) {
+    const dropped = await model.syncIndexes();
+    if (dropped.length > 0) {
+      console.log(`Dropped outdated ${model.modelName} indexes: ${dropped.join(', ')}`);
+    }
+  }
+};
+
 export const connectDatabase = async () => {
   try {
     const uri = process.env.MONGODB_URI || DEFAULT_DB_URI;
     await mongoose.connect(uri);
     console.log('Successfully connected to MongoDB.');
+    await migrateLegacyNetworks();
+    await migrateIndexes();
     return mongoose;
   } catch (error) {
     console.error('Error connecting to MongoDB:', error);
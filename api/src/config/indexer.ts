@@ -0,0 +1,95 @@
+import { FallbackProvider, JsonRpcProvider, Network } from 'ethers';
+import { getNetwork, NetworkConfig } from './networks';
+
+const DEFAULT_NETWORKS = ['anvil'];
+const DEFAULT_MAX_BLOCK_RANGE = 100;
+const DEFAULT_MAX_REORG_DEPTH = 64;
+const DEFAULT_BACKFILL_CHUNK_SIZE = 2000;
+const DEFAULT_BACKFILL_MAX_CHUNK_SIZE = 10000;
+
+export interface IndexerConfig {
+  networks: string[];
+  // Falls back to each network's block time when unset
+  pollIntervalMs?: number;
+  maxBlockRange: number;
+  maxReorgDepth: number;
+  initialChunkSize: number;
+  maxChunkSize: number;
+  ipfsGatewayUrl?: string;
+  // Hosts token metadata may be fetched from besides the gateway, any public host when unset
+  metadataAllowedHosts?: string[];
+  metadataMaxBytes?: number;
+  // How often item similarities are recomputed, hourly when unset
+  similarityIntervalMs?: number;
+}
+
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value as string, 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const parseList = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Reads the indexer worker configuration from the environment
+ * @returns The resolved indexer configuration
+ */
+export const getIndexerConfig = (): IndexerConfig => {
+  const networks = parseList(process.env.INDEXER_NETWORKS || process.env.INDEXER_NETWORK);
+  const pollIntervalMs = parsePositiveInt(process.env.INDEXER_POLL_INTERVAL_MS, 0);
+  const metadataAllowedHosts = parseList(process.env.METADATA_ALLOWED_HOSTS);
+
+  return {
+    networks: networks.length > 0 ? networks : DEFAULT_NETWORKS,
+    pollIntervalMs: pollIntervalMs || undefined,
+    maxBlockRange: parsePositiveInt(process.env.INDEXER_MAX_BLOCK_RANGE, DEFAULT_MAX_BLOCK_RANGE),
+    maxReorgDepth: parsePositiveInt(process.env.INDEXER_MAX_REORG_DEPTH, DEFAULT_MAX_REORG_DEPTH),
+    initialChunkSize: parsePositiveInt(process.env.BACKFILL_CHUNK_SIZE, DEFAULT_BACKFILL_CHUNK_SIZE),
+    maxChunkSize: parsePositiveInt(process.env.BACKFILL_MAX_CHUNK_SIZE, DEFAULT_BACKFILL_MAX_CHUNK_SIZE),
+    ipfsGatewayUrl: process.env.IPFS_GATEWAY_URL || undefined,
+    metadataAllowedHosts: metadataAllowedHosts.length > 0 ? metadataAllowedHosts : undefined,
+    metadataMaxBytes: parsePositiveInt(process.env.METADATA_MAX_BYTES, 0) || undefined,
+    similarityIntervalMs: parsePositiveInt(process.env.SIMILARITY_INTERVAL_MS, 0) || undefined
+  };
+};
+
+/**
+ * Creates a provider for a network. The chain ID is fixed so requests are
+ * never sent to a node on the wrong chain; several RPC URLs fail over to
+ * each other in order.
+ * @param network The network to connect to
+ * @returns An ethers v6 provider
+ */
+export const createProvider = (network: NetworkConfig) => {
+  const staticNetwork = Network.from(network.chainId);
+  const providers = network.rpcUrls.map(url => new JsonRpcProvider(url, staticNetwork, { staticNetwork }));
+  if (providers.length === 1) {
+    return providers[0];
+  }
+  return new FallbackProvider(
+    providers.map((provider, index) => ({ provider, priority: index + 1 })),
+    staticNetwork,
+    { quorum: 1 }
+  );
+};
+
+const providers = new Map<string, ReturnType<typeof createProvider>>();
+
+/**
+ * Returns a shared provider for a registered network
+ * @param name The network name
+ * @throws Error if the network is not registered
+ */
+export const getProvider = (name: string) => {
+  let provider = providers.get(name);
+  if (!provider) {
+    const network = getNetwork(name);
+    if (!network) {
+      throw new Error(`Unknown network: ${name}`);
+    }
+    provider = createProvider(network);
+    providers.set(name, provider);
+  }
+  return provider;
+};
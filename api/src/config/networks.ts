@@ -0,0 +1,154 @@
+export interface FinalityConfig {
+  /** Confirmations after which data is treated as final and never re-indexed */
+  confirmationDepth: number;
+  /** Confirmations after which data is unlikely to be reorganized */
+  safeDepth: number;
+}
+
+export interface NetworkConfig extends FinalityConfig {
+  name: string;
+  chainId: number;
+  /** JSON-RPC endpoints, in order of preference */
+  rpcUrls: string[];
+  /** Average block time, used as the default indexer poll interval */
+  blockTimeMs: number;
+}
+
+const DEFAULT_FINALITY: FinalityConfig = {
+  confirmationDepth: 12,
+  safeDepth: 6
+};
+
+const LOCAL_RPC_URL = 'http://127.0.0.1:8545';
+
+const NETWORKS: Record<string, Omit<NetworkConfig, 'name'>> = {
+  ethereum: {
+    chainId: 1,
+    rpcUrls: ['https://cloudflare-eth.com'],
+    blockTimeMs: 12000,
+    confirmationDepth: 64,
+    safeDepth: 32
+  },
+  sepolia: {
+    chainId: 11155111,
+    rpcUrls: ['https://rpc.sepolia.org'],
+    blockTimeMs: 12000,
+    confirmationDepth: 64,
+    safeDepth: 32
+  },
+  polygon: {
+    chainId: 137,
+    rpcUrls: ['https://polygon-rpc.com'],
+    blockTimeMs: 2000,
+    confirmationDepth: 256,
+    safeDepth: 64
+  },
+  anvil: {
+    chainId: 31337,
+    rpcUrls: [LOCAL_RPC_URL],
+    blockTimeMs: 1000,
+    confirmationDepth: 1,
+    safeDepth: 1
+  },
+  localhost: {
+    chainId: 31337,
+    rpcUrls: [LOCAL_RPC_URL],
+    blockTimeMs: 1000,
+    confirmationDepth: 1,
+    safeDepth: 1
+  }
+};
+
+/**
+ * Parses CONFIRMATION_DEPTHS overrides in the form `network:depth[:safeDepth],...`
+ */
+const parseOverrides = (value?: string): Record<string, FinalityConfig> => {
+  const overrides: Record<string, FinalityConfig> = {};
+  if (!value) {
+    return overrides;
+  }
+
+  for (const entry of value.split(',')) {
+    const [network, depth, safe] = entry.trim().split(':');
+    const confirmationDepth = parseInt(depth, 10);
+    if (!network || !Number.isInteger(confirmationDepth) || confirmationDepth < 1) {
+      continue;
+    }
+    const safeDepth = parseInt(safe, 10);
+    overrides[network] = {
+      confirmationDepth,
+      safeDepth: Number.isInteger(safeDepth) && safeDepth > 0
+        ? Math.min(safeDepth, confirmationDepth)
+        : Math.ceil(confirmationDepth / 2)
+    };
+  }
+  return overrides;
+};
+
+/**
+ * Resolves RPC endpoints for a network: RPC_URLS_<NETWORK> (comma separated)
+ * wins, then RPC_URL for local nodes, then the built-in defaults
+ */
+const resolveRpcUrls = (name: string, defaults: string[]): string[] => {
+  const configured = process.env[`RPC_URLS_${name.toUpperCase()}`];
+  if (configured) {
+    return configured.split(',').map(url => url.trim()).filter(Boolean);
+  }
+  if (defaults.includes(LOCAL_RPC_URL) && process.env.RPC_URL) {
+    return [process.env.RPC_URL];
+  }
+  return defaults;
+};
+
+/**
+ * Checks whether a network is in the registry
+ * @param name The network name, as stored on Contract.network
+ */
+export const isKnownNetwork = (name: unknown): name is string =>
+  typeof name === 'string' && Object.prototype.hasOwnProperty.call(NETWORKS, name);
+
+/**
+ * Looks up a network with its environment overrides applied
+ * @param name The network name
+ * @returns The network configuration, or undefined if it is not registered
+ */
+export const getNetwork = (name: string): NetworkConfig | undefined => {
+  if (!isKnownNetwork(name)) {
+    return undefined;
+  }
+  const network = NETWORKS[name];
+  return {
+    ...network,
+    ...parseOverrides(process.env.CONFIRMATION_DEPTHS)[name],
+    name,
+    rpcUrls: resolveRpcUrls(name, network.rpcUrls)
+  };
+};
+
+/**
+ * Lists every registered network
+ */
+export const getNetworks = (): NetworkConfig[] =>
+  Object.keys(NETWORKS).map(name => getNetwork(name) as NetworkConfig);
+
+/**
+ * Resolves the confirmation depths for a network
+ * @param network The network name, as stored on Contract.network
+ * @returns The finality configuration, falling back to the defaults
+ */
+export const getFinalityConfig = (network?: string): FinalityConfig => {
+  const overrides = parseOverrides(process.env.CONFIRMATION_DEPTHS);
+  if (!network) {
+    return DEFAULT_FINALITY;
+  }
+  const config = overrides[network] ?? (isKnownNetwork(network) ? NETWORKS[network] : DEFAULT_FINALITY);
+  return { confirmationDepth: config.confirmationDepth, safeDepth: config.safeDepth };
+};
+
+/**
+ * Finds the network name for a chain ID
+ * @param chainId The EIP-155 chain ID
+ * @returns The network name, or undefined for unknown chains
+ */
+export const getNetworkForChainId = (chainId: number): string | undefined =>
+  Object.keys(NETWORKS).find(network => NETWORKS[network].chainId === chainId);
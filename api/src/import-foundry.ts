@@ -0,0 +1,52 @@
+import fs from 'fs';
+import { connectDatabase, closeDatabase } from './config/database';
+import { importFoundryBroadcast } from './indexer/foundryImport';
+import { logger } from './utils/logger';
+
+const USAGE = 'Usage: npm run import:foundry -- <run-latest.json> [--network <name>] [--no-backfill]';
+
+const parseArgs = (args: string[]) => {
+  let file: string | undefined;
+  let network: string | undefined;
+  let backfill = true;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--network') {
+      network = args[++i];
+    } else if (args[i] === '--no-backfill') {
+      backfill = false;
+    } else {
+      file = args[i];
+    }
+  }
+  return { file, network, backfill };
+};
+
+const main = async () => {
+  const { file, network, backfill } = parseArgs(process.argv.slice(2));
+  if (!file) {
+    logger.error(USAGE);
+    process.exit(1);
+  }
+
+  const broadcast = JSON.parse(fs.readFileSync(file, 'utf8'));
+  await connectDatabase();
+
+  try {
+    const result = await importFoundryBroadcast(broadcast, { network, backfill });
+    for (const contract of result.contracts) {
+      logger.info(`${contract.status === 'created' ? 'Registered' : 'Already registered'} ${contract.name}`, {
+        address: contract.address,
+        type: contract.type,
+        deployedAt: contract.deployedAt
+      });
+    }
+  } finally {
+    await closeDatabase();
+  }
+};
+
+main().catch(error => {
+  logger.error('Foundry import failed', error);
+  process.exit(1);
+});
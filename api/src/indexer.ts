@@ -0,0 +1,45 @@
+import { connectDatabase, closeDatabase } from './config/database';
+import { getIndexerConfig, getProvider } from './config/indexer';
+import { getFinalityConfig, isKnownNetwork } from './config/networks';
+import { BlockIndexer } from './indexer/BlockIndexer';
+import { BackfillRunner } from './indexer/BackfillRunner';
+import { MetadataFetcher } from './indexer/MetadataFetcher';
+import { SimilarityJob } from './indexer/SimilarityJob';
+import { logger } from './utils/logger';
+
+const main = async () => {
+  const config = getIndexerConfig();
+  const unknown = config.networks.filter(network => !isKnownNetwork(network));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown networks: ${unknown.join(', ')}`);
+  }
+
+  await connectDatabase();
+
+  // One live indexer and one backfill runner per network, each with its own provider
+  const workers: { start(): Promise<void>; stop(): void }[] = config.networks.flatMap(network => {
+    const provider = getProvider(network);
+    return [
+      new BlockIndexer(provider, { ...config, network, finality: getFinalityConfig(network) }),
+      new BackfillRunner(provider, { ...config, network, finality: getFinalityConfig(network) })
+    ];
+  });
+  workers.push(new MetadataFetcher({
+    ipfsGatewayUrl: config.ipfsGatewayUrl,
+    allowedHosts: config.metadataAllowedHosts,
+    maxResponseBytes: config.metadataMaxBytes
+  }));
+  workers.push(new SimilarityJob({ networks: config.networks, intervalMs: config.similarityIntervalMs }));
+
+  const shutdown = () => workers.forEach(worker => worker.stop());
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  await Promise.all(workers.map(worker => worker.start()));
+  await closeDatabase();
+};
+
+main().catch(error => {
+  logger.error('Indexer exited with an error', error);
+  process.exit(1);
+});
@@ -0,0 +1,359 @@
+import { Types } from 'mongoose';
+import { FinalityConfig, getFinalityConfig } from '../config/networks';
+import { Contract, IContract } from '../models/Contract';
+import { IIndexingStatus, IndexingStatus, IndexingStatusType } from '../models/IndexingStatus';
+import { logger } from '../utils/logger';
+import type { IndexerProvider } from './BlockIndexer';
+import { updateFinality } from './finality';
+import { saveBlock, saveEvent, saveTransaction } from './persistence';
+
+export interface BackfillRunnerOptions {
+  network: string;
+  pollIntervalMs?: number;
+  initialChunkSize?: number;
+  maxChunkSize?: number;
+  finality?: FinalityConfig;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_INITIAL_CHUNK_SIZE = 2000;
+const DEFAULT_MAX_CHUNK_SIZE = 10000;
+
+// Messages and codes nodes use when an eth_getLogs range returns too much data
+const RANGE_TOO_LARGE_PATTERNS = [
+  /block range/i,
+  /range (is )?too (large|wide)/i,
+  /more than \d+ results/i,
+  /limit exceeded/i,
+  /response size exceeded/i,
+  /too many (results|logs|blocks)/i,
+  /query timeout/i
+];
+const LIMIT_EXCEEDED_CODE = -32005;
+
+// What ethers errors and the JSON-RPC errors they wrap may carry
+interface RpcErrorFields {
+  code?: unknown;
+  message?: unknown;
+  shortMessage?: unknown;
+  error?: unknown;
+  info?: { error?: unknown };
+}
+
+const rpcErrorFields = (value: unknown): RpcErrorFields =>
+  typeof value === 'object' && value !== null ? value : {};
+
+/**
+ * Checks whether an RPC error means the getLogs range should be narrowed
+ * @param error The error thrown by the provider
+ * @returns true if retrying with a smaller range may succeed
+ */
+export const isRangeTooLargeError = (error: unknown): boolean => {
+  const err = rpcErrorFields(error);
+  const nested = rpcErrorFields(err.error ?? rpcErrorFields(err.info).error);
+  if (err.code === LIMIT_EXCEEDED_CODE || nested.code === LIMIT_EXCEEDED_CODE) {
+    return true;
+  }
+
+  const message = error instanceof Error ? error.message : err.message;
+  const messages = [message, err.shortMessage, nested.message].filter(
+    (message): message is string => typeof message === 'string'
+  );
+  return messages.some(message => RANGE_TOO_LARGE_PATTERNS.some(pattern => pattern.test(message)));
+};
+
+/**
+ * Queues a backfill job for a contract over a bounded block range. An open
+ * ended job (no endBlock) runs up to where live indexing took over.
+ * @param contract The contract to backfill
+ * @param startBlock The first block to index
+ * @param endBlock The last block to index, resolved when the job starts if omitted
+ * @returns The updated indexing status document
+ */
+export const scheduleBackfill = async (contract: IContract, startBlock: number, endBlock?: number) => {
+  const $set: Record<string, unknown> = {
+    startBlock,
+    progress: 0,
+    status: IndexingStatusType.PENDING,
+    isIndexing: false
+  };
+  const $unset: Record<string, ''> = { currentBlock: '', error: '' };
+  if (endBlock != null) {
+    $set.endBlock = endBlock;
+  } else {
+    $unset.endBlock = '';
+  }
+
+  return IndexingStatus.findOneAndUpdate(
+    { contract: contract._id },
+    {
+      $set,
+      $unset,
+      $setOnInsert: {
+        lastIndexedBlock: contract.lastIndexedBlock ?? 0,
+        lastIndexedAt: Date.now()
+      }
+    },
+    { upsert: true, new: true }
+  );
+};
+
+const calculateProgress = (startBlock: number, endBlock: number, currentBlock: number) => {
+  const total = endBlock - startBlock + 1;
+  const done = currentBlock - startBlock + 1;
+  return total > 0 ? Math.min(100, Math.round((done / total) * 10000) / 100) : 100;
+};
+
+/**
+ * Processes queued IndexingStatus backfill jobs for one network, one at a
+ * time, fetching logs in chunks that shrink when the node rejects a range and
+ * grow back after successful requests.
+ */
+export class BackfillRunner {
+  private provider: IndexerProvider;
+  private network: string;
+  private pollIntervalMs: number;
+  private initialChunkSize: number;
+  private maxChunkSize: number;
+  private finality: FinalityConfig;
+  private running = false;
+  private stopRequested = false;
+  private sleepTimer?: NodeJS.Timeout;
+  private wake?: () => void;
+
+  constructor(provider: IndexerProvider, options: BackfillRunnerOptions) {
+    this.provider = provider;
+    this.network = options.network;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.maxChunkSize = options.maxChunkSize ?? DEFAULT_MAX_CHUNK_SIZE;
+    this.initialChunkSize = Math.min(options.initialChunkSize ?? DEFAULT_INITIAL_CHUNK_SIZE, this.maxChunkSize);
+    this.finality = options.finality ?? getFinalityConfig(options.network);
+  }
+
+  /**
+   * Resumes interrupted jobs, then processes the queue until stop() is called
+   */
+  async start(): Promise<void> {
+    this.running = true;
+    this.stopRequested = false;
+    await this.resumeInterrupted();
+    logger.info('Backfill runner started', { network: this.network });
+
+    while (this.running) {
+      let processed = false;
+      try {
+        processed = await this.runNext();
+      } catch (error) {
+        logger.error('Backfill runner poll failed', error as Error);
+      }
+
+      if (this.running && !processed) {
+        await this.sleep(this.pollIntervalMs);
+      }
+    }
+
+    logger.info('Backfill runner stopped', { network: this.network });
+  }
+
+  /**
+   * Stops after the in-flight chunk; the job stays RUNNING and resumes on restart
+   */
+  stop(): void {
+    this.running = false;
+    this.stopRequested = true;
+    if (this.sleepTimer) {
+      clearTimeout(this.sleepTimer);
+      this.sleepTimer = undefined;
+    }
+    this.wake?.();
+  }
+
+  /**
+   * Puts jobs left RUNNING by a crashed worker back in the queue. Their
+   * currentBlock is kept so they continue where they stopped.
+   */
+  async resumeInterrupted(): Promise<number> {
+    const result = await IndexingStatus.updateMany(
+      {
+        contract: { $in: await this.networkContracts() },
+        status: IndexingStatusType.RUNNING,
+        startBlock: { $ne: null }
+      },
+      { $set: { status: IndexingStatusType.PENDING, isIndexing: false } }
+    );
+    if (result.modifiedCount > 0) {
+      logger.info('Re-queued interrupted backfill jobs', { count: result.modifiedCount });
+    }
+    return result.modifiedCount;
+  }
+
+  /**
+   * Claims and runs the oldest pending job
+   * @returns true if a job was processed
+   */
+  async runNext(): Promise<boolean> {
+    const job = await IndexingStatus.findOneAndUpdate(
+      {
+        contract: { $in: await this.networkContracts() },
+        status: IndexingStatusType.PENDING,
+        startBlock: { $ne: null }
+      },
+      { $set: { status: IndexingStatusType.RUNNING, isIndexing: true } },
+      { sort: { updatedAt: 1 }, new: true }
+    );
+    if (!job) {
+      return false;
+    }
+
+    try {
+      await this.runJob(job);
+    } catch (error) {
+      logger.error('Backfill job failed', error as Error, { contract: job.contract.toString() });
+      await IndexingStatus.updateOne(
+        { _id: job._id },
+        {
+          $set: {
+            status: IndexingStatusType.FAILED,
+            isIndexing: false,
+            error: (error as Error).message
+          }
+        }
+      );
+    }
+    return true;
+  }
+
+  private async networkContracts(): Promise<Types.ObjectId[]> {
+    return (await Contract.distinct('_id', { network: this.network })) as Types.ObjectId[];
+  }
+
+  private async runJob(job: IIndexingStatus) {
+    const contract = await Contract.findById(job.contract);
+    if (!contract) {
+      throw new Error('Contract not found');
+    }
+
+    const startBlock = job.startBlock as number;
+    const endBlock = job.endBlock ?? (await this.resolveEndBlock(job, contract));
+    let fromBlock = job.currentBlock != null ? job.currentBlock + 1 : startBlock;
+    let chunkSize = this.initialChunkSize;
+
+    logger.info('Running backfill job', {
+      contract: contract.address,
+      fromBlock,
+      endBlock
+    });
+
+    while (fromBlock <= endBlock) {
+      if (this.stopRequested) {
+        return;
+      }
+
+      const toBlock = Math.min(endBlock, fromBlock + chunkSize - 1);
+      try {
+        await this.indexChunk(contract, fromBlock, toBlock);
+      } catch (error) {
+        if (isRangeTooLargeError(error) && chunkSize > 1) {
+          chunkSize = Math.max(1, Math.floor(chunkSize / 2));
+          logger.debug('Shrinking backfill chunk', { fromBlock, chunkSize });
+          continue;
+        }
+        throw error;
+      }
+
+      // Backfilled rows start unconfirmed like live ones, so they are confirmed against the head
+      await updateFinality(this.network, await this.provider.getBlockNumber(), this.finality);
+
+      // Only advance while the job is still ours; a pause or reset stops the loop
+      const updated = await IndexingStatus.findOneAndUpdate(
+        { _id: job._id, status: IndexingStatusType.RUNNING },
+        {
+          $set: {
+            currentBlock: toBlock,
+            progress: calculateProgress(startBlock, endBlock, toBlock)
+          }
+        },
+        { new: true }
+      );
+      if (!updated) {
+        logger.info('Backfill job interrupted', { contract: contract.address, currentBlock: toBlock });
+        return;
+      }
+
+      fromBlock = toBlock + 1;
+      chunkSize = Math.min(this.maxChunkSize, chunkSize * 2);
+    }
+
+    await IndexingStatus.updateOne(
+      { _id: job._id, status: IndexingStatusType.RUNNING },
+      {
+        $set: {
+          status: IndexingStatusType.COMPLETED,
+          isIndexing: false,
+          progress: 100
+        }
+      }
+    );
+    logger.info('Backfill job completed', { contract: contract.address, endBlock });
+  }
+
+  /**
+   * Open-ended jobs run up to where live indexing starts. If the live indexer
+   * has not picked the contract up yet, hand it over at the current head.
+   */
+  private async resolveEndBlock(job: IIndexingStatus, contract: IContract): Promise<number> {
+    let endBlock = contract.lastIndexedBlock;
+    if (endBlock == null) {
+      endBlock = await this.provider.getBlockNumber();
+      await Contract.updateOne(
+        { _id: contract._id, lastIndexedBlock: null },
+        { $set: { lastIndexedBlock: endBlock } }
+      );
+    }
+    await IndexingStatus.updateOne({ _id: job._id }, { $set: { endBlock } });
+    return endBlock;
+  }
+
+  private async indexChunk(contract: IContract, fromBlock: number, toBlock: number) {
+    const logs = await this.provider.getLogs({
+      address: contract.address,
+      fromBlock,
+      toBlock
+    });
+
+    const timestamps = new Map<number, number>();
+    const savedTransactions = new Set<string>();
+
+    for (const log of logs) {
+      if (log.removed) {
+        continue;
+      }
+
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await this.provider.getBlock(log.blockNumber);
+        if (!block) {
+          throw new Error(`Block ${log.blockNumber} not found`);
+        }
+        await saveBlock(this.network, block);
+        timestamps.set(log.blockNumber, block.timestamp);
+      }
+      const timestamp = timestamps.get(log.blockNumber);
+
+      if (!savedTransactions.has(log.transactionHash)) {
+        await saveTransaction(this.provider, contract, log.transactionHash, timestamp);
+        savedTransactions.add(log.transactionHash);
+      }
+      await saveEvent(contract, log, timestamp);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this.wake = resolve;
+      this.sleepTimer = setTimeout(() => {
+        this.sleepTimer = undefined;
+        resolve();
+      }, ms);
+    });
+  }
+}
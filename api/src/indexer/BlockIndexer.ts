@@ -0,0 +1,284 @@
+import { Block as ChainBlock, Provider } from 'ethers';
+import { Block } from '../models/Block';
+import { Contract, IContract } from '../models/Contract';
+import { IndexingStatus, IndexingStatusType } from '../models/IndexingStatus';
+import { logger } from '../utils/logger';
+import { FinalityConfig, getFinalityConfig, getNetwork } from '../config/networks';
+import { updateFinality } from './finality';
+import { saveBlock, saveEvent, saveTransaction } from './persistence';
+import {
+  DEFAULT_MAX_REORG_DEPTH,
+  findCommonAncestor,
+  linksToStoredParent,
+  rollbackToBlock,
+  RollbackResult
+} from './reorg';
+
+/**
+ * The subset of the ethers provider API the indexer relies on. Keeping it
+ * narrow lets tests (or a local anvil node) stand in for a full provider.
+ */
+export type IndexerProvider = Pick<
+  Provider,
+  'getBlockNumber' | 'getBlock' | 'getLogs' | 'getTransaction' | 'getTransactionReceipt'
+>;
+
+export interface BlockIndexerOptions {
+  network: string;
+  pollIntervalMs?: number;
+  maxBlockRange?: number;
+  maxReorgDepth?: number;
+  finality?: FinalityConfig;
+}
+
+interface ContractCursor {
+  contract: IContract;
+  nextBlock: number;
+}
+
+export interface PollResult {
+  fromBlock: number;
+  toBlock: number;
+  latestBlock: number;
+  eventCount: number;
+  reorg?: RollbackResult;
+}
+
+interface BlockHeader {
+  hash: string;
+  timestamp: number;
+}
+
+interface SyncResult {
+  headers: Map<number, BlockHeader>;
+  reorg?: RollbackResult;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 4000;
+const DEFAULT_MAX_BLOCK_RANGE = 100;
+
+/**
+ * Follows the chain head, fetching logs for every registered contract and
+ * persisting the blocks, transactions and events they belong to.
+ */
+export class BlockIndexer {
+  private provider: IndexerProvider;
+  private network: string;
+  private pollIntervalMs: number;
+  private maxBlockRange: number;
+  private maxReorgDepth: number;
+  private finality: FinalityConfig;
+  private running = false;
+  private sleepTimer?: NodeJS.Timeout;
+  private wake?: () => void;
+
+  constructor(provider: IndexerProvider, options: BlockIndexerOptions) {
+    this.provider = provider;
+    this.network = options.network;
+    this.pollIntervalMs =
+      options.pollIntervalMs ?? getNetwork(options.network)?.blockTimeMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.maxBlockRange = options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+    this.maxReorgDepth = options.maxReorgDepth ?? DEFAULT_MAX_REORG_DEPTH;
+    this.finality = options.finality ?? getFinalityConfig(options.network);
+  }
+
+  /**
+   * Runs the polling loop until stop() is called
+   */
+  async start(): Promise<void> {
+    this.running = true;
+    logger.info('Block indexer started', { network: this.network });
+
+    while (this.running) {
+      let caughtUp = true;
+      try {
+        const result = await this.poll();
+        // Re-index immediately after a rollback instead of waiting for the next tick
+        caughtUp = !result || (!result.reorg && result.toBlock >= result.latestBlock);
+      } catch (error) {
+        logger.error('Block indexer poll failed', error as Error);
+      }
+
+      if (this.running && caughtUp) {
+        await this.sleep(this.pollIntervalMs);
+      }
+    }
+
+    logger.info('Block indexer stopped', { network: this.network });
+  }
+
+  /**
+   * Stops the polling loop after the in-flight poll completes
+   */
+  stop(): void {
+    this.running = false;
+    if (this.sleepTimer) {
+      clearTimeout(this.sleepTimer);
+      this.sleepTimer = undefined;
+    }
+    this.wake?.();
+  }
+
+  /**
+   * Indexes the next range of blocks for all registered contracts
+   * @returns The processed range, or null when there was nothing to do
+   */
+  async poll(): Promise<PollResult | null> {
+    // Paused contracts are skipped by live indexing as well as by backfills
+    const paused = await IndexingStatus.distinct('contract', { status: IndexingStatusType.PAUSED });
+    const contracts = await Contract.find({ network: this.network, _id: { $nin: paused } });
+    if (contracts.length === 0) {
+      return null;
+    }
+
+    const latestBlock = await this.provider.getBlockNumber();
+    const cursors: ContractCursor[] = contracts.map(contract => ({
+      contract,
+      nextBlock: this.getNextBlock(contract, latestBlock)
+    }));
+
+    const fromBlock = Math.min(...cursors.map(cursor => cursor.nextBlock));
+    if (fromBlock > latestBlock) {
+      return null;
+    }
+    const toBlock = Math.min(latestBlock, fromBlock + this.maxBlockRange - 1);
+
+    const { headers, reorg } = await this.syncBlocks(fromBlock, toBlock);
+    if (reorg) {
+      return { fromBlock, toBlock: reorg.ancestor, latestBlock, eventCount: 0, reorg };
+    }
+
+    const eventCount = await this.indexLogs(cursors, fromBlock, toBlock, headers);
+
+    for (const cursor of cursors) {
+      if (cursor.nextBlock <= toBlock) {
+        await this.advanceCursor(cursor.contract, toBlock);
+      }
+    }
+    await updateFinality(this.network, latestBlock, this.finality);
+
+    logger.debug('Indexed block range', { network: this.network, fromBlock, toBlock, latestBlock, eventCount });
+    return { fromBlock, toBlock, latestBlock, eventCount };
+  }
+
+  private getNextBlock(contract: IContract, latestBlock: number): number {
+    // History before the head is covered by backfill jobs, see BackfillRunner
+    if (contract.lastIndexedBlock != null) {
+      return contract.lastIndexedBlock + 1;
+    }
+    return latestBlock;
+  }
+
+  private async syncBlocks(fromBlock: number, toBlock: number): Promise<SyncResult> {
+    const headers = new Map<number, BlockHeader>();
+    for (let number = fromBlock; number <= toBlock; number++) {
+      const block = await this.provider.getBlock(number);
+      if (!block) {
+        throw new Error(`Block ${number} not found`);
+      }
+
+      const orphanedFrom = await this.detectReorg(block);
+      if (orphanedFrom != null) {
+        const ancestor = await findCommonAncestor(this.provider, this.network, orphanedFrom, this.maxReorgDepth);
+        return { headers, reorg: await rollbackToBlock(this.network, ancestor) };
+      }
+
+      await saveBlock(this.network, block);
+      headers.set(number, { hash: block.hash as string, timestamp: block.timestamp });
+    }
+    return { headers };
+  }
+
+  /**
+   * Compares a fetched block with what is stored at and below its height
+   * @returns The highest stored height that may be orphaned, or null if the chain is consistent
+   */
+  private async detectReorg(block: ChainBlock): Promise<number | null> {
+    const stored = await Block.findOne({ network: this.network, number: block.number }).lean();
+    if (stored && stored.hash !== block.hash) {
+      return block.number;
+    }
+    if (!(await linksToStoredParent(this.network, block.number, block.parentHash))) {
+      logger.warn('Parent hash mismatch detected', {
+        network: this.network,
+        number: block.number,
+        parentHash: block.parentHash
+      });
+      return block.number - 1;
+    }
+    return null;
+  }
+
+  private async indexLogs(
+    cursors: ContractCursor[],
+    fromBlock: number,
+    toBlock: number,
+    headers: Map<number, BlockHeader>
+  ): Promise<number> {
+    const byAddress = new Map<string, ContractCursor>();
+    for (const cursor of cursors) {
+      if (cursor.nextBlock <= toBlock) {
+        byAddress.set(cursor.contract.address.toLowerCase(), cursor);
+      }
+    }
+
+    const logs = await this.provider.getLogs({
+      address: Array.from(byAddress.keys()),
+      fromBlock,
+      toBlock
+    });
+
+    const savedTransactions = new Set<string>();
+    let eventCount = 0;
+
+    for (const log of logs) {
+      const cursor = byAddress.get(log.address.toLowerCase());
+      // Skip logs from contracts that already indexed this block
+      if (!cursor || log.blockNumber < cursor.nextBlock || log.removed) {
+        continue;
+      }
+
+      // The chain moved between syncing headers and fetching logs; the next poll rolls it back
+      const header = headers.get(log.blockNumber);
+      if (header && log.blockHash !== header.hash) {
+        throw new Error(`Log block hash mismatch at block ${log.blockNumber}`);
+      }
+
+      const timestamp = header?.timestamp;
+
+      if (!savedTransactions.has(log.transactionHash)) {
+        await saveTransaction(this.provider, cursor.contract, log.transactionHash, timestamp);
+        savedTransactions.add(log.transactionHash);
+      }
+
+      await saveEvent(cursor.contract, log, timestamp);
+      eventCount++;
+    }
+
+    return eventCount;
+  }
+
+  private async advanceCursor(contract: IContract, toBlock: number) {
+    await Contract.updateOne({ _id: contract._id }, { $set: { lastIndexedBlock: toBlock } });
+    await IndexingStatus.findOneAndUpdate(
+      { contract: contract._id },
+      {
+        $set: {
+          lastIndexedBlock: toBlock,
+          lastIndexedAt: Date.now()
+        }
+      },
+      { upsert: true }
+    );
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this.wake = resolve;
+      this.sleepTimer = setTimeout(() => {
+        this.sleepTimer = undefined;
+        resolve();
+      }, ms);
+    });
+  }
+}
@@ -0,0 +1,342 @@
+import { lookup as dnsLookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { Types } from 'mongoose';
+import { IMetadataCache, MetadataCache, MetadataCacheStatus } from '../models/MetadataCache';
+import { logger } from '../utils/logger';
+
+export interface MetadataFetcherOptions {
+  pollIntervalMs?: number;
+  // Base URL that ipfs:// URIs are resolved against
+  ipfsGatewayUrl?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+  // Delay before a failed entry is retried
+  retryDelayMs?: number;
+  // Hosts metadata may be fetched from besides the IPFS gateway; any public host when unset
+  allowedHosts?: string[];
+  // Larger responses are marked invalid
+  maxResponseBytes?: number;
+  // Resolves a hostname to its addresses, checked before each request
+  lookup?: (hostname: string) => Promise<string[]>;
+  fetch?: typeof fetch;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+export const DEFAULT_IPFS_GATEWAY_URL = 'https://ipfs.io/ipfs/';
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 60000;
+export const DEFAULT_MAX_RESPONSE_BYTES = 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local, shared, multicast and reserved ranges
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3]
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is off the public internet. IPv4-mapped IPv6
+ * addresses are checked as IPv4, NAT64 ones and anything that is not an IP
+ * address count as private.
+ * @param address The IPv4 or IPv6 address
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * A metadata URL or response refused outright, so it is marked invalid
+ * instead of being retried
+ */
+export class RejectedMetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RejectedMetadataError';
+  }
+}
+
+/**
+ * Maps a token URI to an HTTP(S) URL that can be fetched
+ * @param uri The URI stored on chain
+ * @param ipfsGatewayUrl The gateway used for ipfs:// URIs
+ * @returns The URL to request
+ */
+export const resolveMetadataUrl = (uri: string, ipfsGatewayUrl = DEFAULT_IPFS_GATEWAY_URL): string => {
+  if (uri.startsWith('ipfs://')) {
+    const path = uri.slice('ipfs://'.length).replace(/^ipfs\//, '');
+    return `${ipfsGatewayUrl.replace(/\/?$/, '/')}${path}`;
+  }
+  if (uri.startsWith('ar://')) {
+    return `https://arweave.net/${uri.slice('ar://'.length)}`;
+  }
+  return uri;
+};
+
+/**
+ * Queues a token URI for fetching unless it is already cached
+ * @param contract The contract the token belongs to
+ * @param tokenId The token ID
+ * @param uri The metadata URI
+ */
+export const queueMetadata = async (contract: Types.ObjectId, tokenId: string, uri: string) => {
+  try {
+    new URL(uri);
+  } catch (error) {
+    logger.debug('Skipping metadata with an invalid URI', { tokenId, uri });
+    return;
+  }
+  await MetadataCache.updateOne(
+    { contract, tokenId, uri },
+    { $setOnInsert: { status: MetadataCacheStatus.PENDING, retryCount: 0 } },
+    { upsert: true }
+  );
+};
+
+/**
+ * Resolves queued MetadataCache entries by fetching their URIs. Entries that
+ * fail are retried after a delay until maxRetries; responses that are not a
+ * JSON object, or that fail the cache's validation, are marked invalid.
+ * URIs come from chain, so only http(s) URLs on public addresses (or the
+ * configured IPFS gateway) are requested, redirects included, and responses
+ * are read up to maxResponseBytes.
+ */
+export class MetadataFetcher {
+  private pollIntervalMs: number;
+  private ipfsGatewayUrl: string;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private retryDelayMs: number;
+  private gatewayOrigin: string;
+  private allowedHosts?: string[];
+  private maxResponseBytes: number;
+  private lookup: (hostname: string) => Promise<string[]>;
+  private fetch: typeof fetch;
+  private running = false;
+  private sleepTimer?: NodeJS.Timeout;
+  private wake?: () => void;
+
+  constructor(options: MetadataFetcherOptions = {}) {
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.ipfsGatewayUrl = options.ipfsGatewayUrl ?? DEFAULT_IPFS_GATEWAY_URL;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.gatewayOrigin = new URL(this.ipfsGatewayUrl).origin;
+    this.allowedHosts = options.allowedHosts?.map(host => host.toLowerCase());
+    this.maxResponseBytes = options.maxResponseBytes ?? DEFAULT_MAX_RESPONSE_BYTES;
+    this.lookup = options.lookup ??
+      (async hostname => (await dnsLookup(hostname, { all: true })).map(entry => entry.address));
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Re-queues entries a crashed worker left mid-fetch, then resolves the
+   * queue until stop() is called
+   */
+  async start(): Promise<void> {
+    this.running = true;
+    await MetadataCache.updateMany(
+      { status: MetadataCacheStatus.FETCHING },
+      { $set: { status: MetadataCacheStatus.PENDING } }
+    );
+    logger.info('Metadata fetcher started');
+
+    while (this.running) {
+      let processed = false;
+      try {
+        processed = await this.runNext();
+      } catch (error) {
+        logger.error('Metadata fetcher poll failed', error as Error);
+      }
+
+      if (this.running && !processed) {
+        await this.sleep(this.pollIntervalMs);
+      }
+    }
+
+    logger.info('Metadata fetcher stopped');
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.sleepTimer) {
+      clearTimeout(this.sleepTimer);
+      this.sleepTimer = undefined;
+    }
+    this.wake?.();
+  }
+
+  /**
+   * Claims and resolves the oldest queued entry
+   * @returns true if an entry was processed
+   */
+  async runNext(): Promise<boolean> {
+    const entry = await MetadataCache.findOneAndUpdate(
+      {
+        $or: [
+          { status: MetadataCacheStatus.PENDING },
+          {
+            status: MetadataCacheStatus.FAILED,
+            retryCount: { $lt: this.maxRetries },
+            updatedAt: { $lte: new Date(Date.now() - this.retryDelayMs) }
+          }
+        ]
+      },
+      { $set: { status: MetadataCacheStatus.FETCHING } },
+      { sort: { updatedAt: 1 }, new: true }
+    );
+    if (!entry) {
+      return false;
+    }
+
+    await this.resolve(entry);
+    return true;
+  }
+
+  private async resolve(entry: IMetadataCache): Promise<void> {
+    let body: unknown;
+    try {
+      body = await this.request(new URL(resolveMetadataUrl(entry.uri, this.ipfsGatewayUrl)));
+    } catch (error) {
+      if (error instanceof RejectedMetadataError) {
+        await this.markInvalid(entry, error.message);
+        logger.warn('Rejected token metadata', { uri: entry.uri, error: error.message });
+        return;
+      }
+      await MetadataCache.updateOne(
+        { _id: entry._id },
+        { $set: { status: MetadataCacheStatus.FAILED, error: (error as Error).message }, $inc: { retryCount: 1 } }
+      );
+      logger.warn('Failed to fetch token metadata', { uri: entry.uri, error: (error as Error).message });
+      return;
+    }
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      await this.markInvalid(entry, 'Metadata is not a JSON object');
+      return;
+    }
+
+    entry.metadata = body as IMetadataCache['metadata'];
+    entry.status = MetadataCacheStatus.SUCCESS;
+    entry.error = undefined;
+    try {
+      await entry.save();
+    } catch (error) {
+      await this.markInvalid(entry, (error as Error).message);
+    }
+  }
+
+  /**
+   * Fetches a URL and parses its JSON body, following redirects by hand so
+   * every hop is checked
+   */
+  private async request(url: URL): Promise<unknown> {
+    for (let redirects = 0; ; redirects++) {
+      await this.assertFetchable(url);
+      const response = await this.fetch(url.toString(), {
+        signal: AbortSignal.timeout(this.timeoutMs),
+        redirect: 'manual'
+      });
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        if (redirects === MAX_REDIRECTS) {
+          throw new RejectedMetadataError('Too many redirects');
+        }
+        url = new URL(location, url);
+        continue;
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return JSON.parse(await this.readBody(response));
+    }
+  }
+
+  /**
+   * Throws unless a URL is http(s), on an allowed host and resolves to
+   * public addresses only. The configured IPFS gateway is trusted as is.
+   */
+  private async assertFetchable(url: URL): Promise<void> {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new RejectedMetadataError(`Unsupported protocol ${url.protocol}`);
+    }
+    if (url.origin === this.gatewayOrigin) {
+      return;
+    }
+    if (this.allowedHosts && !this.allowedHosts.includes(url.hostname)) {
+      throw new RejectedMetadataError(`Host ${url.hostname} is not allowed`);
+    }
+    const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+    const addresses = isIP(hostname) ? [hostname] : await this.lookup(hostname);
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+      throw new RejectedMetadataError(`Host ${url.hostname} resolves to a private address`);
+    }
+  }
+
+  /**
+   * Reads a response body, giving up once it grows past maxResponseBytes
+   */
+  private async readBody(response: Response): Promise<string> {
+    const tooLarge = () => new RejectedMetadataError(`Response exceeds ${this.maxResponseBytes} bytes`);
+    if (Number(response.headers.get('content-length')) > this.maxResponseBytes) {
+      throw tooLarge();
+    }
+    if (!response.body) {
+      return '';
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      size += chunk.value.byteLength;
+      if (size > this.maxResponseBytes) {
+        await reader.cancel();
+        throw tooLarge();
+      }
+      chunks.push(chunk.value);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  private async markInvalid(entry: IMetadataCache, error: string) {
+    await MetadataCache.updateOne(
+      { _id: entry._id },
+      { $set: { status: MetadataCacheStatus.INVALID, error }, $unset: { metadata: '' } }
+    );
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this.wake = resolve;
+      this.sleepTimer = setTimeout(() => {
+        this.sleepTimer = undefined;
+        resolve();
+      }, ms);
+    });
+  }
+}
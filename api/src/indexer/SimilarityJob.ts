@@ -0,0 +1,155 @@
+import { EngagementEntry, EngagementEntryType } from '../models/EngagementEntry';
+import { ItemSimilarity } from '../models/ItemSimilarity';
+import { Sale } from '../models/Sale';
+import { UserInteraction } from '../models/UserInteraction';
+import { logger } from '../utils/logger';
+import { INTERACTION_TYPES, INTERACTION_WEIGHTS } from '../utils/recommendationGraph';
+import {
+  buildMatrix,
+  DEFAULT_SIMILARITY_OPTIONS,
+  itemSimilarities,
+  PURCHASE_WEIGHT,
+  Signal,
+  SimilarityOptions
+} from '../utils/recommendations';
+
+export interface SimilarityJobOptions {
+  networks: string[];
+  intervalMs?: number;
+  similarity?: SimilarityOptions;
+}
+
+const DEFAULT_SIMILARITY_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Reads the activity on tracks indexed on a network: RecommendationGraph
+ * interactions, FanEngagement points earned on a known track, and primary
+ * and marketplace purchases. Tracks are token IDs of the network's MusicNFT.
+ * @param network The network
+ * @param user Only this user's activity, lowercased
+ */
+export const loadSignals = async (network: string, user?: string): Promise<Signal[]> => {
+  const [interactions, points, purchases] = await Promise.all([
+    UserInteraction.aggregate([
+      { $match: { network, ...(user && { user }) } },
+      { $group: { _id: { user: '$user', tokenId: '$tokenId', type: '$interactionType' }, count: { $sum: 1 } } }
+    ]),
+    EngagementEntry.aggregate([
+      { $match: { network, type: EngagementEntryType.POINTS_EARNED, tokenId: { $ne: null }, ...(user && { user }) } },
+      { $group: { _id: { user: '$user', tokenId: '$tokenId', action: '$action' }, points: { $sum: '$points' } } }
+    ]),
+    Sale.aggregate([
+      { $match: { network, ...(user && { buyer: user }) } },
+      { $group: { _id: { user: '$buyer', tokenId: '$tokenId' }, count: { $sum: 1 } } }
+    ])
+  ]);
+
+  return [
+    ...interactions.map(({ _id, count }) => ({
+      user: _id.user,
+      tokenId: _id.tokenId,
+      action: INTERACTION_TYPES[_id.type] ?? String(_id.type),
+      weight: (INTERACTION_WEIGHTS[_id.type] ?? 0) * count
+    })),
+    ...points.map(({ _id, points }) => ({ user: _id.user, tokenId: _id.tokenId, action: _id.action, weight: points })),
+    ...purchases.map(({ _id, count }) => ({
+      user: _id.user,
+      tokenId: _id.tokenId,
+      action: 'purchase',
+      weight: PURCHASE_WEIGHT * count
+    }))
+  ];
+};
+
+/**
+ * Periodically recomputes the item-item similarities collaborative
+ * filtering recommends from, one network at a time, in process
+ */
+export class SimilarityJob {
+  private networks: string[];
+  private intervalMs: number;
+  private similarity: SimilarityOptions;
+  private running = false;
+  private sleepTimer?: NodeJS.Timeout;
+  private wake?: () => void;
+
+  constructor(options: SimilarityJobOptions) {
+    this.networks = options.networks;
+    this.intervalMs = options.intervalMs ?? DEFAULT_SIMILARITY_INTERVAL_MS;
+    this.similarity = options.similarity ?? DEFAULT_SIMILARITY_OPTIONS;
+  }
+
+  /**
+   * Recomputes every network on start, then once per interval until stop()
+   * is called
+   */
+  async start(): Promise<void> {
+    this.running = true;
+    logger.info('Similarity job started', { networks: this.networks, intervalMs: this.intervalMs });
+
+    while (this.running) {
+      for (const network of this.networks) {
+        if (!this.running) {
+          break;
+        }
+        try {
+          await this.run(network);
+        } catch (error) {
+          logger.error('Similarity job failed', error as Error);
+        }
+      }
+
+      if (this.running) {
+        await this.sleep(this.intervalMs);
+      }
+    }
+
+    logger.info('Similarity job stopped');
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.sleepTimer) {
+      clearTimeout(this.sleepTimer);
+      this.sleepTimer = undefined;
+    }
+    this.wake?.();
+  }
+
+  /**
+   * Replaces a network's similarities with ones computed from its current
+   * activity
+   * @param network The network
+   * @returns The number of similarity rows stored, one per track and similar track
+   */
+  async run(network: string): Promise<number> {
+    const computedAt = new Date();
+    const similarities = itemSimilarities(buildMatrix(await loadSignals(network)), this.similarity);
+
+    const rows = [...similarities].flatMap(([tokenId, items]) =>
+      items.map(item => ({
+        updateOne: {
+          filter: { network, tokenId, similarTokenId: item.tokenId },
+          update: { $set: { similarity: item.similarity, commonUsers: item.commonUsers, computedAt } },
+          upsert: true
+        }
+      })));
+    if (rows.length) {
+      await ItemSimilarity.bulkWrite(rows);
+    }
+    await ItemSimilarity.deleteMany({ network, computedAt: { $ne: computedAt } });
+
+    logger.info('Item similarities computed', { network, tracks: similarities.size, pairs: rows.length });
+    return rows.length;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this.wake = resolve;
+      this.sleepTimer = setTimeout(() => {
+        this.sleepTimer = undefined;
+        resolve();
+      }, ms);
+    });
+  }
+}
@@ -0,0 +1,237 @@
+import fs from 'fs';
+import path from 'path';
+import { Indexed, Interface, InterfaceAbi, JsonFragment, ParamType, Result } from 'ethers';
+import { IContract } from '../../models/Contract';
+import { logger } from '../../utils/logger';
+import { CONTRACT_TYPE_PROFILES } from '../contractTypes';
+import { ABI_ALIASES, TUNEFI_ABIS } from './tunefi';
+
+export interface DecodedEvent {
+  name: string;
+  signature: string;
+  args: Record<string, unknown>;
+}
+
+export interface DecodedCall {
+  name: string;
+  signature: string;
+  args: Record<string, unknown>;
+}
+
+export interface RawLog {
+  topics: readonly string[];
+  data: string;
+}
+
+export type AbiContract = Pick<IContract, 'address' | 'name' | 'type'> & { abi?: string };
+
+/**
+ * Converts a decoded ABI value into something MongoDB can store: bigints
+ * become decimal strings, addresses are lowercased, tuples become objects
+ * and indexed dynamic values are replaced by their topic hash.
+ * @param value The decoded value
+ * @param param The ABI parameter describing the value
+ * @returns A JSON-safe representation
+ */
+export const serializeValue = (value: unknown, param: ParamType): unknown => {
+  if (Indexed.isIndexed(value)) {
+    return value.hash;
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (param.isArray() && Array.isArray(value)) {
+    return value.map(item => serializeValue(item, param.arrayChildren));
+  }
+  if (param.isTuple() && Array.isArray(value)) {
+    return serializeArgs(value as Result, param.components);
+  }
+  if (param.type === 'address' && typeof value === 'string') {
+    return value.toLowerCase();
+  }
+  return value;
+};
+
+const serializeArgs = (values: Result | unknown[], params: readonly ParamType[]) => {
+  const args: Record<string, unknown> = {};
+  params.forEach((param, index) => {
+    args[param.name || String(index)] = serializeValue(values[index], param);
+  });
+  return args;
+};
+
+/**
+ * Maps contracts to the ABI used to decode their logs. ABIs are registered
+ * by name (MusicNFT, Marketplace, ...) and a contract resolves to one through
+ * an explicit address binding, its `abi` field, its name or the default ABI
+ * of its type.
+ */
+export class AbiRegistry {
+  private interfaces = new Map<string, Interface>();
+  private bindings = new Map<string, string>();
+
+  /**
+   * Registers (or replaces) an ABI under a name
+   */
+  register(name: string, abi: InterfaceAbi): void {
+    this.interfaces.set(name, new Interface(abi));
+    const alias = ABI_ALIASES[name];
+    if (alias) {
+      this.interfaces.set(alias, this.interfaces.get(name) as Interface);
+    }
+  }
+
+  has(name: string): boolean {
+    return this.interfaces.has(name);
+  }
+
+  get(name: string): Interface | undefined {
+    return this.interfaces.get(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.interfaces.keys()).sort();
+  }
+
+  /**
+   * Binds a contract address to a registered ABI name
+   */
+  bind(address: string, name: string): void {
+    if (!this.has(name)) {
+      throw new Error(`Unknown ABI: ${name}`);
+    }
+    this.bindings.set(address.toLowerCase(), name);
+  }
+
+  /**
+   * Registers every contract artifact found in a Foundry `out/` directory
+   * @param outDir Path to the Foundry output directory
+   * @returns The names of the registered artifacts
+   */
+  loadFoundryArtifacts(outDir: string): string[] {
+    const loaded: string[] = [];
+    if (!fs.existsSync(outDir)) {
+      logger.warn('Foundry output directory not found', { outDir });
+      return loaded;
+    }
+
+    const walk = (dir: string) => {
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          if (entry.name !== 'build-info') {
+            walk(fullPath);
+          }
+          continue;
+        }
+        if (!entry.name.endsWith('.json')) {
+          continue;
+        }
+
+        try {
+          const artifact: { abi?: unknown } = JSON.parse(fs.readFileSync(fullPath, 'utf8'));
+          const abi = Array.isArray(artifact.abi) ? (artifact.abi as JsonFragment[]) : [];
+          if (abi.some(item => item?.type === 'event')) {
+            const name = path.basename(entry.name, '.json');
+            this.register(name, abi);
+            loaded.push(name);
+          }
+        } catch (error) {
+          logger.warn('Skipping unreadable Foundry artifact', { path: fullPath });
+        }
+      }
+    };
+
+    walk(outDir);
+    logger.info('Loaded Foundry artifacts', { count: loaded.length });
+    return loaded;
+  }
+
+  /**
+   * Finds the ABI used to decode a contract's logs
+   * @param contract The contract that emitted the logs
+   * @returns The ABI name, or undefined if none applies
+   */
+  resolveName(contract: AbiContract): string | undefined {
+    const candidates = [
+      this.bindings.get(contract.address.toLowerCase()),
+      contract.abi,
+      contract.name,
+      CONTRACT_TYPE_PROFILES[contract.type]?.abi
+    ];
+    return candidates.find((name): name is string => !!name && this.has(name));
+  }
+
+  /**
+   * Decodes a raw log using the contract's ABI
+   * @param contract The contract that emitted the log
+   * @param log The raw topics and data
+   * @returns The decoded event, or null if the log does not match the ABI
+   */
+  decodeLog(contract: AbiContract, log: RawLog): DecodedEvent | null {
+    const name = this.resolveName(contract);
+    if (!name) {
+      return null;
+    }
+
+    try {
+      const parsed = this.get(name)?.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed) {
+        return null;
+      }
+      return {
+        name: parsed.name,
+        signature: parsed.signature,
+        args: serializeArgs(parsed.args, parsed.fragment.inputs)
+      };
+    } catch (error) {
+      logger.debug('Failed to decode log', { abi: name, topic: log.topics[0] });
+      return null;
+    }
+  }
+
+  /**
+   * Decodes transaction calldata using the contract's ABI
+   * @param contract The contract that was called
+   * @param data The transaction input
+   * @returns The decoded call, or null if the selector is not in the ABI
+   */
+  decodeCall(contract: AbiContract, data: string): DecodedCall | null {
+    const name = this.resolveName(contract);
+    if (!name) {
+      return null;
+    }
+
+    try {
+      const parsed = this.get(name)?.parseTransaction({ data });
+      if (!parsed) {
+        return null;
+      }
+      return {
+        name: parsed.name,
+        signature: parsed.signature,
+        args: serializeArgs(parsed.args, parsed.fragment.inputs)
+      };
+    } catch (error) {
+      logger.debug('Failed to decode calldata', { abi: name, selector: data.slice(0, 10) });
+      return null;
+    }
+  }
+}
+
+/**
+ * Creates a registry seeded with the TuneFi ABIs and, when FOUNDRY_OUT_DIR is
+ * set, the artifacts of a local Foundry build
+ */
+export const createAbiRegistry = (outDir: string | undefined = process.env.FOUNDRY_OUT_DIR) => {
+  const registry = new AbiRegistry();
+  for (const [name, abi] of Object.entries(TUNEFI_ABIS)) {
+    registry.register(name, abi);
+  }
+  if (outDir) {
+    registry.loadFoundryArtifacts(outDir);
+  }
+  return registry;
+};
+
+export const abiRegistry = createAbiRegistry();
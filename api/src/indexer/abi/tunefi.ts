@@ -0,0 +1,161 @@
+/**
+ * Event ABIs for the TuneFi contracts in /contracts/src, including the events
+ * they inherit from OpenZeppelin v5, plus the functions whose calldata carries
+ * state the events leave out. Kept as human-readable fragments so the
+ * registry works without a Foundry build; artifacts from `out/` override them.
+ */
+
+const OWNABLE = [
+  'event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)'
+];
+
+const ACCESS_CONTROL = [
+  'event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)',
+  'event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)',
+  'event RoleAdminChanged(bytes32 indexed role, bytes32 indexed previousAdminRole, bytes32 indexed newAdminRole)'
+];
+
+const PAUSABLE = [
+  'event Paused(address account)',
+  'event Unpaused(address account)'
+];
+
+export const ERC20_EVENTS = [
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Approval(address indexed owner, address indexed spender, uint256 value)'
+];
+
+export const ERC721_EVENTS = [
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+  'event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)',
+  'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)'
+];
+
+export const ERC1155_EVENTS = [
+  'event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)',
+  'event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)',
+  'event ApprovalForAll(address indexed account, address indexed operator, bool approved)',
+  'event URI(string value, uint256 indexed id)'
+];
+
+const VOTES = [
+  'event DelegateChanged(address indexed delegator, address indexed fromDelegate, address indexed toDelegate)',
+  'event DelegateVotesChanged(address indexed delegate, uint256 previousVotes, uint256 newVotes)',
+  'event EIP712DomainChanged()'
+];
+
+export const TIMELOCK_EVENTS = [
+  'event CallScheduled(bytes32 indexed id, uint256 indexed index, address target, uint256 value, bytes data, bytes32 predecessor, uint256 delay)',
+  'event CallExecuted(bytes32 indexed id, uint256 indexed index, address target, uint256 value, bytes data)',
+  'event CallSalt(bytes32 indexed id, bytes32 salt)',
+  'event Cancelled(bytes32 indexed id)',
+  'event MinDelayChange(uint256 oldDuration, uint256 newDuration)',
+  ...ACCESS_CONTROL
+];
+
+export const TUNEFI_ABIS: Record<string, string[]> = {
+  MusicNFT: [
+    'event TrackCreated(uint256 indexed tokenId, address indexed creator, uint256 price)',
+    'event TrackPurchased(uint256 indexed tokenId, address indexed buyer, uint256 price)',
+    'event TrackVersionUpdated(uint256 indexed tokenId, string newUri, string changelog)',
+    'event TrackUriUpdated(uint256 indexed tokenId, string newUri)',
+    'function createTrackWithCollaborators(string uri, address[] collaborators, uint256[] shares, uint256 maxSupply, uint256 price) returns (uint256)',
+    ...ERC1155_EVENTS,
+    ...ACCESS_CONTROL
+  ],
+  Marketplace: [
+    'event TokenListed(uint256 indexed tokenId, address indexed seller, uint256 price)',
+    'event TokenDelisted(uint256 indexed tokenId, address indexed seller)',
+    'event TokenSold(uint256 indexed tokenId, address indexed seller, address indexed buyer, uint256 price)',
+    'event OfferCreated(uint256 indexed tokenId, address indexed buyer, uint256 price, uint256 expirationTime)',
+    'event OfferAccepted(uint256 indexed tokenId, address indexed seller, address indexed buyer, uint256 price)',
+    'event OfferCancelled(uint256 indexed tokenId, address indexed buyer)',
+    'event RevenueClaimed(address indexed user, uint256 amount)',
+    'event PlatformFeeUpdated(uint256 newFee)',
+    'function acceptOffer(uint256 tokenId, uint256 offerIndex)',
+    'function cancelOffer(uint256 tokenId, uint256 offerIndex)',
+    ...ACCESS_CONTROL,
+    ...PAUSABLE
+  ],
+  RoyaltyDistributor: [
+    'event RoyaltyDistributed(uint256 indexed tokenId, uint256 amount)',
+    'event PayeeAdded(uint256 indexed tokenId, address indexed account, uint256 shares)',
+    'event PayeeRemoved(uint256 indexed tokenId, address indexed account)',
+    'event ThresholdUpdated(uint256 oldThreshold, uint256 newThreshold)',
+    'event RoyaltyAccumulated(uint256 indexed tokenId, uint256 amount)',
+    'event AutoDistributionThresholdSet(uint256 indexed tokenId, uint256 threshold)',
+    'event RoyaltyReconciled(uint256 indexed tokenId, uint256 amount, bool isPositive)',
+    'event StreamingRateSet(uint256 indexed tokenId, uint256 rate)',
+    'event StreamingMinutesAdded(uint256 indexed tokenId, uint256 streamedMinutes)',
+    'event StreamingRoyaltyDistributed(uint256 indexed tokenId, uint256 amount)',
+    'event TokenDistributionThresholdUpdated(uint256 tokenId, uint256 threshold)',
+    ...ACCESS_CONTROL
+  ],
+  StakingContract: [
+    'event Staked(address indexed user, uint256 amount)',
+    'event Unstaked(address indexed user, uint256 amount)',
+    'event RewardsClaimed(address indexed user, uint256 amount)',
+    'event Slashed(address indexed user, uint256 amount)',
+    'event DelegationUpdated(address indexed from, address indexed to)',
+    'event SlasherUpdated(address indexed slasher, bool status)',
+    'event EmergencyStateUpdated(bool state)',
+    ...ACCESS_CONTROL,
+    ...PAUSABLE
+  ],
+  TuneToken: [
+    'event VestingScheduleCreated(address indexed beneficiary, uint256 amount, uint256 startTime, uint256 duration)',
+    'event VestingScheduleRevoked(address indexed beneficiary)',
+    'event TokensReleased(address indexed beneficiary, uint256 amount)',
+    'event Staked(address indexed user, uint256 amount)',
+    'event Unstaked(address indexed user, uint256 amount)',
+    'event RewardPaid(address indexed user, uint256 reward)',
+    'event TokensBurned(address indexed from, uint256 amount)',
+    'event PoolFunded(string indexed poolName, uint256 amount)',
+    'event ServiceTierUpdated(uint256 indexed tier, uint256 minTokens, uint256 discountRate)',
+    'event EpochAdvanced(uint256 indexed epoch, uint256 rewardPerToken)',
+    'function createVestingSchedule(address beneficiary, uint256 amount, uint256 startTime, uint256 duration, bool revocable)',
+    ...ERC20_EVENTS,
+    ...VOTES,
+    ...OWNABLE
+  ],
+  Governor: [
+    'event ProposalCreated(uint256 proposalId, address proposer, address[] targets, uint256[] values, string[] signatures, bytes[] calldatas, uint256 voteStart, uint256 voteEnd, string description)',
+    'event ProposalQueued(uint256 proposalId, uint256 etaSeconds)',
+    'event ProposalExecuted(uint256 proposalId)',
+    'event ProposalCanceled(uint256 proposalId)',
+    'event VoteCast(address indexed voter, uint256 proposalId, uint8 support, uint256 weight, string reason)',
+    'event VoteCastWithParams(address indexed voter, uint256 proposalId, uint8 support, uint256 weight, string reason, bytes params)',
+    'event VotingDelaySet(uint256 oldVotingDelay, uint256 newVotingDelay)',
+    'event VotingPeriodSet(uint256 oldVotingPeriod, uint256 newVotingPeriod)',
+    'event ProposalThresholdSet(uint256 oldProposalThreshold, uint256 newProposalThreshold)',
+    'event QuorumNumeratorUpdated(uint256 oldQuorumNumerator, uint256 newQuorumNumerator)',
+    'event TimelockChange(address oldTimelock, address newTimelock)',
+    'event EIP712DomainChanged()'
+  ],
+  FanEngagement: [
+    'event PointsEarned(address indexed user, uint256 points, string action)',
+    'event AchievementUnlocked(address indexed user, string achievement)',
+    'event RewardsClaimed(address indexed user, uint256 amount)',
+    'function recordLike(uint256 tokenId)',
+    'function recordShare(uint256 tokenId)',
+    'function recordStream(uint256 tokenId)',
+    'function recordPurchase(uint256 tokenId)',
+    ...OWNABLE
+  ],
+  RecommendationGraph: [
+    'event TrackNodeAdded(uint256 indexed tokenId, string metadataURI)',
+    'event ArtistNodeAdded(address indexed artist, string metadataURI)',
+    'event TrackEdgeCreated(uint256 indexed fromTrack, uint256 indexed toTrack, uint8 weight)',
+    'event UserInteraction(address indexed user, uint256 indexed tokenId, uint8 interactionType)',
+    ...OWNABLE
+  ],
+  TimelockController: TIMELOCK_EVENTS,
+  ERC20: ERC20_EVENTS,
+  ERC721: ERC721_EVENTS,
+  ERC1155: ERC1155_EVENTS
+};
+
+/** Foundry artifact names that differ from the registry names */
+export const ABI_ALIASES: Record<string, string> = {
+  TuneFiGovernor: 'Governor'
+};
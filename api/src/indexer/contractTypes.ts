@@ -0,0 +1,115 @@
+import { ContractType } from '../models/Contract';
+
+export const TokenStandard = {
+  ERC20: 'ERC20',
+  ERC20_VOTES: 'ERC20Votes',
+  ERC721: 'ERC721',
+  ERC1155: 'ERC1155',
+  ERC2981: 'ERC2981'
+} as const;
+
+export type TokenStandard = typeof TokenStandard[keyof typeof TokenStandard];
+
+export interface ContractTypeProfile {
+  description: string;
+  // Registry ABI used to decode events when the contract does not name one
+  abi?: string;
+  // Token standards the contract implements
+  standards: TokenStandard[];
+  // Events whose topics in deployed bytecode identify the contract during detection
+  signatureEvents?: string[];
+}
+
+/**
+ * Indexing behavior for each contract type
+ */
+export const CONTRACT_TYPE_PROFILES: Record<ContractType, ContractTypeProfile> = {
+  [ContractType.ERC20]: {
+    description: 'Fungible token',
+    abi: 'ERC20',
+    standards: [TokenStandard.ERC20]
+  },
+  [ContractType.ERC721]: {
+    description: 'Non-fungible token',
+    abi: 'ERC721',
+    standards: [TokenStandard.ERC721]
+  },
+  [ContractType.ERC1155]: {
+    description: 'Multi-token',
+    abi: 'ERC1155',
+    standards: [TokenStandard.ERC1155]
+  },
+  [ContractType.MUSIC_NFT]: {
+    description: 'TuneFi track NFTs (MusicNFT)',
+    abi: 'MusicNFT',
+    standards: [TokenStandard.ERC1155, TokenStandard.ERC2981],
+    signatureEvents: ['TrackCreated', 'TrackVersionUpdated']
+  },
+  [ContractType.TUNE_TOKEN]: {
+    description: 'TuneFi governance and utility token (TuneToken)',
+    abi: 'TuneToken',
+    standards: [TokenStandard.ERC20, TokenStandard.ERC20_VOTES],
+    signatureEvents: ['VestingScheduleCreated', 'EpochAdvanced']
+  },
+  [ContractType.MARKETPLACE]: {
+    description: 'TuneFi track marketplace',
+    abi: 'Marketplace',
+    standards: [],
+    signatureEvents: ['TokenListed', 'OfferCreated']
+  },
+  [ContractType.ROYALTY_DISTRIBUTOR]: {
+    description: 'TuneFi royalty splits and streaming payouts',
+    abi: 'RoyaltyDistributor',
+    standards: [],
+    signatureEvents: ['PayeeAdded', 'RoyaltyAccumulated']
+  },
+  [ContractType.STAKING]: {
+    description: 'TuneFi staking and delegation',
+    abi: 'StakingContract',
+    standards: [],
+    signatureEvents: ['Slashed', 'DelegationUpdated']
+  },
+  [ContractType.GOVERNOR]: {
+    description: 'TuneFi governor',
+    abi: 'Governor',
+    standards: []
+  },
+  [ContractType.TIMELOCK]: {
+    description: 'Governance timelock controller',
+    abi: 'TimelockController',
+    standards: [],
+    signatureEvents: ['CallScheduled', 'CallExecuted']
+  },
+  [ContractType.FAN_ENGAGEMENT]: {
+    description: 'TuneFi fan points and achievements',
+    abi: 'FanEngagement',
+    standards: [],
+    signatureEvents: ['PointsEarned', 'AchievementUnlocked']
+  },
+  [ContractType.RECOMMENDATION_GRAPH]: {
+    description: 'TuneFi on-chain recommendation graph',
+    abi: 'RecommendationGraph',
+    standards: [],
+    signatureEvents: ['TrackEdgeCreated', 'UserInteraction']
+  },
+  [ContractType.OTHER]: {
+    description: 'Unclassified contract',
+    standards: []
+  }
+};
+
+/**
+ * Checks whether a value is a known token standard
+ */
+export const isTokenStandard = (value: unknown): value is TokenStandard =>
+  Object.values(TokenStandard).includes(value as TokenStandard);
+
+/**
+ * Lists the contract types implementing a token standard
+ * @param standard The token standard
+ * @returns Matching contract types, e.g. ERC20 and TUNE_TOKEN for ERC20
+ */
+export const typesImplementing = (standard: TokenStandard): ContractType[] =>
+  (Object.keys(CONTRACT_TYPE_PROFILES) as ContractType[]).filter(type =>
+    CONTRACT_TYPE_PROFILES[type].standards.includes(standard)
+  );
@@ -0,0 +1,198 @@
+import { IContract, Contract } from '../models/Contract';
+import { Event } from '../models/Event';
+import { IndexingStatus, IndexingStatusType } from '../models/IndexingStatus';
+import { Transaction } from '../models/Transaction';
+import { ValidationError } from '../middleware/error-handler';
+import { resetProjections } from './projections';
+
+export const IndexingAction = {
+  START: 'start',
+  PAUSE: 'pause',
+  RESUME: 'resume',
+  RETRY: 'retry',
+  RESET: 'reset'
+} as const;
+
+export type IndexingAction = typeof IndexingAction[keyof typeof IndexingAction];
+
+/**
+ * States each action may be applied from. A contract without an
+ * IndexingStatus document can only be started or reset.
+ */
+export const ALLOWED_TRANSITIONS: Record<IndexingAction, IndexingStatusType[]> = {
+  [IndexingAction.START]: [
+    IndexingStatusType.PENDING,
+    IndexingStatusType.COMPLETED,
+    IndexingStatusType.FAILED
+  ],
+  [IndexingAction.PAUSE]: [IndexingStatusType.PENDING, IndexingStatusType.RUNNING],
+  [IndexingAction.RESUME]: [IndexingStatusType.PAUSED],
+  [IndexingAction.RETRY]: [IndexingStatusType.FAILED],
+  [IndexingAction.RESET]: [
+    IndexingStatusType.PENDING,
+    IndexingStatusType.PAUSED,
+    IndexingStatusType.COMPLETED,
+    IndexingStatusType.FAILED
+  ]
+};
+
+export class IndexingTransitionError extends Error {
+  statusCode = 409;
+
+  constructor(action: IndexingAction, status?: IndexingStatusType) {
+    super(
+      status
+        ? `Cannot ${action} indexing while status is ${status}`
+        : `Cannot ${action} indexing before it has been started`
+    );
+    this.name = 'IndexingTransitionError';
+  }
+}
+
+export interface BlockRange {
+  startBlock?: number;
+  endBlock?: number;
+}
+
+/**
+ * Throws if an action is not allowed from the current status
+ * @param action The requested action
+ * @param status The current status, undefined if indexing never started
+ */
+export const assertTransition = (action: IndexingAction, status?: IndexingStatusType) => {
+  const allowedWithoutStatus = action === IndexingAction.START || action === IndexingAction.RESET;
+  if (status === undefined ? !allowedWithoutStatus : !ALLOWED_TRANSITIONS[action].includes(status)) {
+    throw new IndexingTransitionError(action, status);
+  }
+};
+
+const isBlockNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+/**
+ * Validates an optional block range from a request body
+ * @param range The raw request body
+ * @returns The validated range
+ */
+export const parseBlockRange = (range: Record<string, unknown> = {}): BlockRange => {
+  const { startBlock, endBlock } = range;
+  if (startBlock != null && !isBlockNumber(startBlock)) {
+    throw new ValidationError('startBlock must be a non-negative integer');
+  }
+  if (endBlock != null && !isBlockNumber(endBlock)) {
+    throw new ValidationError('endBlock must be a non-negative integer');
+  }
+  if (startBlock != null && endBlock != null && startBlock > endBlock) {
+    throw new ValidationError('startBlock must be less than or equal to endBlock');
+  }
+  return { startBlock: startBlock ?? undefined, endBlock: endBlock ?? undefined } as BlockRange;
+};
+
+/**
+ * Drops everything indexed for a contract. A transaction is stored once per
+ * network however many contracts logged events in it, so only the ones no
+ * remaining event references are deleted.
+ * @param contract The contract being reset
+ */
+const dropIndexedData = async (contract: IContract) => {
+  const hashes: string[] = [...new Set([
+    ...await Event.distinct('transactionHash', { contract: contract._id }),
+    ...await Transaction.distinct('hash', { contract: contract._id })
+  ])];
+  await Event.deleteMany({ contract: contract._id });
+  const referenced: string[] = await Event.distinct('transactionHash', {
+    network: contract.network,
+    transactionHash: { $in: hashes }
+  });
+  await Transaction.deleteMany({ network: contract.network, hash: { $in: hashes, $nin: referenced } });
+  await resetProjections(contract);
+};
+
+/**
+ * Applies an action to a contract's IndexingStatus document. The update is
+ * conditional on the status read beforehand, so a concurrent change (e.g.
+ * the runner completing a job) is reported instead of being overwritten.
+ * @param contract The contract being controlled
+ * @param action The action to apply
+ * @param range The block range for start and reset
+ * @returns The updated indexing status document
+ */
+export const applyIndexingAction = async (
+  contract: IContract,
+  action: IndexingAction,
+  range: BlockRange = {}
+) => {
+  const current = await IndexingStatus.findOne({ contract: contract._id });
+  assertTransition(action, current?.status);
+
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, ''> = {};
+
+  switch (action) {
+    case IndexingAction.START: {
+      const startBlock = range.startBlock ?? contract.deployedAt;
+      if (startBlock == null) {
+        throw new ValidationError('startBlock is required when the contract has no deployedAt block');
+      }
+      Object.assign($set, { startBlock, progress: 0, status: IndexingStatusType.PENDING, isIndexing: false });
+      Object.assign($unset, { currentBlock: '', error: '' });
+      if (range.endBlock != null) {
+        $set.endBlock = range.endBlock;
+      } else {
+        $unset.endBlock = '';
+      }
+      break;
+    }
+    case IndexingAction.PAUSE:
+      Object.assign($set, { status: IndexingStatusType.PAUSED, isIndexing: false });
+      break;
+    case IndexingAction.RESUME:
+      $set.status = IndexingStatusType.PENDING;
+      break;
+    case IndexingAction.RETRY:
+      $set.status = IndexingStatusType.PENDING;
+      $unset.error = '';
+      break;
+    case IndexingAction.RESET: {
+      const startBlock = range.startBlock ?? contract.deployedAt ?? current?.startBlock ?? 0;
+      Object.assign($set, {
+        startBlock,
+        progress: 0,
+        status: IndexingStatusType.PENDING,
+        isIndexing: false,
+        lastIndexedAt: Date.now()
+      });
+      Object.assign($unset, { lastIndexedBlock: '', endBlock: '', currentBlock: '', error: '' });
+      break;
+    }
+  }
+
+  if (action === IndexingAction.RESET) {
+    // Drop everything indexed so far before the status says so; live
+    // indexing restarts at the head and the backfill covers history up to it
+    await dropIndexedData(contract);
+    await Contract.updateOne({ _id: contract._id }, { $unset: { lastIndexedBlock: '' } });
+  }
+
+  let updated;
+  if (!current) {
+    updated = await IndexingStatus.create({
+      contract: contract._id,
+      ...(action !== IndexingAction.RESET && { lastIndexedBlock: contract.lastIndexedBlock ?? 0 }),
+      lastIndexedAt: Date.now(),
+      ...$set
+    });
+  } else {
+    updated = await IndexingStatus.findOneAndUpdate(
+      { _id: current._id, status: current.status },
+      { $set, $unset },
+      { new: true }
+    );
+    if (!updated) {
+      const latest = await IndexingStatus.findById(current._id);
+      throw new IndexingTransitionError(action, latest?.status);
+    }
+  }
+
+  return updated;
+};
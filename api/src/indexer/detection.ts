@@ -0,0 +1,171 @@
+import { Interface, Provider } from 'ethers';
+import { ContractType } from '../models/Contract';
+import { getProvider } from '../config/indexer';
+import { AbiRegistry, abiRegistry } from './abi/AbiRegistry';
+import { CONTRACT_TYPE_PROFILES } from './contractTypes';
+
+export type DetectionProvider = Pick<Provider, 'call' | 'getCode'>;
+
+/** ERC-165 interface IDs probed with supportsInterface */
+export const INTERFACE_IDS = {
+  erc165: '0x01ffc9a7',
+  erc721: '0x80ac58cd',
+  erc1155: '0xd9b67a26',
+  erc2981: '0x2a55205a',
+  accessControl: '0x7965db0b',
+  governor: '0x65455a86'
+} as const;
+
+export type InterfaceName = keyof typeof INTERFACE_IDS;
+
+// ERC-165 requires 0xffffffff to be unsupported
+const INVALID_INTERFACE_ID = '0xffffffff';
+
+const PROBE_ABI = new Interface([
+  'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)'
+]);
+
+export interface DetectionResult {
+  address: string;
+  network: string;
+  type: ContractType;
+  name?: string;
+  symbol?: string;
+  decimals?: number;
+  interfaces: Record<InterfaceName, boolean>;
+  erc20: boolean;
+  // TuneFi role recognised from event topics embedded in the bytecode
+  protocolRole?: ContractType;
+}
+
+export class ContractDetectionError extends Error {
+  statusCode = 422;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContractDetectionError';
+  }
+}
+
+/**
+ * Calls a view function, returning undefined if it reverts or returns
+ * data that does not decode
+ */
+const probe = async (
+  provider: DetectionProvider,
+  address: string,
+  method: string,
+  args: unknown[] = []
+): Promise<unknown> => {
+  try {
+    const data = await provider.call({ to: address, data: PROBE_ABI.encodeFunctionData(method, args) });
+    return PROBE_ABI.decodeFunctionResult(method, data)[0];
+  } catch {
+    return undefined;
+  }
+};
+
+const supportsInterface = async (provider: DetectionProvider, address: string, interfaceId: string) =>
+  (await probe(provider, address, 'supportsInterface', [interfaceId])) === true;
+
+/**
+ * Matches bytecode against the signature events of each TuneFi role. Solidity
+ * embeds the topic hash of every emitted event, so a contract whose code
+ * contains all of a role's signature topics is that contract.
+ */
+const detectProtocolRole = (code: string, registry: AbiRegistry): ContractType | undefined => {
+  const bytecode = code.toLowerCase();
+  for (const [type, profile] of Object.entries(CONTRACT_TYPE_PROFILES)) {
+    const abi = profile.abi && registry.get(profile.abi);
+    if (!abi || !profile.signatureEvents?.length) {
+      continue;
+    }
+    const matches = profile.signatureEvents.every(name => {
+      const topic = abi.getEvent(name)?.topicHash;
+      return topic != null && bytecode.includes(topic.slice(2));
+    });
+    if (matches) {
+      return type as ContractType;
+    }
+  }
+  return undefined;
+};
+
+const checkInterfaces = async (provider: DetectionProvider, address: string) => {
+  const interfaces = Object.fromEntries(
+    Object.keys(INTERFACE_IDS).map(name => [name, false])
+  ) as Record<InterfaceName, boolean>;
+
+  const erc165 =
+    (await supportsInterface(provider, address, INTERFACE_IDS.erc165)) &&
+    !(await supportsInterface(provider, address, INVALID_INTERFACE_ID));
+  if (!erc165) {
+    return interfaces;
+  }
+
+  for (const [name, interfaceId] of Object.entries(INTERFACE_IDS) as [InterfaceName, string][]) {
+    interfaces[name] = name === 'erc165' || (await supportsInterface(provider, address, interfaceId));
+  }
+  return interfaces;
+};
+
+/**
+ * Detects a contract's type from its ERC-165 interfaces, ERC20 metadata and
+ * bytecode, and reads its name and symbol
+ * @param address The contract address
+ * @param network The network the contract is deployed on
+ * @param provider The provider to query, the network's RPC node by default
+ * @param registry The ABI registry providing the TuneFi event topics
+ * @returns What was found about the contract
+ * @throws ContractDetectionError if there is no code at the address
+ */
+export const detectContract = async (
+  address: string,
+  network: string,
+  provider: DetectionProvider = getProvider(network),
+  registry: AbiRegistry = abiRegistry
+): Promise<DetectionResult> => {
+  const code = await provider.getCode(address);
+  if (!code || code === '0x') {
+    throw new ContractDetectionError('No contract deployed at address');
+  }
+
+  const interfaces = await checkInterfaces(provider, address);
+  const [name, symbol, decimals] = await Promise.all([
+    probe(provider, address, 'name'),
+    probe(provider, address, 'symbol'),
+    probe(provider, address, 'decimals')
+  ]);
+
+  const isNft = interfaces.erc721 || interfaces.erc1155;
+  const erc20 = !isNft && typeof decimals === 'bigint' && typeof symbol === 'string';
+  const protocolRole = detectProtocolRole(code, registry);
+
+  let type: ContractType = ContractType.OTHER;
+  if (protocolRole) {
+    type = protocolRole;
+  } else if (interfaces.governor) {
+    type = ContractType.GOVERNOR;
+  } else if (interfaces.erc1155) {
+    type = ContractType.ERC1155;
+  } else if (interfaces.erc721) {
+    type = ContractType.ERC721;
+  } else if (erc20) {
+    type = ContractType.ERC20;
+  }
+
+  return {
+    address: address.toLowerCase(),
+    network,
+    type,
+    name: (typeof name === 'string' && name) || undefined,
+    symbol: (typeof symbol === 'string' && symbol) || undefined,
+    decimals: erc20 ? Number(decimals) : undefined,
+    interfaces,
+    erc20,
+    protocolRole
+  };
+};
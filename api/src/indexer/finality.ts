@@ -0,0 +1,32 @@
+import { Block } from '../models/Block';
+import { Event } from '../models/Event';
+import { Transaction } from '../models/Transaction';
+import { FinalityConfig } from '../config/networks';
+
+/**
+ * Recomputes confirmations for every non-final row up to the chain head and
+ * marks rows that reached the confirmation depth as finalized. Finalized rows
+ * are never touched again, so the update only scans the unconfirmed tail.
+ * @param network The network the head belongs to
+ * @param head The latest block number seen on the chain
+ * @param config The network's finality configuration
+ */
+export const updateFinality = async (network: string, head: number, config: FinalityConfig) => {
+  const apply = (field: string) => {
+    const confirmations = { $subtract: [head + 1, `$${field}`] };
+    return [
+      {
+        $set: {
+          confirmations,
+          finalized: { $gte: [confirmations, config.confirmationDepth] }
+        }
+      }
+    ];
+  };
+
+  await Promise.all([
+    Block.updateMany({ network, finalized: false, number: { $lte: head } }, apply('number')),
+    Transaction.updateMany({ network, finalized: false, blockNumber: { $lte: head } }, apply('blockNumber')),
+    Event.updateMany({ network, finalized: false, blockNumber: { $lte: head } }, apply('blockNumber'))
+  ]);
+};
@@ -0,0 +1,191 @@
+import { isAddress } from 'ethers';
+import { Contract, ContractType } from '../models/Contract';
+import { ValidationError } from '../middleware/error-handler';
+import { getNetwork, getNetworkForChainId } from '../config/networks';
+import { logger } from '../utils/logger';
+import { ABI_ALIASES } from './abi/tunefi';
+import { CONTRACT_TYPE_PROFILES } from './contractTypes';
+import { scheduleBackfill } from './BackfillRunner';
+
+export interface BroadcastDeployment {
+  name: string;
+  address: string;
+  transactionHash: string;
+  blockNumber?: number;
+}
+
+export interface ParsedBroadcast {
+  chainId: number;
+  deployments: BroadcastDeployment[];
+}
+
+export interface FoundryImportOptions {
+  // Network to register the contracts on; derived from the chain ID by default
+  network?: string;
+  // Queue a backfill from each deployment block (default true)
+  backfill?: boolean;
+}
+
+export interface ImportedContract {
+  name: string;
+  address: string;
+  type: ContractType;
+  deployedAt?: number;
+  status: 'created' | 'existing';
+}
+
+export interface FoundryImportResult {
+  chainId: number;
+  network: string;
+  contracts: ImportedContract[];
+}
+
+const CREATE_TRANSACTION_TYPES = ['CREATE', 'CREATE2'];
+
+// Receipts encode block numbers as hex strings
+const parseBlockNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value !== '') {
+    return Number(BigInt(value));
+  }
+  return undefined;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value !== '';
+
+/**
+ * Extracts the contracts created by a Foundry broadcast
+ * (`broadcast/<script>/<chainId>/run-latest.json`)
+ * @param broadcast The parsed broadcast file
+ * @returns The chain ID and one deployment per CREATE transaction
+ */
+export const parseBroadcast = (broadcast: unknown): ParsedBroadcast => {
+  if (!isRecord(broadcast) || !Array.isArray(broadcast.transactions)) {
+    throw new ValidationError('Invalid broadcast file: missing transactions');
+  }
+
+  const chainId = Number(broadcast.chain);
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    throw new ValidationError('Invalid broadcast file: missing chain ID');
+  }
+
+  // Block numbers of the receipts, by transaction hash
+  const receiptBlocks = new Map<string, unknown>();
+  for (const receipt of Array.isArray(broadcast.receipts) ? broadcast.receipts : []) {
+    if (isRecord(receipt) && isNonEmptyString(receipt.transactionHash)) {
+      receiptBlocks.set(receipt.transactionHash.toLowerCase(), receipt.blockNumber);
+    }
+  }
+
+  const deployments: BroadcastDeployment[] = [];
+  for (const tx of broadcast.transactions) {
+    if (!isRecord(tx) || !CREATE_TRANSACTION_TYPES.includes(tx.transactionType as string)) {
+      continue;
+    }
+    const { contractName, contractAddress, hash } = tx;
+    if (
+      !isNonEmptyString(contractName) ||
+      !isNonEmptyString(contractAddress) ||
+      !isAddress(contractAddress) ||
+      !isNonEmptyString(hash)
+    ) {
+      throw new ValidationError(`Invalid broadcast file: incomplete ${tx.transactionType} transaction`);
+    }
+
+    deployments.push({
+      name: contractName,
+      address: contractAddress.toLowerCase(),
+      transactionHash: hash.toLowerCase(),
+      blockNumber: parseBlockNumber(receiptBlocks.get(hash.toLowerCase()))
+    });
+  }
+
+  return { chainId, deployments };
+};
+
+/**
+ * Maps a Foundry contract name to the contract type whose default ABI it is
+ * @param name The contract name, e.g. MusicNFT or TuneFiGovernor
+ * @returns The matching type, or OTHER
+ */
+export const contractTypeForName = (name: string): ContractType => {
+  const abiName = ABI_ALIASES[name] ?? name;
+  const match = (Object.keys(CONTRACT_TYPE_PROFILES) as ContractType[]).find(
+    type => CONTRACT_TYPE_PROFILES[type].abi === abiName
+  );
+  return match ?? ContractType.OTHER;
+};
+
+/**
+ * Registers the contracts deployed by a Foundry broadcast and queues their
+ * backfills. Contracts that are already registered are left untouched.
+ * @param broadcast The parsed broadcast file
+ * @param options The import options
+ * @returns The network and what happened to each deployment
+ */
+export const importFoundryBroadcast = async (
+  broadcast: unknown,
+  options: FoundryImportOptions = {}
+): Promise<FoundryImportResult> => {
+  const { chainId, deployments } = parseBroadcast(broadcast);
+  const network = options.network ?? getNetworkForChainId(chainId);
+  if (!network) {
+    throw new ValidationError(`Unknown chain ID ${chainId}, specify a network`);
+  }
+  const config = getNetwork(network);
+  if (!config) {
+    throw new ValidationError(`Unknown network: ${network}`);
+  }
+  if (config.chainId !== chainId) {
+    throw new ValidationError(`Broadcast chain ID ${chainId} does not match ${network} (chain ID ${config.chainId})`);
+  }
+
+  const contracts: ImportedContract[] = [];
+  for (const deployment of deployments) {
+    const type = contractTypeForName(deployment.name);
+    const existing = await Contract.findOne({ network, address: deployment.address });
+    if (existing) {
+      contracts.push({
+        name: deployment.name,
+        address: deployment.address,
+        type: existing.type,
+        deployedAt: existing.deployedAt,
+        status: 'existing'
+      });
+      continue;
+    }
+
+    const contract = await Contract.create({
+      address: deployment.address,
+      name: deployment.name,
+      type,
+      network,
+      deployedAt: deployment.blockNumber
+    });
+
+    if (options.backfill !== false && contract.deployedAt != null) {
+      await scheduleBackfill(contract, contract.deployedAt);
+    }
+
+    contracts.push({
+      name: deployment.name,
+      address: deployment.address,
+      type,
+      deployedAt: deployment.blockNumber,
+      status: 'created'
+    });
+  }
+
+  logger.info('Imported Foundry broadcast', {
+    chainId,
+    network,
+    created: contracts.filter(contract => contract.status === 'created').length
+  });
+
+  return { chainId, network, contracts };
+};
@@ -0,0 +1,130 @@
+import { Block as ChainBlock, Log } from 'ethers';
+import { Types } from 'mongoose';
+import { Block } from '../models/Block';
+import { IContract } from '../models/Contract';
+import { Event } from '../models/Event';
+import { Transaction } from '../models/Transaction';
+import type { IndexerProvider } from './BlockIndexer';
+import { AbiRegistry, abiRegistry } from './abi/AbiRegistry';
+import { applyProjections } from './projections';
+
+// Mongoose validators reject zero for gas fields, so only keep positive values
+const positiveNumber = (value?: bigint | null): number | undefined => {
+  if (value == null || value <= 0n) {
+    return undefined;
+  }
+  return Number(value);
+};
+
+/**
+ * Upserts a block header by network and height
+ * @param network The network the block belongs to
+ * @param block The block fetched from the provider
+ */
+export const saveBlock = async (network: string, block: ChainBlock) => {
+  await Block.findOneAndUpdate(
+    { network, number: block.number },
+    {
+      $set: {
+        network,
+        number: block.number,
+        hash: block.hash,
+        parentHash: block.parentHash,
+        timestamp: block.timestamp,
+        gasUsed: positiveNumber(block.gasUsed),
+        gasLimit: positiveNumber(block.gasLimit),
+        baseFeePerGas: block.baseFeePerGas?.toString(),
+        difficulty: block.difficulty.toString(),
+        nonce: block.nonce,
+        miner: block.miner.toLowerCase(),
+        extraData: block.extraData,
+        transactionCount: block.transactions.length
+      }
+    },
+    { upsert: true, runValidators: true }
+  );
+};
+
+/**
+ * Fetches a transaction and its receipt and upserts it by network and hash
+ * @param provider The provider to fetch the transaction from
+ * @param contract The contract whose log referenced the transaction
+ * @param hash The transaction hash
+ * @param timestamp The timestamp of the containing block
+ */
+export const saveTransaction = async (
+  provider: IndexerProvider,
+  contract: IContract,
+  hash: string,
+  timestamp?: number
+) => {
+  const [tx, receipt] = await Promise.all([
+    provider.getTransaction(hash),
+    provider.getTransactionReceipt(hash)
+  ]);
+  if (!tx) {
+    throw new Error(`Transaction ${hash} not found`);
+  }
+
+  // Contract creation transactions have no recipient, so use the created address
+  const to = tx.to ?? receipt?.contractAddress;
+
+  await Transaction.findOneAndUpdate(
+    { network: contract.network, hash: hash.toLowerCase() },
+    {
+      $set: {
+        network: contract.network,
+        hash: hash.toLowerCase(),
+        blockNumber: tx.blockNumber,
+        from: tx.from.toLowerCase(),
+        to: to?.toLowerCase(),
+        value: tx.value.toString(),
+        gasUsed: positiveNumber(receipt?.gasUsed),
+        gasPrice: tx.gasPrice.toString(),
+        input: tx.data,
+        status: receipt ? receipt.status === 1 : undefined,
+        timestamp
+      },
+      $setOnInsert: { contract: contract._id as Types.ObjectId }
+    },
+    { upsert: true, runValidators: true }
+  );
+};
+
+/**
+ * Upserts a log as an Event keyed by transaction hash and log index and
+ * updates the read models derived from it. Logs the contract's ABI does not
+ * describe are kept with their raw topics and data.
+ * @param contract The contract that emitted the log
+ * @param log The raw log
+ * @param timestamp The timestamp of the containing block
+ * @param registry The ABI registry used to decode the log
+ */
+export const saveEvent = async (
+  contract: IContract,
+  log: Log,
+  timestamp?: number,
+  registry: AbiRegistry = abiRegistry
+) => {
+  const [topic0, ...indexedTopics] = log.topics;
+  const decoded = registry.decodeLog(contract, log);
+
+  const event = await Event.findOneAndUpdate(
+    { network: contract.network, transactionHash: log.transactionHash, logIndex: log.index },
+    {
+      $set: {
+        contract: contract._id,
+        network: contract.network,
+        name: decoded?.name ?? 'Unknown',
+        signature: decoded?.signature ?? topic0 ?? '0x',
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+        args: decoded?.args ?? { topics: indexedTopics, data: log.data },
+        timestamp
+      }
+    },
+    { upsert: true, new: true, runValidators: true }
+  );
+  await applyProjections(event, contract);
+};
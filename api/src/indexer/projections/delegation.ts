@@ -0,0 +1,182 @@
+import { Contract, ContractType, IContract } from '../../models/Contract';
+import { Delegate } from '../../models/Delegate';
+import { Delegation } from '../../models/Delegation';
+import { Event, IEvent } from '../../models/Event';
+import { VotingPowerCheckpoint } from '../../models/VotingPowerCheckpoint';
+import { EventPosition, isAfter, Projection } from './types';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const LATEST_FIRST = { blockNumber: -1, logIndex: -1 } as const;
+
+const saveDelegation = (contract: IContract, event: IEvent) => {
+  const { delegator, toDelegate } = event.args ?? {};
+  return Delegation.findOneAndUpdate(
+    { contract: contract._id, delegator },
+    {
+      $set: {
+        contractAddress: contract.address,
+        network: contract.network,
+        delegate: toDelegate === ZERO_ADDRESS ? null : toDelegate,
+        since: event.timestamp,
+        sinceBlock: event.blockNumber,
+        transactionHash: event.transactionHash,
+        lastBlockNumber: event.blockNumber,
+        lastLogIndex: event.logIndex
+      }
+    },
+    { upsert: true, runValidators: true }
+  );
+};
+
+const saveDelegate = (contract: IContract, address: string, votes: string, position: EventPosition) =>
+  Delegate.findOneAndUpdate(
+    { contract: contract._id, address },
+    {
+      $set: {
+        contractAddress: contract.address,
+        network: contract.network,
+        votes,
+        lastBlockNumber: position.blockNumber,
+        lastLogIndex: position.logIndex
+      },
+      $min: { firstBlockNumber: position.blockNumber }
+    },
+    { upsert: true, runValidators: true }
+  );
+
+/**
+ * Points a holder's delegation at their latest stored DelegateChanged, or
+ * drops it when none is left
+ * @param contract The token contract
+ * @param delegator The holder, lowercased
+ */
+export const rebuildDelegation = async (contract: IContract, delegator: string) => {
+  const latest = await Event.findOne({
+    contract: contract._id,
+    name: 'DelegateChanged',
+    'args.delegator': delegator
+  }).sort(LATEST_FIRST);
+
+  if (latest) {
+    await saveDelegation(contract, latest);
+  } else {
+    await Delegation.deleteOne({ contract: contract._id, delegator });
+  }
+};
+
+/**
+ * Resets a delegate's voting power to their latest stored checkpoint, or
+ * drops them when none is left
+ * @param contract The token contract
+ * @param address The delegate, lowercased
+ */
+export const rebuildDelegate = async (contract: IContract, address: string) => {
+  const key = { contract: contract._id, delegate: address };
+  const [first, latest] = await Promise.all([
+    VotingPowerCheckpoint.findOne(key).sort({ blockNumber: 1, logIndex: 1 }).lean(),
+    VotingPowerCheckpoint.findOne(key).sort(LATEST_FIRST).lean()
+  ]);
+
+  if (!first || !latest) {
+    await Delegate.deleteOne({ contract: contract._id, address });
+    return;
+  }
+  await Delegate.updateOne(
+    { contract: contract._id, address },
+    {
+      $set: {
+        contractAddress: contract.address,
+        network: contract.network,
+        votes: latest.newVotes,
+        firstBlockNumber: first.blockNumber,
+        lastBlockNumber: latest.blockNumber,
+        lastLogIndex: latest.logIndex
+      }
+    },
+    { upsert: true, runValidators: true }
+  );
+};
+
+/**
+ * Mirrors TuneToken's ERC20Votes bookkeeping: the current delegate of each
+ * holder, a checkpoint per DelegateVotesChanged and each delegate's current
+ * voting power
+ */
+export const delegationProjection: Projection = {
+  name: 'delegation',
+  contractTypes: [ContractType.TUNE_TOKEN],
+  events: ['DelegateChanged', 'DelegateVotesChanged'],
+
+  async apply(event, contract) {
+    const args = event.args ?? {};
+
+    if (event.name === 'DelegateChanged') {
+      if (typeof args.delegator !== 'string') {
+        return;
+      }
+      const current = await Delegation.findOne({ contract: contract._id, delegator: args.delegator }).lean();
+      if (!current || isAfter(event, current)) {
+        await saveDelegation(contract, event);
+      }
+      return;
+    }
+
+    if (typeof args.delegate !== 'string' || args.newVotes == null) {
+      return;
+    }
+    await VotingPowerCheckpoint.findOneAndUpdate(
+      { contract: contract._id, delegate: args.delegate, blockNumber: event.blockNumber, logIndex: event.logIndex },
+      {
+        $set: {
+          contractAddress: contract.address,
+          network: contract.network,
+          previousVotes: args.previousVotes,
+          newVotes: args.newVotes,
+          timestamp: event.timestamp,
+          transactionHash: event.transactionHash
+        }
+      },
+      { upsert: true, runValidators: true }
+    );
+
+    const delegate = await Delegate.findOne({ contract: contract._id, address: args.delegate }).lean();
+    if (!delegate || isAfter(event, delegate)) {
+      await saveDelegate(contract, args.delegate, args.newVotes, event);
+    } else if (event.blockNumber < delegate.firstBlockNumber) {
+      await Delegate.updateOne({ _id: delegate._id }, { $set: { firstBlockNumber: event.blockNumber } });
+    }
+  },
+
+  async rollback(network, ancestor) {
+    await VotingPowerCheckpoint.deleteMany({ network, blockNumber: { $gt: ancestor } });
+
+    const [delegations, delegates] = await Promise.all([
+      Delegation.find({ network, lastBlockNumber: { $gt: ancestor } }).lean(),
+      Delegate.find({ network, lastBlockNumber: { $gt: ancestor } }).lean()
+    ]);
+    for (const delegation of delegations) {
+      const contract = await Contract.findById(delegation.contract);
+      if (contract) {
+        await rebuildDelegation(contract, delegation.delegator);
+      } else {
+        await Delegation.deleteOne({ _id: delegation._id });
+      }
+    }
+    for (const delegate of delegates) {
+      const contract = await Contract.findById(delegate.contract);
+      if (contract) {
+        await rebuildDelegate(contract, delegate.address);
+      } else {
+        await Delegate.deleteOne({ _id: delegate._id });
+      }
+    }
+  },
+
+  async reset(contract) {
+    await Promise.all([
+      Delegation.deleteMany({ contract: contract._id }),
+      Delegate.deleteMany({ contract: contract._id }),
+      VotingPowerCheckpoint.deleteMany({ contract: contract._id })
+    ]);
+  }
+};
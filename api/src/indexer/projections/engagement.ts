@@ -0,0 +1,157 @@
+import { Contract, ContractType, IContract } from '../../models/Contract';
+import { EngagementEntry, EngagementEntryType } from '../../models/EngagementEntry';
+import { IEvent } from '../../models/Event';
+import { FanStats } from '../../models/FanStats';
+import { Transaction } from '../../models/Transaction';
+import { EMPTY_FAN_STATE, FanState, foldFanState, RECORD_FUNCTIONS } from '../../utils/engagement';
+import { abiRegistry } from '../abi/AbiRegistry';
+import { CHAIN_ORDER, isAfter, Projection } from './types';
+
+const ENTRY_TYPES: Record<string, EngagementEntryType> = {
+  PointsEarned: EngagementEntryType.POINTS_EARNED,
+  AchievementUnlocked: EngagementEntryType.ACHIEVEMENT_UNLOCKED,
+  RewardsClaimed: EngagementEntryType.REWARDS_CLAIMED
+};
+
+/**
+ * PointsEarned and AchievementUnlocked leave out the track, so it is read
+ * from the recordLike/recordShare/recordStream/recordPurchase calldata. The
+ * action comes from the event and falls back to the function called.
+ */
+const recordCall = async (contract: IContract, event: IEvent) => {
+  const tx = await Transaction.findOne({ network: event.network, hash: event.transactionHash });
+  const call = tx?.input ? abiRegistry.decodeCall(contract, tx.input) : null;
+  const action = call ? RECORD_FUNCTIONS[call.name] : undefined;
+  if (!call || !action || (event.name === 'PointsEarned' && event.args?.action !== action)) {
+    return {};
+  }
+  return { action, tokenId: call.args.tokenId as string };
+};
+
+const toEntry = async (contract: IContract, event: IEvent) => {
+  const args = event.args ?? {};
+  const type = ENTRY_TYPES[event.name];
+  const fields: Record<string, unknown> = {};
+  switch (type) {
+    case EngagementEntryType.POINTS_EARNED: {
+      const call = await recordCall(contract, event);
+      Object.assign(fields, { action: args.action ?? call.action, points: Number(args.points), tokenId: call.tokenId });
+      break;
+    }
+    case EngagementEntryType.ACHIEVEMENT_UNLOCKED: {
+      const call = await recordCall(contract, event);
+      Object.assign(fields, { achievement: args.achievement, action: call.action, tokenId: call.tokenId });
+      break;
+    }
+    case EngagementEntryType.REWARDS_CLAIMED:
+      fields.amount = args.amount;
+      break;
+  }
+  return { type, fields };
+};
+
+const stateOf = (stats: FanState): FanState => ({
+  totalPoints: stats.totalPoints,
+  points: stats.points,
+  totalInteractions: stats.totalInteractions,
+  achievementCount: stats.achievementCount,
+  rewardsClaimed: stats.rewardsClaimed,
+  firstInteractionAt: stats.firstInteractionAt,
+  lastInteractionAt: stats.lastInteractionAt
+});
+
+const saveStats = (contract: IContract, user: string, state: FanState, position: { blockNumber: number; logIndex: number }) =>
+  FanStats.findOneAndUpdate(
+    { contract: contract._id, user },
+    {
+      $set: {
+        contractAddress: contract.address,
+        network: contract.network,
+        ...state,
+        lastBlockNumber: position.blockNumber,
+        lastLogIndex: position.logIndex
+      }
+    },
+    { upsert: true, runValidators: true }
+  );
+
+/**
+ * Replays a user's stored entries to rebuild their totals from scratch
+ * @param contract The FanEngagement contract
+ * @param user The user, lowercased
+ */
+export const rebuildFanStats = async (contract: IContract, user: string) => {
+  const entries = await EngagementEntry.find({ contract: contract._id, user }).sort(CHAIN_ORDER).lean();
+  if (!entries.length) {
+    await FanStats.deleteOne({ contract: contract._id, user });
+    return;
+  }
+
+  const state = entries.reduce(foldFanState, EMPTY_FAN_STATE);
+  await saveStats(contract, user, state, entries[entries.length - 1]);
+};
+
+/**
+ * Keeps a ledger of FanEngagement points, achievements and claims, and each
+ * user's totals folded from it
+ */
+export const engagementProjection: Projection = {
+  name: 'engagement',
+  contractTypes: [ContractType.FAN_ENGAGEMENT],
+  events: Object.keys(ENTRY_TYPES),
+
+  async apply(event, contract) {
+    const user: string | undefined = event.args?.user;
+    if (!user) {
+      return;
+    }
+
+    const { type, fields } = await toEntry(contract, event);
+    const entry = await EngagementEntry.findOneAndUpdate(
+      { contract: contract._id, blockNumber: event.blockNumber, logIndex: event.logIndex },
+      {
+        $set: {
+          contractAddress: contract.address,
+          network: contract.network,
+          user,
+          type,
+          ...fields,
+          timestamp: event.timestamp,
+          transactionHash: event.transactionHash
+        }
+      },
+      { upsert: true, new: true, runValidators: true }
+    ).lean();
+
+    const stats = await FanStats.findOne({ contract: contract._id, user }).lean();
+    if (stats && stats.lastBlockNumber === event.blockNumber && stats.lastLogIndex === event.logIndex) {
+      return;
+    }
+    if (stats && !isAfter(event, stats)) {
+      await rebuildFanStats(contract, user);
+      return;
+    }
+    await saveStats(contract, user, foldFanState(stats ? stateOf(stats) : EMPTY_FAN_STATE, entry), event);
+  },
+
+  async rollback(network, ancestor) {
+    await EngagementEntry.deleteMany({ network, blockNumber: { $gt: ancestor } });
+
+    const fans = await FanStats.find({ network, lastBlockNumber: { $gt: ancestor } }).lean();
+    for (const fan of fans) {
+      const contract = await Contract.findById(fan.contract);
+      if (contract) {
+        await rebuildFanStats(contract, fan.user);
+      } else {
+        await FanStats.deleteOne({ _id: fan._id });
+      }
+    }
+  },
+
+  async reset(contract) {
+    await Promise.all([
+      EngagementEntry.deleteMany({ contract: contract._id }),
+      FanStats.deleteMany({ contract: contract._id })
+    ]);
+  }
+};
@@ -0,0 +1,248 @@
+import { Contract, ContractType, IContract } from '../../models/Contract';
+import { Event, IEvent } from '../../models/Event';
+import { IProposalAction, Proposal } from '../../models/Proposal';
+import { Vote } from '../../models/Vote';
+import { proposalTitle, timelockOperationId } from '../../utils/governance';
+import { abiRegistry } from '../abi/AbiRegistry';
+import { CHAIN_ORDER, isAfter, numberArg, Projection, stringArg, stringsArg } from './types';
+
+export const GOVERNANCE_EVENTS = [
+  'ProposalCreated',
+  'ProposalQueued',
+  'ProposalExecuted',
+  'ProposalCanceled',
+  'VoteCast',
+  'VoteCastWithParams'
+];
+
+const VOTE_EVENTS = ['VoteCast', 'VoteCastWithParams'];
+
+/**
+ * Decodes a call with the ABI of its target when the target is a contract
+ * registered on the network
+ * @param network The network of the call
+ * @param target The called address
+ * @param data The calldata
+ */
+export const decodeTargetCall = async (network: string, target: string, data: string | undefined) => {
+  if (!data || data === '0x') {
+    return undefined;
+  }
+  const contract = await Contract.findOne({ network, address: target.toLowerCase() }).lean();
+  return (contract && abiRegistry.decodeCall(contract, data)) ?? undefined;
+};
+
+const decodeActions = async (network: string, args: Record<string, unknown>): Promise<IProposalAction[]> => {
+  const values = stringsArg(args.values);
+  const signatures = stringsArg(args.signatures);
+  const calldatas = stringsArg(args.calldatas);
+  return Promise.all(stringsArg(args.targets).map(async (target, i) => ({
+    target,
+    value: values[i] ?? '0',
+    signature: signatures[i] ?? '',
+    calldata: calldatas[i] ?? '0x',
+    decoded: await decodeTargetCall(network, target, calldatas[i])
+  })));
+};
+
+/**
+ * Adds up a proposal's votes by support
+ */
+const tally = async (contract: IContract, proposalId: string) => {
+  const votes = await Vote.find({ contract: contract._id, proposalId }).select('support weight').lean();
+  const totals = [0n, 0n, 0n];
+  for (const vote of votes) {
+    totals[vote.support] += BigInt(vote.weight);
+  }
+  return {
+    againstVotes: totals[0].toString(),
+    forVotes: totals[1].toString(),
+    abstainVotes: totals[2].toString(),
+    voterCount: votes.length
+  };
+};
+
+/**
+ * Rewrites a proposal from its stored ProposalCreated, lifecycle events and
+ * votes, or drops it when ProposalCreated is not stored (yet)
+ * @param contract The governor
+ * @param proposalId The proposal id as a decimal string
+ */
+export const rebuildProposal = async (contract: IContract, proposalId: string) => {
+  const events = await Event.find({
+    contract: contract._id,
+    name: { $in: GOVERNANCE_EVENTS.filter(name => !VOTE_EVENTS.includes(name)) },
+    'args.proposalId': proposalId
+  }).sort(CHAIN_ORDER).lean();
+
+  const created = events.find(event => event.name === 'ProposalCreated');
+  if (!created) {
+    await Proposal.deleteOne({ contract: contract._id, proposalId });
+    return;
+  }
+
+  const args: Record<string, unknown> = created.args ?? {};
+  const description = stringArg(args.description) ?? '';
+  const fields: Record<string, unknown> = {
+    contractAddress: contract.address,
+    network: contract.network,
+    proposer: stringArg(args.proposer),
+    actions: await decodeActions(contract.network, args),
+    description,
+    title: proposalTitle(description),
+    timelockOperationId: timelockOperationId(
+      contract.address,
+      stringsArg(args.targets),
+      stringsArg(args.values),
+      stringsArg(args.calldatas),
+      description
+    ),
+    voteStart: numberArg(args.voteStart),
+    voteEnd: numberArg(args.voteEnd),
+    proposedAt: created.timestamp,
+    proposedBlock: created.blockNumber,
+    transactionHash: created.transactionHash,
+    ...await tally(contract, proposalId)
+  };
+  const unset: Record<string, 1> = {};
+  const lifecycle = {
+    ProposalQueued: ['queuedAt', 'queuedBlock'],
+    ProposalExecuted: ['executedAt', 'executedBlock'],
+    ProposalCanceled: ['canceledAt', 'canceledBlock']
+  } as const;
+  for (const [name, [at, block]] of Object.entries(lifecycle)) {
+    const event = events.find(e => e.name === name);
+    if (event) {
+      fields[at] = event.timestamp;
+      fields[block] = event.blockNumber;
+    } else {
+      unset[at] = 1;
+      unset[block] = 1;
+    }
+  }
+  const queued = events.find(event => event.name === 'ProposalQueued');
+  if (queued) {
+    fields.eta = numberArg(queued.args?.etaSeconds);
+  } else {
+    unset.eta = 1;
+  }
+
+  const last = await Event.findOne({
+    contract: contract._id,
+    name: { $in: GOVERNANCE_EVENTS },
+    'args.proposalId': proposalId
+  }).sort({ blockNumber: -1, logIndex: -1 }).lean();
+
+  await Proposal.findOneAndUpdate(
+    { contract: contract._id, proposalId },
+    {
+      $set: { ...fields, lastBlockNumber: last?.blockNumber, lastLogIndex: last?.logIndex },
+      ...(Object.keys(unset).length > 0 && { $unset: unset })
+    },
+    { upsert: true, runValidators: true }
+  );
+};
+
+const saveVote = (contract: IContract, event: IEvent) => {
+  const args: Record<string, unknown> = event.args ?? {};
+  return Vote.findOneAndUpdate(
+    { contract: contract._id, proposalId: args.proposalId, voter: args.voter },
+    {
+      $set: {
+        contractAddress: contract.address,
+        network: contract.network,
+        support: numberArg(args.support),
+        weight: args.weight,
+        reason: stringArg(args.reason) ?? '',
+        ...(event.name === 'VoteCastWithParams' && { params: args.params }),
+        timestamp: event.timestamp,
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+        transactionHash: event.transactionHash
+      }
+    },
+    { upsert: true, runValidators: true }
+  );
+};
+
+/**
+ * Keeps Governor proposals and votes in line with the stored events.
+ * Lifecycle events are folded into a proposal once its ProposalCreated is
+ * stored; votes are kept on their own and the tallies re-added from them.
+ */
+export const governanceProjection: Projection = {
+  name: 'governance',
+  contractTypes: [ContractType.GOVERNOR],
+  events: GOVERNANCE_EVENTS,
+
+  async apply(event, contract) {
+    const proposalId = stringArg(event.args?.proposalId);
+    if (!proposalId) {
+      return;
+    }
+
+    if (VOTE_EVENTS.includes(event.name)) {
+      await saveVote(contract, event);
+    }
+
+    const proposal = await Proposal.findOne({ contract: contract._id, proposalId }).lean();
+    if (!proposal) {
+      if (event.name === 'ProposalCreated') {
+        await rebuildProposal(contract, proposalId);
+      }
+      return;
+    }
+
+    const position = { lastBlockNumber: proposal.lastBlockNumber, lastLogIndex: proposal.lastLogIndex };
+    const update: Record<string, unknown> = isAfter(event, position)
+      ? { lastBlockNumber: event.blockNumber, lastLogIndex: event.logIndex }
+      : {};
+    switch (event.name) {
+      case 'ProposalQueued':
+        Object.assign(update, { eta: numberArg(event.args?.etaSeconds), queuedAt: event.timestamp, queuedBlock: event.blockNumber });
+        break;
+      case 'ProposalExecuted':
+        Object.assign(update, { executedAt: event.timestamp, executedBlock: event.blockNumber });
+        break;
+      case 'ProposalCanceled':
+        Object.assign(update, { canceledAt: event.timestamp, canceledBlock: event.blockNumber });
+        break;
+      case 'VoteCast':
+      case 'VoteCastWithParams':
+        Object.assign(update, await tally(contract, proposalId));
+        break;
+      default:
+        // ProposalCreated seen again
+        return;
+    }
+    await Proposal.updateOne({ _id: proposal._id }, { $set: update });
+  },
+
+  async rollback(network, ancestor) {
+    const [proposals, votes] = await Promise.all([
+      Proposal.find({ network, lastBlockNumber: { $gt: ancestor } }).select('contract proposalId').lean(),
+      Vote.find({ network, blockNumber: { $gt: ancestor } }).select('contract proposalId').lean()
+    ]);
+    await Vote.deleteMany({ network, blockNumber: { $gt: ancestor } });
+
+    const affected = new Map<string, { contract: unknown; proposalId: string }>();
+    for (const row of [...proposals, ...votes]) {
+      affected.set(`${row.contract}:${row.proposalId}`, row);
+    }
+    for (const { contract: contractId, proposalId } of affected.values()) {
+      const contract = await Contract.findById(contractId);
+      if (contract) {
+        await rebuildProposal(contract, proposalId);
+      } else {
+        await Proposal.deleteOne({ contract: contractId, proposalId });
+      }
+    }
+  },
+
+  async reset(contract) {
+    await Promise.all([
+      Proposal.deleteMany({ contract: contract._id }),
+      Vote.deleteMany({ contract: contract._id })
+    ]);
+  }
+};
@@ -0,0 +1,127 @@
+import { Contract, ContractType, IContract } from '../../models/Contract';
+import { Event, IEvent } from '../../models/Event';
+import { TokenHolder } from '../../models/TokenHolder';
+import { CHAIN_ORDER, isAfter, Projection } from './types';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * Sums every stored Transfer of an account to rebuild its balance from scratch
+ * @param contract The token contract
+ * @param address The account, lowercased
+ */
+export const rebuildHolder = async (contract: IContract, address: string) => {
+  const transfers = await Event.find({
+    contract: contract._id,
+    name: 'Transfer',
+    $or: [{ 'args.from': address }, { 'args.to': address }]
+  }).sort(CHAIN_ORDER);
+
+  if (!transfers.length) {
+    await TokenHolder.deleteOne({ contract: contract._id, address });
+    return;
+  }
+
+  let balance = 0n;
+  for (const transfer of transfers) {
+    const value = BigInt(transfer.args?.value ?? 0);
+    // A self-transfer leaves the balance unchanged
+    if (transfer.args?.to === address) {
+      balance += value;
+    }
+    if (transfer.args?.from === address) {
+      balance -= value;
+    }
+  }
+  const last = transfers[transfers.length - 1];
+
+  await TokenHolder.findOneAndUpdate(
+    { contract: contract._id, address },
+    {
+      $set: {
+        contractAddress: contract.address,
+        network: contract.network,
+        balance: balance.toString(),
+        firstBlockNumber: transfers[0].blockNumber,
+        lastBlockNumber: last.blockNumber,
+        lastLogIndex: last.logIndex
+      }
+    },
+    { upsert: true, runValidators: true }
+  );
+};
+
+/**
+ * Moves one side of a transfer onto an account's balance, replaying the
+ * account's transfers when the event does not follow its last one
+ */
+const applySide = async (contract: IContract, address: string, delta: bigint, event: IEvent) => {
+  const holder = await TokenHolder.findOne({ contract: contract._id, address }).lean();
+  if (holder && holder.lastBlockNumber === event.blockNumber && holder.lastLogIndex === event.logIndex) {
+    return;
+  }
+  if (holder && !isAfter(event, holder)) {
+    await rebuildHolder(contract, address);
+    return;
+  }
+
+  await TokenHolder.findOneAndUpdate(
+    { contract: contract._id, address },
+    {
+      $set: {
+        contractAddress: contract.address,
+        network: contract.network,
+        balance: (BigInt(holder?.balance ?? '0') + delta).toString(),
+        lastBlockNumber: event.blockNumber,
+        lastLogIndex: event.logIndex
+      },
+      $setOnInsert: { firstBlockNumber: event.blockNumber }
+    },
+    { upsert: true, runValidators: true }
+  );
+};
+
+/**
+ * Keeps ERC20 balances in line with Transfer events. The zero address stands
+ * for mints and burns and is not a holder.
+ */
+export const holderProjection: Projection = {
+  name: 'holders',
+  contractTypes: [ContractType.ERC20, ContractType.TUNE_TOKEN],
+  events: ['Transfer'],
+
+  async apply(event, contract) {
+    const { from, to, value } = event.args ?? {};
+    if (typeof from !== 'string' || typeof to !== 'string' || value == null) {
+      return;
+    }
+    if (from === to) {
+      if (from !== ZERO_ADDRESS) {
+        await applySide(contract, from, 0n, event);
+      }
+      return;
+    }
+    if (from !== ZERO_ADDRESS) {
+      await applySide(contract, from, -BigInt(value), event);
+    }
+    if (to !== ZERO_ADDRESS) {
+      await applySide(contract, to, BigInt(value), event);
+    }
+  },
+
+  async rollback(network, ancestor) {
+    const holders = await TokenHolder.find({ network, lastBlockNumber: { $gt: ancestor } }).lean();
+    for (const holder of holders) {
+      const contract = await Contract.findById(holder.contract);
+      if (contract) {
+        await rebuildHolder(contract, holder.address);
+      } else {
+        await TokenHolder.deleteOne({ _id: holder._id });
+      }
+    }
+  },
+
+  async reset(contract) {
+    await TokenHolder.deleteMany({ contract: contract._id });
+  }
+};
@@ -0,0 +1,82 @@
+import { IContract } from '../../models/Contract';
+import { IEvent } from '../../models/Event';
+import { logger } from '../../utils/logger';
+import { Projection } from './types';
+import { marketplaceProjection } from './marketplace';
+import { saleProjection } from './sales';
+import { royaltyProjection } from './royalties';
+import { delegationProjection } from './delegation';
+import { engagementProjection } from './engagement';
+import { governanceProjection } from './governance';
+import { holderProjection } from './holders';
+import { recommendationGraphProjection } from './recommendationGraph';
+import { stakingProjection } from './staking';
+import { supplyProjection } from './supply';
+import { timelockProjection } from './timelock';
+import { serviceTierProjection } from './serviceTiers';
+import { vestingProjection } from './vesting';
+import { trackProjection } from './tracks';
+import { trackVersionProjection } from './trackVersions';
+
+/**
+ * Read models derived from decoded events. Each projection keeps its rows
+ * consistent with the stored events, whatever order they are indexed in.
+ */
+export const PROJECTIONS: Projection[] = [
+  trackProjection,
+  trackVersionProjection,
+  marketplaceProjection,
+  saleProjection,
+  royaltyProjection,
+  stakingProjection,
+  vestingProjection,
+  holderProjection,
+  supplyProjection,
+  serviceTierProjection,
+  governanceProjection,
+  timelockProjection,
+  delegationProjection,
+  engagementProjection,
+  recommendationGraphProjection
+];
+
+const handles = (projection: Projection, event: IEvent, contract: IContract) =>
+  projection.contractTypes.includes(contract.type) && projection.events.includes(event.name);
+
+/**
+ * Updates every projection that consumes a newly stored event
+ * @param event The stored event
+ * @param contract The contract that emitted it
+ */
+export const applyProjections = async (event: IEvent, contract: IContract) => {
+  for (const projection of PROJECTIONS) {
+    if (handles(projection, event, contract)) {
+      await projection.apply(event, contract);
+    }
+  }
+};
+
+/**
+ * Re-derives projected rows after the events above a common ancestor were
+ * deleted by a chain reorganization
+ * @param network The network that reorganized
+ * @param ancestor The last block still on the canonical chain
+ */
+export const rollbackProjections = async (network: string, ancestor: number) => {
+  for (const projection of PROJECTIONS) {
+    await projection.rollback(network, ancestor);
+  }
+  logger.debug('Rolled back projections', { network, ancestor });
+};
+
+/**
+ * Drops every projected row derived from a contract's events
+ * @param contract The contract being re-indexed from scratch
+ */
+export const resetProjections = async (contract: IContract) => {
+  for (const projection of PROJECTIONS) {
+    await projection.reset(contract);
+  }
+};
+
+export type { Projection } from './types';
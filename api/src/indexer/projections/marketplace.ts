@@ -0,0 +1,232 @@
+import { Contract, ContractType, IContract } from '../../models/Contract';
+import { Event, IEvent } from '../../models/Event';
+import { Listing, ListingStatus } from '../../models/Listing';
+import { Offer, OfferStatus } from '../../models/Offer';
+import { Transaction } from '../../models/Transaction';
+import { abiRegistry } from '../abi/AbiRegistry';
+import { CHAIN_ORDER, isAfter, Projection } from './types';
+
+export const MARKETPLACE_EVENTS = [
+  'TokenListed',
+  'TokenDelisted',
+  'TokenSold',
+  'OfferCreated',
+  'OfferAccepted',
+  'OfferCancelled'
+];
+
+const LATEST_FIRST = { lastBlockNumber: -1, lastLogIndex: -1 } as const;
+
+/**
+ * Neither OfferAccepted nor OfferCancelled says which offer was taken out of
+ * the array, so the index is read from the acceptOffer/cancelOffer calldata
+ */
+const offerIndexArg = async (contract: IContract, event: IEvent, functionName: string) => {
+  const tx = await Transaction.findOne({ network: event.network, hash: event.transactionHash });
+  const call = tx?.input ? abiRegistry.decodeCall(contract, tx.input) : null;
+  if (call?.name !== functionName || call.args.tokenId !== event.args?.tokenId) {
+    return undefined;
+  }
+  return Number(call.args.offerIndex);
+};
+
+/**
+ * Finds the open offer an accept or cancel removed: the one at the decoded
+ * index when it belongs to the buyer, otherwise the buyer's first matching one
+ */
+const findClosedOffer = async (
+  contract: IContract,
+  event: IEvent,
+  functionName: string,
+  match: Record<string, unknown>
+) => {
+  const open = { contract: contract._id, tokenId: event.args?.tokenId, status: OfferStatus.OPEN };
+  const index = await offerIndexArg(contract, event, functionName);
+  if (index !== undefined) {
+    const offer = await Offer.findOne({ ...open, index, buyer: match.buyer });
+    if (offer) {
+      return offer;
+    }
+  }
+  return Offer.findOne({ ...open, ...match }).sort({ index: 1 });
+};
+
+/**
+ * Applies one event to a token's listings and offers the way Marketplace
+ * updates its listings and offers mappings
+ */
+const fold = async (contract: IContract, event: IEvent) => {
+  const args = event.args ?? {};
+  const tokenId: string = args.tokenId;
+  const position = { lastBlockNumber: event.blockNumber, lastLogIndex: event.logIndex };
+  const closing = {
+    closedAt: event.timestamp,
+    closedBlock: event.blockNumber,
+    closingTransactionHash: event.transactionHash,
+    ...position
+  };
+  const active = { contract: contract._id, tokenId, status: ListingStatus.ACTIVE };
+  const open = { contract: contract._id, tokenId, status: OfferStatus.OPEN };
+
+  switch (event.name) {
+    case 'TokenListed':
+      await Listing.create({
+        contract: contract._id,
+        contractAddress: contract.address,
+        network: contract.network,
+        tokenId,
+        seller: args.seller,
+        price: args.price,
+        listedAt: event.timestamp,
+        listedBlock: event.blockNumber,
+        transactionHash: event.transactionHash,
+        ...position
+      });
+      break;
+    case 'TokenDelisted':
+      await Listing.updateOne(active, { $set: { status: ListingStatus.DELISTED, ...closing } });
+      break;
+    case 'TokenSold':
+      await Listing.updateOne(active, { $set: { status: ListingStatus.SOLD, buyer: args.buyer, ...closing } });
+      break;
+    case 'OfferCreated':
+      // Expired offers stay in the array until accepted or cancelled, so they keep their index
+      await Offer.create({
+        contract: contract._id,
+        contractAddress: contract.address,
+        network: contract.network,
+        tokenId,
+        buyer: args.buyer,
+        price: args.price,
+        expirationTime: Number(args.expirationTime),
+        index: await Offer.countDocuments(open),
+        offeredAt: event.timestamp,
+        offeredBlock: event.blockNumber,
+        transactionHash: event.transactionHash,
+        ...position
+      });
+      break;
+    case 'OfferAccepted': {
+      const offer = await findClosedOffer(contract, event, 'acceptOffer', { buyer: args.buyer, price: args.price });
+      if (offer) {
+        await Offer.updateOne(
+          { _id: offer._id },
+          { $set: { status: OfferStatus.ACCEPTED, seller: args.seller, ...closing }, $unset: { index: 1 } }
+        );
+      }
+      // acceptOffer deletes every other offer on the token
+      await Offer.updateMany(open, { $set: { status: OfferStatus.VOIDED, ...closing }, $unset: { index: 1 } });
+      break;
+    }
+    case 'OfferCancelled': {
+      const offer = await findClosedOffer(contract, event, 'cancelOffer', { buyer: args.buyer });
+      if (!offer) {
+        break;
+      }
+      await Offer.updateOne(
+        { _id: offer._id },
+        { $set: { status: OfferStatus.CANCELLED, ...closing }, $unset: { index: 1 } }
+      );
+      // cancelOffer swaps the last offer into the freed slot before popping
+      await Offer.findOneAndUpdate(
+        { ...open, index: { $gt: offer.index } },
+        { $set: { index: offer.index } },
+        { sort: { index: -1 } }
+      );
+      break;
+    }
+  }
+};
+
+/**
+ * Position of the last event folded into a token's listings and offers
+ */
+const lastChange = async (contract: IContract, tokenId: string) => {
+  const key = { contract: contract._id, tokenId };
+  const [listing, offer] = await Promise.all([
+    Listing.findOne(key).sort(LATEST_FIRST).select('lastBlockNumber lastLogIndex').lean(),
+    Offer.findOne(key).sort(LATEST_FIRST).select('lastBlockNumber lastLogIndex').lean()
+  ]);
+  const candidates = [listing, offer].filter(row => row !== null);
+  if (candidates.length === 0) {
+    return null;
+  }
+  return candidates.reduce((last, row) =>
+    isAfter({ blockNumber: row.lastBlockNumber, logIndex: row.lastLogIndex }, last) ? row : last
+  );
+};
+
+/**
+ * Replays every stored Marketplace event of a token to rebuild its listings
+ * and offers from scratch
+ * @param contract The Marketplace contract
+ * @param tokenId The token ID as a decimal string
+ */
+export const rebuildOrderBook = async (contract: IContract, tokenId: string) => {
+  const key = { contract: contract._id, tokenId };
+  await Promise.all([Listing.deleteMany(key), Offer.deleteMany(key)]);
+
+  const events = await Event.find({
+    contract: contract._id,
+    name: { $in: MARKETPLACE_EVENTS },
+    'args.tokenId': tokenId
+  }).sort(CHAIN_ORDER);
+
+  for (const event of events) {
+    await fold(contract, event);
+  }
+};
+
+/**
+ * Keeps the Listing and Offer read models in line with Marketplace events.
+ * Events arriving after the last one folded into a token's order book are
+ * applied directly; anything else replays the token's events.
+ */
+export const marketplaceProjection: Projection = {
+  name: 'marketplace',
+  contractTypes: [ContractType.MARKETPLACE],
+  events: MARKETPLACE_EVENTS,
+
+  async apply(event, contract) {
+    const tokenId = event.args?.tokenId;
+    if (typeof tokenId !== 'string') {
+      return;
+    }
+
+    const last = await lastChange(contract, tokenId);
+    if (last && isAfter(event, last)) {
+      await fold(contract, event);
+      return;
+    }
+    await rebuildOrderBook(contract, tokenId);
+  },
+
+  async rollback(network, ancestor) {
+    const changed = { network, lastBlockNumber: { $gt: ancestor } };
+    const [listings, offers] = await Promise.all([
+      Listing.find(changed).select('contract tokenId').lean(),
+      Offer.find(changed).select('contract tokenId').lean()
+    ]);
+
+    const tokens = new Map<string, { contract: unknown; tokenId: string }>();
+    for (const row of [...listings, ...offers]) {
+      tokens.set(`${row.contract}:${row.tokenId}`, row);
+    }
+
+    for (const { contract: contractId, tokenId } of tokens.values()) {
+      const contract = await Contract.findById(contractId);
+      if (contract) {
+        await rebuildOrderBook(contract, tokenId);
+      } else {
+        await Promise.all([
+          Listing.deleteMany({ contract: contractId, tokenId }),
+          Offer.deleteMany({ contract: contractId, tokenId })
+        ]);
+      }
+    }
+  },
+
+  async reset(contract) {
+    await Promise.all([Listing.deleteMany({ contract: contract._id }), Offer.deleteMany({ contract: contract._id })]);
+  }
+};
@@ -0,0 +1,169 @@
+import { Model } from 'mongoose';
+import { ArtistNode } from '../../models/ArtistNode';
+import { Contract, ContractType, IContract } from '../../models/Contract';
+import { Event, IEvent } from '../../models/Event';
+import { TrackEdge } from '../../models/TrackEdge';
+import { TrackNode } from '../../models/TrackNode';
+import { UserInteraction } from '../../models/UserInteraction';
+import { isAfter, numberArg, Projection, stringArg } from './types';
+
+const LATEST_FIRST = { blockNumber: -1, logIndex: -1 } as const;
+
+type Args = Record<string, unknown>;
+
+interface LatestRow<T> {
+  model: Model<T>;
+  // The row's key fields, named after the event args they come from
+  keys: string[];
+  fields: (args: Args) => Record<string, unknown>;
+}
+
+/**
+ * A row of any of the node and edge models. Mongoose models do not mix in
+ * a union, so the row is handed to a callback that works for each of them.
+ */
+type AnyLatestRow = <R>(use: <T>(row: LatestRow<T>) => R) => R;
+
+const latestRow = <T>(row: LatestRow<T>): AnyLatestRow => use => use(row);
+
+/**
+ * Nodes and edges are upserted by the contract, so each row follows the
+ * latest event for its key
+ */
+const LATEST_ROWS: Record<string, AnyLatestRow> = {
+  TrackNodeAdded: latestRow({
+    model: TrackNode,
+    keys: ['tokenId'],
+    fields: args => ({ metadataURI: stringArg(args.metadataURI) })
+  }),
+  ArtistNodeAdded: latestRow({
+    model: ArtistNode,
+    keys: ['artist'],
+    fields: args => ({ metadataURI: stringArg(args.metadataURI) })
+  }),
+  TrackEdgeCreated: latestRow({
+    model: TrackEdge,
+    keys: ['fromTrack', 'toTrack'],
+    fields: args => ({ weight: numberArg(args.weight) })
+  })
+};
+
+const keyOf = <T>(row: LatestRow<T>, args: Args) => {
+  const key: Record<string, string> = {};
+  for (const name of row.keys) {
+    const value = args[name];
+    if (typeof value !== 'string') {
+      return null;
+    }
+    key[name] = value.toLowerCase();
+  }
+  return key;
+};
+
+const save = <T>(row: LatestRow<T>, contract: IContract, key: Record<string, string>, event: IEvent) =>
+  row.model.findOneAndUpdate(
+    { contract: contract._id, ...key },
+    {
+      $set: {
+        contractAddress: contract.address,
+        network: contract.network,
+        ...row.fields(event.args ?? {}),
+        timestamp: event.timestamp,
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+        transactionHash: event.transactionHash
+      }
+    },
+    { upsert: true, runValidators: true }
+  );
+
+/**
+ * Points a node or edge at its latest stored event, or drops it when none
+ * is left
+ * @param contract The RecommendationGraph contract
+ * @param name The event that sets the row
+ * @param key The row's key fields
+ */
+export const rebuildGraphRow = (contract: IContract, name: string, key: Record<string, string>) =>
+  LATEST_ROWS[name](async row => {
+    const filter = Object.fromEntries(Object.entries(key).map(([field, value]) => [`args.${field}`, value]));
+    const latest = await Event.findOne({ contract: contract._id, name, ...filter }).sort(LATEST_FIRST);
+
+    if (latest) {
+      await save(row, contract, key, latest);
+    } else {
+      await row.model.deleteOne({ contract: contract._id, ...key });
+    }
+  });
+
+/**
+ * Mirrors the RecommendationGraph track and artist nodes, the weighted
+ * edges between tracks and every user interaction
+ */
+export const recommendationGraphProjection: Projection = {
+  name: 'recommendationGraph',
+  contractTypes: [ContractType.RECOMMENDATION_GRAPH],
+  events: [...Object.keys(LATEST_ROWS), 'UserInteraction'],
+
+  async apply(event, contract) {
+    const args: Args = event.args ?? {};
+
+    if (event.name === 'UserInteraction') {
+      if (typeof args.user !== 'string' || typeof args.tokenId !== 'string') {
+        return;
+      }
+      await UserInteraction.findOneAndUpdate(
+        { contract: contract._id, blockNumber: event.blockNumber, logIndex: event.logIndex },
+        {
+          $set: {
+            contractAddress: contract.address,
+            network: contract.network,
+            user: args.user,
+            tokenId: args.tokenId,
+            interactionType: numberArg(args.interactionType),
+            timestamp: event.timestamp,
+            transactionHash: event.transactionHash
+          }
+        },
+        { upsert: true, runValidators: true }
+      );
+      return;
+    }
+
+    await LATEST_ROWS[event.name](async row => {
+      const key = keyOf(row, args);
+      if (!key) {
+        return;
+      }
+      const current = await row.model.findOne({ contract: contract._id, ...key }).lean<{ blockNumber: number; logIndex: number }>();
+      if (!current || isAfter(event, { lastBlockNumber: current.blockNumber, lastLogIndex: current.logIndex })) {
+        await save(row, contract, key, event);
+      }
+    });
+  },
+
+  async rollback(network, ancestor) {
+    await UserInteraction.deleteMany({ network, blockNumber: { $gt: ancestor } });
+
+    for (const [name, useRow] of Object.entries(LATEST_ROWS)) {
+      await useRow(async row => {
+        const stale = await row.model.find({ network, blockNumber: { $gt: ancestor } }).lean<Args[]>();
+        for (const doc of stale) {
+          const contract = await Contract.findById(doc.contract);
+          if (contract) {
+            await rebuildGraphRow(contract, name, keyOf(row, doc)!);
+          } else {
+            await row.model.deleteOne({ _id: doc._id });
+          }
+        }
+      });
+    }
+  },
+
+  async reset(contract) {
+    await Promise.all([
+      ...Object.values(LATEST_ROWS).map(useRow => useRow(row => row.model.deleteMany({ contract: contract._id }).exec())),
+      UserInteraction.deleteMany({ contract: contract._id })
+    ]);
+  }
+};
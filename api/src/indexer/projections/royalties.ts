@@ -0,0 +1,262 @@
+import { ContractType, IContract } from '../../models/Contract';
+import { Event, IEvent } from '../../models/Event';
+import {
+  IRoyaltyEntry,
+  IRoyaltyPayee,
+  IRoyaltyState,
+  RoyaltyEntry,
+  RoyaltyEntryType,
+  RoyaltySource
+} from '../../models/RoyaltyEntry';
+import { IRoyaltyPayment, RoyaltyPayment, RoyaltyPaymentType } from '../../models/RoyaltyPayment';
+import { CHAIN_ORDER, isAfter, Projection } from './types';
+
+const ENTRY_TYPES: Record<string, RoyaltyEntryType> = {
+  PayeeAdded: RoyaltyEntryType.PAYEE_ADDED,
+  PayeeRemoved: RoyaltyEntryType.PAYEE_REMOVED,
+  RoyaltyAccumulated: RoyaltyEntryType.ACCUMULATED,
+  RoyaltyDistributed: RoyaltyEntryType.DISTRIBUTED,
+  RoyaltyReconciled: RoyaltyEntryType.RECONCILED,
+  StreamingMinutesAdded: RoyaltyEntryType.STREAMING_MINUTES,
+  StreamingRoyaltyDistributed: RoyaltyEntryType.STREAMING_DISTRIBUTED,
+  TokenDistributionThresholdUpdated: RoyaltyEntryType.THRESHOLD_UPDATED,
+  AutoDistributionThresholdSet: RoyaltyEntryType.THRESHOLD_UPDATED
+};
+
+export const ROYALTY_EVENTS = Object.keys(ENTRY_TYPES);
+
+const EMPTY_STATE: IRoyaltyState = {
+  payees: [],
+  pending: '0',
+  pendingSale: '0',
+  pendingStreaming: '0',
+  autoThreshold: '0',
+  streamedMinutes: '0',
+  totalDistributed: '0'
+};
+
+type PriorEntry = Pick<IRoyaltyEntry, 'type' | 'transactionHash' | 'state'>;
+type Payment = Pick<IRoyaltyPayment, 'payee' | 'shares' | 'amount' | 'type' | 'source' | 'isPositive'>;
+
+/** Whether the previous entry was logged earlier in the same transaction */
+const follows = (prev: PriorEntry | null, event: IEvent, type: RoyaltyEntryType) =>
+  prev?.type === type && prev.transactionHash === event.transactionHash;
+
+const add = (a: string, b: bigint) => (BigInt(a) + b).toString();
+
+/** Each payee's cut, rounded down like the contract's (amount * shares) / 100 */
+const cut = (amount: bigint, payee: IRoyaltyPayee) => (amount * BigInt(payee.shares)) / 100n;
+
+/**
+ * Applies one event to a token's royalty state the way RoyaltyDistributor
+ * does, and works out what each payee received
+ * @param prev The token's previous ledger entry, if any
+ * @param event The RoyaltyDistributor event
+ */
+const fold = (prev: PriorEntry | null, event: IEvent) => {
+  const args = event.args ?? {};
+  const state: IRoyaltyState = { ...(prev?.state ?? EMPTY_STATE), payees: [...(prev?.state.payees ?? [])] };
+  const entry: Partial<IRoyaltyEntry> = { type: ENTRY_TYPES[event.name] };
+  const payments: Payment[] = [];
+
+  const distribute = (amount: bigint, parts: [RoyaltySource, bigint][]) => {
+    for (const payee of state.payees) {
+      const total = cut(amount, payee);
+      // Attribute the payee's cut to each source, leaving the rounding to the last one
+      let remaining = total;
+      parts.forEach(([source, part], index) => {
+        const value = index === parts.length - 1 ? remaining : cut(part, payee);
+        remaining -= value;
+        if (value > 0n) {
+          payments.push({
+            payee: payee.account,
+            shares: payee.shares,
+            amount: value.toString(),
+            type: RoyaltyPaymentType.DISTRIBUTION,
+            source,
+            isPositive: true
+          });
+        }
+      });
+    }
+    state.totalDistributed = add(state.totalDistributed, amount);
+  };
+
+  switch (event.name) {
+    case 'PayeeAdded': {
+      const payee = { account: args.account, shares: Number(args.shares) };
+      // registerPayees replaces the whole split, emitting PayeeAdded for each payee
+      state.payees = follows(prev, event, RoyaltyEntryType.PAYEE_ADDED) ? [...state.payees, payee] : [payee];
+      Object.assign(entry, payee);
+      break;
+    }
+    case 'PayeeRemoved': {
+      const index = state.payees.findIndex(payee => payee.account === args.account);
+      if (index !== -1) {
+        const [removed] = state.payees.splice(index, 1, state.payees[state.payees.length - 1]);
+        state.payees.pop();
+        // The removed shares are spread evenly over the remaining payees, rounded down
+        const share = state.payees.length > 0 ? Math.floor(removed.shares / state.payees.length) : 0;
+        state.payees = state.payees.map(payee => ({ ...payee, shares: payee.shares + share }));
+        entry.shares = removed.shares;
+      }
+      entry.account = args.account;
+      break;
+    }
+    case 'StreamingMinutesAdded':
+      entry.minutes = args.streamedMinutes;
+      state.streamedMinutes = add(state.streamedMinutes, BigInt(args.streamedMinutes));
+      break;
+    case 'RoyaltyAccumulated': {
+      // recordStreamingMinutes logs StreamingMinutesAdded right before accumulating the streaming royalty
+      const source = follows(prev, event, RoyaltyEntryType.STREAMING_MINUTES)
+        ? RoyaltySource.STREAMING
+        : RoyaltySource.SALE;
+      const amount = BigInt(args.amount);
+      state.pending = add(state.pending, amount);
+      if (source === RoyaltySource.STREAMING) {
+        state.pendingStreaming = add(state.pendingStreaming, amount);
+      } else {
+        state.pendingSale = add(state.pendingSale, amount);
+      }
+      Object.assign(entry, { amount: args.amount, source });
+      break;
+    }
+    case 'RoyaltyDistributed': {
+      const amount = BigInt(args.amount);
+      entry.amount = args.amount;
+      // Reaching the auto-distribution threshold pays out everything accumulated in the same transaction
+      if (follows(prev, event, RoyaltyEntryType.ACCUMULATED) && args.amount === state.pending) {
+        const parts: [RoyaltySource, bigint][] = [
+          [RoyaltySource.SALE, BigInt(state.pendingSale)],
+          [RoyaltySource.STREAMING, BigInt(state.pendingStreaming)]
+        ];
+        const funded = parts.filter(([, part]) => part > 0n);
+        distribute(amount, funded);
+        entry.automatic = true;
+        entry.source = funded.length === 1 ? funded[0][0] : undefined;
+        Object.assign(state, { pending: '0', pendingSale: '0', pendingStreaming: '0' });
+      } else {
+        // Direct distributions come from MusicNFT purchases
+        distribute(amount, [[RoyaltySource.SALE, amount]]);
+        entry.automatic = false;
+        entry.source = RoyaltySource.SALE;
+      }
+      break;
+    }
+    case 'StreamingRoyaltyDistributed':
+      entry.amount = args.amount;
+      entry.source = RoyaltySource.STREAMING;
+      distribute(BigInt(args.amount), [[RoyaltySource.STREAMING, BigInt(args.amount)]]);
+      break;
+    case 'RoyaltyReconciled': {
+      const amount = BigInt(args.amount);
+      const isPositive = args.isPositive === true;
+      for (const payee of state.payees) {
+        payments.push({
+          payee: payee.account,
+          shares: payee.shares,
+          amount: cut(amount, payee).toString(),
+          type: RoyaltyPaymentType.RECONCILIATION,
+          isPositive
+        });
+      }
+      Object.assign(entry, { amount: args.amount, isPositive });
+      break;
+    }
+    case 'TokenDistributionThresholdUpdated':
+    case 'AutoDistributionThresholdSet':
+      entry.amount = args.threshold;
+      state.autoThreshold = args.threshold;
+      break;
+  }
+
+  return { entry: { ...entry, state }, payments };
+};
+
+/**
+ * Appends the ledger entry and payments of one event
+ */
+const record = async (contract: IContract, prev: PriorEntry | null, event: IEvent) => {
+  const { entry, payments } = fold(prev, event);
+  const base = {
+    contract: contract._id,
+    contractAddress: contract.address,
+    network: contract.network,
+    tokenId: event.args?.tokenId,
+    timestamp: event.timestamp,
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+    transactionHash: event.transactionHash
+  };
+  const stored = await RoyaltyEntry.create({ ...entry, ...base });
+  if (payments.length > 0) {
+    await RoyaltyPayment.insertMany(payments.map(payment => ({ ...payment, ...base })));
+  }
+  return stored;
+};
+
+/**
+ * Replays every stored RoyaltyDistributor event of a token to rebuild its
+ * ledger from scratch
+ * @param contract The RoyaltyDistributor contract
+ * @param tokenId The token ID as a decimal string
+ */
+export const rebuildRoyalties = async (contract: IContract, tokenId: string) => {
+  const key = { contract: contract._id, tokenId };
+  await Promise.all([RoyaltyEntry.deleteMany(key), RoyaltyPayment.deleteMany(key)]);
+
+  const events = await Event.find({
+    contract: contract._id,
+    name: { $in: ROYALTY_EVENTS },
+    'args.tokenId': tokenId
+  }).sort(CHAIN_ORDER);
+
+  let prev: PriorEntry | null = null;
+  for (const event of events) {
+    prev = await record(contract, prev, event);
+  }
+};
+
+/**
+ * Keeps the royalty ledger in line with RoyaltyDistributor events. Every
+ * entry carries the token's state after it, so an event following the last
+ * entry is folded onto it; anything else replays the token's events.
+ */
+export const royaltyProjection: Projection = {
+  name: 'royalties',
+  contractTypes: [ContractType.ROYALTY_DISTRIBUTOR],
+  events: ROYALTY_EVENTS,
+
+  async apply(event, contract) {
+    const tokenId = event.args?.tokenId;
+    if (typeof tokenId !== 'string') {
+      return;
+    }
+
+    const prev = await RoyaltyEntry.findOne({ contract: contract._id, tokenId })
+      .sort({ blockNumber: -1, logIndex: -1 })
+      .lean();
+    if (!prev || isAfter(event, { lastBlockNumber: prev.blockNumber, lastLogIndex: prev.logIndex })) {
+      await record(contract, prev, event);
+      return;
+    }
+    if (prev.blockNumber === event.blockNumber && prev.logIndex === event.logIndex) {
+      return;
+    }
+    await rebuildRoyalties(contract, tokenId);
+  },
+
+  async rollback(network, ancestor) {
+    // Entries only depend on earlier ones, so dropping those above the ancestor is enough
+    const above = { network, blockNumber: { $gt: ancestor } };
+    await Promise.all([RoyaltyEntry.deleteMany(above), RoyaltyPayment.deleteMany(above)]);
+  },
+
+  async reset(contract) {
+    await Promise.all([
+      RoyaltyEntry.deleteMany({ contract: contract._id }),
+      RoyaltyPayment.deleteMany({ contract: contract._id })
+    ]);
+  }
+};
@@ -0,0 +1,53 @@
+import { ContractType } from '../../models/Contract';
+import { Sale, SaleType } from '../../models/Sale';
+import { Projection } from './types';
+
+const SALE_TYPES: Record<string, SaleType> = {
+  TrackPurchased: SaleType.PRIMARY,
+  TokenSold: SaleType.LISTING,
+  OfferAccepted: SaleType.OFFER
+};
+
+/**
+ * Records every completed sale of a track token. Each event maps to one
+ * ledger row keyed by its log, so events can be applied in any order.
+ */
+export const saleProjection: Projection = {
+  name: 'sales',
+  contractTypes: [ContractType.MUSIC_NFT, ContractType.MARKETPLACE],
+  events: Object.keys(SALE_TYPES),
+
+  async apply(event, contract) {
+    const args = event.args ?? {};
+    if (typeof args.tokenId !== 'string') {
+      return;
+    }
+
+    await Sale.updateOne(
+      { network: event.network, transactionHash: event.transactionHash, logIndex: event.logIndex },
+      {
+        $set: {
+          contract: contract._id,
+          contractAddress: contract.address,
+          tokenId: args.tokenId,
+          type: SALE_TYPES[event.name],
+          // Primary sales have no seller: TrackPurchased is emitted by the MusicNFT contract selling the edition
+          seller: args.seller,
+          buyer: args.buyer,
+          price: args.price,
+          timestamp: event.timestamp,
+          blockNumber: event.blockNumber
+        }
+      },
+      { upsert: true, runValidators: true }
+    );
+  },
+
+  async rollback(network, ancestor) {
+    await Sale.deleteMany({ network, blockNumber: { $gt: ancestor } });
+  },
+
+  async reset(contract) {
+    await Sale.deleteMany({ contract: contract._id });
+  }
+};
@@ -0,0 +1,82 @@
+import { Contract, ContractType, IContract } from '../../models/Contract';
+import { Event, IEvent } from '../../models/Event';
+import { ServiceTier } from '../../models/ServiceTier';
+import { isAfter, Projection } from './types';
+
+const LATEST_FIRST = { blockNumber: -1, logIndex: -1 } as const;
+
+const save = (contract: IContract, event: IEvent) =>
+  ServiceTier.findOneAndUpdate(
+    { contract: contract._id, tier: Number(event.args?.tier) },
+    {
+      $set: {
+        contractAddress: contract.address,
+        network: contract.network,
+        minTokens: event.args?.minTokens,
+        discountRate: Number(event.args?.discountRate),
+        timestamp: event.timestamp,
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+        transactionHash: event.transactionHash
+      }
+    },
+    { upsert: true, runValidators: true }
+  );
+
+/**
+ * Points a tier at its latest stored ServiceTierUpdated, or drops it so the
+ * constructor default applies again
+ * @param contract The TuneToken contract
+ * @param tier The tier number
+ */
+export const rebuildServiceTier = async (contract: IContract, tier: number) => {
+  const latest = await Event.findOne({
+    contract: contract._id,
+    name: 'ServiceTierUpdated',
+    'args.tier': String(tier)
+  }).sort(LATEST_FIRST);
+
+  if (latest) {
+    await save(contract, latest);
+  } else {
+    await ServiceTier.deleteOne({ contract: contract._id, tier });
+  }
+};
+
+/**
+ * Keeps the TuneToken service tier table at the latest ServiceTierUpdated of
+ * each tier
+ */
+export const serviceTierProjection: Projection = {
+  name: 'serviceTiers',
+  contractTypes: [ContractType.TUNE_TOKEN],
+  events: ['ServiceTierUpdated'],
+
+  async apply(event, contract) {
+    const tier = Number(event.args?.tier);
+    if (!Number.isSafeInteger(tier)) {
+      return;
+    }
+
+    const current = await ServiceTier.findOne({ contract: contract._id, tier }).lean();
+    if (!current || isAfter(event, { lastBlockNumber: current.blockNumber, lastLogIndex: current.logIndex })) {
+      await save(contract, event);
+    }
+  },
+
+  async rollback(network, ancestor) {
+    const tiers = await ServiceTier.find({ network, blockNumber: { $gt: ancestor } }).lean();
+    for (const tier of tiers) {
+      const contract = await Contract.findById(tier.contract);
+      if (contract) {
+        await rebuildServiceTier(contract, tier.tier);
+      } else {
+        await ServiceTier.deleteOne({ _id: tier._id });
+      }
+    }
+  },
+
+  async reset(contract) {
+    await ServiceTier.deleteMany({ contract: contract._id });
+  }
+};
@@ -0,0 +1,245 @@
+import { ContractType, IContract } from '../../models/Contract';
+import { Event, IEvent } from '../../models/Event';
+import { IStakingEntry, StakingEntry, StakingEntryType } from '../../models/StakingEntry';
+import { IStakeState, StakingPosition } from '../../models/StakingPosition';
+import { CHAIN_ORDER, isAfter, Projection } from './types';
+
+const STAKER_EVENTS = ['Staked', 'Unstaked', 'RewardsClaimed', 'Slashed', 'DelegationUpdated'];
+
+export const STAKING_EVENTS = [...STAKER_EVENTS, 'EmergencyStateUpdated'];
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const LATEST_FIRST = { blockNumber: -1, logIndex: -1 } as const;
+
+const EMPTY_STATE: IStakeState = {
+  amount: '0',
+  delegatedTo: null,
+  lastRewardUpdate: 0,
+  accrual: [],
+  totalStaked: '0',
+  totalUnstaked: '0',
+  totalClaimed: '0',
+  totalSlashed: '0'
+};
+
+type PriorEntry = Pick<IStakingEntry, 'state'>;
+
+const stakerOf = (event: IEvent): unknown =>
+  event.name === 'DelegationUpdated' ? event.args?.from : event.args?.user;
+
+const add = (a: string, b: bigint) => (BigInt(a) + b).toString();
+
+/**
+ * Whether the contract was in its emergency state when an event was logged.
+ * unstake() is disabled then, so an Unstaked event comes from emergencyWithdraw().
+ */
+const inEmergency = async (contract: IContract, event: IEvent) => {
+  const last = await Event.findOne({
+    contract: contract._id,
+    name: 'EmergencyStateUpdated',
+    $or: [
+      { blockNumber: { $lt: event.blockNumber } },
+      { blockNumber: event.blockNumber, logIndex: { $lt: event.logIndex } }
+    ]
+  })
+    .sort(LATEST_FIRST)
+    .lean();
+  return last?.args?.state === true;
+};
+
+/**
+ * Mirrors _updateRewards: the stake held since the last update accrues into
+ * rewardDebt. pendingRewards is zero without a stake, so the debt is dropped then.
+ */
+const updateRewards = (state: IStakeState, timestamp: number) => {
+  state.accrual = BigInt(state.amount) > 0n
+    ? [...state.accrual, { amount: state.amount, seconds: timestamp - state.lastRewardUpdate }]
+    : [];
+  state.lastRewardUpdate = timestamp;
+};
+
+/**
+ * Applies one event to a staker's position the way StakingContract updates
+ * their StakeInfo
+ */
+const fold = (prev: PriorEntry | null, event: IEvent, emergency: boolean) => {
+  const args = event.args ?? {};
+  const state: IStakeState = { ...(prev?.state ?? EMPTY_STATE), accrual: [...(prev?.state.accrual ?? [])] };
+  const timestamp = event.timestamp ?? 0;
+  const entry: Partial<IStakingEntry> = { tvlDelta: '0' };
+
+  switch (event.name) {
+    case 'Staked':
+      updateRewards(state, timestamp);
+      state.amount = add(state.amount, BigInt(args.amount));
+      state.totalStaked = add(state.totalStaked, BigInt(args.amount));
+      Object.assign(entry, { type: StakingEntryType.STAKED, amount: args.amount, tvlDelta: args.amount });
+      break;
+    case 'Unstaked':
+      if (emergency) {
+        // emergencyWithdraw() zeroes rewardDebt without touching lastRewardUpdate
+        state.accrual = [];
+        entry.type = StakingEntryType.EMERGENCY_WITHDRAWN;
+      } else {
+        updateRewards(state, timestamp);
+        entry.type = StakingEntryType.UNSTAKED;
+      }
+      state.amount = add(state.amount, -BigInt(args.amount));
+      state.totalUnstaked = add(state.totalUnstaked, BigInt(args.amount));
+      Object.assign(entry, { amount: args.amount, tvlDelta: `-${args.amount}` });
+      break;
+    case 'RewardsClaimed':
+      updateRewards(state, timestamp);
+      state.accrual = [];
+      state.totalClaimed = add(state.totalClaimed, BigInt(args.amount));
+      Object.assign(entry, { type: StakingEntryType.REWARDS_CLAIMED, amount: args.amount });
+      break;
+    case 'Slashed':
+      state.amount = add(state.amount, -BigInt(args.amount));
+      state.totalSlashed = add(state.totalSlashed, BigInt(args.amount));
+      Object.assign(entry, { type: StakingEntryType.SLASHED, amount: args.amount, tvlDelta: `-${args.amount}` });
+      break;
+    case 'DelegationUpdated':
+      entry.previousDelegatee = state.delegatedTo ?? undefined;
+      if (args.to === ZERO_ADDRESS) {
+        entry.type = StakingEntryType.UNDELEGATED;
+        state.delegatedTo = null;
+      } else {
+        entry.type = StakingEntryType.DELEGATED;
+        entry.delegatee = args.to;
+        state.delegatedTo = args.to;
+      }
+      break;
+  }
+
+  if (entry.tvlDelta === '-0') {
+    entry.tvlDelta = '0';
+  }
+  return { ...entry, state };
+};
+
+/**
+ * Appends a staker's ledger entry for an event and moves their position to it
+ */
+const record = async (contract: IContract, staker: string, prev: PriorEntry | null, event: IEvent) => {
+  const emergency = event.name === 'Unstaked' && (await inEmergency(contract, event));
+  const entry = fold(prev, event, emergency);
+  const scope = {
+    contract: contract._id,
+    contractAddress: contract.address,
+    network: contract.network,
+    staker
+  };
+  const stored = await StakingEntry.create({
+    ...entry,
+    ...scope,
+    timestamp: event.timestamp,
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+    transactionHash: event.transactionHash
+  });
+  await StakingPosition.findOneAndUpdate(
+    { contract: contract._id, staker },
+    { $set: { ...scope, ...entry.state, delegatedTo: entry.state.delegatedTo ?? null, lastBlockNumber: event.blockNumber, lastLogIndex: event.logIndex } },
+    { upsert: true, runValidators: true }
+  );
+  return stored;
+};
+
+/**
+ * Points a staker's position at their latest remaining entry, or drops it
+ */
+const restorePosition = async (contractId: unknown, staker: string) => {
+  const latest = await StakingEntry.findOne({ contract: contractId, staker }).sort(LATEST_FIRST).lean();
+  if (!latest) {
+    await StakingPosition.deleteOne({ contract: contractId, staker });
+    return;
+  }
+  await StakingPosition.updateOne(
+    { contract: contractId, staker },
+    { $set: { ...latest.state, delegatedTo: latest.state.delegatedTo ?? null, lastBlockNumber: latest.blockNumber, lastLogIndex: latest.logIndex } }
+  );
+};
+
+/**
+ * Replays every stored StakingContract event of a staker to rebuild their
+ * ledger and position from scratch
+ * @param contract The StakingContract
+ * @param staker The staker address, lowercased
+ */
+export const rebuildStaker = async (contract: IContract, staker: string) => {
+  await StakingEntry.deleteMany({ contract: contract._id, staker });
+
+  const events = await Event.find({
+    contract: contract._id,
+    name: { $in: STAKER_EVENTS },
+    $or: [{ 'args.user': staker }, { name: 'DelegationUpdated', 'args.from': staker }]
+  }).sort(CHAIN_ORDER);
+
+  let prev: PriorEntry | null = null;
+  for (const event of events) {
+    prev = await record(contract, staker, prev, event);
+  }
+  if (!prev) {
+    await StakingPosition.deleteOne({ contract: contract._id, staker });
+  }
+};
+
+/**
+ * Keeps staking positions and their ledger in line with StakingContract
+ * events. An event following a staker's last entry is folded onto it;
+ * anything else replays the staker's events.
+ */
+export const stakingProjection: Projection = {
+  name: 'staking',
+  contractTypes: [ContractType.STAKING],
+  events: STAKING_EVENTS,
+
+  async apply(event, contract) {
+    if (event.name === 'EmergencyStateUpdated') {
+      // A backfilled state change reclassifies the withdrawals logged after it
+      const later = await StakingEntry.find({
+        contract: contract._id,
+        type: { $in: [StakingEntryType.UNSTAKED, StakingEntryType.EMERGENCY_WITHDRAWN] },
+        $or: [
+          { blockNumber: { $gt: event.blockNumber } },
+          { blockNumber: event.blockNumber, logIndex: { $gt: event.logIndex } }
+        ]
+      }).distinct('staker');
+      for (const staker of later) {
+        await rebuildStaker(contract, staker);
+      }
+      return;
+    }
+
+    const staker = stakerOf(event);
+    if (typeof staker !== 'string') {
+      return;
+    }
+
+    const prev = await StakingEntry.findOne({ contract: contract._id, staker }).sort(LATEST_FIRST).lean();
+    if (!prev || isAfter(event, { lastBlockNumber: prev.blockNumber, lastLogIndex: prev.logIndex })) {
+      await record(contract, staker, prev, event);
+      return;
+    }
+    if (prev.blockNumber === event.blockNumber && prev.logIndex === event.logIndex) {
+      return;
+    }
+    await rebuildStaker(contract, staker);
+  },
+
+  async rollback(network, ancestor) {
+    await StakingEntry.deleteMany({ network, blockNumber: { $gt: ancestor } });
+    const positions = await StakingPosition.find({ network, lastBlockNumber: { $gt: ancestor } }).lean();
+    for (const position of positions) {
+      await restorePosition(position.contract, position.staker);
+    }
+  },
+
+  async reset(contract) {
+    await Promise.all([
+      StakingEntry.deleteMany({ contract: contract._id }),
+      StakingPosition.deleteMany({ contract: contract._id })
+    ]);
+  }
+};
@@ -0,0 +1,180 @@
+import { ContractType, IContract } from '../../models/Contract';
+import { Event, IEvent } from '../../models/Event';
+import {
+  ITokenSupplyEntry,
+  ITokenSupplyState,
+  TokenSupplyEntry,
+  TokenSupplyEntryType
+} from '../../models/TokenSupplyEntry';
+import { EPOCH_DURATION, EPOCH_YEAR, INFLATION_POOLS, poolBalance, poolName } from '../../utils/tokenSupply';
+import { CHAIN_ORDER, isAfter, Projection } from './types';
+
+export const SUPPLY_EVENTS = ['Transfer', 'TokensBurned', 'PoolFunded', 'EpochAdvanced'];
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const LATEST_FIRST = { blockNumber: -1, logIndex: -1 } as const;
+
+const EMPTY_STATE: ITokenSupplyState = {
+  totalSupply: '0',
+  totalMinted: '0',
+  inflationMinted: '0',
+  totalBurned: '0',
+  contractBalance: '0',
+  pools: [],
+  rewardPerToken: '0'
+};
+
+type PriorEntry = Pick<ITokenSupplyEntry, 'state'>;
+
+const add = (a: string, b: bigint) => (BigInt(a) + b).toString();
+
+const setPool = (state: ITokenSupplyState, name: string, balance: bigint) => {
+  const pools = state.pools.filter(pool => pool.name !== name);
+  state.pools = [...pools, { name, balance: balance.toString() }].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Applies one event to the supply the way TuneToken updates its counters
+ * @returns The ledger entry, or null for transfers between other accounts
+ */
+const fold = (contract: IContract, prev: PriorEntry | null, event: IEvent) => {
+  const args = event.args ?? {};
+  const state: ITokenSupplyState = { ...(prev?.state ?? EMPTY_STATE), pools: [...(prev?.state.pools ?? [])] };
+  let entry: Partial<ITokenSupplyEntry>;
+
+  switch (event.name) {
+    case 'Transfer': {
+      const value = BigInt(args.value);
+      if (args.from === ZERO_ADDRESS && args.to === contract.address) {
+        // mintInflation mints to the token itself and credits each pool its share
+        state.totalSupply = add(state.totalSupply, value);
+        state.totalMinted = add(state.totalMinted, value);
+        state.inflationMinted = add(state.inflationMinted, value);
+        state.contractBalance = add(state.contractBalance, value);
+        for (const pool of INFLATION_POOLS) {
+          setPool(state, pool.name, poolBalance(state.pools, pool.name) + (value * pool.percent) / 100n);
+        }
+        entry = { type: TokenSupplyEntryType.INFLATION, amount: args.value };
+      } else if (args.from === ZERO_ADDRESS) {
+        state.totalSupply = add(state.totalSupply, value);
+        state.totalMinted = add(state.totalMinted, value);
+        entry = { type: TokenSupplyEntryType.MINTED, amount: args.value, account: args.to };
+      } else if (args.to === ZERO_ADDRESS || args.from === args.to) {
+        // Burns are recorded from TokensBurned, logged right after
+        return null;
+      } else if (args.to === contract.address) {
+        state.contractBalance = add(state.contractBalance, value);
+        entry = { type: TokenSupplyEntryType.ESCROWED, amount: args.value, account: args.from };
+      } else if (args.from === contract.address) {
+        state.contractBalance = add(state.contractBalance, -value);
+        entry = { type: TokenSupplyEntryType.RELEASED, amount: args.value, account: args.to };
+      } else {
+        return null;
+      }
+      break;
+    }
+    case 'TokensBurned':
+      state.totalSupply = add(state.totalSupply, -BigInt(args.amount));
+      state.totalBurned = add(state.totalBurned, BigInt(args.amount));
+      entry = { type: TokenSupplyEntryType.BURNED, amount: args.amount, account: args.from };
+      break;
+    case 'PoolFunded': {
+      const pool = poolName(String(args.poolName));
+      setPool(state, pool, poolBalance(state.pools, pool) + BigInt(args.amount));
+      entry = { type: TokenSupplyEntryType.POOL_FUNDED, amount: args.amount, pool };
+      break;
+    }
+    case 'EpochAdvanced': {
+      // advanceEpoch pays a week of the liquidity pool out while it holds any tokens
+      const liquidity = poolBalance(state.pools, 'liquidityMiningPool');
+      const reward = BigInt(state.contractBalance) > 0n ? (liquidity * BigInt(EPOCH_DURATION)) / BigInt(EPOCH_YEAR) : 0n;
+      if (reward > 0n) {
+        setPool(state, 'liquidityMiningPool', liquidity - reward);
+      }
+      state.epoch = Number(args.epoch);
+      state.rewardPerToken = args.rewardPerToken;
+      entry = { type: TokenSupplyEntryType.EPOCH_ADVANCED, amount: reward.toString(), pool: 'liquidityMiningPool' };
+      break;
+    }
+    default:
+      return null;
+  }
+
+  return { ...entry, state };
+};
+
+const record = async (contract: IContract, prev: PriorEntry | null, event: IEvent) => {
+  const entry = fold(contract, prev, event);
+  if (!entry) {
+    return prev;
+  }
+  return TokenSupplyEntry.create({
+    ...entry,
+    contract: contract._id,
+    contractAddress: contract.address,
+    network: contract.network,
+    timestamp: event.timestamp,
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+    transactionHash: event.transactionHash
+  });
+};
+
+/**
+ * Replays every stored supply event of a TuneToken contract to rebuild its
+ * supply ledger from scratch
+ * @param contract The TuneToken contract
+ */
+export const rebuildSupply = async (contract: IContract) => {
+  await TokenSupplyEntry.deleteMany({ contract: contract._id });
+
+  const accounts = [ZERO_ADDRESS, contract.address];
+  const events = await Event.find({
+    contract: contract._id,
+    $or: [
+      { name: { $in: ['TokensBurned', 'PoolFunded', 'EpochAdvanced'] } },
+      { name: 'Transfer', 'args.from': { $in: accounts } },
+      { name: 'Transfer', 'args.to': { $in: accounts } }
+    ]
+  }).sort(CHAIN_ORDER);
+
+  let prev: PriorEntry | null = null;
+  for (const event of events) {
+    prev = await record(contract, prev, event);
+  }
+};
+
+/**
+ * Keeps the TuneToken supply ledger in line with mints, burns, transfers in
+ * and out of the token contract, pool funding and epochs. An event following
+ * the last entry is folded onto it; anything else replays the ledger.
+ */
+export const supplyProjection: Projection = {
+  name: 'supply',
+  contractTypes: [ContractType.TUNE_TOKEN],
+  events: SUPPLY_EVENTS,
+
+  async apply(event, contract) {
+    if (!fold(contract, null, event)) {
+      return;
+    }
+
+    const prev = await TokenSupplyEntry.findOne({ contract: contract._id }).sort(LATEST_FIRST).lean();
+    if (!prev || isAfter(event, { lastBlockNumber: prev.blockNumber, lastLogIndex: prev.logIndex })) {
+      await record(contract, prev, event);
+      return;
+    }
+    if (prev.blockNumber === event.blockNumber && prev.logIndex === event.logIndex) {
+      return;
+    }
+    await rebuildSupply(contract);
+  },
+
+  async rollback(network, ancestor) {
+    await TokenSupplyEntry.deleteMany({ network, blockNumber: { $gt: ancestor } });
+  },
+
+  async reset(contract) {
+    await TokenSupplyEntry.deleteMany({ contract: contract._id });
+  }
+};
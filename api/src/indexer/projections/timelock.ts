@@ -0,0 +1,139 @@
+import { Contract, ContractType, IContract } from '../../models/Contract';
+import { Event } from '../../models/Event';
+import { ITimelockCall, ITimelockOperation, TimelockOperation } from '../../models/TimelockOperation';
+import { decodeTargetCall } from './governance';
+import { CHAIN_ORDER, numberArg, Projection, stringArg } from './types';
+
+const TIMELOCK_OPERATION_EVENTS = ['CallScheduled', 'CallExecuted', 'Cancelled'];
+
+// The fields replayed from the events; the rest come from the contract
+type ReplayedOperation = Pick<
+  ITimelockOperation,
+  | 'calls'
+  | 'predecessor'
+  | 'delay'
+  | 'scheduledAt'
+  | 'scheduledBlock'
+  | 'readyAt'
+  | 'transactionHash'
+  | 'executedAt'
+  | 'executedBlock'
+  | 'cancelledAt'
+  | 'cancelledBlock'
+  | 'lastBlockNumber'
+  | 'lastLogIndex'
+>;
+
+/**
+ * Replays the stored events of a timelock operation. A cancelled operation
+ * can be scheduled again under the same id, which starts it over.
+ * @param contract The timelock
+ * @param operationId The operation id
+ */
+export const rebuildTimelockOperation = async (contract: IContract, operationId: string) => {
+  const events = await Event.find({
+    contract: contract._id,
+    name: { $in: TIMELOCK_OPERATION_EVENTS },
+    'args.id': operationId
+  }).sort(CHAIN_ORDER).lean();
+
+  let operation: ReplayedOperation | null = null;
+  for (const event of events) {
+    const args: Record<string, unknown> = event.args ?? {};
+    const restart = !operation || operation.cancelledBlock != null;
+    switch (event.name) {
+      case 'CallScheduled': {
+        const delay = numberArg(args.delay) ?? 0;
+        const target = stringArg(args.target) ?? '';
+        const data = stringArg(args.data);
+        if (!operation || restart) {
+          operation = {
+            calls: [],
+            predecessor: stringArg(args.predecessor) ?? '',
+            delay,
+            scheduledAt: event.timestamp,
+            scheduledBlock: event.blockNumber,
+            readyAt: event.timestamp !== undefined ? event.timestamp + delay : undefined,
+            transactionHash: event.transactionHash,
+            lastBlockNumber: event.blockNumber,
+            lastLogIndex: event.logIndex
+          };
+        }
+        operation.calls.push({
+          index: numberArg(args.index) ?? 0,
+          target,
+          value: stringArg(args.value) ?? '0',
+          data: data ?? '0x',
+          decoded: await decodeTargetCall(contract.network, target, data)
+        });
+        break;
+      }
+      case 'CallExecuted':
+        if (operation && !restart) {
+          operation.executedAt = event.timestamp;
+          operation.executedBlock = event.blockNumber;
+        }
+        break;
+      case 'Cancelled':
+        if (operation && !restart) {
+          operation.cancelledAt = event.timestamp;
+          operation.cancelledBlock = event.blockNumber;
+        }
+        break;
+    }
+    if (operation) {
+      operation.lastBlockNumber = event.blockNumber;
+      operation.lastLogIndex = event.logIndex;
+    }
+  }
+
+  if (!operation) {
+    await TimelockOperation.deleteOne({ contract: contract._id, operationId });
+    return;
+  }
+  await TimelockOperation.findOneAndReplace(
+    { contract: contract._id, operationId },
+    {
+      contract: contract._id,
+      contractAddress: contract.address,
+      network: contract.network,
+      operationId,
+      ...operation,
+      calls: operation.calls.sort((a: ITimelockCall, b: ITimelockCall) => a.index - b.index)
+    },
+    { upsert: true, runValidators: true }
+  );
+};
+
+/**
+ * Keeps TimelockController operations in line with the stored events. An
+ * operation only has a handful of events, so each one replays them all.
+ */
+export const timelockProjection: Projection = {
+  name: 'timelock',
+  contractTypes: [ContractType.TIMELOCK],
+  events: TIMELOCK_OPERATION_EVENTS,
+
+  async apply(event, contract) {
+    const operationId = stringArg(event.args?.id);
+    if (operationId) {
+      await rebuildTimelockOperation(contract, operationId);
+    }
+  },
+
+  async rollback(network, ancestor) {
+    const operations = await TimelockOperation.find({ network, lastBlockNumber: { $gt: ancestor } }).lean();
+    for (const operation of operations) {
+      const contract = await Contract.findById(operation.contract);
+      if (contract) {
+        await rebuildTimelockOperation(contract, operation.operationId);
+      } else {
+        await TimelockOperation.deleteOne({ _id: operation._id });
+      }
+    }
+  },
+
+  async reset(contract) {
+    await TimelockOperation.deleteMany({ contract: contract._id });
+  }
+};
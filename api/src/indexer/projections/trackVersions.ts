@@ -0,0 +1,84 @@
+import { Types } from 'mongoose';
+import { ContractType, IContract } from '../../models/Contract';
+import { Event } from '../../models/Event';
+import { TrackVersion } from '../../models/TrackVersion';
+import { queueMetadata } from '../MetadataFetcher';
+import { creationArgs } from './tracks';
+import { CHAIN_ORDER, Projection } from './types';
+
+const VERSION_EVENTS = ['TrackCreated', 'TrackVersionUpdated'];
+
+// The changelog MusicNFT records for the first version
+export const INITIAL_CHANGELOG = 'Initial version';
+
+/**
+ * Rebuilds the version history of a token from its events. Versions are
+ * numbered by position, so history backfilled after later updates renumbers
+ * everything after it.
+ * @param contract The MusicNFT contract
+ * @param tokenId The token ID as a decimal string
+ */
+export const rebuildVersions = async (contract: IContract, tokenId: string) => {
+  const events = await Event.find({
+    contract: contract._id,
+    name: { $in: VERSION_EVENTS },
+    'args.tokenId': tokenId
+  }).sort(CHAIN_ORDER);
+
+  // Without TrackCreated the version numbers are unknown until it is indexed
+  const created = events.findIndex(event => event.name === 'TrackCreated');
+  const history = created === -1 ? [] : events.slice(created);
+
+  for (const [index, event] of history.entries()) {
+    const uri: string | undefined = event.name === 'TrackCreated'
+      ? (await creationArgs(contract, event))?.uri
+      : event.args?.newUri;
+
+    await TrackVersion.findOneAndUpdate(
+      { contract: contract._id, tokenId, version: index + 1 },
+      {
+        $set: {
+          network: contract.network,
+          uri,
+          changelog: event.name === 'TrackCreated' ? INITIAL_CHANGELOG : event.args?.changelog,
+          timestamp: event.timestamp,
+          blockNumber: event.blockNumber,
+          logIndex: event.logIndex,
+          transactionHash: event.transactionHash
+        }
+      },
+      { upsert: true, runValidators: true }
+    );
+    if (uri) {
+      await queueMetadata(contract._id as Types.ObjectId, tokenId, uri);
+    }
+  }
+
+  await TrackVersion.deleteMany({ contract: contract._id, tokenId, version: { $gt: history.length } });
+};
+
+/**
+ * Mirrors MusicNFT's per-token VersionInfo[] as TrackVersion documents and
+ * queues each version's URI for the metadata fetcher
+ */
+export const trackVersionProjection: Projection = {
+  name: 'trackVersions',
+  contractTypes: [ContractType.MUSIC_NFT],
+  events: VERSION_EVENTS,
+
+  async apply(event, contract) {
+    const tokenId = event.args?.tokenId;
+    if (typeof tokenId === 'string') {
+      await rebuildVersions(contract, tokenId);
+    }
+  },
+
+  // Versions only depend on earlier events, so orphaned ones can simply go
+  async rollback(network, ancestor) {
+    await TrackVersion.deleteMany({ network, blockNumber: { $gt: ancestor } });
+  },
+
+  async reset(contract) {
+    await TrackVersion.deleteMany({ contract: contract._id });
+  }
+};
@@ -0,0 +1,204 @@
+import { Contract, ContractType, IContract } from '../../models/Contract';
+import { Event, IEvent } from '../../models/Event';
+import { ITrack, Track } from '../../models/Track';
+import { Transaction } from '../../models/Transaction';
+import { abiRegistry } from '../abi/AbiRegistry';
+import { CHAIN_ORDER, isAfter, Projection, stringArg, stringsArg } from './types';
+
+export const TRACK_EVENTS = ['TrackCreated', 'TrackPurchased', 'TrackVersionUpdated', 'TrackUriUpdated'];
+
+type TrackState = Pick<
+  ITrack,
+  | 'creator'
+  | 'price'
+  | 'uri'
+  | 'version'
+  | 'albumId'
+  | 'collaborators'
+  | 'royaltyShares'
+  | 'maxSupply'
+  | 'purchaseCount'
+  | 'lastPurchasedAt'
+  | 'createdBlock'
+  | 'createdTimestamp'
+  | 'lastBlockNumber'
+  | 'lastLogIndex'
+>;
+
+const STATE_FIELDS: (keyof TrackState)[] = [
+  'creator',
+  'price',
+  'uri',
+  'version',
+  'albumId',
+  'collaborators',
+  'royaltyShares',
+  'maxSupply',
+  'purchaseCount',
+  'lastPurchasedAt',
+  'createdBlock',
+  'createdTimestamp',
+  'lastBlockNumber',
+  'lastLogIndex'
+];
+
+const toState = (track: TrackState): TrackState =>
+  Object.fromEntries(STATE_FIELDS.map(field => [field, track[field]])) as unknown as TrackState;
+
+/** The decoded createTrackWithCollaborators arguments; uints are decimal strings */
+export interface TrackCreationArgs {
+  uri?: string;
+  collaborators: string[];
+  shares: string[];
+  maxSupply?: string;
+  price?: string;
+}
+
+/**
+ * TrackCreated leaves out the URI, collaborators and supply, so they are read
+ * from the createTrackWithCollaborators calldata of the creating transaction
+ */
+export const creationArgs = async (contract: IContract, event: IEvent): Promise<TrackCreationArgs | undefined> => {
+  const tx = await Transaction.findOne({ network: event.network, hash: event.transactionHash });
+  if (!tx?.input) {
+    return undefined;
+  }
+  const call = abiRegistry.decodeCall(contract, tx.input);
+  if (call?.name !== 'createTrackWithCollaborators') {
+    return undefined;
+  }
+  return {
+    uri: stringArg(call.args.uri),
+    collaborators: stringsArg(call.args.collaborators),
+    shares: stringsArg(call.args.shares),
+    maxSupply: stringArg(call.args.maxSupply),
+    price: stringArg(call.args.price)
+  };
+};
+
+/**
+ * Applies one event to a track the way MusicNFT updates its Track struct
+ * @returns The new state, or null while the TrackCreated event is missing
+ */
+const fold = async (contract: IContract, state: TrackState | null, event: IEvent): Promise<TrackState | null> => {
+  const args = event.args ?? {};
+  const position = { lastBlockNumber: event.blockNumber, lastLogIndex: event.logIndex };
+
+  if (event.name === 'TrackCreated') {
+    const call = await creationArgs(contract, event);
+    return {
+      creator: args.creator,
+      price: args.price,
+      uri: call?.uri,
+      version: 1,
+      // MusicNFT has no album setter yet, so every track is created with album 0
+      albumId: '0',
+      collaborators: call?.collaborators ?? [],
+      royaltyShares: (call?.shares ?? []).map(Number),
+      maxSupply: call?.maxSupply,
+      purchaseCount: 0,
+      createdBlock: event.blockNumber,
+      createdTimestamp: event.timestamp,
+      ...position
+    };
+  }
+
+  if (!state) {
+    return null;
+  }
+
+  const next = { ...state, ...position };
+  switch (event.name) {
+    case 'TrackPurchased':
+      next.purchaseCount += 1;
+      next.lastPurchasedAt = event.timestamp;
+      break;
+    case 'TrackVersionUpdated':
+      next.uri = args.newUri;
+      next.version += 1;
+      break;
+    case 'TrackUriUpdated':
+      next.uri = args.newUri;
+      break;
+  }
+  return next;
+};
+
+/**
+ * Replays every stored event of a token to rebuild its track from scratch
+ * @param contract The MusicNFT contract
+ * @param tokenId The token ID as a decimal string
+ */
+export const rebuildTrack = async (contract: IContract, tokenId: string) => {
+  const events = await Event.find({
+    contract: contract._id,
+    name: { $in: TRACK_EVENTS },
+    'args.tokenId': tokenId
+  }).sort(CHAIN_ORDER);
+
+  let state: TrackState | null = null;
+  for (const event of events) {
+    state = await fold(contract, state, event);
+  }
+
+  if (!state) {
+    await Track.deleteOne({ contract: contract._id, tokenId });
+    return;
+  }
+
+  await Track.findOneAndUpdate(
+    { contract: contract._id, tokenId },
+    {
+      $set: {
+        ...state,
+        contract: contract._id,
+        contractAddress: contract.address,
+        network: contract.network,
+        tokenId
+      }
+    },
+    { upsert: true, runValidators: true }
+  );
+};
+
+/**
+ * Keeps the Track read model in line with MusicNFT events. Events arriving
+ * after the last one folded into a track are applied directly; anything else
+ * (backfilled history, re-indexed ranges) replays the token's events.
+ */
+export const trackProjection: Projection = {
+  name: 'tracks',
+  contractTypes: [ContractType.MUSIC_NFT],
+  events: TRACK_EVENTS,
+
+  async apply(event, contract) {
+    const tokenId = event.args?.tokenId;
+    if (typeof tokenId !== 'string') {
+      return;
+    }
+
+    const track = await Track.findOne({ contract: contract._id, tokenId }).lean();
+    if (track && event.name !== 'TrackCreated' && isAfter(event, track)) {
+      const next = await fold(contract, toState(track), event);
+      await Track.updateOne({ _id: track._id }, { $set: next as TrackState });
+      return;
+    }
+    await rebuildTrack(contract, tokenId);
+  },
+
+  async rollback(network, ancestor) {
+    const tracks = await Track.find({ network, lastBlockNumber: { $gt: ancestor } }).lean();
+    for (const track of tracks) {
+      const contract = await Contract.findById(track.contract);
+      if (contract) {
+        await rebuildTrack(contract, track.tokenId);
+      } else {
+        await Track.deleteOne({ _id: track._id });
+      }
+    }
+  },
+
+  async reset(contract) {
+    await Track.deleteMany({ contract: contract._id });
+  }
+};
@@ -0,0 +1,43 @@
+import { ContractType, IContract } from '../../models/Contract';
+import { IEvent } from '../../models/Event';
+
+export interface Projection {
+  name: string;
+  // Contract types whose events the projection reads
+  contractTypes: ContractType[];
+  // Decoded event names the projection reads
+  events: string[];
+  /** Brings the read model up to date with a stored event */
+  apply(event: IEvent, contract: IContract): Promise<void>;
+  /** Re-derives rows that depended on events above the ancestor, which have been deleted */
+  rollback(network: string, ancestor: number): Promise<void>;
+  /** Drops every row derived from the contract */
+  reset(contract: IContract): Promise<void>;
+}
+
+/** Position of an event in the chain, used to order events per key */
+export interface EventPosition {
+  blockNumber: number;
+  logIndex: number;
+}
+
+/**
+ * Checks whether an event comes after the last one folded into a row
+ */
+export const isAfter = (event: EventPosition, last: { lastBlockNumber: number; lastLogIndex: number }) =>
+  event.blockNumber > last.lastBlockNumber ||
+  (event.blockNumber === last.lastBlockNumber && event.logIndex > last.lastLogIndex);
+
+/** Sort order replaying events as they happened on chain */
+export const CHAIN_ORDER = { blockNumber: 1, logIndex: 1 } as const;
+
+/** Narrows a decoded string, address or bytes argument */
+export const stringArg = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+/** Narrows a decoded array of strings, addresses, bytes or uints, which are decoded as decimal strings */
+export const stringsArg = (value: unknown): string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string') ? value : [];
+
+/** Narrows a decoded uint argument to a number */
+export const numberArg = (value: unknown) =>
+  typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : undefined;
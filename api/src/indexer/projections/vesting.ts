@@ -0,0 +1,184 @@
+import { Contract, ContractType, IContract } from '../../models/Contract';
+import { Event, IEvent } from '../../models/Event';
+import { Transaction } from '../../models/Transaction';
+import { VestingSchedule } from '../../models/VestingSchedule';
+import { vestedAmount } from '../../utils/vesting';
+import { abiRegistry } from '../abi/AbiRegistry';
+import { CHAIN_ORDER, isAfter, Projection } from './types';
+
+export const VESTING_EVENTS = ['VestingScheduleCreated', 'VestingScheduleRevoked', 'TokensReleased'];
+
+type ScheduleFields = {
+  beneficiary: string;
+  totalAmount: string;
+  startTime: number;
+  duration: number;
+  revocable?: boolean;
+  revoked: boolean;
+  revokedAt?: number;
+  refundedAmount?: string;
+  releasedAmount: string;
+  scheduledAt?: number;
+  scheduledBlock: number;
+  transactionHash: string;
+  lastBlockNumber: number;
+  lastLogIndex: number;
+};
+
+/**
+ * VestingScheduleCreated does not log whether the owner can revoke the
+ * schedule, so it is read from the createVestingSchedule calldata
+ */
+const revocableArg = async (contract: IContract, event: IEvent) => {
+  const tx = await Transaction.findOne({ network: event.network, hash: event.transactionHash });
+  const call = tx?.input ? abiRegistry.decodeCall(contract, tx.input) : null;
+  if (call?.name !== 'createVestingSchedule' || call.args.beneficiary !== event.args?.beneficiary) {
+    return undefined;
+  }
+  return call.args.revocable === true;
+};
+
+/**
+ * Applies one event to a beneficiary's schedule the way TuneToken updates it
+ * @returns The updated schedule, or null while no schedule exists
+ */
+const fold = async (
+  contract: IContract,
+  schedule: ScheduleFields | null,
+  event: IEvent
+): Promise<ScheduleFields | null> => {
+  const args = event.args ?? {};
+  const position = { lastBlockNumber: event.blockNumber, lastLogIndex: event.logIndex };
+
+  if (event.name === 'VestingScheduleCreated') {
+    return {
+      beneficiary: args.beneficiary,
+      totalAmount: args.amount,
+      startTime: Number(args.startTime),
+      duration: Number(args.duration),
+      revocable: await revocableArg(contract, event),
+      revoked: false,
+      releasedAmount: '0',
+      scheduledAt: event.timestamp,
+      scheduledBlock: event.blockNumber,
+      transactionHash: event.transactionHash,
+      ...position
+    };
+  }
+  if (!schedule) {
+    return null;
+  }
+  if (event.name === 'VestingScheduleRevoked') {
+    // revokeVesting refunds whatever had not vested at the time
+    const revokedAt = event.timestamp ?? 0;
+    return {
+      ...schedule,
+      revocable: true,
+      revoked: true,
+      revokedAt,
+      refundedAmount: (BigInt(schedule.totalAmount) - vestedAmount(schedule, revokedAt)).toString(),
+      ...position
+    };
+  }
+  return {
+    ...schedule,
+    releasedAmount: (BigInt(schedule.releasedAmount) + BigInt(args.amount)).toString(),
+    ...position
+  };
+};
+
+const save = (contract: IContract, schedule: ScheduleFields) =>
+  VestingSchedule.findOneAndUpdate(
+    { contract: contract._id, beneficiary: schedule.beneficiary },
+    {
+      $set: {
+        contractAddress: contract.address,
+        network: contract.network,
+        totalAmount: schedule.totalAmount,
+        startTime: schedule.startTime,
+        duration: schedule.duration,
+        revocable: schedule.revocable,
+        revoked: schedule.revoked,
+        revokedAt: schedule.revokedAt,
+        refundedAmount: schedule.refundedAmount,
+        releasedAmount: schedule.releasedAmount,
+        scheduledAt: schedule.scheduledAt,
+        scheduledBlock: schedule.scheduledBlock,
+        transactionHash: schedule.transactionHash,
+        lastBlockNumber: schedule.lastBlockNumber,
+        lastLogIndex: schedule.lastLogIndex
+      }
+    },
+    { upsert: true, runValidators: true }
+  );
+
+/**
+ * Replays every stored vesting event of a beneficiary to rebuild their
+ * schedule from scratch
+ * @param contract The TuneToken contract
+ * @param beneficiary The beneficiary address, lowercased
+ */
+export const rebuildSchedule = async (contract: IContract, beneficiary: string) => {
+  const events = await Event.find({
+    contract: contract._id,
+    name: { $in: VESTING_EVENTS },
+    'args.beneficiary': beneficiary
+  }).sort(CHAIN_ORDER);
+
+  let schedule: ScheduleFields | null = null;
+  for (const event of events) {
+    schedule = await fold(contract, schedule, event);
+  }
+
+  await VestingSchedule.deleteOne({ contract: contract._id, beneficiary });
+  if (schedule) {
+    await save(contract, schedule);
+  }
+};
+
+/**
+ * Keeps TuneToken vesting schedules in line with their events. An event
+ * following a schedule's last one is folded onto it; anything else replays
+ * the beneficiary's events.
+ */
+export const vestingProjection: Projection = {
+  name: 'vesting',
+  contractTypes: [ContractType.TUNE_TOKEN],
+  events: VESTING_EVENTS,
+
+  async apply(event, contract) {
+    const beneficiary = event.args?.beneficiary;
+    if (typeof beneficiary !== 'string') {
+      return;
+    }
+
+    const schedule = await VestingSchedule.findOne({ contract: contract._id, beneficiary }).lean();
+    if (schedule && isAfter(event, schedule)) {
+      const next = await fold(contract, schedule, event);
+      if (next) {
+        await save(contract, next);
+      }
+      return;
+    }
+    if (schedule?.lastBlockNumber === event.blockNumber && schedule.lastLogIndex === event.logIndex) {
+      return;
+    }
+    await rebuildSchedule(contract, beneficiary);
+  },
+
+  async rollback(network, ancestor) {
+    const schedules = await VestingSchedule.find({ network, lastBlockNumber: { $gt: ancestor } }).lean();
+    for (const schedule of schedules) {
+      const contract = await Contract.findById(schedule.contract);
+      if (contract) {
+        await rebuildSchedule(contract, schedule.beneficiary);
+      } else {
+        await VestingSchedule.deleteOne({ _id: schedule._id });
+      }
+    }
+  },
+
+  async reset(contract) {
+    await VestingSchedule.deleteMany({ contract: contract._id });
+  }
+};
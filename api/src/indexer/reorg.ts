@@ -0,0 +1,114 @@
+import { Block } from '../models/Block';
+import { Contract } from '../models/Contract';
+import { Event } from '../models/Event';
+import { IndexingStatus } from '../models/IndexingStatus';
+import { Transaction } from '../models/Transaction';
+import { logger } from '../utils/logger';
+import type { IndexerProvider } from './BlockIndexer';
+import { rollbackProjections } from './projections';
+
+export const DEFAULT_MAX_REORG_DEPTH = 64;
+
+export class ReorgTooDeepError extends Error {
+  constructor(fromBlock: number, maxDepth: number) {
+    super(`No common ancestor found within ${maxDepth} blocks of block ${fromBlock}`);
+    this.name = 'ReorgTooDeepError';
+  }
+}
+
+export interface RollbackResult {
+  ancestor: number;
+  blocks: number;
+  transactions: number;
+  events: number;
+}
+
+/**
+ * Checks whether a freshly fetched block links to the stored block below it
+ * @param network The network the block belongs to
+ * @param number The height of the fetched block
+ * @param parentHash The fetched block's parent hash
+ * @returns true if the stored parent is missing or matches
+ */
+export const linksToStoredParent = async (
+  network: string,
+  number: number,
+  parentHash: string
+): Promise<boolean> => {
+  const parent = await Block.findOne({ network, number: number - 1 }).lean();
+  return !parent || parent.hash === parentHash;
+};
+
+/**
+ * Walks back from a height until the stored block hash matches the chain
+ * @param provider The provider serving the canonical chain
+ * @param network The network whose stored blocks are compared
+ * @param fromBlock The highest height that may be orphaned
+ * @param maxDepth How far back to search before giving up
+ * @returns The height of the most recent block both sides agree on
+ */
+export const findCommonAncestor = async (
+  provider: IndexerProvider,
+  network: string,
+  fromBlock: number,
+  maxDepth: number = DEFAULT_MAX_REORG_DEPTH
+): Promise<number> => {
+  for (let number = fromBlock; number >= 0 && fromBlock - number < maxDepth; number--) {
+    const stored = await Block.findOne({ network, number }).lean();
+    // Nothing stored at this height means nothing below it can be orphaned either
+    if (!stored) {
+      return number;
+    }
+
+    const canonical = await provider.getBlock(number);
+    if (canonical && canonical.hash === stored.hash) {
+      return number;
+    }
+  }
+
+  throw new ReorgTooDeepError(fromBlock, maxDepth);
+};
+
+/**
+ * Deletes every indexed row above the common ancestor, re-derives the read
+ * models that depended on them and rewinds cursors so the orphaned range is
+ * re-indexed from the canonical chain
+ * @param network The network that reorganized
+ * @param ancestor The last block still on the canonical chain
+ * @returns Counts of the removed rows
+ */
+export const rollbackToBlock = async (network: string, ancestor: number): Promise<RollbackResult> => {
+  const above = { $gt: ancestor };
+
+  const finalized = await Block.countDocuments({ network, number: above, finalized: true });
+  if (finalized > 0) {
+    logger.error('Chain reorganization removed finalized blocks', undefined, { network, ancestor, finalized });
+  }
+
+  const [events, transactions, blocks] = await Promise.all([
+    Event.deleteMany({ network, blockNumber: above }),
+    Transaction.deleteMany({ network, blockNumber: above }),
+    Block.deleteMany({ network, number: above })
+  ]);
+
+  await rollbackProjections(network, ancestor);
+
+  const contracts = await Contract.distinct('_id', { network });
+  await Contract.updateMany(
+    { network, lastIndexedBlock: above },
+    { $set: { lastIndexedBlock: ancestor } }
+  );
+  await IndexingStatus.updateMany(
+    { contract: { $in: contracts }, lastIndexedBlock: above },
+    { $set: { lastIndexedBlock: ancestor, lastIndexedAt: Date.now() } }
+  );
+
+  const result = {
+    ancestor,
+    blocks: blocks.deletedCount,
+    transactions: transactions.deletedCount,
+    events: events.deletedCount
+  };
+  logger.warn('Rolled back orphaned blocks after chain reorganization', { network, ...result });
+  return result;
+};
@@ -0,0 +1,134 @@
+import { Interface, Provider } from 'ethers';
+import { getProvider } from '../config/indexer';
+import { IContract } from '../models/Contract';
+import { IAccrualPeriod, IStakingPosition } from '../models/StakingPosition';
+
+export type ReconciliationProvider = Pick<Provider, 'call' | 'getBlock'>;
+
+const STAKING_VIEWS = new Interface([
+  'function stakedAmount(address staker) view returns (uint256)',
+  'function pendingRewards(address staker) view returns (uint256)',
+  'function delegatedTo(address staker) view returns (address)',
+  'function delegatedPower(address delegatee) view returns (uint256)',
+  'function rewardRate() view returns (uint256)'
+]);
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// StakingContract divides by SECONDS_PER_YEAR * 100, the rate being a percentage
+const REWARD_DIVISOR = 365n * 24n * 60n * 60n * 100n;
+
+export type ReconciledPosition = Pick<IStakingPosition, 'staker' | 'amount' | 'delegatedTo' | 'lastRewardUpdate' | 'accrual'>;
+
+export interface ReconciliationCheck {
+  field: 'stakedAmount' | 'pendingRewards' | 'delegatedTo' | 'delegatedPower';
+  indexed: string;
+  onChain: string;
+  matches: boolean;
+}
+
+export interface StakingReconciliation {
+  network: string;
+  contractAddress: string;
+  staker: string;
+  blockNumber: number;
+  timestamp: number;
+  rewardRate: string;
+  checks: ReconciliationCheck[];
+  matches: boolean;
+}
+
+/**
+ * Rewards StakingContract accrues on a stake over a period, rounded down
+ * @param period The stake and how long it was held
+ * @param rewardRate The annual reward rate in percent
+ */
+export const accruedRewards = (period: IAccrualPeriod, rewardRate: bigint) =>
+  (BigInt(period.amount) * rewardRate * BigInt(period.seconds)) / REWARD_DIVISOR;
+
+/**
+ * What pendingRewards returns for an indexed position at a timestamp: the
+ * rewardDebt accrued over past periods plus the accrual since the last update
+ * @param position The indexed position
+ * @param rewardRate The annual reward rate in percent
+ * @param timestamp The block timestamp the view is evaluated at
+ */
+export const expectedPendingRewards = (position: ReconciledPosition, rewardRate: bigint, timestamp: number) => {
+  if (BigInt(position.amount) === 0n) {
+    return 0n;
+  }
+  const debt = position.accrual.reduce((sum, period) => sum + accruedRewards(period, rewardRate), 0n);
+  const current = { amount: position.amount, seconds: Math.max(timestamp - position.lastRewardUpdate, 0) };
+  return debt + accruedRewards(current, rewardRate);
+};
+
+const view = async (
+  provider: ReconciliationProvider,
+  address: string,
+  blockTag: number | 'latest',
+  method: string,
+  args: unknown[] = []
+) => {
+  const data = await provider.call({ to: address, data: STAKING_VIEWS.encodeFunctionData(method, args), blockTag });
+  return STAKING_VIEWS.decodeFunctionResult(method, data)[0];
+};
+
+const check = (field: ReconciliationCheck['field'], indexed: string, onChain: string): ReconciliationCheck => ({
+  field,
+  indexed,
+  onChain,
+  matches: indexed === onChain
+});
+
+/**
+ * Cross-checks an indexed staking position against StakingContract's views
+ * at the last block indexed for the contract, so that both describe the same
+ * state
+ * @param contract The StakingContract
+ * @param position The staker's indexed position
+ * @param delegatedPower The indexed stake delegated to the staker
+ * @param provider The provider to query, the network's RPC node by default
+ */
+export const reconcileStakingPosition = async (
+  contract: IContract,
+  position: ReconciledPosition,
+  delegatedPower: bigint,
+  provider: ReconciliationProvider = getProvider(contract.network)
+): Promise<StakingReconciliation> => {
+  const blockTag = contract.lastIndexedBlock ?? 'latest';
+  const block = await provider.getBlock(blockTag);
+  if (!block) {
+    throw new Error(`Block ${blockTag} not found on ${contract.network}`);
+  }
+
+  const { staker } = position;
+  const [rewardRate, stakedAmount, pendingRewards, delegatedTo, power] = await Promise.all([
+    view(provider, contract.address, block.number, 'rewardRate'),
+    view(provider, contract.address, block.number, 'stakedAmount', [staker]),
+    view(provider, contract.address, block.number, 'pendingRewards', [staker]),
+    view(provider, contract.address, block.number, 'delegatedTo', [staker]),
+    view(provider, contract.address, block.number, 'delegatedPower', [staker])
+  ]);
+
+  const checks = [
+    check('stakedAmount', position.amount, stakedAmount.toString()),
+    check(
+      'pendingRewards',
+      expectedPendingRewards(position, rewardRate, block.timestamp).toString(),
+      pendingRewards.toString()
+    ),
+    check('delegatedTo', position.delegatedTo ?? ZERO_ADDRESS, String(delegatedTo).toLowerCase()),
+    check('delegatedPower', delegatedPower.toString(), power.toString())
+  ];
+
+  return {
+    network: contract.network,
+    contractAddress: contract.address,
+    staker,
+    blockNumber: block.number,
+    timestamp: block.timestamp,
+    rewardRate: rewardRate.toString(),
+    checks,
+    matches: checks.every(c => c.matches)
+  };
+};
@@ -0,0 +1,59 @@
+import { Interface, Provider } from 'ethers';
+import { getProvider } from '../config/indexer';
+import { IContract } from '../models/Contract';
+
+export type VerificationProvider = Pick<Provider, 'call'>;
+
+type TokenContract = Pick<IContract, 'address' | 'network' | 'lastIndexedBlock'>;
+
+const TIER_VIEWS = new Interface([
+  'function balanceOf(address account) view returns (uint256)',
+  'function getServiceTierDiscount(address user) view returns (uint256)'
+]);
+
+export interface TierVerification {
+  // The block the views were read at, 'latest' before anything was indexed
+  blockTag: number | 'latest';
+  balance: string;
+  discountRate: number;
+  matches: boolean;
+}
+
+const view = async (
+  provider: VerificationProvider,
+  contract: TokenContract,
+  blockTag: number | 'latest',
+  method: string,
+  args: unknown[]
+) => {
+  const data = await provider.call({ to: contract.address, data: TIER_VIEWS.encodeFunctionData(method, args), blockTag });
+  return TIER_VIEWS.decodeFunctionResult(method, data)[0];
+};
+
+/**
+ * Reads a holder's balance and discount from TuneToken at the last indexed
+ * block and compares them with the indexed resolution
+ * @param contract The TuneToken contract
+ * @param address The holder
+ * @param expected The indexed balance and discount rate
+ * @param provider The provider to query, the network's RPC node by default
+ */
+export const verifyServiceTier = async (
+  contract: TokenContract,
+  address: string,
+  expected: { balance: string; discountRate: number },
+  provider: VerificationProvider = getProvider(contract.network)
+): Promise<TierVerification> => {
+  const blockTag = contract.lastIndexedBlock ?? 'latest';
+  const [balance, discountRate] = await Promise.all([
+    view(provider, contract, blockTag, 'balanceOf', [address]),
+    view(provider, contract, blockTag, 'getServiceTierDiscount', [address])
+  ]);
+
+  return {
+    blockTag,
+    balance: balance.toString(),
+    discountRate: Number(discountRate),
+    matches: balance.toString() === expected.balance && Number(discountRate) === expected.discountRate
+  };
+};
@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+/**
+ * An artist registered in RecommendationGraph by ArtistNodeAdded.
+ * Maintained by indexer/projections/recommendationGraph.
+ */
+export interface IArtistNode extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  artist: string;
+  metadataURI: string;
+  timestamp?: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ArtistNodeSchema = new Schema<IArtistNode>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  artist: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  metadataURI: {
+    type: String,
+    required: true
+  },
+  timestamp: {
+    type: Number
+  },
+  blockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  logIndex: {
+    type: Number,
+    required: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+ArtistNodeSchema.index({ contract: 1, artist: 1 }, { unique: true });
+
+export const ArtistNode = mongoose.model<IArtistNode>('ArtistNode', ArtistNodeSchema);
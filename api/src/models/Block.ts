@@ -1,6 +1,7 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
 export interface IBlock extends Document {
+  network: string;
   number: number;
   hash: string;
   parentHash: string;
@@ -15,21 +16,26 @@ export interface IBlock extends Document {
   miner?: string;
   extraData?: string;
   transactionCount?: number;
+  confirmations: number;
+  finalized: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
 const BlockSchema = new Schema<IBlock>({
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
   number: {
     type: Number,
     required: true,
-    unique: true,
     index: true
   },
   hash: {
     type: String,
     required: true,
-    unique: true,
     validate: {
       validator: (v: string) => /^0x[a-fA-F0-9]{64}$/.test(v),
       message: 'Invalid block hash format'
@@ -120,21 +126,45 @@ const BlockSchema = new Schema<IBlock>({
       validator: (v: number) => v >= 0,
       message: 'Transaction count must be non-negative'
     }
+  },
+  confirmations: {
+    type: Number,
+    default: 0,
+    validate: {
+      validator: (v: number) => v >= 0,
+      message: 'Confirmations must be non-negative'
+    }
+  },
+  finalized: {
+    type: Boolean,
+    default: false,
+    index: true
   }
 }, {
   timestamps: true,
   versionKey: false
 });
 
+// Block numbers and hashes are unique per network
+BlockSchema.index(
+  { network: 1, number: 1 },
+  { unique: true }
+);
+BlockSchema.index(
+  { network: 1, hash: 1 },
+  { unique: true }
+);
+
 // Create compound index for efficient querying
 BlockSchema.index(
-  { number: -1, timestamp: -1 }
+  { network: 1, number: -1, timestamp: -1 }
 );
 
 // Add pre-save hook to check for duplicates
 BlockSchema.pre('save', async function(next) {
   const doc = this;
   const exists = await mongoose.model('Block').findOne({
+    network: doc.network,
     $or: [
       { hash: doc.hash },
       { number: doc.number }
@@ -1,8 +1,27 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { isKnownNetwork } from '../config/networks';
 
+/**
+ * Token standards and TuneFi protocol roles a contract can be registered as.
+ * The indexing behavior of each type is described in indexer/contractTypes.
+ */
 export const ContractType = {
+  // Generic token standards
+  ERC20: 'ERC20',
   ERC721: 'ERC721',
-  ERC1155: 'ERC1155'
+  ERC1155: 'ERC1155',
+  // TuneFi protocol contracts
+  MUSIC_NFT: 'MUSIC_NFT',
+  TUNE_TOKEN: 'TUNE_TOKEN',
+  MARKETPLACE: 'MARKETPLACE',
+  ROYALTY_DISTRIBUTOR: 'ROYALTY_DISTRIBUTOR',
+  STAKING: 'STAKING',
+  GOVERNOR: 'GOVERNOR',
+  TIMELOCK: 'TIMELOCK',
+  FAN_ENGAGEMENT: 'FAN_ENGAGEMENT',
+  RECOMMENDATION_GRAPH: 'RECOMMENDATION_GRAPH',
+  // Anything else; logs are stored undecoded unless an ABI is set
+  OTHER: 'OTHER'
 } as const;
 
 export type ContractType = typeof ContractType[keyof typeof ContractType];
@@ -13,6 +32,7 @@ export interface IContract extends Document {
   type: ContractType;
   name?: string;
   symbol?: string;
+  abi?: string;
   isVerified: boolean;
   deployedAt?: number;
   lastIndexedBlock?: number;
@@ -30,13 +50,16 @@ const contractSchema = new Schema<IContract>(
     address: {
       type: String,
       required: true,
-      unique: true,
       index: true,
       lowercase: true
     },
     network: {
       type: String,
       required: true,
+      validate: {
+        validator: isKnownNetwork,
+        message: 'Unknown network'
+      },
       index: true
     },
     type: {
@@ -47,6 +70,8 @@ const contractSchema = new Schema<IContract>(
     },
     name: String,
     symbol: String,
+    // Registry ABI used to decode events; falls back to name, then type
+    abi: String,
     isVerified: {
       type: Boolean,
       default: false,
@@ -72,6 +97,9 @@ const contractSchema = new Schema<IContract>(
   }
 );
 
+// The same address can be deployed on several networks (e.g. via CREATE2)
+contractSchema.index({ network: 1, address: 1 }, { unique: true });
+
 // Pre-save hook to ensure address is lowercase
 contractSchema.pre('save', function(next) {
   if (this.isModified('address')) {
@@ -0,0 +1,72 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+/**
+ * A TuneToken delegate's current voting power, from their latest
+ * DelegateVotesChanged. Delegates whose votes dropped to zero keep a '0' row.
+ * Maintained by indexer/projections/delegation.
+ */
+export interface IDelegate extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  address: string;
+  // Wei decimal string
+  votes: string;
+  firstBlockNumber: number;
+  lastBlockNumber: number;
+  lastLogIndex: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DelegateSchema = new Schema<IDelegate>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  address: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  votes: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Votes must be a wei amount'
+    }
+  },
+  firstBlockNumber: {
+    type: Number,
+    required: true
+  },
+  lastBlockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  lastLogIndex: {
+    type: Number,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+DelegateSchema.index({ contract: 1, address: 1 }, { unique: true });
+
+export const Delegate = mongoose.model<IDelegate>('Delegate', DelegateSchema);
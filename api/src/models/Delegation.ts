@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+/**
+ * The account a TuneToken holder delegates their votes to, as last set by
+ * DelegateChanged. Maintained by indexer/projections/delegation.
+ */
+export interface IDelegation extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  delegator: string;
+  // Null once the holder delegates to the zero address
+  delegate: string | null;
+  // When the current delegate was set
+  since?: number;
+  sinceBlock: number;
+  transactionHash: string;
+  lastBlockNumber: number;
+  lastLogIndex: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DelegationSchema = new Schema<IDelegation>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  delegator: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  delegate: {
+    type: String,
+    lowercase: true,
+    default: null
+  },
+  since: {
+    type: Number
+  },
+  sinceBlock: {
+    type: Number,
+    required: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  },
+  lastBlockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  lastLogIndex: {
+    type: Number,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+DelegationSchema.index({ contract: 1, delegator: 1 }, { unique: true });
+DelegationSchema.index({ contract: 1, delegate: 1 });
+
+export const Delegation = mongoose.model<IDelegation>('Delegation', DelegationSchema);
@@ -0,0 +1,112 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+export enum EngagementEntryType {
+  POINTS_EARNED = 'points_earned',
+  ACHIEVEMENT_UNLOCKED = 'achievement_unlocked',
+  REWARDS_CLAIMED = 'rewards_claimed'
+}
+
+/**
+ * One FanEngagement event of a user. Events do not say which track was
+ * engaged with, so tokenId is read from the record* calldata of the
+ * transaction when it is indexed. Maintained by
+ * indexer/projections/engagement.
+ */
+export interface IEngagementEntry extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  user: string;
+  type: EngagementEntryType;
+  // like, share, stream or purchase
+  action?: string;
+  points?: number;
+  tokenId?: string;
+  achievement?: string;
+  // Reward token wei decimal string
+  amount?: string;
+  timestamp?: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EngagementEntrySchema = new Schema<IEngagementEntry>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  user: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  type: {
+    type: String,
+    required: true,
+    enum: Object.values(EngagementEntryType)
+  },
+  action: {
+    type: String
+  },
+  points: {
+    type: Number
+  },
+  tokenId: {
+    type: String,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Token ID must be a valid number string'
+    }
+  },
+  achievement: {
+    type: String
+  },
+  amount: {
+    type: String,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Amount must be a wei amount'
+    }
+  },
+  timestamp: {
+    type: Number
+  },
+  blockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  logIndex: {
+    type: Number,
+    required: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+EngagementEntrySchema.index({ contract: 1, blockNumber: 1, logIndex: 1 }, { unique: true });
+EngagementEntrySchema.index({ contract: 1, user: 1, blockNumber: 1, logIndex: 1 });
+EngagementEntrySchema.index({ contract: 1, type: 1, timestamp: 1 });
+EngagementEntrySchema.index({ contract: 1, tokenId: 1 });
+
+export const EngagementEntry = mongoose.model<IEngagementEntry>('EngagementEntry', EngagementEntrySchema);
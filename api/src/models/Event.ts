@@ -3,6 +3,7 @@ import { IContract } from './Contract';
 
 export interface IEvent extends Document {
   contract: Types.ObjectId | IContract;
+  network: string;
   name: string;
   signature: string;
   blockNumber: number;
@@ -10,6 +11,8 @@ export interface IEvent extends Document {
   logIndex: number;
   args?: Record<string, any>;
   timestamp?: number;
+  confirmations: number;
+  finalized: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -21,6 +24,11 @@ const EventSchema = new Schema<IEvent>({
     required: true,
     index: true
   },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
   name: {
     type: String,
     required: true,
@@ -63,6 +71,19 @@ const EventSchema = new Schema<IEvent>({
   timestamp: {
     type: Number,
     index: true
+  },
+  confirmations: {
+    type: Number,
+    default: 0,
+    validate: {
+      validator: (v: number) => v >= 0,
+      message: 'Confirmations must be non-negative'
+    }
+  },
+  finalized: {
+    type: Boolean,
+    default: false,
+    index: true
   }
 }, {
   timestamps: true,
@@ -71,7 +92,7 @@ const EventSchema = new Schema<IEvent>({
 
 // Create compound index for uniqueness
 EventSchema.index(
-  { transactionHash: 1, logIndex: 1 },
+  { network: 1, transactionHash: 1, logIndex: 1 },
   { unique: true }
 );
 
@@ -84,6 +105,7 @@ EventSchema.index(
 EventSchema.pre('save', async function(next) {
   const doc = this;
   const exists = await mongoose.model('Event').findOne({
+    network: doc.network,
     transactionHash: doc.transactionHash,
     logIndex: doc.logIndex
   });
@@ -0,0 +1,101 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+/**
+ * A user's FanEngagement totals. `points` mirrors userStats.totalPoints,
+ * which claimRewards resets, while `totalPoints` keeps everything earned.
+ * Maintained by indexer/projections/engagement.
+ */
+export interface IFanStats extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  user: string;
+  totalPoints: number;
+  points: number;
+  totalInteractions: number;
+  achievementCount: number;
+  // Reward token wei decimal string
+  rewardsClaimed: string;
+  firstInteractionAt?: number;
+  lastInteractionAt?: number;
+  lastBlockNumber: number;
+  lastLogIndex: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FanStatsSchema = new Schema<IFanStats>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  user: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  totalPoints: {
+    type: Number,
+    required: true,
+    default: 0
+  },
+  points: {
+    type: Number,
+    required: true,
+    default: 0
+  },
+  totalInteractions: {
+    type: Number,
+    required: true,
+    default: 0
+  },
+  achievementCount: {
+    type: Number,
+    required: true,
+    default: 0
+  },
+  rewardsClaimed: {
+    type: String,
+    required: true,
+    default: '0',
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Rewards must be a wei amount'
+    }
+  },
+  firstInteractionAt: {
+    type: Number
+  },
+  lastInteractionAt: {
+    type: Number
+  },
+  lastBlockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  lastLogIndex: {
+    type: Number,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+FanStatsSchema.index({ contract: 1, user: 1 }, { unique: true });
+FanStatsSchema.index({ contract: 1, totalPoints: -1 });
+
+export const FanStats = mongoose.model<IFanStats>('FanStats', FanStatsSchema);
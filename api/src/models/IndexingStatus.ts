@@ -11,7 +11,8 @@ export enum IndexingStatusType {
 
 export interface IIndexingStatus extends Document {
   contract: Types.ObjectId | IContract;
-  lastIndexedBlock: number;
+  // Unset until live indexing has picked the contract up again after a reset
+  lastIndexedBlock?: number;
   lastIndexedAt: number;
   isIndexing: boolean;
   status: IndexingStatusType;
@@ -33,7 +34,6 @@ const IndexingStatusSchema = new Schema<IIndexingStatus>({
   },
   lastIndexedBlock: {
     type: Number,
-    required: true,
     validate: {
       validator: (v: number) => v >= 0,
       message: 'Last indexed block must be non-negative'
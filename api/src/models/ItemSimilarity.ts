@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * One of the most similar tracks of a track on a network, from the
+ * user-item matrix of indexed interactions, engagement and purchases.
+ * Recomputed by indexer/SimilarityJob; every row of a run shares its
+ * computedAt.
+ */
+export interface IItemSimilarity extends Document {
+  network: string;
+  tokenId: string;
+  similarTokenId: string;
+  // Cosine similarity, 0 to 1
+  similarity: number;
+  // Users active on both tracks
+  commonUsers: number;
+  computedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ItemSimilaritySchema = new Schema<IItemSimilarity>({
+  network: {
+    type: String,
+    required: true
+  },
+  tokenId: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Token ID must be a valid number string'
+    }
+  },
+  similarTokenId: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Token ID must be a valid number string'
+    }
+  },
+  similarity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  commonUsers: {
+    type: Number,
+    required: true
+  },
+  computedAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+ItemSimilaritySchema.index({ network: 1, tokenId: 1, similarTokenId: 1 }, { unique: true });
+ItemSimilaritySchema.index({ network: 1, computedAt: 1 });
+
+export const ItemSimilarity = mongoose.model<IItemSimilarity>('ItemSimilarity', ItemSimilaritySchema);
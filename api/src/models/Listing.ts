@@ -0,0 +1,122 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+export enum ListingStatus {
+  ACTIVE = 'active',
+  SOLD = 'sold',
+  DELISTED = 'delisted'
+}
+
+/**
+ * A Marketplace listing from TokenListed until it is sold or delisted.
+ * Prices are wei decimal strings. Maintained by indexer/projections/marketplace.
+ */
+export interface IListing extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  tokenId: string;
+  seller: string;
+  price: string;
+  status: ListingStatus;
+  buyer?: string;
+  listedAt?: number;
+  listedBlock: number;
+  transactionHash: string;
+  closedAt?: number;
+  closedBlock?: number;
+  closingTransactionHash?: string;
+  // Position of the last event that changed the listing
+  lastBlockNumber: number;
+  lastLogIndex: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ListingSchema = new Schema<IListing>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  tokenId: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Token ID must be a valid number string'
+    }
+  },
+  seller: {
+    type: String,
+    required: true,
+    lowercase: true,
+    index: true
+  },
+  price: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Price must be a wei amount'
+    }
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: Object.values(ListingStatus),
+    default: ListingStatus.ACTIVE,
+    index: true
+  },
+  buyer: {
+    type: String,
+    lowercase: true,
+    index: true
+  },
+  listedAt: {
+    type: Number
+  },
+  listedBlock: {
+    type: Number,
+    required: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  },
+  closedAt: {
+    type: Number
+  },
+  closedBlock: {
+    type: Number
+  },
+  closingTransactionHash: {
+    type: String
+  },
+  lastBlockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  lastLogIndex: {
+    type: Number,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+ListingSchema.index({ contract: 1, tokenId: 1, listedBlock: 1 });
+
+export const Listing = mongoose.model<IListing>('Listing', ListingSchema);
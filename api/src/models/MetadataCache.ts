@@ -100,9 +100,9 @@ const MetadataCacheSchema = new Schema<IMetadataCache>({
   versionKey: false
 });
 
-// Create compound index for uniqueness
+// One entry per URI a token has pointed to, so earlier versions stay resolvable
 MetadataCacheSchema.index(
-  { contract: 1, tokenId: 1 },
+  { contract: 1, tokenId: 1, uri: 1 },
   { unique: true }
 );
 
@@ -0,0 +1,140 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+/**
+ * Stored lifecycle of an offer. An open offer past its expirationTime is
+ * reported as `expired`: it stays in the contract's offers array but can no
+ * longer be accepted.
+ */
+export enum OfferStatus {
+  OPEN = 'open',
+  EXPIRED = 'expired',
+  ACCEPTED = 'accepted',
+  CANCELLED = 'cancelled',
+  // Removed when another offer on the token was accepted
+  VOIDED = 'voided'
+}
+
+/**
+ * A Marketplace offer from OfferCreated until it is accepted, cancelled or
+ * voided. Prices are wei decimal strings. Maintained by
+ * indexer/projections/marketplace.
+ */
+export interface IOffer extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  tokenId: string;
+  buyer: string;
+  price: string;
+  expirationTime: number;
+  status: OfferStatus;
+  // Position in the contract's offers[tokenId] array while the offer is open
+  index?: number;
+  seller?: string;
+  offeredAt?: number;
+  offeredBlock: number;
+  transactionHash: string;
+  closedAt?: number;
+  closedBlock?: number;
+  closingTransactionHash?: string;
+  lastBlockNumber: number;
+  lastLogIndex: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OfferSchema = new Schema<IOffer>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  tokenId: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Token ID must be a valid number string'
+    }
+  },
+  buyer: {
+    type: String,
+    required: true,
+    lowercase: true,
+    index: true
+  },
+  price: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Price must be a wei amount'
+    }
+  },
+  expirationTime: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: Object.values(OfferStatus).filter(status => status !== OfferStatus.EXPIRED),
+    default: OfferStatus.OPEN,
+    index: true
+  },
+  index: {
+    type: Number
+  },
+  seller: {
+    type: String,
+    lowercase: true
+  },
+  offeredAt: {
+    type: Number
+  },
+  offeredBlock: {
+    type: Number,
+    required: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  },
+  closedAt: {
+    type: Number
+  },
+  closedBlock: {
+    type: Number
+  },
+  closingTransactionHash: {
+    type: String
+  },
+  lastBlockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  lastLogIndex: {
+    type: Number,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+OfferSchema.index({ contract: 1, tokenId: 1, status: 1, index: 1 });
+
+export const Offer = mongoose.model<IOffer>('Offer', OfferSchema);
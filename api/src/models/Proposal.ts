@@ -0,0 +1,201 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+/**
+ * Governor proposal states. Only cancellation, queueing and execution are
+ * logged; the rest follow from the current block, the tallies and the quorum
+ * the way Governor.state computes them.
+ */
+export enum ProposalState {
+  PENDING = 'pending',
+  ACTIVE = 'active',
+  CANCELED = 'canceled',
+  DEFEATED = 'defeated',
+  SUCCEEDED = 'succeeded',
+  QUEUED = 'queued',
+  EXECUTED = 'executed'
+}
+
+/** A call the proposal makes, with its calldata decoded when the target is a known contract */
+export interface IProposalAction {
+  target: string;
+  // Wei decimal string
+  value: string;
+  // Legacy signature from ProposalCreated, empty when calldata carries the selector
+  signature: string;
+  calldata: string;
+  decoded?: {
+    name: string;
+    signature: string;
+    args: Record<string, unknown>;
+  };
+}
+
+/**
+ * A Governor proposal from ProposalCreated, with its lifecycle events and the
+ * vote tallies added up from its Vote rows. Vote amounts are wei decimal
+ * strings and voteStart/voteEnd are timepoints of the token clock (block
+ * numbers for TuneToken). Maintained by indexer/projections/governance.
+ */
+export interface IProposal extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  proposalId: string;
+  proposer: string;
+  actions: IProposalAction[];
+  description: string;
+  title: string;
+  // The TimelockController batch the proposal is queued as
+  timelockOperationId: string;
+  voteStart: number;
+  voteEnd: number;
+  forVotes: string;
+  againstVotes: string;
+  abstainVotes: string;
+  voterCount: number;
+  proposedAt?: number;
+  proposedBlock: number;
+  transactionHash: string;
+  // Timestamp after which the timelock may execute the proposal
+  eta?: number;
+  queuedAt?: number;
+  queuedBlock?: number;
+  executedAt?: number;
+  executedBlock?: number;
+  canceledAt?: number;
+  canceledBlock?: number;
+  lastBlockNumber: number;
+  lastLogIndex: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const amount = {
+  type: String,
+  required: true,
+  default: '0',
+  validate: {
+    validator: (v: string) => /^\d+$/.test(v),
+    message: 'Votes must be a wei amount'
+  }
+};
+
+const ProposalSchema = new Schema<IProposal>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  proposalId: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Proposal ID must be a valid number string'
+    }
+  },
+  proposer: {
+    type: String,
+    required: true,
+    lowercase: true,
+    index: true
+  },
+  actions: [{
+    _id: false,
+    target: { type: String, required: true, lowercase: true },
+    value: { type: String, required: true },
+    signature: { type: String, default: '' },
+    calldata: { type: String, required: true },
+    decoded: { type: Schema.Types.Mixed }
+  }],
+  description: {
+    type: String,
+    default: ''
+  },
+  title: {
+    type: String,
+    default: ''
+  },
+  timelockOperationId: {
+    type: String,
+    required: true,
+    lowercase: true,
+    index: true
+  },
+  voteStart: {
+    type: Number,
+    required: true
+  },
+  voteEnd: {
+    type: Number,
+    required: true
+  },
+  forVotes: amount,
+  againstVotes: amount,
+  abstainVotes: amount,
+  voterCount: {
+    type: Number,
+    required: true,
+    default: 0
+  },
+  proposedAt: {
+    type: Number
+  },
+  proposedBlock: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  },
+  eta: {
+    type: Number
+  },
+  queuedAt: {
+    type: Number
+  },
+  queuedBlock: {
+    type: Number
+  },
+  executedAt: {
+    type: Number
+  },
+  executedBlock: {
+    type: Number
+  },
+  canceledAt: {
+    type: Number
+  },
+  canceledBlock: {
+    type: Number
+  },
+  lastBlockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  lastLogIndex: {
+    type: Number,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+ProposalSchema.index({ contract: 1, proposalId: 1 }, { unique: true });
+
+export const Proposal = mongoose.model<IProposal>('Proposal', ProposalSchema);
@@ -0,0 +1,163 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+export enum RoyaltyEntryType {
+  PAYEE_ADDED = 'payee_added',
+  PAYEE_REMOVED = 'payee_removed',
+  ACCUMULATED = 'accumulated',
+  DISTRIBUTED = 'distributed',
+  RECONCILED = 'reconciled',
+  STREAMING_MINUTES = 'streaming_minutes',
+  STREAMING_DISTRIBUTED = 'streaming_distributed',
+  THRESHOLD_UPDATED = 'threshold_updated'
+}
+
+/** Where royalties come from: track sales or recorded streaming minutes */
+export enum RoyaltySource {
+  SALE = 'sale',
+  STREAMING = 'streaming'
+}
+
+export interface IRoyaltyPayee {
+  account: string;
+  shares: number;
+}
+
+/**
+ * The RoyaltyDistributor state of a token after an entry, mirroring
+ * _payees, _accumulatedRoyalties and _autoDistributionThresholds. Pending
+ * royalties are also split by source so distributions can be attributed.
+ */
+export interface IRoyaltyState {
+  payees: IRoyaltyPayee[];
+  pending: string;
+  pendingSale: string;
+  pendingStreaming: string;
+  autoThreshold: string;
+  streamedMinutes: string;
+  totalDistributed: string;
+}
+
+/**
+ * One line of a token's royalty ledger, from a RoyaltyDistributor event.
+ * Amounts are TuneToken wei decimal strings. Maintained by
+ * indexer/projections/royalties.
+ */
+export interface IRoyaltyEntry extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  tokenId: string;
+  type: RoyaltyEntryType;
+  account?: string;
+  shares?: number;
+  amount?: string;
+  minutes?: string;
+  isPositive?: boolean;
+  source?: RoyaltySource;
+  // Whether a distribution paid out the accumulated royalties automatically
+  automatic?: boolean;
+  state: IRoyaltyState;
+  timestamp?: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const amount = {
+  type: String,
+  validate: {
+    validator: (v: string) => /^\d+$/.test(v),
+    message: 'Amount must be a wei amount'
+  }
+};
+
+const RoyaltyEntrySchema = new Schema<IRoyaltyEntry>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  tokenId: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Token ID must be a valid number string'
+    }
+  },
+  type: {
+    type: String,
+    required: true,
+    enum: Object.values(RoyaltyEntryType)
+  },
+  account: {
+    type: String,
+    lowercase: true
+  },
+  shares: {
+    type: Number
+  },
+  amount,
+  minutes: {
+    type: String
+  },
+  isPositive: {
+    type: Boolean
+  },
+  source: {
+    type: String,
+    enum: Object.values(RoyaltySource)
+  },
+  automatic: {
+    type: Boolean
+  },
+  state: {
+    payees: [{
+      _id: false,
+      account: { type: String, lowercase: true, required: true },
+      shares: { type: Number, required: true }
+    }],
+    pending: { ...amount, required: true },
+    pendingSale: { ...amount, required: true },
+    pendingStreaming: { ...amount, required: true },
+    autoThreshold: { ...amount, required: true },
+    streamedMinutes: { type: String, required: true },
+    totalDistributed: { ...amount, required: true }
+  },
+  timestamp: {
+    type: Number
+  },
+  blockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  logIndex: {
+    type: Number,
+    required: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+RoyaltyEntrySchema.index({ contract: 1, tokenId: 1, blockNumber: 1, logIndex: 1 }, { unique: true });
+
+export const RoyaltyEntry = mongoose.model<IRoyaltyEntry>('RoyaltyEntry', RoyaltyEntrySchema);
@@ -0,0 +1,110 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+import { RoyaltySource } from './RoyaltyEntry';
+
+export enum RoyaltyPaymentType {
+  DISTRIBUTION = 'distribution',
+  RECONCILIATION = 'reconciliation'
+}
+
+/**
+ * A payee's cut of one distribution or reconciliation, computed like
+ * RoyaltyDistributor does: amount * shares / 100, rounded down. Negative
+ * reconciliations transfer nothing on chain and are recorded as deductions.
+ * Maintained by indexer/projections/royalties.
+ */
+export interface IRoyaltyPayment extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  tokenId: string;
+  payee: string;
+  shares: number;
+  amount: string;
+  type: RoyaltyPaymentType;
+  // Set on distributions; reconciliations adjust the payee's total regardless of source
+  source?: RoyaltySource;
+  isPositive: boolean;
+  timestamp?: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RoyaltyPaymentSchema = new Schema<IRoyaltyPayment>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  tokenId: {
+    type: String,
+    required: true
+  },
+  payee: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  shares: {
+    type: Number,
+    required: true
+  },
+  amount: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Amount must be a wei amount'
+    }
+  },
+  type: {
+    type: String,
+    required: true,
+    enum: Object.values(RoyaltyPaymentType)
+  },
+  source: {
+    type: String,
+    enum: Object.values(RoyaltySource)
+  },
+  isPositive: {
+    type: Boolean,
+    default: true
+  },
+  timestamp: {
+    type: Number
+  },
+  blockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  logIndex: {
+    type: Number,
+    required: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+RoyaltyPaymentSchema.index({ payee: 1, timestamp: 1 });
+RoyaltyPaymentSchema.index({ contract: 1, tokenId: 1, blockNumber: 1, logIndex: 1 });
+
+export const RoyaltyPayment = mongoose.model<IRoyaltyPayment>('RoyaltyPayment', RoyaltyPaymentSchema);
@@ -0,0 +1,104 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+export enum SaleType {
+  // MusicNFT.purchaseTrack at the creator's price
+  PRIMARY = 'primary',
+  // Marketplace.buyToken on a listing
+  LISTING = 'listing',
+  // Marketplace.acceptOffer
+  OFFER = 'offer'
+}
+
+/**
+ * One sale of a track token, from TrackPurchased, TokenSold or OfferAccepted.
+ * Prices are TuneToken wei decimal strings. Maintained by
+ * indexer/projections/sales.
+ */
+export interface ISale extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  tokenId: string;
+  type: SaleType;
+  seller?: string;
+  buyer: string;
+  price: string;
+  timestamp?: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SaleSchema = new Schema<ISale>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true
+  },
+  tokenId: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Token ID must be a valid number string'
+    }
+  },
+  type: {
+    type: String,
+    required: true,
+    enum: Object.values(SaleType)
+  },
+  seller: {
+    type: String,
+    lowercase: true
+  },
+  buyer: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  price: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Price must be a wei amount'
+    }
+  },
+  timestamp: {
+    type: Number
+  },
+  blockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  logIndex: {
+    type: Number,
+    required: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+SaleSchema.index({ network: 1, transactionHash: 1, logIndex: 1 }, { unique: true });
+SaleSchema.index({ network: 1, tokenId: 1, timestamp: -1 });
+
+export const Sale = mongoose.model<ISale>('Sale', SaleSchema);
@@ -0,0 +1,81 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+/**
+ * A TuneToken service tier as last set by ServiceTierUpdated. Tiers the
+ * constructor set up without an event fall back to utils/serviceTiers
+ * defaults. Maintained by indexer/projections/serviceTiers.
+ */
+export interface IServiceTier extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  tier: number;
+  // Wei decimal string
+  minTokens: string;
+  // In basis points
+  discountRate: number;
+  timestamp?: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ServiceTierSchema = new Schema<IServiceTier>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  tier: {
+    type: Number,
+    required: true
+  },
+  minTokens: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Minimum tokens must be a wei amount'
+    }
+  },
+  discountRate: {
+    type: Number,
+    required: true
+  },
+  timestamp: {
+    type: Number
+  },
+  blockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  logIndex: {
+    type: Number,
+    required: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+ServiceTierSchema.index({ contract: 1, tier: 1 }, { unique: true });
+
+export const ServiceTier = mongoose.model<IServiceTier>('ServiceTier', ServiceTierSchema);
@@ -0,0 +1,110 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+import { IStakeState, STAKE_STATE_FIELDS } from './StakingPosition';
+
+export enum StakingEntryType {
+  STAKED = 'staked',
+  UNSTAKED = 'unstaked',
+  // Unstaked while the contract is in its emergency state; forfeits accrued rewards
+  EMERGENCY_WITHDRAWN = 'emergency_withdrawn',
+  REWARDS_CLAIMED = 'rewards_claimed',
+  SLASHED = 'slashed',
+  DELEGATED = 'delegated',
+  UNDELEGATED = 'undelegated'
+}
+
+/**
+ * One StakingContract event of a staker, together with their position after
+ * it. Maintained by indexer/projections/staking.
+ */
+export interface IStakingEntry extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  staker: string;
+  type: StakingEntryType;
+  amount?: string;
+  delegatee?: string;
+  previousDelegatee?: string;
+  // Signed change to the contract's totalStaked
+  tvlDelta: string;
+  state: IStakeState;
+  timestamp?: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StakingEntrySchema = new Schema<IStakingEntry>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  staker: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  type: {
+    type: String,
+    required: true,
+    enum: Object.values(StakingEntryType)
+  },
+  amount: {
+    type: String
+  },
+  delegatee: {
+    type: String,
+    lowercase: true
+  },
+  previousDelegatee: {
+    type: String,
+    lowercase: true
+  },
+  tvlDelta: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^-?\d+$/.test(v),
+      message: 'TVL delta must be a signed wei amount'
+    }
+  },
+  state: STAKE_STATE_FIELDS,
+  timestamp: {
+    type: Number
+  },
+  blockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  logIndex: {
+    type: Number,
+    required: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+StakingEntrySchema.index({ contract: 1, staker: 1, blockNumber: 1, logIndex: 1 }, { unique: true });
+StakingEntrySchema.index({ contract: 1, timestamp: 1 });
+
+export const StakingEntry = mongoose.model<IStakingEntry>('StakingEntry', StakingEntrySchema);
@@ -0,0 +1,115 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+/**
+ * Stake held between two reward updates. StakingContract accrues
+ * amount * rewardRate * seconds / (365 days * 100) per period, rounded down,
+ * and keeps the sum as rewardDebt until rewards are claimed.
+ */
+export interface IAccrualPeriod {
+  amount: string;
+  seconds: number;
+}
+
+/**
+ * A staker's StakeInfo as StakingContract keeps it, plus lifetime totals.
+ * The reward rate is not logged, so accrued rewards are kept as the periods
+ * they accrued over.
+ */
+export interface IStakeState {
+  amount: string;
+  delegatedTo?: string | null;
+  lastRewardUpdate: number;
+  accrual: IAccrualPeriod[];
+  totalStaked: string;
+  totalUnstaked: string;
+  totalClaimed: string;
+  totalSlashed: string;
+}
+
+const amount = {
+  type: String,
+  required: true,
+  validate: {
+    validator: (v: string) => /^\d+$/.test(v),
+    message: 'Amount must be a wei amount'
+  }
+};
+
+/** Schema fields of IStakeState, shared with StakingEntry */
+export const STAKE_STATE_FIELDS = {
+  amount,
+  delegatedTo: {
+    type: String,
+    lowercase: true
+  },
+  lastRewardUpdate: {
+    type: Number,
+    required: true
+  },
+  accrual: [{
+    _id: false,
+    amount: { type: String, required: true },
+    seconds: { type: Number, required: true }
+  }],
+  totalStaked: amount,
+  totalUnstaked: amount,
+  totalClaimed: amount,
+  totalSlashed: amount
+};
+
+/**
+ * The current position of a staker. Maintained by indexer/projections/staking.
+ */
+export interface IStakingPosition extends IStakeState, Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  staker: string;
+  lastBlockNumber: number;
+  lastLogIndex: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StakingPositionSchema = new Schema<IStakingPosition>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  staker: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  ...STAKE_STATE_FIELDS,
+  lastBlockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  lastLogIndex: {
+    type: Number,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+StakingPositionSchema.index({ contract: 1, staker: 1 }, { unique: true });
+StakingPositionSchema.index({ contract: 1, delegatedTo: 1 });
+StakingPositionSchema.index({ staker: 1 });
+
+export const StakingPosition = mongoose.model<IStakingPosition>('StakingPosition', StakingPositionSchema);
@@ -0,0 +1,136 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+/**
+ * TimelockController operation states. `waiting` and `ready` both mean
+ * scheduled, split on whether the delay has passed.
+ */
+export enum TimelockOperationStatus {
+  WAITING = 'waiting',
+  READY = 'ready',
+  DONE = 'done',
+  CANCELLED = 'cancelled'
+}
+
+export interface ITimelockCall {
+  index: number;
+  target: string;
+  // Wei decimal string
+  value: string;
+  data: string;
+  decoded?: {
+    name: string;
+    signature: string;
+    args: Record<string, unknown>;
+  };
+}
+
+/**
+ * A TimelockController operation: its calls from CallScheduled, marked done
+ * by CallExecuted or dropped by Cancelled. Maintained by
+ * indexer/projections/timelock.
+ */
+export interface ITimelockOperation extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  operationId: string;
+  calls: ITimelockCall[];
+  predecessor: string;
+  delay: number;
+  scheduledAt?: number;
+  scheduledBlock: number;
+  // scheduledAt plus the delay
+  readyAt?: number;
+  transactionHash: string;
+  executedAt?: number;
+  executedBlock?: number;
+  cancelledAt?: number;
+  cancelledBlock?: number;
+  lastBlockNumber: number;
+  lastLogIndex: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TimelockOperationSchema = new Schema<ITimelockOperation>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  operationId: {
+    type: String,
+    required: true,
+    lowercase: true,
+    index: true
+  },
+  calls: [{
+    _id: false,
+    index: { type: Number, required: true },
+    target: { type: String, required: true, lowercase: true },
+    value: { type: String, required: true },
+    data: { type: String, required: true },
+    decoded: { type: Schema.Types.Mixed }
+  }],
+  predecessor: {
+    type: String,
+    required: true
+  },
+  delay: {
+    type: Number,
+    required: true
+  },
+  scheduledAt: {
+    type: Number
+  },
+  scheduledBlock: {
+    type: Number,
+    required: true
+  },
+  readyAt: {
+    type: Number
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  },
+  executedAt: {
+    type: Number
+  },
+  executedBlock: {
+    type: Number
+  },
+  cancelledAt: {
+    type: Number
+  },
+  cancelledBlock: {
+    type: Number
+  },
+  lastBlockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  lastLogIndex: {
+    type: Number,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+TimelockOperationSchema.index({ contract: 1, operationId: 1 }, { unique: true });
+
+export const TimelockOperation = mongoose.model<ITimelockOperation>('TimelockOperation', TimelockOperationSchema);
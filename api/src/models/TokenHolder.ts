@@ -0,0 +1,73 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+/**
+ * An account's balance of an ERC20 token, summed from its Transfer events.
+ * Maintained by indexer/projections/holders.
+ */
+export interface ITokenHolder extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  address: string;
+  // Wei decimal string; accounts that emptied their balance keep a '0' row.
+  // Negative only while earlier transfers are still being backfilled.
+  balance: string;
+  firstBlockNumber: number;
+  lastBlockNumber: number;
+  lastLogIndex: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TokenHolderSchema = new Schema<ITokenHolder>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  address: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  balance: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^-?\d+$/.test(v),
+      message: 'Balance must be a signed wei amount'
+    }
+  },
+  firstBlockNumber: {
+    type: Number,
+    required: true
+  },
+  lastBlockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  lastLogIndex: {
+    type: Number,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+TokenHolderSchema.index({ contract: 1, address: 1 }, { unique: true });
+TokenHolderSchema.index({ address: 1 });
+
+export const TokenHolder = mongoose.model<ITokenHolder>('TokenHolder', TokenHolderSchema);
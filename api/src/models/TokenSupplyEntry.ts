@@ -0,0 +1,137 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+export enum TokenSupplyEntryType {
+  // Transfer from the zero address to anyone but the token itself
+  MINTED = 'minted',
+  // mintInflation: a mint to the token itself, split across the pools
+  INFLATION = 'inflation',
+  BURNED = 'burned',
+  // Transfers into and out of the token contract (stakes, vesting, pools)
+  ESCROWED = 'escrowed',
+  RELEASED = 'released',
+  POOL_FUNDED = 'pool_funded',
+  EPOCH_ADVANCED = 'epoch_advanced'
+}
+
+export interface IPoolBalance {
+  name: string;
+  balance: string;
+}
+
+/**
+ * TuneToken supply figures after an event. Amounts are wei decimal strings.
+ */
+export interface ITokenSupplyState {
+  totalSupply: string;
+  totalMinted: string;
+  inflationMinted: string;
+  totalBurned: string;
+  // Held by the token contract: pools, stakes and vesting escrow
+  contractBalance: string;
+  pools: IPoolBalance[];
+  epoch?: number;
+  rewardPerToken: string;
+}
+
+/**
+ * One TuneToken event affecting supply, pools or epochs, together with the
+ * supply after it. Maintained by indexer/projections/supply.
+ */
+export interface ITokenSupplyEntry extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  type: TokenSupplyEntryType;
+  amount?: string;
+  account?: string;
+  pool?: string;
+  state: ITokenSupplyState;
+  timestamp?: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const amount = {
+  type: String,
+  required: true,
+  validate: {
+    validator: (v: string) => /^-?\d+$/.test(v),
+    message: 'Amount must be a wei amount'
+  }
+};
+
+const TokenSupplyEntrySchema = new Schema<ITokenSupplyEntry>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  type: {
+    type: String,
+    required: true,
+    enum: Object.values(TokenSupplyEntryType)
+  },
+  amount: {
+    type: String
+  },
+  account: {
+    type: String,
+    lowercase: true
+  },
+  pool: {
+    type: String
+  },
+  state: {
+    totalSupply: amount,
+    totalMinted: amount,
+    inflationMinted: amount,
+    totalBurned: amount,
+    contractBalance: amount,
+    pools: [{
+      _id: false,
+      name: { type: String, required: true },
+      balance: amount
+    }],
+    epoch: { type: Number },
+    rewardPerToken: amount
+  },
+  timestamp: {
+    type: Number
+  },
+  blockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  logIndex: {
+    type: Number,
+    required: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+TokenSupplyEntrySchema.index({ contract: 1, blockNumber: 1, logIndex: 1 }, { unique: true });
+TokenSupplyEntrySchema.index({ contract: 1, type: 1, blockNumber: -1 });
+TokenSupplyEntrySchema.index({ contract: 1, timestamp: 1 });
+
+export const TokenSupplyEntry = mongoose.model<ITokenSupplyEntry>('TokenSupplyEntry', TokenSupplyEntrySchema);
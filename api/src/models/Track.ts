@@ -0,0 +1,127 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+/**
+ * Read model of a MusicNFT track, mirroring `MusicNFT.getTrack`. Amounts are
+ * wei decimal strings. Rebuilt from the contract's events, see
+ * indexer/projections/tracks.
+ */
+export interface ITrack extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  tokenId: string;
+  creator: string;
+  price: string;
+  uri?: string;
+  version: number;
+  albumId: string;
+  collaborators: string[];
+  royaltyShares: number[];
+  maxSupply?: string;
+  purchaseCount: number;
+  lastPurchasedAt?: number;
+  createdBlock: number;
+  createdTimestamp?: number;
+  // Position of the last event folded into the track
+  lastBlockNumber: number;
+  lastLogIndex: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const numericString = {
+  validator: (v: string) => /^\d+$/.test(v),
+  message: 'Must be a non-negative integer string'
+};
+
+const TrackSchema = new Schema<ITrack>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  tokenId: {
+    type: String,
+    required: true,
+    validate: numericString,
+    index: true
+  },
+  creator: {
+    type: String,
+    required: true,
+    lowercase: true,
+    index: true
+  },
+  price: {
+    type: String,
+    required: true,
+    validate: numericString
+  },
+  uri: {
+    type: String
+  },
+  version: {
+    type: Number,
+    required: true,
+    default: 1
+  },
+  albumId: {
+    type: String,
+    default: '0',
+    validate: numericString,
+    index: true
+  },
+  collaborators: {
+    type: [String],
+    default: []
+  },
+  royaltyShares: {
+    type: [Number],
+    default: []
+  },
+  maxSupply: {
+    type: String,
+    validate: numericString
+  },
+  purchaseCount: {
+    type: Number,
+    default: 0
+  },
+  lastPurchasedAt: {
+    type: Number
+  },
+  createdBlock: {
+    type: Number,
+    required: true
+  },
+  createdTimestamp: {
+    type: Number
+  },
+  lastBlockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  lastLogIndex: {
+    type: Number,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+TrackSchema.index({ contract: 1, tokenId: 1 }, { unique: true });
+
+export const Track = mongoose.model<ITrack>('Track', TrackSchema);
@@ -0,0 +1,87 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+/**
+ * A directed RecommendationGraph edge between two tracks, weighted by the
+ * latest TrackEdgeCreated for the pair. Maintained by
+ * indexer/projections/recommendationGraph.
+ */
+export interface ITrackEdge extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  fromTrack: string;
+  toTrack: string;
+  // Strength of the relationship, 0 to 100
+  weight: number;
+  timestamp?: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TrackEdgeSchema = new Schema<ITrackEdge>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  fromTrack: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Token ID must be a valid number string'
+    }
+  },
+  toTrack: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Token ID must be a valid number string'
+    }
+  },
+  weight: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 100
+  },
+  timestamp: {
+    type: Number
+  },
+  blockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  logIndex: {
+    type: Number,
+    required: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+TrackEdgeSchema.index({ contract: 1, fromTrack: 1, toTrack: 1 }, { unique: true });
+TrackEdgeSchema.index({ contract: 1, toTrack: 1 });
+
+export const TrackEdge = mongoose.model<ITrackEdge>('TrackEdge', TrackEdgeSchema);
@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+/**
+ * A track registered in RecommendationGraph by TrackNodeAdded. The contract
+ * can drop a track with removeTrackNode without logging it, so a node stays
+ * here once added. Maintained by indexer/projections/recommendationGraph.
+ */
+export interface ITrackNode extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  tokenId: string;
+  metadataURI: string;
+  timestamp?: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TrackNodeSchema = new Schema<ITrackNode>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  tokenId: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Token ID must be a valid number string'
+    }
+  },
+  metadataURI: {
+    type: String,
+    required: true
+  },
+  timestamp: {
+    type: Number
+  },
+  blockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  logIndex: {
+    type: Number,
+    required: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+TrackNodeSchema.index({ contract: 1, tokenId: 1 }, { unique: true });
+
+export const TrackNode = mongoose.model<ITrackNode>('TrackNode', TrackNodeSchema);
@@ -0,0 +1,80 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+/**
+ * One entry of `MusicNFT.getVersionHistory`: version 1 comes from
+ * TrackCreated, every TrackVersionUpdated adds the next one.
+ */
+export interface ITrackVersion extends Document {
+  contract: Types.ObjectId | IContract;
+  network: string;
+  tokenId: string;
+  version: number;
+  uri?: string;
+  changelog: string;
+  timestamp?: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TrackVersionSchema = new Schema<ITrackVersion>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  tokenId: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Token ID must be a valid number string'
+    }
+  },
+  version: {
+    type: Number,
+    required: true,
+    validate: {
+      validator: (v: number) => Number.isInteger(v) && v > 0,
+      message: 'Version must be a positive integer'
+    }
+  },
+  uri: {
+    type: String
+  },
+  changelog: {
+    type: String,
+    required: true
+  },
+  timestamp: {
+    type: Number
+  },
+  blockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  logIndex: {
+    type: Number,
+    required: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+TrackVersionSchema.index({ contract: 1, tokenId: 1, version: 1 }, { unique: true });
+
+export const TrackVersion = mongoose.model<ITrackVersion>('TrackVersion', TrackVersionSchema);
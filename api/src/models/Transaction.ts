@@ -3,6 +3,7 @@ import { IContract } from './Contract';
 
 export interface ITransaction extends Document {
   contract: Types.ObjectId | IContract;
+  network: string;
   hash: string;
   blockNumber: number;
   from: string;
@@ -13,6 +14,8 @@ export interface ITransaction extends Document {
   input?: string;
   status?: boolean;
   timestamp?: number;
+  confirmations: number;
+  finalized: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -24,10 +27,14 @@ const TransactionSchema = new Schema<ITransaction>({
     required: true,
     index: true
   },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
   hash: {
     type: String,
     required: true,
-    unique: true,
     validate: {
       validator: (v: string) => /^0x[a-fA-F0-9]{64}$/.test(v),
       message: 'Invalid transaction hash format'
@@ -97,12 +104,31 @@ const TransactionSchema = new Schema<ITransaction>({
   timestamp: {
     type: Number,
     index: true
+  },
+  confirmations: {
+    type: Number,
+    default: 0,
+    validate: {
+      validator: (v: number) => v >= 0,
+      message: 'Confirmations must be non-negative'
+    }
+  },
+  finalized: {
+    type: Boolean,
+    default: false,
+    index: true
   }
 }, {
   timestamps: true,
   versionKey: false
 });
 
+// Replayed pre-EIP-155 transactions share a hash across networks
+TransactionSchema.index(
+  { network: 1, hash: 1 },
+  { unique: true }
+);
+
 // Create compound index for efficient querying
 TransactionSchema.index(
   { contract: 1, blockNumber: 1 }
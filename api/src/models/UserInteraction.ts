@@ -0,0 +1,84 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+/**
+ * One UserInteraction logged by RecommendationGraph. The contract only keeps
+ * whether a user interacted with a track; every interaction is kept here so
+ * recommendations can weigh them. Maintained by
+ * indexer/projections/recommendationGraph.
+ */
+export interface IUserInteraction extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  user: string;
+  tokenId: string;
+  // 0 view, 1 like, 2 share
+  interactionType: number;
+  timestamp?: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UserInteractionSchema = new Schema<IUserInteraction>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  user: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  tokenId: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Token ID must be a valid number string'
+    }
+  },
+  interactionType: {
+    type: Number,
+    required: true
+  },
+  timestamp: {
+    type: Number
+  },
+  blockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  logIndex: {
+    type: Number,
+    required: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+UserInteractionSchema.index({ contract: 1, blockNumber: 1, logIndex: 1 }, { unique: true });
+UserInteractionSchema.index({ contract: 1, user: 1, tokenId: 1 });
+UserInteractionSchema.index({ contract: 1, tokenId: 1 });
+
+export const UserInteraction = mongoose.model<IUserInteraction>('UserInteraction', UserInteractionSchema);
@@ -0,0 +1,114 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+/**
+ * A TuneToken vesting schedule. TuneToken keeps one schedule per beneficiary
+ * and never deletes it, so revoked schedules stay. Amounts are wei decimal
+ * strings. Maintained by indexer/projections/vesting.
+ */
+export interface IVestingSchedule extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  beneficiary: string;
+  totalAmount: string;
+  startTime: number;
+  duration: number;
+  // Not logged; read from the createVestingSchedule calldata when available
+  revocable?: boolean;
+  revoked: boolean;
+  revokedAt?: number;
+  // Returned to the owner on revocation: totalAmount less what had vested
+  refundedAmount?: string;
+  releasedAmount: string;
+  scheduledAt?: number;
+  scheduledBlock: number;
+  transactionHash: string;
+  lastBlockNumber: number;
+  lastLogIndex: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const amount = {
+  type: String,
+  required: true,
+  validate: {
+    validator: (v: string) => /^\d+$/.test(v),
+    message: 'Amount must be a wei amount'
+  }
+};
+
+const VestingScheduleSchema = new Schema<IVestingSchedule>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  beneficiary: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  totalAmount: amount,
+  startTime: {
+    type: Number,
+    required: true
+  },
+  duration: {
+    type: Number,
+    required: true
+  },
+  revocable: {
+    type: Boolean
+  },
+  revoked: {
+    type: Boolean,
+    default: false
+  },
+  revokedAt: {
+    type: Number
+  },
+  refundedAmount: {
+    type: String
+  },
+  releasedAmount: amount,
+  scheduledAt: {
+    type: Number
+  },
+  scheduledBlock: {
+    type: Number,
+    required: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  },
+  lastBlockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  lastLogIndex: {
+    type: Number,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+VestingScheduleSchema.index({ contract: 1, beneficiary: 1 }, { unique: true });
+VestingScheduleSchema.index({ beneficiary: 1 });
+
+export const VestingSchedule = mongoose.model<IVestingSchedule>('VestingSchedule', VestingScheduleSchema);
@@ -0,0 +1,104 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+/** GovernorCountingSimple vote types, by their `support` value */
+export enum VoteSupport {
+  AGAINST = 0,
+  FOR = 1,
+  ABSTAIN = 2
+}
+
+/**
+ * A vote cast on a Governor proposal through VoteCast or VoteCastWithParams.
+ * GovernorCountingSimple lets each account vote once per proposal. The weight
+ * is a wei decimal string. Maintained by indexer/projections/governance.
+ */
+export interface IVote extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  proposalId: string;
+  voter: string;
+  support: VoteSupport;
+  weight: string;
+  reason: string;
+  // Only set for VoteCastWithParams
+  params?: string;
+  timestamp?: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const VoteSchema = new Schema<IVote>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  proposalId: {
+    type: String,
+    required: true
+  },
+  voter: {
+    type: String,
+    required: true,
+    lowercase: true,
+    index: true
+  },
+  support: {
+    type: Number,
+    required: true,
+    enum: [VoteSupport.AGAINST, VoteSupport.FOR, VoteSupport.ABSTAIN]
+  },
+  weight: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (v: string) => /^\d+$/.test(v),
+      message: 'Weight must be a wei amount'
+    }
+  },
+  reason: {
+    type: String,
+    default: ''
+  },
+  params: {
+    type: String
+  },
+  timestamp: {
+    type: Number
+  },
+  blockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  logIndex: {
+    type: Number,
+    required: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+VoteSchema.index({ contract: 1, proposalId: 1, voter: 1 }, { unique: true });
+
+export const Vote = mongoose.model<IVote>('Vote', VoteSchema);
@@ -0,0 +1,83 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IContract } from './Contract';
+
+const amount = {
+  type: String,
+  required: true,
+  validate: {
+    validator: (v: string) => /^\d+$/.test(v),
+    message: 'Votes must be a wei amount'
+  }
+};
+
+/**
+ * One DelegateVotesChanged of a TuneToken delegate. ERC20Votes checkpoints
+ * votes by block, so the last entry at or below a block is what getPastVotes
+ * returns for it. Amounts are wei decimal strings. Maintained by
+ * indexer/projections/delegation.
+ */
+export interface IVotingPowerCheckpoint extends Document {
+  contract: Types.ObjectId | IContract;
+  contractAddress: string;
+  network: string;
+  delegate: string;
+  previousVotes: string;
+  newVotes: string;
+  timestamp?: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const VotingPowerCheckpointSchema = new Schema<IVotingPowerCheckpoint>({
+  contract: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    required: true,
+    index: true
+  },
+  delegate: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  previousVotes: amount,
+  newVotes: amount,
+  timestamp: {
+    type: Number
+  },
+  blockNumber: {
+    type: Number,
+    required: true,
+    index: true
+  },
+  logIndex: {
+    type: Number,
+    required: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+VotingPowerCheckpointSchema.index({ contract: 1, delegate: 1, blockNumber: 1, logIndex: 1 }, { unique: true });
+
+export const VotingPowerCheckpoint = mongoose.model<IVotingPowerCheckpoint>(
+  'VotingPowerCheckpoint',
+  VotingPowerCheckpointSchema
+);
@@ -1,33 +1,85 @@
 import express from 'express';
-import { Contract, ContractType } from '../models/Contract';
+import { Contract, ContractType, IContract } from '../models/Contract';
 import { validateAddress } from '../utils/validation';
+import { Finality, getFinalityHead, parseFinality } from '../utils/finality';
+import { scheduleBackfill } from '../indexer/BackfillRunner';
+import { abiRegistry } from '../indexer/abi/AbiRegistry';
+import { isTokenStandard, TokenStandard, typesImplementing } from '../indexer/contractTypes';
+import { detectContract } from '../indexer/detection';
+import { importFoundryBroadcast } from '../indexer/foundryImport';
+import { contractScope, parseNetwork } from '../utils/network';
 import { Error as MongooseError } from 'mongoose';
 import { Request, Response, NextFunction } from 'express';
 
 const router = express.Router();
 
+/**
+ * Caps a contract's lastIndexedBlock at the highest block meeting the
+ * requested finality, so clients only see progress they can rely on
+ */
+const applyFinality = async <T extends Pick<IContract, 'network' | 'lastIndexedBlock'>>(
+  contract: T,
+  finality: Finality
+): Promise<Omit<T, 'lastIndexedBlock'> & { lastIndexedBlock?: number | null }> => {
+  if (finality === Finality.LATEST || contract.lastIndexedBlock == null) {
+    return contract;
+  }
+  const head = await getFinalityHead(finality, contract.network);
+  return {
+    ...contract,
+    lastIndexedBlock: head == null ? null : Math.min(contract.lastIndexedBlock, head)
+  };
+};
+
 // POST /api/v1/contracts
+// The type, name and symbol are detected on-chain when omitted; with
+// ?detect=true the detection result is returned without registering anything
 router.post('/', async (req, res, next) => {
   try {
-    const { address, name, type, network, deployedAt, lastIndexedBlock, isVerified, metadata } = req.body;
+    const { address, type, abi, deployedAt, lastIndexedBlock, isVerified, metadata } = req.body;
+    const network = parseNetwork(req.body.network);
+    const detectOnly = req.query.detect === 'true';
 
     if (!validateAddress(address)) {
       return res.status(400).json({ error: 'Invalid Ethereum address' });
     }
 
-    if (!Object.values(ContractType).includes(type)) {
+    if (type != null && !Object.values(ContractType).includes(type)) {
       return res.status(400).json({ error: 'Invalid contract type' });
     }
 
-    const existingContract = await Contract.findOne({ address: address.toLowerCase() });
+    if (abi != null && !abiRegistry.has(abi)) {
+      return res.status(400).json({ error: 'Unknown ABI' });
+    }
+
+    if ((detectOnly || type == null) && !network) {
+      return res.status(400).json({ error: 'network is required to detect the contract type' });
+    }
+
+    if (detectOnly) {
+      return res.json(await detectContract(address, network as string));
+    }
+
+    const existingContract = await Contract.findOne({ network, address: address.toLowerCase() });
     if (existingContract) {
       return res.status(409).json({ error: 'Contract already exists' });
     }
 
+    let { name, symbol } = req.body;
+    let contractType = type;
+    if (contractType == null) {
+      const detection = await detectContract(address, network as string);
+      contractType = detection.type;
+      name ??= detection.name;
+      symbol ??= detection.symbol;
+    }
+
     const contract = await Contract.create({
       address,
       name,
-      type,
+      symbol,
+      type: contractType,
+      abi,
       network,
       deployedAt,
       lastIndexedBlock,
@@ -35,6 +87,11 @@ router.post('/', async (req, res, next) => {
       metadata
     });
 
+    // Index history from the deployment block; live indexing covers the head
+    if (contract.deployedAt != null) {
+      await scheduleBackfill(contract, contract.deployedAt);
+    }
+
     res.status(201).json(contract);
   } catch (error) {
     if (error instanceof MongooseError.ValidationError) {
@@ -44,9 +101,25 @@ router.post('/', async (req, res, next) => {
   }
 });
 
+// POST /api/v1/contracts/import/foundry
+// Body is a Foundry broadcast file (broadcast/<script>/<chainId>/run-latest.json)
+router.post('/import/foundry', async (req, res, next) => {
+  try {
+    const result = await importFoundryBroadcast(req.body, {
+      network: parseNetwork(req.query.network),
+      backfill: req.query.backfill !== 'false'
+    });
+    const created = result.contracts.some(contract => contract.status === 'created');
+    res.status(created ? 201 : 200).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/v1/contracts
 router.get('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
+    const finality = parseFinality(req.query.finality);
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
     const skip = (page - 1) * limit;
@@ -57,8 +130,20 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
       filter.network = req.query.network;
     }
     if (req.query.type) {
+      if (!Object.values(ContractType).includes(req.query.type as ContractType)) {
+        return res.status(400).json({ error: 'Invalid contract type' });
+      }
       filter.type = req.query.type;
     }
+    if (req.query.standard) {
+      if (!isTokenStandard(req.query.standard)) {
+        return res.status(400).json({
+          error: `Invalid token standard, expected one of: ${Object.values(TokenStandard).join(', ')}`
+        });
+      }
+      const types = typesImplementing(req.query.standard);
+      filter.type = { $in: filter.type ? types.filter(type => type === filter.type) : types };
+    }
 
     try {
       // IMPORTANT: The test is set up with specific stubs:
@@ -81,7 +166,7 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
       const totalPages = Math.ceil(totalItems / limit);
 
       res.json({
-        contracts,
+        contracts: await Promise.all(contracts.map(contract => applyFinality(contract, finality))),
         pagination: {
           currentPage: page,
           totalPages,
@@ -106,13 +191,18 @@ router.get('/:address', async (req, res, next) => {
       return res.status(400).json({ error: 'Invalid Ethereum address' });
     }
 
-    const contract = await Contract.findOne({ address: address.toLowerCase() });
+    const finality = parseFinality(req.query.finality);
+    const scope = await contractScope(address, parseNetwork(req.query.network));
+    const contract = await Contract.findOne(scope);
 
     if (!contract) {
       return res.status(404).json({ error: 'Contract not found' });
     }
 
-    res.json(contract);
+    if (finality === Finality.LATEST) {
+      return res.json(contract);
+    }
+    res.json(await applyFinality(contract.toJSON(), finality));
   } catch (error) {
     next(error);
   }
@@ -127,7 +217,8 @@ router.delete('/:address', async (req, res, next) => {
       return res.status(400).json({ error: 'Invalid contract address format' });
     }
 
-    const contract = await Contract.findOneAndDelete({ address: address.toLowerCase() });
+    const scope = await contractScope(address, parseNetwork(req.query.network));
+    const contract = await Contract.findOneAndDelete(scope);
 
     if (!contract) {
       return res.status(404).json({ error: 'Contract not found' });
@@ -154,8 +245,13 @@ router.patch('/:address', async (req, res, next) => {
       return res.status(400).json({ error: 'Invalid contract type' });
     }
 
+    if (updates.abi != null && !abiRegistry.has(updates.abi)) {
+      return res.status(400).json({ error: 'Unknown ABI' });
+    }
+
+    const scope = await contractScope(address, parseNetwork(req.query.network));
     const contract = await Contract.findOneAndUpdate(
-      { address: address.toLowerCase() },
+      scope,
       { $set: updates },
       { new: true, runValidators: true }
     );
@@ -0,0 +1,345 @@
+import express from 'express';
+import { Types } from 'mongoose';
+import { ContractType } from '../models/Contract';
+import { EngagementEntry, EngagementEntryType } from '../models/EngagementEntry';
+import { FanStats } from '../models/FanStats';
+import { Track } from '../models/Track';
+import { withFormatted } from '../utils/amounts';
+import {
+  claimableRewards,
+  ENGAGEMENT_ACTIONS,
+  LEADERBOARD_PERIODS,
+  LeaderboardPeriod,
+  leaderboardWindow
+} from '../utils/engagement';
+import { findContractOfType } from '../utils/network';
+import { validateAddress } from '../utils/validation';
+import { ValidationError } from '../middleware/error-handler';
+
+const router = express.Router();
+
+const LATEST_FIRST = { blockNumber: -1, logIndex: -1 } as const;
+const CHAIN_ORDER = { blockNumber: 1, logIndex: 1 } as const;
+
+const parseAccount = (address: string) => {
+  if (!validateAddress(address)) {
+    throw new ValidationError('Invalid address');
+  }
+  return address.toLowerCase();
+};
+
+const parseTimestamp = (value: unknown, name: string): number | undefined => {
+  if (value == null || value === '') {
+    return undefined;
+  }
+  const timestamp = Number(value);
+  if (!Number.isInteger(timestamp) || timestamp < 0) {
+    throw new ValidationError(`${name} must be a unix timestamp`);
+  }
+  return timestamp;
+};
+
+/**
+ * Turns the `period` and `at` query parameters into a filter on when points
+ * were earned
+ */
+const periodFilter = (query: express.Request['query'], fallback: LeaderboardPeriod) => {
+  const period = (query.period as LeaderboardPeriod | undefined) || fallback;
+  if (!LEADERBOARD_PERIODS.includes(period)) {
+    throw new ValidationError(`period must be one of ${LEADERBOARD_PERIODS.join(', ')}`);
+  }
+  const at = parseTimestamp(query.at, 'at') ?? Math.floor(Date.now() / 1000);
+  const window = leaderboardWindow(period, at);
+  return {
+    period,
+    window,
+    filter: window ? { timestamp: { $gte: window.from, $lt: window.to } } : {}
+  };
+};
+
+const findFanEngagement = (query: express.Request['query']) => findContractOfType(ContractType.FAN_ENGAGEMENT, query);
+
+interface FanRanking {
+  fans: {
+    _id: string;
+    points: number;
+    interactions: number;
+    actions: { action: string; count: number; points: number }[];
+    lastInteractionAt?: number;
+  }[];
+  total: { count: number }[];
+}
+
+/**
+ * Ranks users by the points of the matching PointsEarned entries, with what
+ * they earned them for
+ */
+const rankFans = async (match: Record<string, unknown>, skip: number, limit: number) => {
+  const [result] = await EngagementEntry.aggregate<FanRanking>([
+    { $match: { ...match, type: EngagementEntryType.POINTS_EARNED } },
+    {
+      $group: {
+        _id: { user: '$user', action: '$action' },
+        points: { $sum: '$points' },
+        count: { $sum: 1 },
+        lastInteractionAt: { $max: '$timestamp' }
+      }
+    },
+    {
+      $group: {
+        _id: '$_id.user',
+        points: { $sum: '$points' },
+        interactions: { $sum: '$count' },
+        actions: { $push: { action: '$_id.action', count: '$count', points: '$points' } },
+        lastInteractionAt: { $max: '$lastInteractionAt' }
+      }
+    },
+    { $sort: { points: -1, _id: 1 } },
+    {
+      $facet: {
+        fans: [{ $skip: skip }, { $limit: limit }],
+        total: [{ $count: 'count' }]
+      }
+    }
+  ]);
+  return {
+    fans: result.fans.map((fan, index) => ({
+      rank: skip + index + 1,
+      user: fan._id,
+      points: fan.points,
+      interactions: fan.interactions,
+      actions: fan.actions.sort((a, b) => ENGAGEMENT_ACTIONS.indexOf(a.action) - ENGAGEMENT_ACTIONS.indexOf(b.action)),
+      lastInteractionAt: fan.lastInteractionAt ?? null
+    })),
+    totalItems: result.total[0]?.count ?? 0
+  };
+};
+
+const pagination = (page: number, limit: number, totalItems: number) => ({
+  currentPage: page,
+  totalPages: Math.ceil(totalItems / limit),
+  totalItems,
+  itemsPerPage: limit
+});
+
+// GET /api/v1/engagement/users/:address
+// A user's points, action breakdown, achievements timeline and claims
+router.get('/users/:address', async (req, res, next) => {
+  try {
+    const user = parseAccount(req.params.address);
+    const contract = await findFanEngagement(req.query);
+    if (!contract) {
+      return res.status(404).json({ error: 'FanEngagement contract not found' });
+    }
+
+    const key = { contract: contract._id as Types.ObjectId, user };
+    const stats = await FanStats.findOne(key).lean();
+    if (!stats) {
+      return res.status(404).json({ error: 'No engagement found for user' });
+    }
+
+    const [breakdown, achievements, ahead] = await Promise.all([
+      EngagementEntry.aggregate<{ _id: string; count: number; points: number }>([
+        { $match: { ...key, type: EngagementEntryType.POINTS_EARNED } },
+        { $group: { _id: '$action', count: { $sum: 1 }, points: { $sum: '$points' } } }
+      ]),
+      EngagementEntry.find({ ...key, type: EngagementEntryType.ACHIEVEMENT_UNLOCKED }).sort(CHAIN_ORDER).lean(),
+      FanStats.countDocuments({ contract: contract._id, totalPoints: { $gt: stats.totalPoints } })
+    ]);
+    const byAction = new Map(breakdown.map(row => [row._id, row]));
+    const formatted = req.query.formatted === 'true';
+
+    res.json({
+      user,
+      contractAddress: contract.address,
+      network: contract.network,
+      totalPoints: stats.totalPoints,
+      points: stats.points,
+      ...withFormatted(
+        { claimableRewards: claimableRewards(stats.points).toString(), rewardsClaimed: stats.rewardsClaimed },
+        ['claimableRewards', 'rewardsClaimed'],
+        formatted
+      ),
+      totalInteractions: stats.totalInteractions,
+      firstInteractionAt: stats.firstInteractionAt ?? null,
+      lastInteractionAt: stats.lastInteractionAt ?? null,
+      // All-time leaderboard position
+      rank: ahead + 1,
+      actions: ENGAGEMENT_ACTIONS.map(action => ({
+        action,
+        count: byAction.get(action)?.count ?? 0,
+        points: byAction.get(action)?.points ?? 0
+      })),
+      achievements: achievements.map(entry => ({
+        achievement: entry.achievement,
+        unlockedAt: entry.timestamp ?? null,
+        blockNumber: entry.blockNumber,
+        transactionHash: entry.transactionHash,
+        action: entry.action ?? null,
+        tokenId: entry.tokenId ?? null
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/engagement/achievements
+// Achievements unlocked, latest first, filtered by `user` and `achievement`
+router.get('/achievements', async (req, res, next) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+    const contract = await findFanEngagement(req.query);
+    if (!contract) {
+      return res.status(404).json({ error: 'FanEngagement contract not found' });
+    }
+
+    const filter: Record<string, unknown> = { contract: contract._id, type: EngagementEntryType.ACHIEVEMENT_UNLOCKED };
+    if (req.query.user) {
+      filter.user = parseAccount(req.query.user as string);
+    }
+    if (req.query.achievement) {
+      filter.achievement = req.query.achievement;
+    }
+
+    const [achievements, totalItems] = await Promise.all([
+      EngagementEntry.find(filter).sort(LATEST_FIRST).skip(skip).limit(limit).lean(),
+      EngagementEntry.countDocuments(filter)
+    ]);
+
+    res.json({
+      achievements: achievements.map(entry => ({
+        user: entry.user,
+        achievement: entry.achievement,
+        unlockedAt: entry.timestamp ?? null,
+        blockNumber: entry.blockNumber,
+        transactionHash: entry.transactionHash,
+        tokenId: entry.tokenId ?? null
+      })),
+      pagination: pagination(page, limit, totalItems)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/engagement/leaderboard
+// Users ranked by points earned in the UTC week or month containing `at`, or of all time
+router.get('/leaderboard', async (req, res, next) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+    const { period, window, filter } = periodFilter(req.query, 'all-time');
+    const contract = await findFanEngagement(req.query);
+    if (!contract) {
+      return res.status(404).json({ error: 'FanEngagement contract not found' });
+    }
+
+    let leaders: { rank: number; user: string; points: number; interactions: number }[];
+    let totalItems: number;
+    if (window) {
+      const ranked = await rankFans({ contract: contract._id, ...filter }, skip, limit);
+      leaders = ranked.fans.map(({ rank, user, points, interactions }) => ({ rank, user, points, interactions }));
+      totalItems = ranked.totalItems;
+    } else {
+      // Lifetime totals are kept per user, so all-time needs no aggregation
+      const earned = { contract: contract._id, totalPoints: { $gt: 0 } };
+      const [fans, count] = await Promise.all([
+        FanStats.find(earned).sort({ totalPoints: -1, user: 1 }).skip(skip).limit(limit).lean(),
+        FanStats.countDocuments(earned)
+      ]);
+      leaders = fans.map((fan, index) => ({
+        rank: skip + index + 1,
+        user: fan.user,
+        points: fan.totalPoints,
+        interactions: fan.totalInteractions
+      }));
+      totalItems = count;
+    }
+
+    res.json({
+      period,
+      from: window?.from ?? null,
+      to: window?.to ?? null,
+      leaders,
+      pagination: pagination(page, limit, totalItems)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/engagement/tracks/:tokenId/fans
+// A track's fans ranked by the points they earned on it
+router.get('/tracks/:tokenId/fans', async (req, res, next) => {
+  try {
+    if (!/^\d+$/.test(req.params.tokenId)) {
+      throw new ValidationError('Invalid token ID');
+    }
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+    const { period, window, filter } = periodFilter(req.query, 'all-time');
+    const contract = await findFanEngagement(req.query);
+    if (!contract) {
+      return res.status(404).json({ error: 'FanEngagement contract not found' });
+    }
+
+    const { fans, totalItems } = await rankFans(
+      { contract: contract._id, tokenId: req.params.tokenId, ...filter },
+      skip,
+      limit
+    );
+
+    res.json({
+      tokenId: req.params.tokenId,
+      period,
+      from: window?.from ?? null,
+      to: window?.to ?? null,
+      fans,
+      pagination: pagination(page, limit, totalItems)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/engagement/artists/:address/top-fans
+// Fans ranked by the points they earned on tracks the artist created or collaborated on
+router.get('/artists/:address/top-fans', async (req, res, next) => {
+  try {
+    const artist = parseAccount(req.params.address);
+    const limit = Math.min(parseInt(req.query.limit as string) || 10, 100);
+    const { period, window, filter } = periodFilter(req.query, 'all-time');
+    const contract = await findFanEngagement(req.query);
+    if (!contract) {
+      return res.status(404).json({ error: 'FanEngagement contract not found' });
+    }
+
+    // FanEngagement does not log its MusicNFT, so tracks are matched on the same network
+    const tracks = await Track.find({
+      network: contract.network,
+      $or: [{ creator: artist }, { collaborators: artist }]
+    }).select('tokenId').lean();
+    const tokenIds = [...new Set(tracks.map(track => track.tokenId))];
+    const { fans } = tokenIds.length
+      ? await rankFans({ contract: contract._id, tokenId: { $in: tokenIds }, ...filter }, 0, limit)
+      : { fans: [] };
+
+    res.json({
+      artist,
+      period,
+      from: window?.from ?? null,
+      to: window?.to ?? null,
+      trackCount: tokenIds.length,
+      fans
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
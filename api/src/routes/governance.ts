@@ -0,0 +1,524 @@
+import express from 'express';
+import { Contract, ContractType, IContract } from '../models/Contract';
+import { Delegate } from '../models/Delegate';
+import { Delegation } from '../models/Delegation';
+import { Event } from '../models/Event';
+import { IProposal, Proposal, ProposalState } from '../models/Proposal';
+import { TimelockOperation } from '../models/TimelockOperation';
+import { TokenHolder } from '../models/TokenHolder';
+import { TokenSupplyEntry } from '../models/TokenSupplyEntry';
+import { Vote, VoteSupport } from '../models/Vote';
+import { VotingPowerCheckpoint } from '../models/VotingPowerCheckpoint';
+import { withFormatted } from '../utils/amounts';
+import {
+  proposalState,
+  quorumAt,
+  quorumProgress,
+  stateTransitions,
+  SUPPORT_NAMES,
+  timelockOperationStatus
+} from '../utils/governance';
+import { findContractOfType } from '../utils/network';
+import { validateAddress } from '../utils/validation';
+import { ValidationError } from '../middleware/error-handler';
+import { findTuneToken } from './token';
+
+const router = express.Router();
+
+const VOTE_AMOUNTS = ['forVotes', 'againstVotes', 'abstainVotes'] as const;
+const LATEST_FIRST = { blockNumber: -1, logIndex: -1 } as const;
+const CHAIN_ORDER = { blockNumber: 1, logIndex: 1 } as const;
+// Delegates with voting power; votes are decimal strings without leading zeros
+const POSITIVE_VOTES = /^[1-9]/;
+
+type GovernorContract = Pick<IContract, '_id' | 'address' | 'network' | 'lastIndexedBlock'>;
+
+const parseAccount = (address: string) => {
+  if (!validateAddress(address)) {
+    throw new ValidationError('Invalid address');
+  }
+  return address.toLowerCase();
+};
+
+const parseProposalId = (value: string) => {
+  if (!/^\d+$/.test(value)) {
+    throw new ValidationError('Invalid proposal ID');
+  }
+  return value;
+};
+
+const parseTimestamp = (value: unknown, name: string): number | undefined => {
+  if (value == null || value === '') {
+    return undefined;
+  }
+  const timestamp = Number(value);
+  if (!Number.isInteger(timestamp) || timestamp < 0) {
+    throw new ValidationError(`${name} must be a unix timestamp`);
+  }
+  return timestamp;
+};
+
+const parseSupport = (value: unknown): VoteSupport | undefined => {
+  if (value == null || value === '') {
+    return undefined;
+  }
+  const support = Object.entries(SUPPORT_NAMES).find(([, name]) => name === value);
+  if (!support) {
+    throw new ValidationError('support must be one of for, against, abstain');
+  }
+  return Number(support[0]);
+};
+
+/**
+ * Finds the Governor contract selected by the `network` and `contract` query
+ * parameters
+ * @throws AmbiguousContractError if several Governor contracts match
+ */
+export const findGovernor = (query: express.Request['query']) => findContractOfType(ContractType.GOVERNOR, query);
+
+/**
+ * The quorum of a proposal: the TuneToken supply at the snapshot times the
+ * quorum numerator in effect then. Null while either is not indexed.
+ */
+const proposalQuorum = async (governor: GovernorContract, proposal: Pick<IProposal, 'voteStart'>) => {
+  const [tokens, numerator] = await Promise.all([
+    Contract.find({ network: governor.network, type: ContractType.TUNE_TOKEN }).limit(2).lean(),
+    Event.findOne({
+      contract: governor._id,
+      name: 'QuorumNumeratorUpdated',
+      blockNumber: { $lte: proposal.voteStart }
+    }).sort(LATEST_FIRST).lean()
+  ]);
+  // The governor's token is not logged, so it has to be the network's only TuneToken
+  if (tokens.length !== 1 || !numerator) {
+    return null;
+  }
+  const supply = await TokenSupplyEntry.findOne({
+    contract: tokens[0]._id,
+    blockNumber: { $lte: proposal.voteStart }
+  }).sort(LATEST_FIRST).lean();
+  const quorumNumerator: unknown = numerator.args?.newQuorumNumerator;
+  if (!supply || typeof quorumNumerator !== 'string' || !/^\d+$/.test(quorumNumerator)) {
+    return null;
+  }
+  return quorumAt(BigInt(supply.state.totalSupply), BigInt(quorumNumerator));
+};
+
+/**
+ * A proposal with its live state and quorum progress
+ */
+const presentProposal = async (governor: GovernorContract, proposal: IProposal, formatted: boolean) => {
+  const currentBlock = governor.lastIndexedBlock ?? 0;
+  const [quorum, operation] = await Promise.all([
+    proposalQuorum(governor, proposal),
+    proposal.queuedBlock != null
+      ? TimelockOperation.findOne({ network: governor.network, operationId: proposal.timelockOperationId }).lean()
+      : null
+  ]);
+  const state = proposalState(proposal, currentBlock, quorum, operation);
+  const progress = quorumProgress(proposal, quorum);
+
+  return {
+    proposal: {
+      ...withFormatted(proposal, [...VOTE_AMOUNTS], formatted),
+      state,
+      quorum: withFormatted(progress, ['votes'], formatted)
+    },
+    currentBlock,
+    operation,
+    state
+  };
+};
+
+// Lists leave out the actions and description, which only the proposal's own page returns
+const presentSummary = ({ proposal }: Awaited<ReturnType<typeof presentProposal>>) => {
+  const summary: Partial<typeof proposal> = { ...proposal };
+  delete summary.actions;
+  delete summary.description;
+  return { ...summary, actionCount: proposal.actions.length };
+};
+
+// GET /api/v1/governance/proposals
+// Proposals, newest first, with their live state, tallies and quorum progress
+router.get('/proposals', async (req, res, next) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+    if (req.query.state && !Object.values(ProposalState).includes(req.query.state as ProposalState)) {
+      return res.status(400).json({ error: 'Invalid proposal state' });
+    }
+
+    const governor = await findGovernor(req.query);
+    if (!governor) {
+      return res.status(404).json({ error: 'Governor contract not found' });
+    }
+
+    const filter: Record<string, unknown> = { contract: governor._id };
+    if (req.query.proposer) {
+      filter.proposer = parseAccount(req.query.proposer as string);
+    }
+    const formatted = req.query.formatted === 'true';
+
+    // States depend on the current block and quorum, so they are filtered after computing them
+    const proposals = await Proposal.find(filter).sort({ proposedBlock: -1, proposalId: 1 }).lean();
+    let presented = await Promise.all(
+      proposals.map(proposal => presentProposal(governor, proposal as IProposal, formatted))
+    );
+    if (req.query.state) {
+      presented = presented.filter(({ state }) => state === req.query.state);
+    }
+
+    const totalItems = presented.length;
+    res.json({
+      contractAddress: governor.address,
+      network: governor.network,
+      currentBlock: governor.lastIndexedBlock ?? null,
+      proposals: presented.slice(skip, skip + limit).map(presentSummary),
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalItems / limit),
+        totalItems,
+        itemsPerPage: limit
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/governance/proposals/:proposalId
+// A proposal with its decoded actions, state transitions and timelock operation
+router.get('/proposals/:proposalId', async (req, res, next) => {
+  try {
+    const proposalId = parseProposalId(req.params.proposalId);
+    const governor = await findGovernor(req.query);
+    if (!governor) {
+      return res.status(404).json({ error: 'Governor contract not found' });
+    }
+
+    const proposal = await Proposal.findOne({ contract: governor._id, proposalId }).lean();
+    if (!proposal) {
+      return res.status(404).json({ error: 'Proposal not found' });
+    }
+
+    const formatted = req.query.formatted === 'true';
+    const presented = await presentProposal(governor, proposal as IProposal, formatted);
+    const { operation } = presented;
+
+    res.json({
+      ...presented.proposal,
+      transitions: stateTransitions(proposal, presented.currentBlock, presented.state),
+      timelockOperation: operation
+        ? { ...operation, status: timelockOperationStatus(operation, Math.floor(Date.now() / 1000)) }
+        : null
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/governance/proposals/:proposalId/votes
+// Votes on a proposal, heaviest first
+router.get('/proposals/:proposalId/votes', async (req, res, next) => {
+  try {
+    const proposalId = parseProposalId(req.params.proposalId);
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+    const support = parseSupport(req.query.support);
+
+    const governor = await findGovernor(req.query);
+    if (!governor) {
+      return res.status(404).json({ error: 'Governor contract not found' });
+    }
+
+    const filter: Record<string, unknown> = { contract: governor._id, proposalId };
+    if (support !== undefined) {
+      filter.support = support;
+    }
+    const [votes, totalItems] = await Promise.all([
+      Vote.aggregate([
+        { $match: filter },
+        { $addFields: { weightValue: { $toDecimal: '$weight' } } },
+        { $sort: { weightValue: -1, voter: 1 } },
+        { $skip: skip },
+        { $limit: limit },
+        { $project: { weightValue: 0 } }
+      ]),
+      Vote.countDocuments(filter)
+    ]);
+    const formatted = req.query.formatted === 'true';
+
+    res.json({
+      proposalId,
+      votes: votes.map(vote => ({
+        ...withFormatted(vote as { weight: string }, ['weight'], formatted),
+        supportName: SUPPORT_NAMES[vote.support as VoteSupport]
+      })),
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalItems / limit),
+        totalItems,
+        itemsPerPage: limit
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/governance/voters/:address/votes
+// An address's voting history, latest first, with each proposal's title and state
+router.get('/voters/:address/votes', async (req, res, next) => {
+  try {
+    const voter = parseAccount(req.params.address);
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+    const support = parseSupport(req.query.support);
+
+    const governor = await findGovernor(req.query);
+    if (!governor) {
+      return res.status(404).json({ error: 'Governor contract not found' });
+    }
+
+    const filter: Record<string, unknown> = { contract: governor._id, voter };
+    if (support !== undefined) {
+      filter.support = support;
+    }
+    const [votes, totalItems] = await Promise.all([
+      Vote.find(filter).sort(LATEST_FIRST).skip(skip).limit(limit).lean(),
+      Vote.countDocuments(filter)
+    ]);
+    const proposals = await Proposal.find({
+      contract: governor._id,
+      proposalId: { $in: votes.map(vote => vote.proposalId) }
+    }).lean();
+    const byId = new Map(await Promise.all(proposals.map(async proposal => {
+      const { state } = await presentProposal(governor, proposal as IProposal, false);
+      return [proposal.proposalId, { title: proposal.title, state }] as const;
+    })));
+    const formatted = req.query.formatted === 'true';
+
+    res.json({
+      voter,
+      votes: votes.map(vote => ({
+        ...withFormatted(vote, ['weight'], formatted),
+        supportName: SUPPORT_NAMES[vote.support],
+        proposal: byId.get(vote.proposalId) ?? null
+      })),
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalItems / limit),
+        totalItems,
+        itemsPerPage: limit
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * A delegate's votes at a block the way getPastVotes reads them: the last
+ * checkpoint at or below the block, zero before the first one
+ */
+const pastVotes = async (token: Pick<IContract, '_id'>, delegate: string, block: number) => {
+  const checkpoint = await VotingPowerCheckpoint.findOne({
+    contract: token._id,
+    delegate,
+    blockNumber: { $lte: block }
+  }).sort(LATEST_FIRST).lean();
+  return checkpoint?.newVotes ?? '0';
+};
+
+// GET /api/v1/governance/delegates
+// Delegates ranked by current voting power, with how many holders delegate to them
+router.get('/delegates', async (req, res, next) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+    const token = await findTuneToken(req.query);
+    if (!token) {
+      return res.status(404).json({ error: 'TuneToken contract not found' });
+    }
+
+    const filter = { contract: token._id, votes: POSITIVE_VOTES };
+    const [delegates, totalItems, latest] = await Promise.all([
+      Delegate.aggregate([
+        { $match: filter },
+        { $addFields: { votesValue: { $toDecimal: '$votes' } } },
+        { $sort: { votesValue: -1, address: 1 } },
+        { $skip: skip },
+        { $limit: limit }
+      ]),
+      Delegate.countDocuments(filter),
+      TokenSupplyEntry.findOne({ contract: token._id }).sort(LATEST_FIRST).lean()
+    ]);
+    const delegatorCounts = await Delegation.aggregate([
+      { $match: { contract: token._id, delegate: { $in: delegates.map(delegate => delegate.address) } } },
+      { $group: { _id: '$delegate', count: { $sum: 1 } } }
+    ]);
+    const counts = new Map(delegatorCounts.map(row => [row._id as string, row.count as number]));
+    const totalSupply = BigInt(latest?.state.totalSupply ?? '0');
+    const formatted = req.query.formatted === 'true';
+
+    res.json({
+      contractAddress: token.address,
+      network: token.network,
+      delegates: delegates.map((delegate, index) => ({
+        rank: skip + index + 1,
+        address: delegate.address,
+        ...withFormatted({ votes: delegate.votes as string }, ['votes'], formatted),
+        // Share of the total supply in percent, to two decimals
+        share: totalSupply > 0n ? Number((BigInt(delegate.votes) * 10000n) / totalSupply) / 100 : null,
+        delegatorCount: counts.get(delegate.address) ?? 0
+      })),
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalItems / limit),
+        totalItems,
+        itemsPerPage: limit
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/governance/delegates/:address
+// An address's voting power, who they delegate to and who delegates to them
+router.get('/delegates/:address', async (req, res, next) => {
+  try {
+    const address = parseAccount(req.params.address);
+    const token = await findTuneToken(req.query);
+    if (!token) {
+      return res.status(404).json({ error: 'TuneToken contract not found' });
+    }
+
+    const [delegate, delegation, delegators] = await Promise.all([
+      Delegate.findOne({ contract: token._id, address }).lean(),
+      Delegation.findOne({ contract: token._id, delegator: address }).lean(),
+      Delegation.find({ contract: token._id, delegate: address }).sort({ delegator: 1 }).lean()
+    ]);
+    const balances = await TokenHolder.find({
+      contract: token._id,
+      address: { $in: delegators.map(row => row.delegator) }
+    }).lean();
+    const balanceOf = new Map(balances.map(holder => [holder.address, holder.balance]));
+    const formatted = req.query.formatted === 'true';
+
+    res.json({
+      address,
+      contractAddress: token.address,
+      network: token.network,
+      ...withFormatted({ votes: delegate?.votes ?? '0' }, ['votes'], formatted),
+      delegatedTo: delegation?.delegate ?? null,
+      delegatedSince: delegation?.since ?? null,
+      delegators: delegators.map(row => ({
+        address: row.delegator,
+        ...withFormatted({ balance: balanceOf.get(row.delegator) ?? '0' }, ['balance'], formatted),
+        since: row.since ?? null
+      })),
+      indexedBlock: token.lastIndexedBlock ?? null
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/governance/delegates/:address/history
+// The delegate's voting power checkpoints between `from` and `to`, oldest first
+router.get('/delegates/:address/history', async (req, res, next) => {
+  try {
+    const address = parseAccount(req.params.address);
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+    const from = parseTimestamp(req.query.from, 'from');
+    const to = parseTimestamp(req.query.to, 'to');
+    if (from !== undefined && to !== undefined && from > to) {
+      throw new ValidationError('from must not be after to');
+    }
+    const token = await findTuneToken(req.query);
+    if (!token) {
+      return res.status(404).json({ error: 'TuneToken contract not found' });
+    }
+
+    const filter: Record<string, unknown> = { contract: token._id, delegate: address };
+    if (from !== undefined || to !== undefined) {
+      filter.timestamp = {
+        ...(from !== undefined && { $gte: from }),
+        ...(to !== undefined && { $lte: to })
+      };
+    }
+    const [checkpoints, totalItems] = await Promise.all([
+      VotingPowerCheckpoint.find(filter).sort(CHAIN_ORDER).skip(skip).limit(limit).lean(),
+      VotingPowerCheckpoint.countDocuments(filter)
+    ]);
+    const formatted = req.query.formatted === 'true';
+
+    res.json({
+      address,
+      contractAddress: token.address,
+      network: token.network,
+      history: checkpoints.map(checkpoint => {
+        const delta = BigInt(checkpoint.newVotes) - BigInt(checkpoint.previousVotes);
+        return {
+          blockNumber: checkpoint.blockNumber,
+          timestamp: checkpoint.timestamp ?? null,
+          transactionHash: checkpoint.transactionHash,
+          ...withFormatted(
+            { previousVotes: checkpoint.previousVotes, newVotes: checkpoint.newVotes },
+            ['previousVotes', 'newVotes'],
+            formatted
+          ),
+          delta: delta.toString()
+        };
+      }),
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalItems / limit),
+        totalItems,
+        itemsPerPage: limit
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/governance/delegates/:address/votes?block=
+// Voting power at a block, matching getPastVotes
+router.get('/delegates/:address/votes', async (req, res, next) => {
+  try {
+    const address = parseAccount(req.params.address);
+    const block = Number(req.query.block);
+    if (req.query.block == null || req.query.block === '' || !Number.isInteger(block) || block < 0) {
+      throw new ValidationError('block must be a block number');
+    }
+    const token = await findTuneToken(req.query);
+    if (!token) {
+      return res.status(404).json({ error: 'TuneToken contract not found' });
+    }
+    // getPastVotes reverts on future timepoints; here anything past the indexed head is unknown
+    if (block > (token.lastIndexedBlock ?? -1)) {
+      throw new ValidationError(`Block ${block} is not indexed yet`);
+    }
+
+    const formatted = req.query.formatted === 'true';
+    res.json({
+      address,
+      contractAddress: token.address,
+      network: token.network,
+      blockNumber: block,
+      ...withFormatted({ votes: await pastVotes(token, address, block) }, ['votes'], formatted)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,184 @@
+import express from 'express';
+import { Types } from 'mongoose';
+import { ContractType } from '../models/Contract';
+import { TrackEdge } from '../models/TrackEdge';
+import { TrackNode } from '../models/TrackNode';
+import { UserInteraction } from '../models/UserInteraction';
+import { GraphEdge, relatedTracks, shortestPath } from '../utils/recommendationGraph';
+import { findContractOfType } from '../utils/network';
+import { ValidationError } from '../middleware/error-handler';
+
+const router = express.Router();
+
+const MAX_RELATED_DEPTH = 4;
+const MAX_PATH_HOPS = 6;
+const NEIGHBOR_DIRECTIONS = ['out', 'in', 'both'] as const;
+
+const parseTokenId = (value: unknown, name = 'token ID') => {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    throw new ValidationError(`Invalid ${name}`);
+  }
+  return BigInt(value).toString();
+};
+
+export const findRecommendationGraph = (query: express.Request['query']) =>
+  findContractOfType(ContractType.RECOMMENDATION_GRAPH, query);
+
+/**
+ * Loads the edges out of a track layer by layer, stopping after `depth`
+ * layers or once `target` is reached
+ */
+const loadEdges = async (contract: Types.ObjectId, start: string, depth: number, target?: string) => {
+  const edges: GraphEdge[] = [];
+  const seen = new Set([start]);
+  let frontier = [start];
+  for (let hops = 0; hops < depth && frontier.length && !(target && seen.has(target)); hops++) {
+    const layer = await TrackEdge.find({ contract, fromTrack: { $in: frontier } })
+      .select('fromTrack toTrack weight')
+      .lean();
+    edges.push(...layer);
+    frontier = [...new Set(layer.map(edge => edge.toTrack))].filter(track => !seen.has(track));
+    frontier.forEach(track => seen.add(track));
+  }
+  return edges;
+};
+
+/**
+ * Adds each track's metadata URI and interaction count
+ */
+const describeTracks = async (contract: Types.ObjectId, tokenIds: string[]) => {
+  const [nodes, counts] = await Promise.all([
+    TrackNode.find({ contract, tokenId: { $in: tokenIds } }).select('tokenId metadataURI').lean(),
+    UserInteraction.aggregate([
+      { $match: { contract, tokenId: { $in: tokenIds } } },
+      { $group: { _id: '$tokenId', count: { $sum: 1 } } }
+    ])
+  ]);
+  const uris = new Map(nodes.map(node => [node.tokenId, node.metadataURI]));
+  const interactions = new Map(counts.map(row => [row._id as string, row.count as number]));
+  return (tokenId: string) => ({
+    metadataURI: uris.get(tokenId) ?? null,
+    interactionCount: interactions.get(tokenId) ?? 0
+  });
+};
+
+const trackNodeExists = async (contract: Types.ObjectId, tokenId: string) =>
+  TrackNode.exists({ contract, tokenId });
+
+// GET /api/v1/graph/tracks/:tokenId/neighbors
+// Tracks linked to a track by a single edge, heaviest first; `direction` is out, in or both
+router.get('/tracks/:tokenId/neighbors', async (req, res, next) => {
+  try {
+    const tokenId = parseTokenId(req.params.tokenId);
+    const direction = (req.query.direction as typeof NEIGHBOR_DIRECTIONS[number] | undefined) || 'out';
+    if (!NEIGHBOR_DIRECTIONS.includes(direction)) {
+      throw new ValidationError(`direction must be one of ${NEIGHBOR_DIRECTIONS.join(', ')}`);
+    }
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+    const contract = await findRecommendationGraph(req.query);
+    if (!contract) {
+      return res.status(404).json({ error: 'RecommendationGraph contract not found' });
+    }
+    const contractId = contract._id as Types.ObjectId;
+    if (!(await trackNodeExists(contractId, tokenId))) {
+      return res.status(404).json({ error: 'Track node not found' });
+    }
+
+    const sides = [
+      ...(direction !== 'in' ? [{ fromTrack: tokenId }] : []),
+      ...(direction !== 'out' ? [{ toTrack: tokenId }] : [])
+    ];
+    const filter = { contract: contractId, $or: sides };
+    const [edges, totalItems] = await Promise.all([
+      TrackEdge.find(filter).sort({ weight: -1, blockNumber: -1, logIndex: -1 }).skip(skip).limit(limit).lean(),
+      TrackEdge.countDocuments(filter)
+    ]);
+    const neighborOf = (edge: GraphEdge) => (edge.fromTrack === tokenId ? edge.toTrack : edge.fromTrack);
+    const describe = await describeTracks(contractId, edges.map(neighborOf));
+
+    res.json({
+      tokenId,
+      direction,
+      neighbors: edges.map(edge => ({
+        tokenId: neighborOf(edge),
+        direction: edge.fromTrack === tokenId ? 'out' : 'in',
+        weight: edge.weight,
+        ...describe(neighborOf(edge)),
+        updatedAt: edge.timestamp ?? null
+      })),
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalItems / limit),
+        totalItems,
+        itemsPerPage: limit
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/graph/tracks/:tokenId/related
+// Tracks reachable in up to `depth` edges, ranked by the strength of the path to them
+router.get('/tracks/:tokenId/related', async (req, res, next) => {
+  try {
+    const tokenId = parseTokenId(req.params.tokenId);
+    const depth = req.query.depth ? Number(req.query.depth) : 2;
+    if (!Number.isInteger(depth) || depth < 1 || depth > MAX_RELATED_DEPTH) {
+      throw new ValidationError(`depth must be between 1 and ${MAX_RELATED_DEPTH}`);
+    }
+    const limit = Math.min(parseInt(req.query.limit as string) || 10, 100);
+    const contract = await findRecommendationGraph(req.query);
+    if (!contract) {
+      return res.status(404).json({ error: 'RecommendationGraph contract not found' });
+    }
+    const contractId = contract._id as Types.ObjectId;
+    if (!(await trackNodeExists(contractId, tokenId))) {
+      return res.status(404).json({ error: 'Track node not found' });
+    }
+
+    const related = relatedTracks(await loadEdges(contractId, tokenId, depth), tokenId, depth);
+    const top = related.slice(0, limit);
+    const describe = await describeTracks(contractId, top.map(track => track.tokenId));
+
+    res.json({
+      tokenId,
+      depth,
+      totalItems: related.length,
+      tracks: top.map(track => ({ ...track, ...describe(track.tokenId) }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/graph/path
+// The path with the fewest edges from track `from` to track `to`, heaviest first among equals
+router.get('/path', async (req, res, next) => {
+  try {
+    const from = parseTokenId(req.query.from, 'from token ID');
+    const to = parseTokenId(req.query.to, 'to token ID');
+    const contract = await findRecommendationGraph(req.query);
+    if (!contract) {
+      return res.status(404).json({ error: 'RecommendationGraph contract not found' });
+    }
+    const contractId = contract._id as Types.ObjectId;
+    const [fromExists, toExists] = await Promise.all([trackNodeExists(contractId, from), trackNodeExists(contractId, to)]);
+    if (!fromExists || !toExists) {
+      return res.status(404).json({ error: 'Track node not found' });
+    }
+
+    const path = shortestPath(await loadEdges(contractId, from, MAX_PATH_HOPS, to), from, to);
+    if (!path) {
+      return res.status(404).json({ error: `No path within ${MAX_PATH_HOPS} edges` });
+    }
+
+    res.json({ from, to, ...path });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,78 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { Contract } from '../models/Contract';
+import { IndexingStatus } from '../models/IndexingStatus';
+import { validateAddress } from '../utils/validation';
+import { contractScope, parseNetwork } from '../utils/network';
+import { applyIndexingAction, IndexingAction, parseBlockRange } from '../indexer/control';
+
+// Mounted under /api/v1/contracts/:address/indexing
+const router = express.Router({ mergeParams: true });
+
+const findContract = async (req: Request, res: Response) => {
+  const { address } = req.params;
+
+  if (!validateAddress(address)) {
+    res.status(400).json({ error: 'Invalid Ethereum address' });
+    return null;
+  }
+
+  const scope = await contractScope(address, parseNetwork(req.query.network));
+  const contract = await Contract.findOne(scope);
+  if (!contract) {
+    res.status(404).json({ error: 'Contract not found' });
+    return null;
+  }
+  return contract;
+};
+
+// GET /api/v1/contracts/:address/indexing
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const contract = await findContract(req, res);
+    if (!contract) {
+      return;
+    }
+
+    const status = await IndexingStatus.findOne({ contract: contract._id });
+    if (!status) {
+      return res.status(404).json({ error: 'Indexing has not been started for this contract' });
+    }
+
+    res.json(status);
+  } catch (error) {
+    next(error);
+  }
+});
+
+const actionHandler = (action: IndexingAction) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const contract = await findContract(req, res);
+      if (!contract) {
+        return;
+      }
+
+      const range = parseBlockRange(req.body);
+      const status = await applyIndexingAction(contract, action, range);
+      res.json(status);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+// POST /api/v1/contracts/:address/indexing/start
+router.post('/start', actionHandler(IndexingAction.START));
+
+// POST /api/v1/contracts/:address/indexing/pause
+router.post('/pause', actionHandler(IndexingAction.PAUSE));
+
+// POST /api/v1/contracts/:address/indexing/resume
+router.post('/resume', actionHandler(IndexingAction.RESUME));
+
+// POST /api/v1/contracts/:address/indexing/retry
+router.post('/retry', actionHandler(IndexingAction.RETRY));
+
+// POST /api/v1/contracts/:address/indexing/reset
+router.post('/reset', actionHandler(IndexingAction.RESET));
+
+export default router;
@@ -0,0 +1,166 @@
+import express from 'express';
+import { FilterQuery, Model, PipelineStage } from 'mongoose';
+import { Listing, ListingStatus } from '../models/Listing';
+import { Offer, OfferStatus } from '../models/Offer';
+import { validateAddress } from '../utils/validation';
+import { scopeFilter } from '../utils/network';
+import { ValidationError } from '../middleware/error-handler';
+
+const router = express.Router();
+
+const SORTS = ['newest', 'oldest', 'price_asc', 'price_desc'] as const;
+type Sort = typeof SORTS[number];
+
+const parseSort = (value: unknown, fallback: Sort): Sort => {
+  if (value == null || value === '') {
+    return fallback;
+  }
+  if (!SORTS.includes(value as Sort)) {
+    throw new ValidationError(`sort must be one of ${SORTS.join(', ')}`);
+  }
+  return value as Sort;
+};
+
+const parseAddress = (value: unknown, name: string): string | undefined => {
+  if (value == null || value === '') {
+    return undefined;
+  }
+  if (!validateAddress(value as string)) {
+    throw new ValidationError(`Invalid ${name} address`);
+  }
+  return (value as string).toLowerCase();
+};
+
+/**
+ * Runs a paginated query sorted by age or price. Prices are wei strings, so
+ * they are converted to decimals before sorting.
+ * @param model The Listing or Offer model
+ * @param filter The match filter
+ * @param sort The requested order
+ * @param blockField The field holding the block the row was created in
+ * @param query The request query, for pagination
+ */
+const findPage = async <T>(
+  model: Model<T>,
+  filter: FilterQuery<T>,
+  sort: Sort,
+  blockField: keyof T & string,
+  query: express.Request['query']
+) => {
+  const page = parseInt(query.page as string) || 1;
+  const limit = parseInt(query.limit as string) || 10;
+
+  const field = sort.startsWith('price') ? 'priceValue' : blockField;
+  const direction = sort === 'price_asc' || sort === 'oldest' ? 1 : -1;
+
+  const pipeline: PipelineStage[] = [
+    { $match: filter },
+    { $addFields: { priceValue: { $toDecimal: '$price' } } },
+    { $sort: { [field]: direction, _id: direction } },
+    { $skip: (page - 1) * limit },
+    { $limit: limit },
+    { $project: { priceValue: 0 } }
+  ];
+  const [items, totalItems] = await Promise.all([model.aggregate<T>(pipeline), model.countDocuments(filter)]);
+
+  return {
+    items,
+    pagination: {
+      currentPage: page,
+      totalPages: Math.ceil(totalItems / limit),
+      totalItems,
+      itemsPerPage: limit
+    }
+  };
+};
+
+// GET /api/v1/marketplace/listings
+router.get('/listings', async (req, res, next) => {
+  try {
+    const filter: Record<string, unknown> = scopeFilter(req.query);
+
+    const status = (req.query.status as string | undefined) || ListingStatus.ACTIVE;
+    if (status !== 'all') {
+      if (!Object.values(ListingStatus).includes(status as ListingStatus)) {
+        return res.status(400).json({ error: 'Invalid listing status' });
+      }
+      filter.status = status;
+    }
+    if (req.query.tokenId) {
+      if (!/^\d+$/.test(req.query.tokenId as string)) {
+        return res.status(400).json({ error: 'Invalid token ID' });
+      }
+      filter.tokenId = req.query.tokenId;
+    }
+    const seller = parseAddress(req.query.seller, 'seller');
+    if (seller) {
+      filter.seller = seller;
+    }
+    const buyer = parseAddress(req.query.buyer, 'buyer');
+    if (buyer) {
+      filter.buyer = buyer;
+    }
+
+    const { items, pagination } = await findPage(
+      Listing,
+      filter,
+      parseSort(req.query.sort, 'newest'),
+      'listedBlock',
+      req.query
+    );
+    res.json({ listings: items, pagination });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/marketplace/tokens/:tokenId/offers
+// Open offers past their expiration time are reported with status `expired`
+router.get('/tokens/:tokenId/offers', async (req, res, next) => {
+  try {
+    if (!/^\d+$/.test(req.params.tokenId)) {
+      return res.status(400).json({ error: 'Invalid token ID' });
+    }
+    const filter: Record<string, unknown> = { ...scopeFilter(req.query), tokenId: req.params.tokenId };
+    const now = Math.floor(Date.now() / 1000);
+
+    const status = (req.query.status as string | undefined) || OfferStatus.OPEN;
+    if (status === OfferStatus.OPEN) {
+      filter.status = OfferStatus.OPEN;
+      filter.expirationTime = { $gt: now };
+    } else if (status === OfferStatus.EXPIRED) {
+      filter.status = OfferStatus.OPEN;
+      filter.expirationTime = { $lte: now };
+    } else if (status !== 'all') {
+      if (!Object.values(OfferStatus).includes(status as OfferStatus)) {
+        return res.status(400).json({ error: 'Invalid offer status' });
+      }
+      filter.status = status;
+    }
+    const buyer = parseAddress(req.query.buyer, 'buyer');
+    if (buyer) {
+      filter.buyer = buyer;
+    }
+    const seller = parseAddress(req.query.seller, 'seller');
+    if (seller) {
+      filter.seller = seller;
+    }
+
+    const { items, pagination } = await findPage(
+      Offer,
+      filter,
+      parseSort(req.query.sort, 'price_desc'),
+      'offeredBlock',
+      req.query
+    );
+    const offers = items.map(offer => ({
+      ...offer,
+      status: offer.status === OfferStatus.OPEN && offer.expirationTime <= now ? OfferStatus.EXPIRED : offer.status
+    }));
+    res.json({ offers, pagination });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
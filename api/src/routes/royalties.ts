@@ -0,0 +1,404 @@
+import express from 'express';
+import { Types } from 'mongoose';
+import { Event } from '../models/Event';
+import { RoyaltyEntry, RoyaltyEntryType, RoyaltySource } from '../models/RoyaltyEntry';
+import { RoyaltyPayment, RoyaltyPaymentType } from '../models/RoyaltyPayment';
+import { withFormatted } from '../utils/amounts';
+import { buildStatement, statementToCsv } from '../utils/royaltyStatement';
+import { scopeFilter } from '../utils/network';
+import { blockFinalityFilter, Finality, parseFinality } from '../utils/finality';
+import { validateAddress } from '../utils/validation';
+import { ValidationError } from '../middleware/error-handler';
+import { AmbiguousTrackError } from './tracks';
+
+const router = express.Router();
+
+// RoyaltyDistributor starts with a 100 TUNE minimum and logs ThresholdUpdated on changes only
+const DEFAULT_DISTRIBUTION_THRESHOLD = (100n * 10n ** 18n).toString();
+
+const LATEST_FIRST = { blockNumber: -1, logIndex: -1 } as const;
+
+/**
+ * Filter selecting the rows of the `network` and `contract` query parameters
+ * that were indexed from blocks meeting the requested finality
+ */
+const finalScope = async (query: express.Request['query'], finality: Finality) => {
+  const scope = scopeFilter(query);
+  return { ...scope, ...await blockFinalityFilter(finality, scope.network as string | undefined) };
+};
+
+/**
+ * Finds the latest ledger entry of a token. Token IDs are shared by every
+ * RoyaltyDistributor, so a contract or network is required once they collide.
+ * @throws AmbiguousTrackError if several distributors have the token
+ */
+const findLatestEntry = async (tokenId: string, query: express.Request['query'], finality: Finality) => {
+  if (!/^\d+$/.test(tokenId)) {
+    throw new ValidationError('Invalid token ID');
+  }
+  const filter = { ...await finalScope(query, finality), tokenId };
+  const contracts = await RoyaltyEntry.distinct('contract', filter);
+  if (contracts.length > 1) {
+    throw new AmbiguousTrackError();
+  }
+  return RoyaltyEntry.findOne(filter).sort(LATEST_FIRST).lean();
+};
+
+const parseAccount = (address: string) => {
+  if (!validateAddress(address)) {
+    throw new ValidationError('Invalid payee address');
+  }
+  return address.toLowerCase();
+};
+
+// GET /api/v1/royalties/tokens/:tokenId
+// Pending royalties against the auto-distribution threshold
+router.get('/tokens/:tokenId', async (req, res, next) => {
+  try {
+    const finality = parseFinality(req.query.finality);
+    const entry = await findLatestEntry(req.params.tokenId, req.query, finality);
+    if (!entry) {
+      return res.status(404).json({ error: 'No royalties recorded for this token' });
+    }
+
+    const thresholdUpdate = await Event.findOne({
+      contract: entry.contract,
+      name: 'ThresholdUpdated',
+      ...await blockFinalityFilter(finality, entry.network)
+    })
+      .sort(LATEST_FIRST)
+      .lean();
+    const { payees, pending, pendingSale, pendingStreaming, autoThreshold, streamedMinutes, totalDistributed } =
+      entry.state;
+    // A zero threshold turns automatic distribution off
+    const remaining = BigInt(autoThreshold) > 0n ? BigInt(autoThreshold) - BigInt(pending) : null;
+
+    res.json({
+      contractAddress: entry.contractAddress,
+      network: entry.network,
+      tokenId: entry.tokenId,
+      payees,
+      streamedMinutes,
+      ...withFormatted(
+        {
+          pending,
+          pendingSale,
+          pendingStreaming,
+          autoDistributionThreshold: autoThreshold,
+          remainingToThreshold: remaining === null ? null : (remaining > 0n ? remaining : 0n).toString(),
+          distributionThreshold: thresholdUpdate?.args?.newThreshold ?? DEFAULT_DISTRIBUTION_THRESHOLD,
+          totalDistributed
+        },
+        [
+          'pending',
+          'pendingSale',
+          'pendingStreaming',
+          'autoDistributionThreshold',
+          'remainingToThreshold',
+          'distributionThreshold',
+          'totalDistributed'
+        ],
+        req.query.formatted === 'true'
+      )
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/royalties/tokens/:tokenId/payees
+// The current split and every change to it, one item per transaction
+router.get('/tokens/:tokenId/payees', async (req, res, next) => {
+  try {
+    const finality = parseFinality(req.query.finality);
+    const latest = await findLatestEntry(req.params.tokenId, req.query, finality);
+    if (!latest) {
+      return res.status(404).json({ error: 'No royalties recorded for this token' });
+    }
+
+    const changes = await RoyaltyEntry.find({
+      contract: latest.contract,
+      tokenId: latest.tokenId,
+      type: { $in: [RoyaltyEntryType.PAYEE_ADDED, RoyaltyEntryType.PAYEE_REMOVED] },
+      ...await blockFinalityFilter(finality, latest.network)
+    })
+      .sort({ blockNumber: 1, logIndex: 1 })
+      .lean();
+
+    const history: Record<string, unknown>[] = [];
+    for (const entry of changes) {
+      const item = {
+        change: entry.type === RoyaltyEntryType.PAYEE_ADDED ? 'registered' : 'removed',
+        ...(entry.type === RoyaltyEntryType.PAYEE_REMOVED && { account: entry.account }),
+        payees: entry.state.payees,
+        timestamp: entry.timestamp,
+        blockNumber: entry.blockNumber,
+        transactionHash: entry.transactionHash
+      };
+      // registerPayees logs one PayeeAdded per payee; keep the split as it stands after the last one
+      const last = history[history.length - 1];
+      const sameRegistration =
+        last?.change === 'registered' && item.change === 'registered' && last.transactionHash === item.transactionHash;
+      if (sameRegistration) {
+        history[history.length - 1] = item;
+      } else {
+        history.push(item);
+      }
+    }
+
+    res.json({
+      contractAddress: latest.contractAddress,
+      network: latest.network,
+      tokenId: latest.tokenId,
+      payees: latest.state.payees,
+      history
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+interface PaymentTotals {
+  _id: {
+    contract: Types.ObjectId;
+    contractAddress: string;
+    network: string;
+    tokenId: string;
+    type: RoyaltyPaymentType;
+    source?: RoyaltySource;
+    isPositive: boolean;
+  };
+  amount: Types.Decimal128;
+}
+
+const TOKEN_AMOUNTS = ['saleEarnings', 'streamingEarnings', 'distributed', 'adjustments', 'total'] as const;
+
+// GET /api/v1/royalties/payees/:address
+// A payee's earnings across tokens; negative reconciliations count as deductions
+router.get('/payees/:address', async (req, res, next) => {
+  try {
+    const payee = parseAccount(req.params.address);
+    const scope = await finalScope(req.query, parseFinality(req.query.finality));
+    const filter = { ...scope, payee };
+
+    const groups = await RoyaltyPayment.aggregate<PaymentTotals>([
+      { $match: filter },
+      {
+        $group: {
+          _id: {
+            contract: '$contract',
+            contractAddress: '$contractAddress',
+            network: '$network',
+            tokenId: '$tokenId',
+            type: '$type',
+            source: '$source',
+            isPositive: '$isPositive'
+          },
+          amount: { $sum: { $toDecimal: '$amount' } }
+        }
+      }
+    ]);
+
+    const tokens = new Map<string, {
+      contract: Types.ObjectId;
+      contractAddress: string;
+      network: string;
+      tokenId: string;
+      sale: bigint;
+      streaming: bigint;
+      adjustments: bigint;
+    }>();
+    for (const { _id: key, amount } of groups) {
+      const id = `${key.contract}:${key.tokenId}`;
+      const token = tokens.get(id) ?? {
+        contract: key.contract,
+        contractAddress: key.contractAddress,
+        network: key.network,
+        tokenId: key.tokenId,
+        sale: 0n,
+        streaming: 0n,
+        adjustments: 0n
+      };
+      const value = BigInt(amount.toString());
+      if (key.type === RoyaltyPaymentType.RECONCILIATION) {
+        token.adjustments += key.isPositive ? value : -value;
+      } else if (key.source === RoyaltySource.STREAMING) {
+        token.streaming += value;
+      } else {
+        token.sale += value;
+      }
+      tokens.set(id, token);
+    }
+
+    // Current shares come from each token's latest ledger entry
+    const latest = await Promise.all(
+      [...tokens.values()].map(token =>
+        RoyaltyEntry.findOne({ ...scope, contract: token.contract, tokenId: token.tokenId }).sort(LATEST_FIRST).lean()
+      )
+    );
+
+    const formatted = req.query.formatted === 'true';
+    let totalEarned = 0n;
+    const byToken = [...tokens.values()].map((token, index) => {
+      const distributed = token.sale + token.streaming;
+      const total = distributed + token.adjustments;
+      totalEarned += total;
+      return withFormatted(
+        {
+          contractAddress: token.contractAddress,
+          network: token.network,
+          tokenId: token.tokenId,
+          shares: latest[index]?.state.payees.find(p => p.account === payee)?.shares ?? 0,
+          saleEarnings: token.sale.toString(),
+          streamingEarnings: token.streaming.toString(),
+          distributed: distributed.toString(),
+          adjustments: token.adjustments.toString(),
+          total: total.toString()
+        },
+        [...TOKEN_AMOUNTS],
+        formatted
+      );
+    });
+
+    res.json({
+      address: payee,
+      ...withFormatted({ totalEarned: totalEarned.toString() }, ['totalEarned'], formatted),
+      tokens: byToken
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/royalties/payees/:address/payments
+// What the payee received from each distribution, with their shares at the time
+router.get('/payees/:address/payments', async (req, res, next) => {
+  try {
+    const payee = parseAccount(req.params.address);
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+
+    const filter: Record<string, unknown> = {
+      ...await finalScope(req.query, parseFinality(req.query.finality)),
+      payee
+    };
+    if (req.query.tokenId) {
+      if (!/^\d+$/.test(req.query.tokenId as string)) {
+        return res.status(400).json({ error: 'Invalid token ID' });
+      }
+      filter.tokenId = req.query.tokenId;
+    }
+    if (req.query.type) {
+      if (!Object.values(RoyaltyPaymentType).includes(req.query.type as RoyaltyPaymentType)) {
+        return res.status(400).json({ error: 'Invalid payment type' });
+      }
+      filter.type = req.query.type;
+    }
+
+    const payments = await RoyaltyPayment.find(filter)
+      .skip(skip)
+      .limit(limit)
+      .sort(LATEST_FIRST)
+      .lean();
+
+    const totalItems = await RoyaltyPayment.countDocuments(filter);
+    const totalPages = Math.ceil(totalItems / limit);
+    const formatted = req.query.formatted === 'true';
+
+    res.json({
+      payments: payments.map(payment => withFormatted(payment, ['amount'], formatted)),
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems,
+        itemsPerPage: limit
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Parses a statement period bound given as a unix timestamp or an ISO date
+ */
+const parsePeriodBound = (value: unknown, name: string): number | undefined => {
+  if (value == null || value === '') {
+    return undefined;
+  }
+  if (typeof value === 'string' && /^\d+$/.test(value)) {
+    return Number(value);
+  }
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    throw new ValidationError(`${name} must be a unix timestamp or an ISO date`);
+  }
+  return Math.floor(time / 1000);
+};
+
+const STATEMENT_AMOUNTS = ['saleRoyalties', 'streamingRoyalties', 'adjustments', 'total'] as const;
+
+// GET /api/v1/royalties/statements/:address
+// The payee's statement from `from` (inclusive) to `to` (exclusive), as JSON or with ?format=csv as CSV.
+// Statements only cover finalized payments unless another `finality` is requested.
+router.get('/statements/:address', async (req, res, next) => {
+  try {
+    const payee = parseAccount(req.params.address);
+    const finality = parseFinality(req.query.finality || Finality.FINALIZED);
+    const from = parsePeriodBound(req.query.from, 'from') ?? 0;
+    const to = parsePeriodBound(req.query.to, 'to') ?? Math.floor(Date.now() / 1000);
+    if (from >= to) {
+      return res.status(400).json({ error: 'from must be before to' });
+    }
+    const format = (req.query.format as string | undefined) || 'json';
+    if (format !== 'json' && format !== 'csv') {
+      return res.status(400).json({ error: 'format must be json or csv' });
+    }
+
+    const filter = { ...await finalScope(req.query, finality), payee };
+    const [opening] = await RoyaltyPayment.aggregate<{ balance: Types.Decimal128 }>([
+      { $match: { ...filter, timestamp: { $lt: from } } },
+      {
+        $group: {
+          _id: null,
+          balance: {
+            $sum: {
+              $cond: [
+                { $eq: ['$isPositive', false] },
+                { $multiply: [{ $toDecimal: '$amount' }, -1] },
+                { $toDecimal: '$amount' }
+              ]
+            }
+          }
+        }
+      }
+    ]);
+    const payments = await RoyaltyPayment.find({ ...filter, timestamp: { $gte: from, $lt: to } }).lean();
+
+    const statement = buildStatement(payee, from, to, BigInt(opening?.balance.toString() ?? '0'), payments);
+    const formatted = req.query.formatted === 'true';
+
+    if (format === 'csv') {
+      res.attachment(`royalty-statement-${payee}-${from}-${to}.csv`);
+      res.type('text/csv');
+      return res.send(statementToCsv(statement, formatted));
+    }
+
+    res.json({
+      ...statement,
+      finality,
+      ...withFormatted(
+        { openingBalance: statement.openingBalance, closingBalance: statement.closingBalance },
+        ['openingBalance', 'closingBalance'],
+        formatted
+      ),
+      lines: statement.lines.map(line => withFormatted(line, [...STATEMENT_AMOUNTS], formatted)),
+      totals: withFormatted(statement.totals, [...STATEMENT_AMOUNTS], formatted)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
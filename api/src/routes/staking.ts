@@ -0,0 +1,243 @@
+import express from 'express';
+import { Types } from 'mongoose';
+import { Contract } from '../models/Contract';
+import { StakingEntry, StakingEntryType } from '../models/StakingEntry';
+import { StakingPosition } from '../models/StakingPosition';
+import { reconcileStakingPosition } from '../indexer/stakingReconciliation';
+import { withFormatted } from '../utils/amounts';
+import { AmbiguousContractError, scopeFilter } from '../utils/network';
+import { CANDLE_INTERVALS, parseInterval } from '../utils/priceAnalytics';
+import { buildTvlSeries } from '../utils/tvlSeries';
+import { validateAddress } from '../utils/validation';
+import { ValidationError } from '../middleware/error-handler';
+
+const router = express.Router();
+
+const MAX_POINTS = 1000;
+const POSITION_AMOUNTS = ['amount', 'delegatedPower', 'totalStaked', 'totalUnstaked', 'totalClaimed', 'totalSlashed'] as const;
+
+const parseStaker = (address: string) => {
+  if (!validateAddress(address)) {
+    throw new ValidationError('Invalid staker address');
+  }
+  return address.toLowerCase();
+};
+
+const parseTimestamp = (value: unknown, name: string): number | undefined => {
+  if (value == null || value === '') {
+    return undefined;
+  }
+  const timestamp = Number(value);
+  if (!Number.isInteger(timestamp) || timestamp < 0) {
+    throw new ValidationError(`${name} must be a unix timestamp`);
+  }
+  return timestamp;
+};
+
+/**
+ * Stake delegated to an address, by contract. StakingContract moves the
+ * whole stake of a delegator with every change, so delegatedPower is the sum
+ * of the delegators' stakes.
+ */
+const findDelegators = async (filter: Record<string, unknown>, delegatee: string) => {
+  const delegators = await StakingPosition.find({ ...filter, delegatedTo: delegatee })
+    .sort({ staker: 1 })
+    .lean();
+  const byContract = new Map<string, { power: bigint; delegators: { staker: string; amount: string }[] }>();
+  for (const delegator of delegators) {
+    const id = String(delegator.contract);
+    const group = byContract.get(id) ?? { power: 0n, delegators: [] };
+    group.power += BigInt(delegator.amount);
+    group.delegators.push({ staker: delegator.staker, amount: delegator.amount });
+    byContract.set(id, group);
+  }
+  return byContract;
+};
+
+// GET /api/v1/staking/stakers/:address
+// The staker's position in each StakingContract, who delegates to them and their slashes
+router.get('/stakers/:address', async (req, res, next) => {
+  try {
+    const staker = parseStaker(req.params.address);
+    const filter = scopeFilter(req.query);
+
+    const [positions, delegated, slashes] = await Promise.all([
+      StakingPosition.find({ ...filter, staker }).sort({ network: 1, contractAddress: 1 }).lean(),
+      findDelegators(filter, staker),
+      StakingEntry.find({ ...filter, staker, type: StakingEntryType.SLASHED })
+        .sort({ blockNumber: -1, logIndex: -1 })
+        .lean()
+    ]);
+    if (!positions.length && !delegated.size) {
+      return res.status(404).json({ error: 'No staking activity for this address' });
+    }
+
+    // A delegatee does not need a stake of their own
+    const contracts = new Map(positions.map(position => [String(position.contract), position]));
+    const missing = [...delegated.keys()].filter(id => !contracts.has(id));
+    const delegateeOnly = await Contract.find({ _id: { $in: missing } }).lean();
+
+    const formatted = req.query.formatted === 'true';
+    const rows = [
+      ...positions.map(position => ({
+        contractAddress: position.contractAddress,
+        network: position.network,
+        amount: position.amount,
+        delegatedTo: position.delegatedTo ?? null,
+        lastRewardUpdate: position.lastRewardUpdate,
+        totalStaked: position.totalStaked,
+        totalUnstaked: position.totalUnstaked,
+        totalClaimed: position.totalClaimed,
+        totalSlashed: position.totalSlashed,
+        contract: String(position.contract)
+      })),
+      ...delegateeOnly.map(contract => ({
+        contractAddress: contract.address,
+        network: contract.network,
+        amount: '0',
+        delegatedTo: null,
+        lastRewardUpdate: null,
+        totalStaked: '0',
+        totalUnstaked: '0',
+        totalClaimed: '0',
+        totalSlashed: '0',
+        contract: String(contract._id)
+      }))
+    ];
+
+    res.json({
+      address: staker,
+      positions: rows.map(({ contract, ...row }) => {
+        const group = delegated.get(contract);
+        return withFormatted(
+          {
+            ...row,
+            delegatedPower: (group?.power ?? 0n).toString(),
+            delegators: (group?.delegators ?? []).map(d => withFormatted(d, ['amount'], formatted))
+          },
+          [...POSITION_AMOUNTS],
+          formatted
+        );
+      }),
+      slashes: slashes.map(slash =>
+        withFormatted(
+          {
+            contractAddress: slash.contractAddress,
+            network: slash.network,
+            amount: slash.amount,
+            stakeAfter: slash.state.amount,
+            delegatedTo: slash.state.delegatedTo ?? null,
+            timestamp: slash.timestamp,
+            blockNumber: slash.blockNumber,
+            transactionHash: slash.transactionHash
+          },
+          ['amount', 'stakeAfter'],
+          formatted
+        )
+      )
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/staking/stakers/:address/reconciliation
+// Compares the indexed position with stakedAmount, pendingRewards, delegatedTo and delegatedPower
+router.get('/stakers/:address/reconciliation', async (req, res, next) => {
+  try {
+    const staker = parseStaker(req.params.address);
+    const filter = scopeFilter(req.query);
+
+    const positions = await StakingPosition.find({ ...filter, staker }).lean();
+    if (positions.length > 1) {
+      throw new AmbiguousContractError();
+    }
+    const [position] = positions;
+    if (!position) {
+      return res.status(404).json({ error: 'Staking position not found' });
+    }
+    const contract = await Contract.findById(position.contract);
+    if (!contract) {
+      return res.status(404).json({ error: 'Contract not found' });
+    }
+
+    const delegated = await findDelegators({ contract: position.contract }, staker);
+    const power = delegated.get(String(position.contract))?.power ?? 0n;
+
+    res.json(await reconcileStakingPosition(contract, position, power));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/staking/tvl
+// Total value locked per StakingContract over `from`..`to` (default: the last 30 days) at `interval` (default 1d)
+router.get('/tvl', async (req, res, next) => {
+  try {
+    const filter = scopeFilter(req.query);
+    const { interval, size } = parseInterval(req.query.interval, CANDLE_INTERVALS, '1d');
+    const to = parseTimestamp(req.query.to, 'to') ?? Math.floor(Date.now() / 1000);
+    const from = parseTimestamp(req.query.from, 'from') ?? to - 30 * 24 * 3600;
+    if (from > to) {
+      return res.status(400).json({ error: 'from must be before to' });
+    }
+    if ((to - from) / size > MAX_POINTS) {
+      return res.status(400).json({ error: `Range spans more than ${MAX_POINTS} points, use a larger interval` });
+    }
+    const start = Math.floor(from / size) * size;
+
+    const openings = await StakingEntry.aggregate<{
+      _id: { contract: Types.ObjectId; contractAddress: string; network: string };
+      tvl: Types.Decimal128;
+    }>([
+      { $match: { ...filter, timestamp: { $lt: start } } },
+      {
+        $group: {
+          _id: { contract: '$contract', contractAddress: '$contractAddress', network: '$network' },
+          tvl: { $sum: { $toDecimal: '$tvlDelta' } }
+        }
+      }
+    ]);
+    const changes = await StakingEntry.find({ ...filter, timestamp: { $gte: start, $lte: to } })
+      .sort({ blockNumber: 1, logIndex: 1 })
+      .lean();
+
+    const contracts = new Map<string, { contractAddress: string; network: string; opening: bigint }>();
+    for (const { _id: key, tvl } of openings) {
+      contracts.set(String(key.contract), {
+        contractAddress: key.contractAddress,
+        network: key.network,
+        opening: BigInt(tvl.toString())
+      });
+    }
+    for (const change of changes) {
+      if (!contracts.has(String(change.contract))) {
+        contracts.set(String(change.contract), {
+          contractAddress: change.contractAddress,
+          network: change.network,
+          opening: 0n
+        });
+      }
+    }
+
+    const formatted = req.query.formatted === 'true';
+    res.json({
+      interval,
+      series: [...contracts.entries()].map(([id, contract]) => ({
+        contractAddress: contract.contractAddress,
+        network: contract.network,
+        points: buildTvlSeries(
+          contract.opening,
+          changes.filter(change => String(change.contract) === id) as { tvlDelta: string; timestamp: number }[],
+          from,
+          to,
+          size
+        ).map(point => withFormatted(point, ['tvl', 'inflow', 'outflow'], formatted))
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,426 @@
+import express from 'express';
+import { ContractType } from '../models/Contract';
+import { Event } from '../models/Event';
+import { ServiceTier } from '../models/ServiceTier';
+import { TokenHolder } from '../models/TokenHolder';
+import { TokenSupplyEntry, TokenSupplyEntryType } from '../models/TokenSupplyEntry';
+import { IVestingSchedule, VestingSchedule } from '../models/VestingSchedule';
+import { withFormatted } from '../utils/amounts';
+import { AmbiguousContractError, findContractOfType, scopeFilter } from '../utils/network';
+import { CANDLE_INTERVALS, parseInterval } from '../utils/priceAnalytics';
+import { effectiveTiers } from '../utils/serviceTiers';
+import { buildSupplySeries, circulatingSupply, MAX_SUPPLY, SupplyChange } from '../utils/tokenSupply';
+import { validateAddress } from '../utils/validation';
+import { buildUnlockCalendar, VESTING_INTERVALS, vestingStatus } from '../utils/vesting';
+import { ValidationError } from '../middleware/error-handler';
+
+const router = express.Router();
+
+const MAX_POINTS = 1000;
+const SCHEDULE_AMOUNTS = ['totalAmount', 'releasedAmount', 'refundedAmount'] as const;
+const STATUS_AMOUNTS = ['vested', 'locked', 'released', 'releasable'] as const;
+const SUPPLY_AMOUNTS = [
+  'maxSupply',
+  'totalSupply',
+  'circulatingSupply',
+  'contractBalance',
+  'totalMinted',
+  'inflationMinted',
+  'totalBurned',
+  'rewardPerToken'
+] as const;
+const LATEST_FIRST = { blockNumber: -1, logIndex: -1 } as const;
+// Holders with a positive balance; balances are decimal strings without leading zeros
+const POSITIVE_BALANCE = /^[1-9]/;
+
+const parseTimestamp = (value: unknown, name: string): number | undefined => {
+  if (value == null || value === '') {
+    return undefined;
+  }
+  const timestamp = Number(value);
+  if (!Number.isInteger(timestamp) || timestamp < 0) {
+    throw new ValidationError(`${name} must be a unix timestamp`);
+  }
+  return timestamp;
+};
+
+/**
+ * Finds the TuneToken contract selected by the `network` and `contract` query
+ * parameters
+ * @throws AmbiguousContractError if several TuneToken contracts match
+ */
+export const findTuneToken = (query: express.Request['query']) => findContractOfType(ContractType.TUNE_TOKEN, query);
+
+const presentPools = (pools: { name: string; balance: string }[], formatted: boolean) =>
+  pools.map(pool => withFormatted({ name: pool.name, balance: pool.balance }, ['balance'], formatted));
+
+const presentSchedule = (schedule: IVestingSchedule, at: number, formatted: boolean) => ({
+  ...withFormatted(
+    {
+      contractAddress: schedule.contractAddress,
+      network: schedule.network,
+      beneficiary: schedule.beneficiary,
+      totalAmount: schedule.totalAmount,
+      startTime: schedule.startTime,
+      duration: schedule.duration,
+      endTime: schedule.startTime + schedule.duration,
+      revocable: schedule.revocable ?? null,
+      revoked: schedule.revoked,
+      revokedAt: schedule.revokedAt ?? null,
+      refundedAmount: schedule.refundedAmount ?? null,
+      releasedAmount: schedule.releasedAmount,
+      scheduledAt: schedule.scheduledAt,
+      transactionHash: schedule.transactionHash
+    },
+    [...SCHEDULE_AMOUNTS],
+    formatted
+  ),
+  status: withFormatted(vestingStatus(schedule, at), [...STATUS_AMOUNTS], formatted)
+});
+
+// GET /api/v1/token/vesting/schedules
+// Every vesting schedule, with vested and locked amounts at `at` (default: now)
+router.get('/vesting/schedules', async (req, res, next) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+    const at = parseTimestamp(req.query.at, 'at') ?? Math.floor(Date.now() / 1000);
+
+    const filter: Record<string, unknown> = scopeFilter(req.query);
+    if (req.query.revoked === 'true' || req.query.revoked === 'false') {
+      filter.revoked = req.query.revoked === 'true';
+    }
+
+    const schedules = await VestingSchedule.find(filter)
+      .skip(skip)
+      .limit(limit)
+      .sort({ startTime: 1, beneficiary: 1 })
+      .lean();
+    const totalItems = await VestingSchedule.countDocuments(filter);
+    const formatted = req.query.formatted === 'true';
+
+    res.json({
+      schedules: schedules.map(schedule => presentSchedule(schedule as IVestingSchedule, at, formatted)),
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalItems / limit),
+        totalItems,
+        itemsPerPage: limit
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/token/vesting/schedules/:beneficiary
+// A beneficiary's schedule and releases, with vested and locked amounts at `at` (default: now)
+router.get('/vesting/schedules/:beneficiary', async (req, res, next) => {
+  try {
+    if (!validateAddress(req.params.beneficiary)) {
+      throw new ValidationError('Invalid beneficiary address');
+    }
+    const beneficiary = req.params.beneficiary.toLowerCase();
+    const at = parseTimestamp(req.query.at, 'at') ?? Math.floor(Date.now() / 1000);
+
+    const schedules = await VestingSchedule.find({ ...scopeFilter(req.query), beneficiary }).lean();
+    if (schedules.length > 1) {
+      throw new AmbiguousContractError();
+    }
+    const [schedule] = schedules;
+    if (!schedule) {
+      return res.status(404).json({ error: 'Vesting schedule not found' });
+    }
+
+    const releases = await Event.find({
+      contract: schedule.contract,
+      name: 'TokensReleased',
+      'args.beneficiary': beneficiary
+    })
+      .sort({ blockNumber: 1, logIndex: 1 })
+      .lean();
+    const formatted = req.query.formatted === 'true';
+
+    res.json({
+      ...presentSchedule(schedule as IVestingSchedule, at, formatted),
+      releases: releases.map(release =>
+        withFormatted(
+          {
+            amount: release.args?.amount as string,
+            timestamp: release.timestamp,
+            blockNumber: release.blockNumber,
+            transactionHash: release.transactionHash
+          },
+          ['amount'],
+          formatted
+        )
+      )
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/token/vesting/calendar
+// Projected unlocks across all beneficiaries over `from`..`to` (default: the next year) at `interval` (default 30d)
+router.get('/vesting/calendar', async (req, res, next) => {
+  try {
+    const { interval, size } = parseInterval(req.query.interval, VESTING_INTERVALS, '30d');
+    const from = parseTimestamp(req.query.from, 'from') ?? Math.floor(Date.now() / 1000);
+    const to = parseTimestamp(req.query.to, 'to') ?? from + 365 * 24 * 3600;
+    if (from > to) {
+      return res.status(400).json({ error: 'from must be before to' });
+    }
+    if ((to - from) / size > MAX_POINTS) {
+      return res.status(400).json({ error: `Range spans more than ${MAX_POINTS} points, use a larger interval` });
+    }
+
+    const schedules = await VestingSchedule.find(scopeFilter(req.query)).lean();
+    const formatted = req.query.formatted === 'true';
+    const totals = schedules.reduce(
+      (sum, schedule) => ({
+        scheduled: sum.scheduled + BigInt(schedule.totalAmount),
+        released: sum.released + BigInt(schedule.releasedAmount)
+      }),
+      { scheduled: 0n, released: 0n }
+    );
+
+    res.json({
+      interval,
+      schedules: schedules.length,
+      ...withFormatted(
+        { totalScheduled: totals.scheduled.toString(), totalReleased: totals.released.toString() },
+        ['totalScheduled', 'totalReleased'],
+        formatted
+      ),
+      points: buildUnlockCalendar(schedules, from, to, size).map(point =>
+        withFormatted(point, ['unlocked', 'vested', 'locked'], formatted)
+      )
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/token/supply
+// Current TuneToken supply, burns, pool balances, epoch and holder count
+router.get('/supply', async (req, res, next) => {
+  try {
+    const contract = await findTuneToken(req.query);
+    if (!contract) {
+      return res.status(404).json({ error: 'TuneToken contract not found' });
+    }
+
+    const [latest, holders] = await Promise.all([
+      TokenSupplyEntry.findOne({ contract: contract._id }).sort(LATEST_FIRST).lean(),
+      TokenHolder.countDocuments({ contract: contract._id, balance: POSITIVE_BALANCE })
+    ]);
+    if (!latest) {
+      return res.status(404).json({ error: 'No supply recorded for this token' });
+    }
+
+    const { state } = latest;
+    const formatted = req.query.formatted === 'true';
+    res.json({
+      contractAddress: contract.address,
+      network: contract.network,
+      ...withFormatted(
+        {
+          maxSupply: MAX_SUPPLY,
+          totalSupply: state.totalSupply,
+          circulatingSupply: circulatingSupply(state),
+          contractBalance: state.contractBalance,
+          totalMinted: state.totalMinted,
+          inflationMinted: state.inflationMinted,
+          totalBurned: state.totalBurned,
+          rewardPerToken: state.rewardPerToken
+        },
+        [...SUPPLY_AMOUNTS],
+        formatted
+      ),
+      pools: presentPools(state.pools, formatted),
+      epoch: state.epoch ?? null,
+      holders,
+      blockNumber: latest.blockNumber,
+      timestamp: latest.timestamp
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/token/supply/history
+// Supply, burns and pool balances over `from`..`to` (default: the last 30 days) at `interval` (default 1d)
+router.get('/supply/history', async (req, res, next) => {
+  try {
+    const { interval, size } = parseInterval(req.query.interval, CANDLE_INTERVALS, '1d');
+    const to = parseTimestamp(req.query.to, 'to') ?? Math.floor(Date.now() / 1000);
+    const from = parseTimestamp(req.query.from, 'from') ?? to - 30 * 24 * 3600;
+    if (from > to) {
+      return res.status(400).json({ error: 'from must be before to' });
+    }
+    if ((to - from) / size > MAX_POINTS) {
+      return res.status(400).json({ error: `Range spans more than ${MAX_POINTS} points, use a larger interval` });
+    }
+    const contract = await findTuneToken(req.query);
+    if (!contract) {
+      return res.status(404).json({ error: 'TuneToken contract not found' });
+    }
+
+    const start = Math.floor(from / size) * size;
+    const [opening, changes] = await Promise.all([
+      TokenSupplyEntry.findOne({ contract: contract._id, timestamp: { $lt: start } }).sort(LATEST_FIRST).lean(),
+      TokenSupplyEntry.find({ contract: contract._id, timestamp: { $gte: start, $lte: to } })
+        .sort({ blockNumber: 1, logIndex: 1 })
+        .lean()
+    ]);
+
+    const formatted = req.query.formatted === 'true';
+    res.json({
+      contractAddress: contract.address,
+      network: contract.network,
+      interval,
+      points: buildSupplySeries(opening?.state ?? null, changes as SupplyChange[], from, to, size).map(point => ({
+        ...withFormatted(
+          point,
+          ['totalSupply', 'circulatingSupply', 'totalBurned', 'rewardPerToken', 'minted', 'burned'],
+          formatted
+        ),
+        pools: presentPools(point.pools, formatted)
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/token/epochs
+// Reward epochs, newest first, with the reward-per-token they reached and the liquidity reward paid out
+router.get('/epochs', async (req, res, next) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+    const contract = await findTuneToken(req.query);
+    if (!contract) {
+      return res.status(404).json({ error: 'TuneToken contract not found' });
+    }
+
+    const filter = { contract: contract._id, type: TokenSupplyEntryType.EPOCH_ADVANCED };
+    // One extra epoch gives the change in reward-per-token of the oldest on the page
+    const epochs = await TokenSupplyEntry.find(filter)
+      .skip(skip)
+      .limit(limit + 1)
+      .sort(LATEST_FIRST)
+      .lean();
+    const totalItems = await TokenSupplyEntry.countDocuments(filter);
+    const formatted = req.query.formatted === 'true';
+
+    res.json({
+      epochs: epochs.slice(0, limit).map((epoch, index) => {
+        const previous = epochs[index + 1]?.state.rewardPerToken ?? '0';
+        return withFormatted(
+          {
+            epoch: epoch.state.epoch,
+            rewardPerToken: epoch.state.rewardPerToken,
+            rewardPerTokenDelta: (BigInt(epoch.state.rewardPerToken) - BigInt(previous)).toString(),
+            liquidityReward: epoch.amount ?? '0',
+            timestamp: epoch.timestamp,
+            blockNumber: epoch.blockNumber,
+            transactionHash: epoch.transactionHash
+          },
+          ['rewardPerToken', 'rewardPerTokenDelta', 'liquidityReward'],
+          formatted
+        );
+      }),
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalItems / limit),
+        totalItems,
+        itemsPerPage: limit
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/token/holders
+// Accounts holding TuneToken, largest balance first, with their share of the supply
+router.get('/holders', async (req, res, next) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+    const contract = await findTuneToken(req.query);
+    if (!contract) {
+      return res.status(404).json({ error: 'TuneToken contract not found' });
+    }
+
+    const filter = { contract: contract._id, balance: POSITIVE_BALANCE };
+    const [holders, totalItems, latest] = await Promise.all([
+      TokenHolder.aggregate([
+        { $match: filter },
+        { $addFields: { balanceValue: { $toDecimal: '$balance' } } },
+        { $sort: { balanceValue: -1, address: 1 } },
+        { $skip: skip },
+        { $limit: limit }
+      ]),
+      TokenHolder.countDocuments(filter),
+      TokenSupplyEntry.findOne({ contract: contract._id }).sort(LATEST_FIRST).lean()
+    ]);
+    const totalSupply = BigInt(latest?.state.totalSupply ?? '0');
+    const formatted = req.query.formatted === 'true';
+
+    res.json({
+      contractAddress: contract.address,
+      network: contract.network,
+      holders: holders.map((holder, index) => ({
+        rank: skip + index + 1,
+        address: holder.address,
+        ...withFormatted({ balance: holder.balance as string }, ['balance'], formatted),
+        // Share of the total supply in percent, to two decimals
+        share: totalSupply > 0n ? Number((BigInt(holder.balance) * 10000n) / totalSupply) / 100 : null,
+        isContract: holder.address === contract.address
+      })),
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalItems / limit),
+        totalItems,
+        itemsPerPage: limit
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/token/service-tiers
+// The service tier table: constructor defaults overridden by ServiceTierUpdated
+router.get('/service-tiers', async (req, res, next) => {
+  try {
+    const contract = await findTuneToken(req.query);
+    if (!contract) {
+      return res.status(404).json({ error: 'TuneToken contract not found' });
+    }
+
+    const updates = await ServiceTier.find({ contract: contract._id }).lean();
+    const updated = new Map(updates.map(update => [update.tier, update]));
+    const formatted = req.query.formatted === 'true';
+
+    res.json({
+      contractAddress: contract.address,
+      network: contract.network,
+      tiers: effectiveTiers(updates).map(tier => ({
+        ...withFormatted(tier, ['minTokens'], formatted),
+        isDefault: !updated.has(tier.tier),
+        updatedAt: updated.get(tier.tier)?.timestamp ?? null
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
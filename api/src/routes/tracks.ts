@@ -0,0 +1,346 @@
+import express from 'express';
+import { Track } from '../models/Track';
+import { TrackVersion } from '../models/TrackVersion';
+import { IMetadataCache, MetadataCache, MetadataCacheStatus } from '../models/MetadataCache';
+import { ISale, Sale, SaleType } from '../models/Sale';
+import { Listing, ListingStatus } from '../models/Listing';
+import { diffMetadata } from '../utils/metadataDiff';
+import { validateAddress } from '../utils/validation';
+import { scopeFilter } from '../utils/network';
+import { blockFinalityFilter, parseFinality } from '../utils/finality';
+import { parseAmount, withFormatted } from '../utils/amounts';
+import { buildCandles, CANDLE_INTERVALS, parseInterval, SALE_WINDOWS, summarizeWindow } from '../utils/priceAnalytics';
+import { ValidationError } from '../middleware/error-handler';
+
+const router = express.Router();
+
+export class AmbiguousTrackError extends Error {
+  statusCode = 409;
+
+  constructor() {
+    super('Track exists on multiple contracts, specify a contract or network');
+    this.name = 'AmbiguousTrackError';
+  }
+}
+
+/**
+ * Finds a single track by token ID. Token IDs restart at 0 on every MusicNFT
+ * deployment, so a contract or network is required once they collide.
+ * @throws AmbiguousTrackError if several tracks match
+ */
+export const findTrack = async (tokenId: string, query: express.Request['query']) => {
+  if (!/^\d+$/.test(tokenId)) {
+    throw new ValidationError('Invalid token ID');
+  }
+  const tracks = await Track.find({ ...scopeFilter(query), tokenId }).limit(2).lean();
+  if (tracks.length > 1) {
+    throw new AmbiguousTrackError();
+  }
+  return tracks[0] ?? null;
+};
+
+// GET /api/v1/tracks
+router.get('/', async (req, res, next) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+
+    const filter: Record<string, unknown> = scopeFilter(req.query);
+    if (req.query.creator) {
+      if (!validateAddress(req.query.creator as string)) {
+        return res.status(400).json({ error: 'Invalid creator address' });
+      }
+      filter.creator = (req.query.creator as string).toLowerCase();
+    }
+    if (req.query.album) {
+      if (!/^\d+$/.test(req.query.album as string)) {
+        return res.status(400).json({ error: 'Invalid album ID' });
+      }
+      filter.albumId = req.query.album;
+    }
+
+    // Prices are wei strings, so compare them as decimals
+    const minPrice = parseAmount(req.query.minPrice, 'minPrice');
+    const maxPrice = parseAmount(req.query.maxPrice, 'maxPrice');
+    const priceBounds = [];
+    if (minPrice != null) {
+      priceBounds.push({ $gte: [{ $toDecimal: '$price' }, { $toDecimal: minPrice }] });
+    }
+    if (maxPrice != null) {
+      priceBounds.push({ $lte: [{ $toDecimal: '$price' }, { $toDecimal: maxPrice }] });
+    }
+    if (priceBounds.length > 0) {
+      filter.$expr = { $and: priceBounds };
+    }
+
+    const tracks = await Track.find(filter)
+      .skip(skip)
+      .limit(limit)
+      .sort({ createdBlock: -1, _id: -1 })
+      .lean();
+
+    const totalItems = await Track.countDocuments(filter);
+    const totalPages = Math.ceil(totalItems / limit);
+
+    res.json({
+      tracks,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems,
+        itemsPerPage: limit
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/tracks/:tokenId
+router.get('/:tokenId', async (req, res, next) => {
+  try {
+    const track = await findTrack(req.params.tokenId, req.query);
+    if (!track) {
+      return res.status(404).json({ error: 'Track not found' });
+    }
+    res.json(track);
+  } catch (error) {
+    next(error);
+  }
+});
+
+const parseVersion = (value: unknown, name: string): number | undefined => {
+  if (value == null || value === '') {
+    return undefined;
+  }
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new ValidationError(`${name} must be a positive version number`);
+  }
+  return version;
+};
+
+// GET /api/v1/tracks/:tokenId/versions
+// With ?diff=true, compares the metadata of versions `from` and `to`
+// (default: the latest version against the one before it)
+router.get('/:tokenId/versions', async (req, res, next) => {
+  try {
+    const track = await findTrack(req.params.tokenId, req.query);
+    if (!track) {
+      return res.status(404).json({ error: 'Track not found' });
+    }
+
+    const versions = await TrackVersion.find({ contract: track.contract, tokenId: track.tokenId })
+      .sort({ version: 1 })
+      .lean();
+    const uris = versions.map(version => version.uri).filter((uri): uri is string => !!uri);
+    const cached = await MetadataCache.find({ contract: track.contract, tokenId: track.tokenId, uri: { $in: uris } })
+      .lean();
+    const metadataByUri = new Map<string, IMetadataCache>(cached.map(entry => [entry.uri, entry as IMetadataCache]));
+
+    const history = versions.map(version => {
+      const entry = version.uri ? metadataByUri.get(version.uri) : undefined;
+      return {
+        version: version.version,
+        uri: version.uri,
+        changelog: version.changelog,
+        timestamp: version.timestamp,
+        blockNumber: version.blockNumber,
+        transactionHash: version.transactionHash,
+        metadataStatus: entry?.status ?? null,
+        metadata: entry?.status === MetadataCacheStatus.SUCCESS ? entry.metadata : null
+      };
+    });
+
+    const scope = { contractAddress: track.contractAddress, network: track.network, tokenId: track.tokenId };
+    if (req.query.diff !== 'true') {
+      return res.json({ ...scope, versions: history });
+    }
+
+    const to = parseVersion(req.query.to, 'to') ?? history.length;
+    const from = parseVersion(req.query.from, 'from') ?? to - 1;
+    const older = history.find(version => version.version === from);
+    const newer = history.find(version => version.version === to);
+    if (!older || !newer) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+    const unresolved = [older, newer].find(version => version.metadataStatus !== MetadataCacheStatus.SUCCESS);
+    if (unresolved) {
+      return res.status(409).json({
+        error: `Metadata for version ${unresolved.version} is not resolved (${unresolved.metadataStatus ?? 'missing'})`
+      });
+    }
+
+    const { metadata: fromMetadata, ...fromVersion } = older;
+    const { metadata: toMetadata, ...toVersion } = newer;
+    res.json({
+      ...scope,
+      from: fromVersion,
+      to: toVersion,
+      changes: diffMetadata(fromMetadata, toMetadata)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+const parseTimestamp = (value: unknown, name: string): number | undefined => {
+  if (value == null || value === '') {
+    return undefined;
+  }
+  const timestamp = Number(value);
+  if (!Number.isInteger(timestamp) || timestamp < 0) {
+    throw new ValidationError(`${name} must be a unix timestamp`);
+  }
+  return timestamp;
+};
+
+/**
+ * Filter selecting the sales of a track. The Marketplace trades the tokens of
+ * the MusicNFT on its network, so its sales are matched by network and token
+ * ID while primary sales must come from the track's own contract.
+ */
+const salesFilter = (track: { contract: unknown; network: string; tokenId: string }) => ({
+  network: track.network,
+  tokenId: track.tokenId,
+  $or: [{ type: { $ne: SaleType.PRIMARY } }, { contract: track.contract }]
+});
+
+const SALE_AMOUNTS: (keyof ISale & string)[] = ['price'];
+
+// GET /api/v1/tracks/:tokenId/sales
+router.get('/:tokenId/sales', async (req, res, next) => {
+  try {
+    const finality = parseFinality(req.query.finality);
+    const track = await findTrack(req.params.tokenId, req.query);
+    if (!track) {
+      return res.status(404).json({ error: 'Track not found' });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+
+    const filter: Record<string, unknown> = {
+      ...salesFilter(track),
+      ...await blockFinalityFilter(finality, track.network)
+    };
+    if (req.query.type) {
+      if (!Object.values(SaleType).includes(req.query.type as SaleType)) {
+        return res.status(400).json({ error: 'Invalid sale type' });
+      }
+      filter.type = req.query.type;
+    }
+    for (const party of ['buyer', 'seller'] as const) {
+      if (req.query[party]) {
+        if (!validateAddress(req.query[party] as string)) {
+          return res.status(400).json({ error: `Invalid ${party} address` });
+        }
+        filter[party] = (req.query[party] as string).toLowerCase();
+      }
+    }
+    const from = parseTimestamp(req.query.from, 'from');
+    const to = parseTimestamp(req.query.to, 'to');
+    if (from != null || to != null) {
+      filter.timestamp = { ...(from != null && { $gte: from }), ...(to != null && { $lte: to }) };
+    }
+
+    const sales = await Sale.find(filter)
+      .skip(skip)
+      .limit(limit)
+      .sort({ blockNumber: -1, logIndex: -1 })
+      .lean();
+
+    const totalItems = await Sale.countDocuments(filter);
+    const totalPages = Math.ceil(totalItems / limit);
+    const formatted = req.query.formatted === 'true';
+
+    res.json({
+      contractAddress: track.contractAddress,
+      network: track.network,
+      tokenId: track.tokenId,
+      sales: sales.map(sale => withFormatted(sale, SALE_AMOUNTS, formatted)),
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems,
+        itemsPerPage: limit
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+const MAX_CANDLES = 1000;
+
+// GET /api/v1/tracks/:tokenId/analytics
+// Candles cover `from`..`to` (default: the last 30 days) at `interval` (default 1d)
+router.get('/:tokenId/analytics', async (req, res, next) => {
+  try {
+    const finality = parseFinality(req.query.finality);
+    const track = await findTrack(req.params.tokenId, req.query);
+    if (!track) {
+      return res.status(404).json({ error: 'Track not found' });
+    }
+
+    const { interval, size } = parseInterval(req.query.interval, CANDLE_INTERVALS, '1d');
+    const now = Math.floor(Date.now() / 1000);
+    const to = parseTimestamp(req.query.to, 'to') ?? now;
+    const from = parseTimestamp(req.query.from, 'from') ?? to - SALE_WINDOWS['30d'];
+    if (from > to) {
+      return res.status(400).json({ error: 'from must be before to' });
+    }
+    if ((to - from) / size > MAX_CANDLES) {
+      return res.status(400).json({ error: `Range spans more than ${MAX_CANDLES} candles, use a larger interval` });
+    }
+
+    const since = Math.min(from, now - SALE_WINDOWS['30d']);
+    const trackSales = { ...salesFilter(track), ...await blockFinalityFilter(finality, track.network) };
+    const sales = (await Sale.find({ ...trackSales, timestamp: { $gte: since } })
+      .sort({ blockNumber: 1, logIndex: 1 })
+      .lean()) as (ISale & { timestamp: number })[];
+    const [lastSale] = await Sale.find(trackSales).sort({ blockNumber: -1, logIndex: -1 }).limit(1).lean();
+
+    // The floor is the cheapest active Marketplace listing of the token
+    const listings = await Listing.find({
+      network: track.network,
+      tokenId: track.tokenId,
+      status: ListingStatus.ACTIVE
+    }).lean();
+    const floorPrice = listings.reduce<string | null>(
+      (floor, listing) => (floor === null || BigInt(listing.price) < BigInt(floor) ? listing.price : floor),
+      null
+    );
+
+    const windows = Object.fromEntries(
+      Object.entries(SALE_WINDOWS).map(([name, seconds]) => [name, summarizeWindow(sales, now - seconds)])
+    );
+    const candles = buildCandles(
+      sales.filter(sale => sale.timestamp >= from && sale.timestamp <= to),
+      size
+    );
+
+    const formatted = req.query.formatted === 'true';
+    res.json({
+      contractAddress: track.contractAddress,
+      network: track.network,
+      tokenId: track.tokenId,
+      ...withFormatted({ floorPrice }, ['floorPrice'], formatted),
+      lastSale: lastSale ? withFormatted(lastSale, SALE_AMOUNTS, formatted) : null,
+      windows: Object.fromEntries(
+        Object.entries(windows).map(([name, summary]) => [
+          name,
+          withFormatted(summary, ['volume', 'floorPrice'], formatted)
+        ])
+      ),
+      interval,
+      candles: candles.map(candle => withFormatted(candle, ['open', 'high', 'low', 'close', 'volume'], formatted))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,191 @@
+import express from 'express';
+import { Types } from 'mongoose';
+import { ItemSimilarity } from '../models/ItemSimilarity';
+import { ServiceTier } from '../models/ServiceTier';
+import { TokenHolder } from '../models/TokenHolder';
+import { TrackEdge } from '../models/TrackEdge';
+import { UserInteraction } from '../models/UserInteraction';
+import { loadSignals } from '../indexer/SimilarityJob';
+import { verifyServiceTier } from '../indexer/tierVerification';
+import { withFormatted } from '../utils/amounts';
+import { parseNetwork } from '../utils/network';
+import { recommendTracks } from '../utils/recommendationGraph';
+import {
+  buildMatrix,
+  explainGraphRecommendation,
+  hybridRecommendations,
+  RECOMMENDATION_STRATEGIES,
+  RecommendationStrategy,
+  recommendSimilar,
+  SimilarItem
+} from '../utils/recommendations';
+import { effectiveTiers, resolveTier } from '../utils/serviceTiers';
+import { validateAddress } from '../utils/validation';
+import { ValidationError } from '../middleware/error-handler';
+import { findRecommendationGraph } from './graph';
+import { findTuneToken } from './token';
+
+const router = express.Router();
+
+const parseUser = (address: string) => {
+  if (!validateAddress(address)) {
+    throw new ValidationError('Invalid user address');
+  }
+  return address.toLowerCase();
+};
+
+// GET /api/v1/users/:address/tier
+// The user's TuneToken service tier from indexed balances; `verify=true` also reads it on chain
+router.get('/:address/tier', async (req, res, next) => {
+  try {
+    const address = parseUser(req.params.address);
+    const contract = await findTuneToken(req.query);
+    if (!contract) {
+      return res.status(404).json({ error: 'TuneToken contract not found' });
+    }
+
+    const [holder, updates] = await Promise.all([
+      TokenHolder.findOne({ contract: contract._id, address }).lean(),
+      ServiceTier.find({ contract: contract._id }).lean()
+    ]);
+    // A balance is only negative while earlier transfers are being backfilled
+    const balance = BigInt(holder?.balance ?? '0');
+    const resolution = resolveTier(balance > 0n ? balance : 0n, effectiveTiers(updates));
+
+    const verification = req.query.verify === 'true'
+      ? await verifyServiceTier(contract, address, resolution)
+      : undefined;
+
+    const formatted = req.query.formatted === 'true';
+    res.json({
+      address,
+      contractAddress: contract.address,
+      network: contract.network,
+      tier: resolution.tier,
+      discountRate: resolution.discountRate,
+      ...withFormatted({ balance: resolution.balance }, ['balance'], formatted),
+      nextTier: resolution.nextTier && withFormatted(resolution.nextTier, ['minTokens', 'tokensNeeded'], formatted),
+      indexedBlock: contract.lastIndexedBlock ?? null,
+      ...(verification && { verification })
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Ranks tracks from the RecommendationGraph edges out of the tracks the user
+ * interacted with
+ */
+const graphRecommendations = async (contract: Types.ObjectId, user: string) => {
+  const interactions = await UserInteraction.find({ contract, user }).select('tokenId interactionType').lean();
+  const seeds = [...new Set(interactions.map(interaction => interaction.tokenId))];
+  const edges = seeds.length
+    ? await TrackEdge.find({ contract, fromTrack: { $in: seeds } }).select('fromTrack toTrack weight').lean()
+    : [];
+  const counts = edges.length
+    ? await UserInteraction.aggregate([
+      { $match: { contract, tokenId: { $in: [...new Set(edges.map(edge => edge.toTrack))] } } },
+      { $group: { _id: '$tokenId', count: { $sum: 1 } } }
+    ])
+    : [];
+  const recommendations = recommendTracks(
+    interactions,
+    edges,
+    new Map(counts.map(row => [row._id as string, row.count as number]))
+  );
+  return { tracks: seeds, recommendations: recommendations.map(explainGraphRecommendation) };
+};
+
+/**
+ * Ranks tracks by their similarity to the ones the user was active on, from
+ * the similarities last computed for the network
+ */
+const cfRecommendations = async (network: string | undefined, user: string) => {
+  if (!network) {
+    return { tracks: [], recommendations: [], computedAt: null };
+  }
+  const items = buildMatrix(await loadSignals(network, user)).get(user) ?? new Map();
+  const [rows, latest] = await Promise.all([
+    ItemSimilarity.find({ network, tokenId: { $in: [...items.keys()] } }).lean(),
+    ItemSimilarity.findOne({ network }).sort({ computedAt: -1 }).select('computedAt').lean()
+  ]);
+  const similarities = new Map<string, SimilarItem[]>();
+  for (const row of rows) {
+    similarities.set(row.tokenId, [
+      ...(similarities.get(row.tokenId) ?? []),
+      { tokenId: row.similarTokenId, similarity: row.similarity, commonUsers: row.commonUsers }
+    ]);
+  }
+  return {
+    tracks: [...items.keys()] as string[],
+    recommendations: recommendSimilar(items, similarities),
+    computedAt: latest?.computedAt ?? null
+  };
+};
+
+/**
+ * The network collaborative filtering runs on without a RecommendationGraph
+ * to take it from: the `network` parameter, or the only one with
+ * similarities
+ */
+const similarityNetwork = async (query: express.Request['query']) => {
+  const network = parseNetwork(query.network);
+  if (network) {
+    return network;
+  }
+  const networks: string[] = await ItemSimilarity.distinct('network');
+  if (networks.length > 1) {
+    throw new ValidationError('Similarities are computed on several networks, specify a network');
+  }
+  return networks[0];
+};
+
+// GET /api/v1/users/:address/recommendations
+// Tracks recommended from the RecommendationGraph (`strategy=graph`, the default), from
+// tracks similar to the ones the user was active on (`cf`), or both (`hybrid`)
+router.get('/:address/recommendations', async (req, res, next) => {
+  try {
+    const user = parseUser(req.params.address);
+    const strategy = (req.query.strategy as RecommendationStrategy | undefined) || 'graph';
+    if (!RECOMMENDATION_STRATEGIES.includes(strategy)) {
+      throw new ValidationError(`strategy must be one of ${RECOMMENDATION_STRATEGIES.join(', ')}`);
+    }
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+
+    const contract = strategy === 'cf' ? undefined : await findRecommendationGraph(req.query);
+    if (strategy !== 'cf' && !contract) {
+      return res.status(404).json({ error: 'RecommendationGraph contract not found' });
+    }
+    const network = contract?.network ?? await similarityNetwork(req.query);
+
+    const graph = contract && await graphRecommendations(contract._id as Types.ObjectId, user);
+    const cf = strategy === 'graph' ? undefined : await cfRecommendations(network, user);
+    const interactedTracks = new Set([...(graph?.tracks ?? []), ...(cf?.tracks ?? [])]);
+    const recommendations = strategy === 'hybrid'
+      ? hybridRecommendations(graph!.recommendations, cf!.recommendations, interactedTracks)
+      : (graph ?? cf)!.recommendations;
+
+    res.json({
+      user,
+      strategy,
+      contractAddress: contract?.address ?? null,
+      network: network ?? null,
+      interactedTracks: interactedTracks.size,
+      ...(cf && { computedAt: cf.computedAt }),
+      recommendations: recommendations.slice(skip, skip + limit),
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(recommendations.length / limit),
+        totalItems: recommendations.length,
+        itemsPerPage: limit
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,4 +1,6 @@
 import swaggerJsdoc from 'swagger-jsdoc';
+import { ContractType } from './models/Contract';
+import { getNetworks } from './config/networks';
 
 const options = {
   definition: {
@@ -43,11 +45,16 @@ const options = {
             },
             type: {
               type: 'string',
-              enum: ['ERC20', 'ERC721', 'ERC1155', 'OTHER'],
-              description: 'The type of the contract',
+              enum: Object.values(ContractType),
+              description: 'The token standard or TuneFi protocol role of the contract',
+            },
+            abi: {
+              type: 'string',
+              description: 'Registered ABI used to decode events (e.g. MusicNFT); defaults to the name, then the type',
             },
             network: {
               type: 'string',
+              enum: getNetworks().map(network => network.name),
               description: 'The blockchain network the contract is deployed on',
             },
             deployedAt: {
@@ -79,6 +86,558 @@ const options = {
             },
           },
         },
+        Track: {
+          type: 'object',
+          properties: {
+            contractAddress: {
+              type: 'string',
+              description: 'The MusicNFT contract the track was minted on',
+            },
+            network: {
+              type: 'string',
+              description: 'The network of the MusicNFT contract',
+            },
+            tokenId: {
+              type: 'string',
+              description: 'The ERC1155 token ID of the track',
+            },
+            creator: {
+              type: 'string',
+              description: 'The account that created the track',
+            },
+            price: {
+              type: 'string',
+              description: 'The purchase price in wei of TUNE',
+            },
+            uri: {
+              type: 'string',
+              description: 'The current metadata URI',
+            },
+            version: {
+              type: 'integer',
+              description: 'The current version, starting at 1',
+            },
+            albumId: {
+              type: 'string',
+              description: 'The album the track belongs to',
+            },
+            collaborators: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Collaborators receiving royalties',
+            },
+            royaltyShares: {
+              type: 'array',
+              items: { type: 'integer' },
+              description: 'Royalty share of each collaborator in basis points',
+            },
+            maxSupply: {
+              type: 'string',
+              description: 'The number of editions minted',
+            },
+            purchaseCount: {
+              type: 'integer',
+              description: 'Number of TrackPurchased events',
+            },
+          },
+        },
+        Listing: {
+          type: 'object',
+          properties: {
+            contractAddress: {
+              type: 'string',
+              description: 'The Marketplace contract',
+            },
+            network: {
+              type: 'string',
+              description: 'The network of the Marketplace contract',
+            },
+            tokenId: {
+              type: 'string',
+              description: 'The listed MusicNFT token ID',
+            },
+            seller: {
+              type: 'string',
+              description: 'The account that listed the token',
+            },
+            price: {
+              type: 'string',
+              description: 'The asking price in wei',
+            },
+            status: {
+              type: 'string',
+              enum: ['active', 'sold', 'delisted'],
+            },
+            buyer: {
+              type: 'string',
+              description: 'The account that bought the token, once sold',
+            },
+            listedAt: {
+              type: 'integer',
+              description: 'Block timestamp of TokenListed',
+            },
+            closedAt: {
+              type: 'integer',
+              description: 'Block timestamp of the sale or delisting',
+            },
+          },
+        },
+        Offer: {
+          type: 'object',
+          properties: {
+            contractAddress: {
+              type: 'string',
+              description: 'The Marketplace contract',
+            },
+            network: {
+              type: 'string',
+              description: 'The network of the Marketplace contract',
+            },
+            tokenId: {
+              type: 'string',
+              description: 'The MusicNFT token ID the offer is for',
+            },
+            buyer: {
+              type: 'string',
+              description: 'The account that made the offer',
+            },
+            price: {
+              type: 'string',
+              description: 'The offered price in wei',
+            },
+            expirationTime: {
+              type: 'integer',
+              description: 'Timestamp after which the offer can no longer be accepted',
+            },
+            status: {
+              type: 'string',
+              enum: ['open', 'expired', 'accepted', 'cancelled', 'voided'],
+              description: 'voided offers were removed when another offer on the token was accepted',
+            },
+            seller: {
+              type: 'string',
+              description: 'The account that accepted the offer',
+            },
+            offeredAt: {
+              type: 'integer',
+              description: 'Block timestamp of OfferCreated',
+            },
+            closedAt: {
+              type: 'integer',
+              description: 'Block timestamp of the acceptance or cancellation',
+            },
+          },
+        },
+        Sale: {
+          type: 'object',
+          properties: {
+            contractAddress: {
+              type: 'string',
+              description: 'The MusicNFT or Marketplace contract that emitted the sale',
+            },
+            network: {
+              type: 'string',
+              description: 'The network of the contract',
+            },
+            tokenId: {
+              type: 'string',
+              description: 'The MusicNFT token ID sold',
+            },
+            type: {
+              type: 'string',
+              enum: ['primary', 'listing', 'offer'],
+            },
+            seller: {
+              type: 'string',
+              description: 'The account that sold the token, absent for primary sales',
+            },
+            buyer: {
+              type: 'string',
+              description: 'The account that bought the token',
+            },
+            price: {
+              type: 'string',
+              description: 'The sale price in wei of TUNE',
+            },
+            priceFormatted: {
+              type: 'string',
+              description: 'The sale price in TUNE, with formatted=true',
+            },
+            timestamp: {
+              type: 'integer',
+              description: 'Block timestamp of the sale',
+            },
+          },
+        },
+        RoyaltyPayment: {
+          type: 'object',
+          properties: {
+            contractAddress: {
+              type: 'string',
+              description: 'The RoyaltyDistributor contract',
+            },
+            network: {
+              type: 'string',
+              description: 'The network of the RoyaltyDistributor contract',
+            },
+            tokenId: {
+              type: 'string',
+              description: 'The track token ID',
+            },
+            payee: {
+              type: 'string',
+              description: 'The account receiving the payment',
+            },
+            shares: {
+              type: 'integer',
+              description: 'The payee shares, out of 100, at the time of the payment',
+            },
+            amount: {
+              type: 'string',
+              description: 'The payee cut in wei of TUNE',
+            },
+            type: {
+              type: 'string',
+              enum: ['distribution', 'reconciliation'],
+            },
+            source: {
+              type: 'string',
+              enum: ['sale', 'streaming'],
+              description: 'Where distributed royalties came from',
+            },
+            isPositive: {
+              type: 'boolean',
+              description: 'False for reconciliations deducted from the payee',
+            },
+          },
+        },
+        StakingEntry: {
+          type: 'object',
+          properties: {
+            contractAddress: {
+              type: 'string',
+              description: 'The StakingContract',
+            },
+            network: {
+              type: 'string',
+              description: 'The network of the StakingContract',
+            },
+            staker: {
+              type: 'string',
+              description: 'The staker the event applies to',
+            },
+            type: {
+              type: 'string',
+              enum: ['staked', 'unstaked', 'emergency_withdrawn', 'rewards_claimed', 'slashed', 'delegated', 'undelegated'],
+            },
+            amount: {
+              type: 'string',
+              description: 'The amount in wei of TUNE',
+            },
+            delegatee: {
+              type: 'string',
+              description: 'The new delegatee of a delegation',
+            },
+            tvlDelta: {
+              type: 'string',
+              description: 'Signed change to the total staked, in wei',
+            },
+            timestamp: {
+              type: 'integer',
+              description: 'Block timestamp of the event',
+            },
+          },
+        },
+        VestingSchedule: {
+          type: 'object',
+          properties: {
+            contractAddress: {
+              type: 'string',
+              description: 'The TuneToken contract',
+            },
+            network: {
+              type: 'string',
+              description: 'The network of the TuneToken contract',
+            },
+            beneficiary: {
+              type: 'string',
+              description: 'The account tokens vest for',
+            },
+            totalAmount: {
+              type: 'string',
+              description: 'Tokens vesting in total, in wei',
+            },
+            startTime: {
+              type: 'integer',
+              description: 'Vesting start, as a unix timestamp',
+            },
+            duration: {
+              type: 'integer',
+              description: 'Vesting duration in seconds',
+            },
+            revocable: {
+              type: 'boolean',
+              nullable: true,
+              description: 'Whether the owner can revoke the schedule, null when the calldata is not indexed',
+            },
+            revoked: {
+              type: 'boolean',
+            },
+            releasedAmount: {
+              type: 'string',
+              description: 'Tokens released to the beneficiary so far, in wei',
+            },
+            status: {
+              type: 'object',
+              description: 'Vested, locked, released and releasable wei amounts at the requested time',
+            },
+          },
+        },
+        TokenSupply: {
+          type: 'object',
+          properties: {
+            totalSupply: {
+              type: 'string',
+              description: 'Minted less burned, in wei',
+            },
+            circulatingSupply: {
+              type: 'string',
+              description: 'Total supply less what the TuneToken contract holds, in wei',
+            },
+            totalBurned: {
+              type: 'string',
+              description: 'Burned through burn(), in wei',
+            },
+            pools: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  balance: { type: 'string' },
+                },
+              },
+            },
+            epoch: {
+              type: 'integer',
+              nullable: true,
+              description: 'Start of the current reward epoch, as a unix timestamp',
+            },
+            rewardPerToken: {
+              type: 'string',
+              description: 'Accumulated reward per staked token, scaled by 1e18',
+            },
+            holders: {
+              type: 'integer',
+              description: 'Accounts with a positive balance',
+            },
+          },
+        },
+        UserTier: {
+          type: 'object',
+          properties: {
+            address: {
+              type: 'string',
+            },
+            tier: {
+              type: 'integer',
+              nullable: true,
+              description: 'The tier getServiceTierDiscount applies, null below every tier',
+            },
+            discountRate: {
+              type: 'integer',
+              description: 'Discount in basis points',
+            },
+            balance: {
+              type: 'string',
+              description: 'Indexed TuneToken balance, in wei',
+            },
+            nextTier: {
+              type: 'object',
+              nullable: true,
+              description: 'The cheapest tier with a higher discount and the wei needed to reach it',
+            },
+            indexedBlock: {
+              type: 'integer',
+              nullable: true,
+            },
+            verification: {
+              type: 'object',
+              description: 'On-chain balance and discount when verify=true',
+            },
+          },
+        },
+        Proposal: {
+          type: 'object',
+          properties: {
+            proposalId: {
+              type: 'string',
+            },
+            proposer: {
+              type: 'string',
+            },
+            title: {
+              type: 'string',
+              description: 'First line of the description',
+            },
+            actions: {
+              type: 'array',
+              description: 'Targets, values and calldata, decoded when the target is a registered contract',
+              items: { type: 'object' },
+            },
+            voteStart: {
+              type: 'integer',
+              description: 'Snapshot block',
+            },
+            voteEnd: {
+              type: 'integer',
+              description: 'Last block of voting',
+            },
+            forVotes: { type: 'string' },
+            againstVotes: { type: 'string' },
+            abstainVotes: { type: 'string' },
+            state: {
+              type: 'string',
+              nullable: true,
+              enum: ['pending', 'active', 'canceled', 'defeated', 'succeeded', 'queued', 'executed'],
+              description: 'Null when the outcome depends on a quorum that is not indexed',
+            },
+            quorum: {
+              type: 'object',
+              description: 'Quorum at the snapshot, for and abstain votes counted towards it and progress in percent',
+            },
+            timelockOperationId: {
+              type: 'string',
+            },
+          },
+        },
+        VotingPowerCheckpoint: {
+          type: 'object',
+          properties: {
+            blockNumber: {
+              type: 'integer',
+            },
+            timestamp: {
+              type: 'integer',
+              nullable: true,
+            },
+            transactionHash: {
+              type: 'string',
+            },
+            previousVotes: {
+              type: 'string',
+              description: 'Voting power before the change, in wei',
+            },
+            newVotes: {
+              type: 'string',
+              description: 'Voting power after the change, in wei',
+            },
+            delta: {
+              type: 'string',
+              description: 'Signed change in wei',
+            },
+          },
+        },
+        FanRanking: {
+          type: 'object',
+          properties: {
+            rank: {
+              type: 'integer',
+            },
+            user: {
+              type: 'string',
+            },
+            points: {
+              type: 'integer',
+              description: 'Points earned in the period',
+            },
+            interactions: {
+              type: 'integer',
+            },
+            actions: {
+              type: 'array',
+              description: 'Count and points per action (like, share, stream, purchase)',
+              items: { type: 'object' },
+            },
+            lastInteractionAt: {
+              type: 'integer',
+              nullable: true,
+            },
+          },
+        },
+        TrackRecommendation: {
+          type: 'object',
+          properties: {
+            tokenId: {
+              type: 'string',
+            },
+            score: {
+              type: 'number',
+              description: 'Sum over the edges into the track of their weight times the user\'s interaction weight with the source',
+            },
+            interactionCount: {
+              type: 'integer',
+              description: 'Interactions with the track by all users',
+            },
+            because: {
+              type: 'array',
+              description: 'The interacted tracks linking to it, with the user\'s interactions, edge weight and score',
+              items: { type: 'object' },
+            },
+            explanation: {
+              type: 'string',
+              example: 'Because you shared track #2',
+            },
+          },
+        },
+        CfRecommendation: {
+          type: 'object',
+          properties: {
+            tokenId: {
+              type: 'string',
+            },
+            score: {
+              type: 'number',
+              description: 'Sum of the similarities to the user\'s tracks, weighted by the user\'s activity on them',
+            },
+            explanation: {
+              type: 'string',
+              example: 'Because you streamed track #3',
+            },
+            because: {
+              type: 'array',
+              description: 'The user\'s tracks it is similar to, with the user\'s main action on each, similarity and score',
+              items: { type: 'object' },
+            },
+          },
+        },
+        RelatedTrack: {
+          type: 'object',
+          properties: {
+            tokenId: {
+              type: 'string',
+            },
+            hops: {
+              type: 'integer',
+              description: 'Fewest edges to the track',
+            },
+            strength: {
+              type: 'number',
+              description: 'Product of weight / 100 along the strongest path',
+            },
+            path: {
+              type: 'array',
+              items: { type: 'string' },
+            },
+            metadataURI: {
+              type: 'string',
+              nullable: true,
+            },
+            interactionCount: {
+              type: 'integer',
+            },
+          },
+        },
         Error: {
           type: 'object',
           properties: {
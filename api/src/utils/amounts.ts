@@ -0,0 +1,49 @@
+import { formatUnits } from 'ethers';
+import { ValidationError } from '../middleware/error-handler';
+
+/**
+ * Parses an optional wei amount query parameter
+ * @param value The raw value
+ * @param name The parameter name used in the error message
+ * @returns The amount as a decimal string, or undefined when not given
+ */
+export const parseAmount = (value: unknown, name: string): string | undefined => {
+  if (value == null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    throw new ValidationError(`${name} must be a wei amount`);
+  }
+  return value;
+};
+
+// TuneToken uses the default ERC20 decimals
+export const TUNE_DECIMALS = 18;
+
+/**
+ * Formats a wei amount as a decimal token value, e.g. '1500000000000000000' as '1.5'
+ * @param amount The amount in wei
+ * @param decimals The token decimals
+ */
+export const formatAmount = (amount: string, decimals = TUNE_DECIMALS): string => formatUnits(amount, decimals);
+
+/**
+ * Adds a `<field>Formatted` value next to each wei amount of a row when the
+ * request asked for `formatted=true`
+ * @param row The response row
+ * @param fields The fields holding wei amounts
+ * @param formatted Whether formatted values were requested
+ */
+export const withFormatted = <T extends object>(row: T, fields: (keyof T & string)[], formatted: boolean) => {
+  if (!formatted) {
+    return row;
+  }
+  const values: Record<string, string> = {};
+  for (const field of fields) {
+    const amount = row[field];
+    if (typeof amount === 'string') {
+      values[`${field}Formatted`] = formatAmount(amount);
+    }
+  }
+  return { ...row, ...values };
+};
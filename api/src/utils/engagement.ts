@@ -0,0 +1,95 @@
+import { EngagementEntryType, IEngagementEntry } from '../models/EngagementEntry';
+import { IFanStats } from '../models/FanStats';
+
+/** The actions FanEngagement awards points for, by the record* function that logs them */
+export const RECORD_FUNCTIONS: Record<string, string> = {
+  recordLike: 'like',
+  recordShare: 'share',
+  recordStream: 'stream',
+  recordPurchase: 'purchase'
+};
+
+export const ENGAGEMENT_ACTIONS = Object.values(RECORD_FUNCTIONS);
+
+// claimRewards pays one reward token (1e18 wei) per 100 points
+export const POINTS_TO_REWARDS_RATE = 100n;
+
+export const LEADERBOARD_PERIODS = ['weekly', 'monthly', 'all-time'] as const;
+
+export type LeaderboardPeriod = typeof LEADERBOARD_PERIODS[number];
+
+export type FanState = Pick<
+  IFanStats,
+  'totalPoints' | 'points' | 'totalInteractions' | 'achievementCount' | 'rewardsClaimed' | 'firstInteractionAt' | 'lastInteractionAt'
+>;
+
+export const EMPTY_FAN_STATE: FanState = {
+  totalPoints: 0,
+  points: 0,
+  totalInteractions: 0,
+  achievementCount: 0,
+  rewardsClaimed: '0'
+};
+
+const DAY = 24 * 3600;
+
+/**
+ * What claimRewards would pay for a point balance, in reward token wei
+ */
+export const claimableRewards = (points: number) => (BigInt(points) * 10n ** 18n) / POINTS_TO_REWARDS_RATE;
+
+/**
+ * Applies one engagement entry to a user's totals the way FanEngagement
+ * updates userStats: every record* call adds points and an interaction, and
+ * claimRewards spends all points
+ * @param state The totals before the entry
+ * @param entry The entry
+ */
+export const foldFanState = (
+  state: FanState,
+  entry: Pick<IEngagementEntry, 'type' | 'points' | 'amount' | 'timestamp'>
+): FanState => {
+  switch (entry.type) {
+    case EngagementEntryType.POINTS_EARNED:
+      return {
+        ...state,
+        totalPoints: state.totalPoints + (entry.points ?? 0),
+        points: state.points + (entry.points ?? 0),
+        totalInteractions: state.totalInteractions + 1,
+        firstInteractionAt: state.firstInteractionAt ?? entry.timestamp,
+        lastInteractionAt: entry.timestamp ?? state.lastInteractionAt
+      };
+    case EngagementEntryType.ACHIEVEMENT_UNLOCKED:
+      return { ...state, achievementCount: state.achievementCount + 1 };
+    case EngagementEntryType.REWARDS_CLAIMED:
+      return {
+        ...state,
+        points: 0,
+        rewardsClaimed: (BigInt(state.rewardsClaimed) + BigInt(entry.amount ?? '0')).toString()
+      };
+  }
+};
+
+/**
+ * The calendar period a leaderboard covers: the UTC week from Monday or the
+ * UTC month containing a time, or everything for all-time
+ * @param period The leaderboard period
+ * @param at Unix timestamp inside the period
+ * @returns The period bounds as unix timestamps, `to` exclusive, or null for all-time
+ */
+export const leaderboardWindow = (period: LeaderboardPeriod, at: number) => {
+  if (period === 'all-time') {
+    return null;
+  }
+  const date = new Date(at * 1000);
+  if (period === 'weekly') {
+    const dayStart = Math.floor(at / DAY) * DAY;
+    // getUTCDay is 0 on Sunday
+    const from = dayStart - ((date.getUTCDay() + 6) % 7) * DAY;
+    return { from, to: from + 7 * DAY };
+  }
+  return {
+    from: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / 1000,
+    to: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1) / 1000
+  };
+};
@@ -0,0 +1,82 @@
+import { ValidationError } from '../middleware/error-handler';
+import { getFinalityConfig } from '../config/networks';
+import { Block } from '../models/Block';
+
+export const Finality = {
+  LATEST: 'latest',
+  SAFE: 'safe',
+  FINALIZED: 'finalized'
+} as const;
+
+export type Finality = typeof Finality[keyof typeof Finality];
+
+/**
+ * Parses the `finality` query parameter, defaulting to `latest`
+ * @param value The raw query parameter value
+ * @returns The requested finality level
+ */
+export const parseFinality = (value: unknown): Finality => {
+  if (value == null || value === '') {
+    return Finality.LATEST;
+  }
+  if (!Object.values(Finality).includes(value as Finality)) {
+    throw new ValidationError(`Invalid finality, expected one of: ${Object.values(Finality).join(', ')}`);
+  }
+  return value as Finality;
+};
+
+/**
+ * Builds a query filter restricting block-derived rows to a finality level
+ * @param finality The requested finality level
+ * @param network The network whose confirmation depths apply
+ * @returns A filter for Block, Transaction and Event queries
+ */
+export const finalityFilter = (finality: Finality, network?: string): Record<string, unknown> => {
+  switch (finality) {
+    case Finality.FINALIZED:
+      return { finalized: true };
+    case Finality.SAFE:
+      return { confirmations: { $gte: getFinalityConfig(network).safeDepth } };
+    default:
+      return {};
+  }
+};
+
+/**
+ * Finds the highest stored block that satisfies a finality level
+ * @param finality The requested finality level
+ * @param network The network whose confirmation depths apply
+ * @returns The block number, or null when no block qualifies yet
+ */
+export const getFinalityHead = async (finality: Finality, network: string): Promise<number | null> => {
+  const block = await Block.findOne({ network, ...finalityFilter(finality, network) })
+    .sort({ number: -1 })
+    .lean();
+  return block ? block.number : null;
+};
+
+/**
+ * Builds a query filter keeping block-derived rows (sales, royalty entries,
+ * payments...) at or below the finality head of their network. Without a
+ * network every network with stored blocks is capped at its own head.
+ * Queries that already use `$or` should combine it under `$and`.
+ * @param finality The requested finality level
+ * @param network The network the rows belong to
+ * @returns A filter on `network` and `blockNumber`, empty for `latest`
+ */
+export const blockFinalityFilter = async (finality: Finality, network?: string): Promise<Record<string, unknown>> => {
+  if (finality === Finality.LATEST) {
+    return {};
+  }
+  const networks: string[] = network ? [network] : await Block.distinct('network');
+  const heads = await Promise.all(networks.map(async name => ({ name, head: await getFinalityHead(finality, name) })));
+  const caps = heads
+    .filter(({ head }) => head != null)
+    .map(({ name, head }) => ({ network: name, blockNumber: { $lte: head } }));
+
+  if (caps.length === 0) {
+    // No block meets the finality yet, so no row does either
+    return { blockNumber: { $lt: 0 } };
+  }
+  return caps.length === 1 ? caps[0] : { $or: caps };
+};
@@ -0,0 +1,203 @@
+import { AbiCoder, getAddress, keccak256, toUtf8Bytes, zeroPadBytes } from 'ethers';
+import { IProposal, ProposalState } from '../models/Proposal';
+import { ITimelockOperation, TimelockOperationStatus } from '../models/TimelockOperation';
+import { VoteSupport } from '../models/Vote';
+
+// GovernorVotesQuorumFraction expresses the quorum in percent of the supply
+export const QUORUM_DENOMINATOR = 100n;
+
+export const SUPPORT_NAMES: Record<VoteSupport, string> = {
+  [VoteSupport.AGAINST]: 'against',
+  [VoteSupport.FOR]: 'for',
+  [VoteSupport.ABSTAIN]: 'abstain'
+};
+
+const ZERO_HASH = '0x' + '0'.repeat(64);
+
+type ProposalTally = Pick<IProposal, 'forVotes' | 'againstVotes' | 'abstainVotes'>;
+type ProposalLifecycle = ProposalTally & Pick<
+  IProposal,
+  'voteStart' | 'voteEnd' | 'eta' | 'queuedBlock' | 'executedBlock' | 'canceledBlock'
+>;
+type OperationLifecycle = Pick<ITimelockOperation, 'executedBlock' | 'cancelledBlock'>;
+
+export interface StateTransition {
+  state: ProposalState;
+  blockNumber: number;
+  timestamp?: number;
+  transactionHash?: string;
+}
+
+/**
+ * The TimelockController batch id GovernorTimelockControl queues a proposal
+ * as: hashOperationBatch with no predecessor and the governor address XORed
+ * into the description hash as salt
+ * @param governor The governor address
+ * @param targets The proposal targets
+ * @param values The proposal values in wei
+ * @param calldatas The proposal calldatas
+ * @param description The proposal description
+ */
+export const timelockOperationId = (
+  governor: string,
+  targets: string[],
+  values: (string | bigint)[],
+  calldatas: string[],
+  description: string
+) => {
+  const descriptionHash = BigInt(keccak256(toUtf8Bytes(description)));
+  const governorBytes = BigInt(zeroPadBytes(getAddress(governor), 32));
+  const salt = '0x' + (governorBytes ^ descriptionHash).toString(16).padStart(64, '0');
+  return keccak256(AbiCoder.defaultAbiCoder().encode(
+    ['address[]', 'uint256[]', 'bytes[]', 'bytes32', 'bytes32'],
+    [targets, values, calldatas, ZERO_HASH, salt]
+  ));
+};
+
+/**
+ * The first line of a proposal description, without markdown heading marks
+ */
+export const proposalTitle = (description: string) =>
+  (description.split('\n').find(line => line.trim()) ?? '').replace(/^\s*#+\s*/, '').trim();
+
+/**
+ * The quorum GovernorVotesQuorumFraction requires at a timepoint
+ * @param pastTotalSupply The token supply at the proposal snapshot
+ * @param numerator The quorum numerator in effect at the snapshot
+ */
+export const quorumAt = (pastTotalSupply: bigint, numerator: bigint) =>
+  pastTotalSupply * numerator / QUORUM_DENOMINATOR;
+
+/**
+ * How far a proposal is towards its quorum. GovernorCountingSimple counts
+ * for and abstain votes towards it.
+ * @param proposal The proposal tallies
+ * @param quorum The quorum at the snapshot, null when the supply is not indexed
+ */
+export const quorumProgress = (proposal: ProposalTally, quorum: bigint | null) => {
+  const votes = BigInt(proposal.forVotes) + BigInt(proposal.abstainVotes);
+  return {
+    quorum: quorum === null ? null : quorum.toString(),
+    votes: votes.toString(),
+    // Percentage with two decimals, above 100 once the quorum is exceeded
+    progress: quorum === null ? null : quorum === 0n ? 100 : Number(votes * 10000n / quorum) / 100,
+    reached: quorum === null ? null : votes >= quorum
+  };
+};
+
+/**
+ * The proposal state the way Governor.state and GovernorTimelockControl.state
+ * compute it
+ * @param proposal The proposal
+ * @param currentBlock The block the governor is indexed up to
+ * @param quorum The quorum at the snapshot, null when the supply is not indexed
+ * @param operation The proposal's timelock operation, if indexed
+ * @returns The state, or null when it depends on an unknown quorum
+ */
+export const proposalState = (
+  proposal: ProposalLifecycle,
+  currentBlock: number,
+  quorum: bigint | null,
+  operation?: OperationLifecycle | null
+): ProposalState | null => {
+  if (proposal.executedBlock != null) {
+    return ProposalState.EXECUTED;
+  }
+  if (proposal.canceledBlock != null) {
+    return ProposalState.CANCELED;
+  }
+  if (proposal.voteStart >= currentBlock) {
+    return ProposalState.PENDING;
+  }
+  if (proposal.voteEnd >= currentBlock) {
+    return ProposalState.ACTIVE;
+  }
+
+  const succeeded = BigInt(proposal.forVotes) > BigInt(proposal.againstVotes);
+  if (!succeeded) {
+    return ProposalState.DEFEATED;
+  }
+  if (proposal.queuedBlock == null) {
+    if (quorum === null) {
+      return null;
+    }
+    return quorumProgress(proposal, quorum).reached ? ProposalState.SUCCEEDED : ProposalState.DEFEATED;
+  }
+
+  // Executed or cancelled straight on the timelock
+  if (operation?.executedBlock != null) {
+    return ProposalState.EXECUTED;
+  }
+  if (operation?.cancelledBlock != null) {
+    return ProposalState.CANCELED;
+  }
+  return ProposalState.QUEUED;
+};
+
+/**
+ * The states a proposal went through up to its current one. Logged
+ * transitions carry their transaction; the start and end of voting are placed
+ * at the first block past voteStart and voteEnd.
+ * @param proposal The proposal
+ * @param currentBlock The block the governor is indexed up to
+ * @param current The current state from proposalState
+ */
+export const stateTransitions = (
+  proposal: ProposalLifecycle & Pick<
+    IProposal,
+    'proposedBlock' | 'proposedAt' | 'transactionHash' | 'queuedAt' | 'executedAt' | 'canceledAt'
+  >,
+  currentBlock: number,
+  current: ProposalState | null
+): StateTransition[] => {
+  const transitions: StateTransition[] = [{
+    state: ProposalState.PENDING,
+    blockNumber: proposal.proposedBlock,
+    timestamp: proposal.proposedAt,
+    transactionHash: proposal.transactionHash
+  }];
+  // A cancellation ends the proposal wherever it was
+  const endedBy = proposal.canceledBlock ?? Infinity;
+
+  if (currentBlock > proposal.voteStart && proposal.voteStart + 1 < endedBy) {
+    transitions.push({ state: ProposalState.ACTIVE, blockNumber: proposal.voteStart + 1 });
+  }
+  if (currentBlock > proposal.voteEnd && proposal.voteEnd + 1 < endedBy) {
+    const outcome = proposal.queuedBlock != null || proposal.executedBlock != null
+      ? ProposalState.SUCCEEDED
+      : current;
+    if (outcome === ProposalState.SUCCEEDED || outcome === ProposalState.DEFEATED) {
+      transitions.push({ state: outcome, blockNumber: proposal.voteEnd + 1 });
+    }
+  }
+  if (proposal.queuedBlock != null) {
+    transitions.push({ state: ProposalState.QUEUED, blockNumber: proposal.queuedBlock, timestamp: proposal.queuedAt });
+  }
+  if (proposal.executedBlock != null) {
+    transitions.push({ state: ProposalState.EXECUTED, blockNumber: proposal.executedBlock, timestamp: proposal.executedAt });
+  }
+  if (proposal.canceledBlock != null) {
+    transitions.push({ state: ProposalState.CANCELED, blockNumber: proposal.canceledBlock, timestamp: proposal.canceledAt });
+  }
+  return transitions.sort((a, b) => a.blockNumber - b.blockNumber);
+};
+
+/**
+ * The state of a timelock operation at a time
+ * @param operation The operation
+ * @param at Unix timestamp
+ */
+export const timelockOperationStatus = (
+  operation: Pick<ITimelockOperation, 'readyAt' | 'executedBlock' | 'cancelledBlock'>,
+  at: number
+) => {
+  if (operation.cancelledBlock != null) {
+    return TimelockOperationStatus.CANCELLED;
+  }
+  if (operation.executedBlock != null) {
+    return TimelockOperationStatus.DONE;
+  }
+  return operation.readyAt != null && operation.readyAt <= at
+    ? TimelockOperationStatus.READY
+    : TimelockOperationStatus.WAITING;
+};
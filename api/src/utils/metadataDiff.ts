@@ -0,0 +1,68 @@
+import { ITokenMetadata } from '../models/MetadataCache';
+
+export type MetadataChangeType = 'added' | 'removed' | 'changed';
+
+export interface MetadataChange {
+  field: string;
+  change: MetadataChangeType;
+  from?: unknown;
+  to?: unknown;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value != null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Flattens metadata into dotted field paths. Attributes are keyed by their
+ * trait type (`attributes.Genre`) so reordering them is not a change.
+ */
+const flatten = (value: unknown, prefix: string, fields: Map<string, unknown>) => {
+  if (!isPlainObject(value)) {
+    fields.set(prefix, value);
+    return;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (path === 'attributes' && Array.isArray(child)) {
+      for (const attribute of child) {
+        if (isPlainObject(attribute) && attribute.trait_type != null) {
+          fields.set(`attributes.${attribute.trait_type}`, attribute.value);
+        }
+      }
+      continue;
+    }
+    flatten(child, path, fields);
+  }
+};
+
+const flattenMetadata = (metadata?: ITokenMetadata | null) => {
+  const fields = new Map<string, unknown>();
+  if (metadata) {
+    flatten(metadata, '', fields);
+  }
+  return fields;
+};
+
+/**
+ * Lists the metadata fields that differ between two documents
+ * @param from The earlier metadata
+ * @param to The later metadata
+ * @returns One entry per added, removed or changed field, sorted by field
+ */
+export const diffMetadata = (from?: ITokenMetadata | null, to?: ITokenMetadata | null): MetadataChange[] => {
+  const before = flattenMetadata(from);
+  const after = flattenMetadata(to);
+  const fields = Array.from(new Set([...before.keys(), ...after.keys()])).sort();
+
+  const changes: MetadataChange[] = [];
+  for (const field of fields) {
+    if (!before.has(field)) {
+      changes.push({ field, change: 'added', to: after.get(field) });
+    } else if (!after.has(field)) {
+      changes.push({ field, change: 'removed', from: before.get(field) });
+    } else if (JSON.stringify(before.get(field)) !== JSON.stringify(after.get(field))) {
+      changes.push({ field, change: 'changed', from: before.get(field), to: after.get(field) });
+    }
+  }
+  return changes;
+};
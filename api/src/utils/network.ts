@@ -0,0 +1,94 @@
+import { ValidationError } from '../middleware/error-handler';
+import { isKnownNetwork } from '../config/networks';
+import { Contract, ContractType } from '../models/Contract';
+import { validateAddress } from './validation';
+
+export class AmbiguousContractError extends Error {
+  statusCode = 409;
+
+  constructor() {
+    super('Contract is registered on multiple networks, specify a network');
+    this.name = 'AmbiguousContractError';
+  }
+}
+
+/**
+ * Parses an optional `network` query parameter or body field
+ * @param value The raw value
+ * @returns The network name, or undefined when not given
+ */
+export const parseNetwork = (value: unknown): string | undefined => {
+  if (value == null || value === '') {
+    return undefined;
+  }
+  if (!isKnownNetwork(value)) {
+    throw new ValidationError(`Unknown network: ${value}`);
+  }
+  return value;
+};
+
+/**
+ * Builds the filter selecting one contract by address, optionally scoped to
+ * a network. Without a network the address must be registered only once.
+ * @param address The contract address
+ * @param network The network scope, if any
+ * @returns A Contract query filter
+ * @throws AmbiguousContractError if the address exists on several networks
+ */
+export const contractScope = async (address: string, network?: string) => {
+  const filter: Record<string, string> = { address: address.toLowerCase() };
+  if (network) {
+    filter.network = network;
+  } else if ((await Contract.countDocuments(filter)) > 1) {
+    throw new AmbiguousContractError();
+  }
+  return filter;
+};
+
+/**
+ * Builds the filter shared by the read model endpoints from the `network`
+ * and `contract` query parameters
+ * @param query The request query
+ * @returns A filter on the `network` and `contractAddress` fields
+ */
+export const scopeFilter = (query: Record<string, unknown>) => {
+  const filter: Record<string, unknown> = {};
+  const network = parseNetwork(query.network);
+  if (network) {
+    filter.network = network;
+  }
+  if (query.contract) {
+    if (!validateAddress(query.contract as string)) {
+      throw new ValidationError('Invalid contract address');
+    }
+    filter.contractAddress = (query.contract as string).toLowerCase();
+  }
+  return filter;
+};
+
+/**
+ * Finds the one contract of a type selected by the `network` and `contract`
+ * query parameters
+ * @param type The contract type
+ * @param query The request query
+ * @returns The contract, or undefined when none matches
+ * @throws AmbiguousContractError if several contracts match
+ */
+export const findContractOfType = async (type: ContractType, query: Record<string, unknown>) => {
+  const filter: Record<string, unknown> = { type };
+  const network = parseNetwork(query.network);
+  if (network) {
+    filter.network = network;
+  }
+  if (query.contract) {
+    if (!validateAddress(query.contract as string)) {
+      throw new ValidationError('Invalid contract address');
+    }
+    filter.address = (query.contract as string).toLowerCase();
+  }
+  const contracts = await Contract.find(filter).limit(2).lean();
+  if (contracts.length > 1) {
+    throw new AmbiguousContractError();
+  }
+  return contracts[0];
+};
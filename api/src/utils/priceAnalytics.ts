@@ -0,0 +1,116 @@
+import { ValidationError } from '../middleware/error-handler';
+
+// Amounts are wei decimal strings, summed and compared as bigints
+export interface PricePoint {
+  price: string;
+  timestamp: number;
+}
+
+export interface WindowSummary {
+  volume: string;
+  count: number;
+  // Lowest sale price in the window, null without sales
+  floorPrice: string | null;
+}
+
+export interface Candle {
+  // Start of the interval, as a unix timestamp
+  time: number;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+  count: number;
+}
+
+/** Rolling windows reported by the analytics endpoint, in seconds */
+export const SALE_WINDOWS: Record<string, number> = {
+  '24h': 24 * 3600,
+  '7d': 7 * 24 * 3600,
+  '30d': 30 * 24 * 3600
+};
+
+/** Candle sizes that can be requested, in seconds */
+export const CANDLE_INTERVALS: Record<string, number> = {
+  '1h': 3600,
+  '4h': 4 * 3600,
+  '1d': 24 * 3600,
+  '1w': 7 * 24 * 3600
+};
+
+/**
+ * Parses an `interval` query parameter against a table of interval sizes.
+ * Only the table's own keys count, so `constructor` and the like are refused.
+ * @param value The raw query parameter value
+ * @param intervals Interval sizes in seconds, by name
+ * @param fallback The interval used when none is requested
+ * @returns The interval's name and size in seconds
+ */
+export const parseInterval = (value: unknown, intervals: Record<string, number>, fallback: string) => {
+  const interval = value == null || value === '' ? fallback : value;
+  if (typeof interval !== 'string' || !Object.prototype.hasOwnProperty.call(intervals, interval)) {
+    throw new ValidationError(`interval must be one of ${Object.keys(intervals).join(', ')}`);
+  }
+  return { interval, size: intervals[interval] };
+};
+
+const min = (a: bigint, b: bigint) => (a < b ? a : b);
+const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+/**
+ * Summarizes the sales made at or after a timestamp
+ * @param sales The sales to summarize
+ * @param since The start of the window, as a unix timestamp
+ */
+export const summarizeWindow = (sales: PricePoint[], since: number): WindowSummary => {
+  let volume = 0n;
+  let floor: bigint | null = null;
+  let count = 0;
+  for (const sale of sales) {
+    if (sale.timestamp < since) {
+      continue;
+    }
+    const price = BigInt(sale.price);
+    volume += price;
+    floor = floor === null ? price : min(floor, price);
+    count += 1;
+  }
+  return { volume: volume.toString(), count, floorPrice: floor === null ? null : floor.toString() };
+};
+
+/**
+ * Groups sales into OHLC candles. Intervals without sales are left out.
+ * @param sales The sales in chain order
+ * @param interval The candle size in seconds
+ * @returns The candles, oldest first
+ */
+export const buildCandles = (sales: PricePoint[], interval: number): Candle[] => {
+  const candles = new Map<number, { open: bigint; high: bigint; low: bigint; close: bigint; volume: bigint; count: number }>();
+  for (const sale of sales) {
+    const time = Math.floor(sale.timestamp / interval) * interval;
+    const price = BigInt(sale.price);
+    const candle = candles.get(time);
+    if (!candle) {
+      candles.set(time, { open: price, high: price, low: price, close: price, volume: price, count: 1 });
+      continue;
+    }
+    candle.high = max(candle.high, price);
+    candle.low = min(candle.low, price);
+    candle.close = price;
+    candle.volume += price;
+    candle.count += 1;
+  }
+
+  return [...candles.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([time, candle]) => ({
+      time,
+      open: candle.open.toString(),
+      high: candle.high.toString(),
+      low: candle.low.toString(),
+      close: candle.close.toString(),
+      volume: candle.volume.toString(),
+      count: candle.count
+    }));
+};
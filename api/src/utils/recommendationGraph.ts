@@ -0,0 +1,193 @@
+import { ITrackEdge } from '../models/TrackEdge';
+import { IUserInteraction } from '../models/UserInteraction';
+
+export type GraphEdge = Pick<ITrackEdge, 'fromTrack' | 'toTrack' | 'weight'>;
+
+/** recordUserInteraction's interaction types, by their on-chain value */
+export const INTERACTION_TYPES = ['view', 'like', 'share'] as const;
+
+// How much one interaction says about a user's taste, by interaction type
+export const INTERACTION_WEIGHTS = [1, 3, 5];
+
+export interface RelatedTrack {
+  tokenId: string;
+  // Fewest edges to the track
+  hops: number;
+  // Product of weight / 100 along the strongest path found
+  strength: number;
+  path: string[];
+}
+
+export interface TrackPath {
+  path: string[];
+  edges: GraphEdge[];
+  hops: number;
+  totalWeight: number;
+}
+
+export interface Recommendation {
+  tokenId: string;
+  score: number;
+  // Interactions with the track by all users
+  interactionCount: number;
+  because: {
+    tokenId: string;
+    interactions: Record<string, number>;
+    weight: number;
+    score: number;
+  }[];
+}
+
+/**
+ * Orders token IDs numerically
+ */
+export const compareTokenIds = (a: string, b: string) => {
+  const diff = BigInt(a) - BigInt(b);
+  return diff === 0n ? 0 : diff < 0n ? -1 : 1;
+};
+
+/**
+ * Groups edges by the track they leave from
+ * @param edges Directed edges
+ */
+export const outgoingEdges = (edges: GraphEdge[]) => {
+  const outgoing = new Map<string, GraphEdge[]>();
+  for (const edge of edges) {
+    outgoing.set(edge.fromTrack, [...(outgoing.get(edge.fromTrack) ?? []), edge]);
+  }
+  return outgoing;
+};
+
+/**
+ * The tracks reachable from a track in at most `depth` edges, strongest
+ * first. A path is as strong as the product of its weights out of 100, so
+ * weak links anywhere along it weaken the relation.
+ * @param edges The edges around the track
+ * @param start The track's token ID
+ * @param depth The most edges to follow
+ */
+export const relatedTracks = (edges: GraphEdge[], start: string, depth: number): RelatedTrack[] => {
+  const outgoing = outgoingEdges(edges);
+  const best = new Map<string, RelatedTrack>();
+  let frontier = new Map([[start, { strength: 1, path: [start] }]]);
+
+  for (let hops = 1; hops <= depth && frontier.size; hops++) {
+    const next = new Map<string, { strength: number; path: string[] }>();
+    for (const [track, reached] of frontier) {
+      for (const edge of outgoing.get(track) ?? []) {
+        if (edge.toTrack === start) {
+          continue;
+        }
+        const strength = reached.strength * edge.weight / 100;
+        const known = best.get(edge.toTrack);
+        if (known && known.strength >= strength) {
+          continue;
+        }
+        const path = [...reached.path, edge.toTrack];
+        best.set(edge.toTrack, { tokenId: edge.toTrack, hops: known?.hops ?? hops, strength, path });
+        next.set(edge.toTrack, { strength, path });
+      }
+    }
+    frontier = next;
+  }
+
+  return [...best.values()].sort((a, b) => b.strength - a.strength || a.hops - b.hops || compareTokenIds(a.tokenId, b.tokenId));
+};
+
+/**
+ * The path between two tracks with the fewest edges, following edge
+ * direction. Among equally short paths the one with the most total weight
+ * wins.
+ * @param edges The edges around the tracks
+ * @param from The starting track's token ID
+ * @param to The target track's token ID
+ * @returns The path, or null when the target cannot be reached
+ */
+export const shortestPath = (edges: GraphEdge[], from: string, to: string): TrackPath | null => {
+  const outgoing = outgoingEdges(edges);
+  const reached = new Map<string, { hops: number; totalWeight: number; edge?: GraphEdge }>([[from, { hops: 0, totalWeight: 0 }]]);
+  let frontier = [from];
+
+  // Breadth first, one layer per edge, keeping the heaviest way into each track
+  while (frontier.length && !reached.has(to)) {
+    const next = new Map<string, { hops: number; totalWeight: number; edge: GraphEdge }>();
+    for (const track of frontier) {
+      const { hops, totalWeight } = reached.get(track)!;
+      for (const edge of outgoing.get(track) ?? []) {
+        if (reached.has(edge.toTrack)) {
+          continue;
+        }
+        const candidate = { hops: hops + 1, totalWeight: totalWeight + edge.weight, edge };
+        const known = next.get(edge.toTrack);
+        if (!known || candidate.totalWeight > known.totalWeight) {
+          next.set(edge.toTrack, candidate);
+        }
+      }
+    }
+    next.forEach((value, track) => reached.set(track, value));
+    frontier = [...next.keys()];
+  }
+
+  const target = reached.get(to);
+  if (!target) {
+    return null;
+  }
+  const pathEdges: GraphEdge[] = [];
+  for (let step = target; step.edge; step = reached.get(step.edge.fromTrack)!) {
+    pathEdges.unshift(step.edge);
+  }
+  return {
+    path: [from, ...pathEdges.map(edge => edge.toTrack)],
+    edges: pathEdges,
+    hops: target.hops,
+    totalWeight: target.totalWeight
+  };
+};
+
+/**
+ * Ranks the tracks a user has not interacted with yet. Like
+ * getRecommendationsForUser it follows the edges out of every track the
+ * user interacted with, but each edge's weight counts once per interaction
+ * with its source track, scaled by INTERACTION_WEIGHTS, so a share says more
+ * than a view. Ties go to the most interacted-with track.
+ * @param interactions The user's interactions
+ * @param edges The edges out of the tracks the user interacted with
+ * @param interactionCounts Interactions by all users per track
+ */
+export const recommendTracks = (
+  interactions: Pick<IUserInteraction, 'tokenId' | 'interactionType'>[],
+  edges: GraphEdge[],
+  interactionCounts: Map<string, number>
+): Recommendation[] => {
+  const seeds = new Map<string, { affinity: number; interactions: Record<string, number> }>();
+  for (const { tokenId, interactionType } of interactions) {
+    const seed = seeds.get(tokenId) ?? { affinity: 0, interactions: {} };
+    const type = INTERACTION_TYPES[interactionType] ?? String(interactionType);
+    seed.affinity += INTERACTION_WEIGHTS[interactionType] ?? 0;
+    seed.interactions[type] = (seed.interactions[type] ?? 0) + 1;
+    seeds.set(tokenId, seed);
+  }
+
+  const candidates = new Map<string, Recommendation>();
+  for (const edge of edges) {
+    const seed = seeds.get(edge.fromTrack);
+    if (!seed || seeds.has(edge.toTrack) || edge.fromTrack === edge.toTrack) {
+      continue;
+    }
+    const candidate = candidates.get(edge.toTrack) ?? {
+      tokenId: edge.toTrack,
+      score: 0,
+      interactionCount: interactionCounts.get(edge.toTrack) ?? 0,
+      because: []
+    };
+    const score = seed.affinity * edge.weight;
+    candidate.score += score;
+    candidate.because.push({ tokenId: edge.fromTrack, interactions: seed.interactions, weight: edge.weight, score });
+    candidates.set(edge.toTrack, candidate);
+  }
+
+  const ranked = [...candidates.values()];
+  ranked.forEach(candidate => candidate.because.sort((a, b) => b.score - a.score || compareTokenIds(a.tokenId, b.tokenId)));
+  return ranked.sort((a, b) =>
+    b.score - a.score || b.interactionCount - a.interactionCount || compareTokenIds(a.tokenId, b.tokenId));
+};
@@ -0,0 +1,255 @@
+import { compareTokenIds, INTERACTION_TYPES, Recommendation } from './recommendationGraph';
+
+export const RECOMMENDATION_STRATEGIES = ['graph', 'cf', 'hybrid'] as const;
+
+export type RecommendationStrategy = typeof RECOMMENDATION_STRATEGIES[number];
+
+/** What a user did with a track, as explanations phrase it */
+export const ACTION_VERBS: Record<string, string> = {
+  view: 'viewed',
+  like: 'liked',
+  share: 'shared',
+  stream: 'streamed',
+  purchase: 'bought'
+};
+
+// A primary or marketplace purchase counts like FanEngagement's PURCHASE_POINTS
+export const PURCHASE_WEIGHT = 5;
+
+// Share of the hybrid score taken from the graph, the rest coming from collaborative filtering
+export const HYBRID_GRAPH_SHARE = 0.5;
+
+/** One kind of activity of a user on a track, weighted by how much it says about their taste */
+export interface Signal {
+  user: string;
+  tokenId: string;
+  action: string;
+  weight: number;
+}
+
+export interface UserItem {
+  // Matrix cell: log(1 + total weight), so heavy repeat activity does not drown the rest
+  value: number;
+  // Total weight per action
+  actions: Record<string, number>;
+}
+
+export type InteractionMatrix = Map<string, Map<string, UserItem>>;
+
+export interface SimilarItem {
+  tokenId: string;
+  // Cosine similarity of the two tracks' user columns
+  similarity: number;
+  commonUsers: number;
+}
+
+export interface SimilarityOptions {
+  // Similar tracks kept per track
+  neighbors: number;
+  // Pairs seen together by fewer users are ignored as noise
+  minCommonUsers: number;
+  // A user's strongest tracks taken into account, bounding the pairs per user
+  maxItemsPerUser: number;
+}
+
+export const DEFAULT_SIMILARITY_OPTIONS: SimilarityOptions = {
+  neighbors: 20,
+  minCommonUsers: 2,
+  maxItemsPerUser: 200
+};
+
+export interface CfRecommendation {
+  tokenId: string;
+  score: number;
+  explanation: string;
+  because: {
+    tokenId: string;
+    action: string;
+    similarity: number;
+    score: number;
+  }[];
+}
+
+export type ExplainedRecommendation = Recommendation & { explanation: string };
+
+export interface HybridRecommendation {
+  tokenId: string;
+  score: number;
+  explanation: string;
+  graph: ExplainedRecommendation | null;
+  cf: CfRecommendation | null;
+}
+
+/**
+ * Phrases why a track is recommended
+ * @param action What the user did with the track that led to it
+ * @param tokenId That track's token ID
+ */
+export const explain = (action: string, tokenId: string) => `Because you ${ACTION_VERBS[action] ?? action} track #${tokenId}`;
+
+/**
+ * Folds signals into a user-item matrix
+ * @param signals Activity of any number of users
+ */
+export const buildMatrix = (signals: Signal[]): InteractionMatrix => {
+  const matrix: InteractionMatrix = new Map();
+  for (const { user, tokenId, action, weight } of signals) {
+    const items = matrix.get(user) ?? new Map<string, UserItem>();
+    const item = items.get(tokenId) ?? { value: 0, actions: {} };
+    item.actions[action] = (item.actions[action] ?? 0) + weight;
+    item.value = Math.log1p(Object.values(item.actions).reduce((sum, total) => sum + total, 0));
+    items.set(tokenId, item);
+    matrix.set(user, items);
+  }
+  return matrix;
+};
+
+/**
+ * The action that weighs most in a user's activity on a track, the earliest
+ * seen on a tie
+ */
+export const topAction = (item: UserItem) =>
+  Object.entries(item.actions).reduce((best, current) => (current[1] > best[1] ? current : best))[0];
+
+const strongestItems = (items: Map<string, UserItem>, limit: number) =>
+  [...items.entries()]
+    .sort(([a, x], [b, y]) => y.value - x.value || compareTokenIds(a, b))
+    .slice(0, limit);
+
+/**
+ * Item-item cosine similarity over the users of a matrix, keeping the most
+ * similar tracks of each track
+ * @param matrix The user-item matrix
+ * @param options Neighbor count and noise thresholds
+ */
+export const itemSimilarities = (
+  matrix: InteractionMatrix,
+  options: SimilarityOptions = DEFAULT_SIMILARITY_OPTIONS
+): Map<string, SimilarItem[]> => {
+  const norms = new Map<string, number>();
+  const pairs = new Map<string, Map<string, { dot: number; common: number }>>();
+
+  for (const items of matrix.values()) {
+    const counted = strongestItems(items, options.maxItemsPerUser);
+    for (let i = 0; i < counted.length; i++) {
+      const [a, x] = counted[i];
+      norms.set(a, (norms.get(a) ?? 0) + x.value * x.value);
+      for (let j = i + 1; j < counted.length; j++) {
+        const [b, y] = counted[j];
+        const [first, second] = compareTokenIds(a, b) < 0 ? [a, b] : [b, a];
+        const row = pairs.get(first) ?? new Map<string, { dot: number; common: number }>();
+        const pair = row.get(second) ?? { dot: 0, common: 0 };
+        pair.dot += x.value * y.value;
+        pair.common += 1;
+        row.set(second, pair);
+        pairs.set(first, row);
+      }
+    }
+  }
+
+  const similar = new Map<string, SimilarItem[]>();
+  const add = (tokenId: string, item: SimilarItem) => similar.set(tokenId, [...(similar.get(tokenId) ?? []), item]);
+  for (const [a, row] of pairs) {
+    for (const [b, { dot, common }] of row) {
+      if (common < options.minCommonUsers || dot === 0) {
+        continue;
+      }
+      const similarity = dot / Math.sqrt(norms.get(a)! * norms.get(b)!);
+      add(a, { tokenId: b, similarity, commonUsers: common });
+      add(b, { tokenId: a, similarity, commonUsers: common });
+    }
+  }
+
+  for (const [tokenId, items] of similar) {
+    items.sort((x, y) => y.similarity - x.similarity || y.commonUsers - x.commonUsers || compareTokenIds(x.tokenId, y.tokenId));
+    similar.set(tokenId, items.slice(0, options.neighbors));
+  }
+  return similar;
+};
+
+/**
+ * Ranks the tracks similar to the ones a user was active on, each scored by
+ * the similarities weighted by the user's activity on the track they come
+ * from
+ * @param items The user's row of the matrix
+ * @param similarities Similar tracks of the user's tracks
+ */
+export const recommendSimilar = (
+  items: Map<string, UserItem>,
+  similarities: Map<string, SimilarItem[]>
+): CfRecommendation[] => {
+  const candidates = new Map<string, CfRecommendation>();
+  for (const [source, item] of items) {
+    for (const { tokenId, similarity } of similarities.get(source) ?? []) {
+      if (items.has(tokenId)) {
+        continue;
+      }
+      const candidate = candidates.get(tokenId) ?? { tokenId, score: 0, explanation: '', because: [] };
+      const score = similarity * item.value;
+      candidate.score += score;
+      candidate.because.push({ tokenId: source, action: topAction(item), similarity, score });
+      candidates.set(tokenId, candidate);
+    }
+  }
+
+  const ranked = [...candidates.values()];
+  for (const candidate of ranked) {
+    candidate.because.sort((a, b) => b.score - a.score || compareTokenIds(a.tokenId, b.tokenId));
+    candidate.explanation = explain(candidate.because[0].action, candidate.because[0].tokenId);
+  }
+  return ranked.sort((a, b) => b.score - a.score || compareTokenIds(a.tokenId, b.tokenId));
+};
+
+/**
+ * Adds an explanation to a graph recommendation from the track that
+ * contributed most and the strongest way the user interacted with it
+ */
+export const explainGraphRecommendation = (recommendation: Recommendation): ExplainedRecommendation => {
+  const [top] = recommendation.because;
+  // INTERACTION_WEIGHTS grow with the interaction type
+  const action = [...INTERACTION_TYPES].reverse().find(type => top.interactions[type]) ?? INTERACTION_TYPES[0];
+  return { ...recommendation, explanation: explain(action, top.tokenId) };
+};
+
+const normalizer = (scores: number[]) => {
+  const max = Math.max(0, ...scores);
+  return (score: number) => (max > 0 ? score / max : 0);
+};
+
+/**
+ * Blends graph and collaborative filtering recommendations. Each side's
+ * scores are scaled to its best one before HYBRID_GRAPH_SHARE weighs them,
+ * and the explanation comes from the side that contributed more.
+ * @param graph Graph recommendations
+ * @param cf Collaborative filtering recommendations
+ * @param exclude Tracks the user was already active on
+ */
+export const hybridRecommendations = (
+  graph: ExplainedRecommendation[],
+  cf: CfRecommendation[],
+  exclude: Set<string>
+): HybridRecommendation[] => {
+  const graphScale = normalizer(graph.map(recommendation => recommendation.score));
+  const cfScale = normalizer(cf.map(recommendation => recommendation.score));
+  const graphById = new Map(graph.map(recommendation => [recommendation.tokenId, recommendation]));
+  const cfById = new Map(cf.map(recommendation => [recommendation.tokenId, recommendation]));
+
+  const blended: HybridRecommendation[] = [];
+  for (const tokenId of new Set([...graphById.keys(), ...cfById.keys()])) {
+    if (exclude.has(tokenId)) {
+      continue;
+    }
+    const fromGraph = graphById.get(tokenId) ?? null;
+    const fromCf = cfById.get(tokenId) ?? null;
+    const graphPart = fromGraph ? HYBRID_GRAPH_SHARE * graphScale(fromGraph.score) : 0;
+    const cfPart = fromCf ? (1 - HYBRID_GRAPH_SHARE) * cfScale(fromCf.score) : 0;
+    blended.push({
+      tokenId,
+      score: graphPart + cfPart,
+      explanation: (fromGraph && (!fromCf || graphPart >= cfPart) ? fromGraph : fromCf)!.explanation,
+      graph: fromGraph,
+      cf: fromCf
+    });
+  }
+  return blended.sort((a, b) => b.score - a.score || compareTokenIds(a.tokenId, b.tokenId));
+};
@@ -0,0 +1,154 @@
+import { RoyaltySource } from '../models/RoyaltyEntry';
+import { IRoyaltyPayment, RoyaltyPaymentType } from '../models/RoyaltyPayment';
+import { formatAmount } from './amounts';
+
+export type StatementPayment = Pick<
+  IRoyaltyPayment,
+  'network' | 'contractAddress' | 'tokenId' | 'amount' | 'type' | 'source' | 'isPositive'
+>;
+
+export interface StatementLine {
+  network: string;
+  contractAddress: string;
+  tokenId: string;
+  saleRoyalties: string;
+  streamingRoyalties: string;
+  adjustments: string;
+  total: string;
+}
+
+export interface RoyaltyStatement {
+  address: string;
+  // Period start (inclusive) and end (exclusive), as unix timestamps
+  from: number;
+  to: number;
+  openingBalance: string;
+  lines: StatementLine[];
+  totals: Omit<StatementLine, 'network' | 'contractAddress' | 'tokenId'>;
+  closingBalance: string;
+}
+
+/**
+ * Signed value of a payment: distributions and positive reconciliations add
+ * to the payee's balance, negative reconciliations deduct from it
+ */
+export const paymentValue = (payment: Pick<StatementPayment, 'amount' | 'isPositive'>) =>
+  payment.isPositive === false ? -BigInt(payment.amount) : BigInt(payment.amount);
+
+/**
+ * Builds a payee's statement for a period, with one line per track
+ * @param address The payee
+ * @param from The period start, inclusive
+ * @param to The period end, exclusive
+ * @param openingBalance Net earnings before the period, in wei
+ * @param payments The payee's payments within the period
+ */
+export const buildStatement = (
+  address: string,
+  from: number,
+  to: number,
+  openingBalance: bigint,
+  payments: StatementPayment[]
+): RoyaltyStatement => {
+  const lines = new Map<string, { key: StatementPayment; sale: bigint; streaming: bigint; adjustments: bigint }>();
+  for (const payment of payments) {
+    const id = `${payment.network}:${payment.contractAddress}:${payment.tokenId}`;
+    const line = lines.get(id) ?? { key: payment, sale: 0n, streaming: 0n, adjustments: 0n };
+    const value = paymentValue(payment);
+    if (payment.type === RoyaltyPaymentType.RECONCILIATION) {
+      line.adjustments += value;
+    } else if (payment.source === RoyaltySource.STREAMING) {
+      line.streaming += value;
+    } else {
+      line.sale += value;
+    }
+    lines.set(id, line);
+  }
+
+  const totals = { sale: 0n, streaming: 0n, adjustments: 0n };
+  const statementLines = [...lines.values()]
+    .sort((a, b) =>
+      a.key.network.localeCompare(b.key.network) ||
+      a.key.contractAddress.localeCompare(b.key.contractAddress) ||
+      Number(BigInt(a.key.tokenId) - BigInt(b.key.tokenId))
+    )
+    .map(({ key, sale, streaming, adjustments }) => {
+      totals.sale += sale;
+      totals.streaming += streaming;
+      totals.adjustments += adjustments;
+      return {
+        network: key.network,
+        contractAddress: key.contractAddress,
+        tokenId: key.tokenId,
+        saleRoyalties: sale.toString(),
+        streamingRoyalties: streaming.toString(),
+        adjustments: adjustments.toString(),
+        total: (sale + streaming + adjustments).toString()
+      };
+    });
+
+  const periodTotal = totals.sale + totals.streaming + totals.adjustments;
+  return {
+    address,
+    from,
+    to,
+    openingBalance: openingBalance.toString(),
+    lines: statementLines,
+    totals: {
+      saleRoyalties: totals.sale.toString(),
+      streamingRoyalties: totals.streaming.toString(),
+      adjustments: totals.adjustments.toString(),
+      total: periodTotal.toString()
+    },
+    closingBalance: (openingBalance + periodTotal).toString()
+  };
+};
+
+const CSV_COLUMNS = [
+  'line',
+  'network',
+  'contractAddress',
+  'tokenId',
+  'saleRoyalties',
+  'streamingRoyalties',
+  'adjustments',
+  'total'
+] as const;
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Renders a statement as CSV: an opening balance row, one row per track, a
+ * period total and the closing balance
+ * @param statement The statement
+ * @param formatted Whether to write amounts in TUNE rather than wei
+ */
+export const statementToCsv = (statement: RoyaltyStatement, formatted = false): string => {
+  const amount = (value: string) => (formatted ? formatAmount(value) : value);
+  const rows: Record<string, string>[] = [
+    { line: 'opening_balance', total: amount(statement.openingBalance) },
+    ...statement.lines.map(line => ({
+      line: 'track',
+      network: line.network,
+      contractAddress: line.contractAddress,
+      tokenId: line.tokenId,
+      saleRoyalties: amount(line.saleRoyalties),
+      streamingRoyalties: amount(line.streamingRoyalties),
+      adjustments: amount(line.adjustments),
+      total: amount(line.total)
+    })),
+    {
+      line: 'period_total',
+      saleRoyalties: amount(statement.totals.saleRoyalties),
+      streamingRoyalties: amount(statement.totals.streamingRoyalties),
+      adjustments: amount(statement.totals.adjustments),
+      total: amount(statement.totals.total)
+    },
+    { line: 'closing_balance', total: amount(statement.closingBalance) }
+  ];
+
+  return [
+    CSV_COLUMNS.join(','),
+    ...rows.map(row => CSV_COLUMNS.map(column => csvField(row[column] ?? '')).join(','))
+  ].join('\n') + '\n';
+};
@@ -0,0 +1,80 @@
+import { IServiceTier } from '../models/ServiceTier';
+
+export type TierTerms = Pick<IServiceTier, 'tier' | 'minTokens' | 'discountRate'>;
+
+// getServiceTierDiscount only looks at tiers 1 to 3
+export const SERVICE_TIER_COUNT = 3;
+
+const TUNE = 10n ** 18n;
+
+/** The tiers the TuneToken constructor sets up without logging them */
+export const DEFAULT_SERVICE_TIERS: TierTerms[] = [
+  { tier: 1, minTokens: (10_000n * TUNE).toString(), discountRate: 500 },
+  { tier: 2, minTokens: (50_000n * TUNE).toString(), discountRate: 1000 },
+  { tier: 3, minTokens: (100_000n * TUNE).toString(), discountRate: 2000 }
+];
+
+export interface TierResolution {
+  tier: number | null;
+  // In basis points
+  discountRate: number;
+  balance: string;
+  nextTier: {
+    tier: number;
+    minTokens: string;
+    discountRate: number;
+    tokensNeeded: string;
+  } | null;
+}
+
+/**
+ * Merges indexed tier updates over the constructor defaults
+ * @param updates The indexed ServiceTier rows
+ */
+export const effectiveTiers = (updates: TierTerms[]): TierTerms[] => {
+  const tiers = new Map(DEFAULT_SERVICE_TIERS.map(tier => [tier.tier, tier]));
+  for (const update of updates) {
+    tiers.set(update.tier, { tier: update.tier, minTokens: update.minTokens, discountRate: update.discountRate });
+  }
+  return [...tiers.values()].sort((a, b) => a.tier - b.tier);
+};
+
+/**
+ * Resolves a balance to its tier the way getServiceTierDiscount does: the
+ * highest discount among tiers 1 to 3 whose minimum the balance reaches. The
+ * next tier is the cheapest one to reach that discounts more.
+ * @param balance The holder's balance in wei
+ * @param tiers The tier table
+ */
+export const resolveTier = (balance: bigint, tiers: TierTerms[]): TierResolution => {
+  const counted = tiers.filter(t => t.tier >= 1 && t.tier <= SERVICE_TIER_COUNT).sort((a, b) => a.tier - b.tier);
+
+  let current: TierTerms | null = null;
+  for (const tier of counted) {
+    if (balance >= BigInt(tier.minTokens) && tier.discountRate > (current?.discountRate ?? 0)) {
+      current = tier;
+    }
+  }
+
+  const discountRate = current?.discountRate ?? 0;
+  const next = counted
+    .filter(t => t.discountRate > discountRate && BigInt(t.minTokens) > balance)
+    .sort((a, b) => {
+      const diff = BigInt(a.minTokens) - BigInt(b.minTokens);
+      return diff === 0n ? b.discountRate - a.discountRate : diff < 0n ? -1 : 1;
+    })[0];
+
+  return {
+    tier: current?.tier ?? null,
+    discountRate,
+    balance: balance.toString(),
+    nextTier: next
+      ? {
+        tier: next.tier,
+        minTokens: next.minTokens,
+        discountRate: next.discountRate,
+        tokensNeeded: (BigInt(next.minTokens) - balance).toString()
+      }
+      : null
+  };
+};
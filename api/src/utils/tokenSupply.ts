@@ -0,0 +1,116 @@
+import { id } from 'ethers';
+import { IPoolBalance, ITokenSupplyEntry, ITokenSupplyState, TokenSupplyEntryType } from '../models/TokenSupplyEntry';
+
+// TuneToken.MAX_SUPPLY
+export const MAX_SUPPLY = (2_000_000_000n * 10n ** 18n).toString();
+
+/** How mintInflation splits each mint across the pools, in percent */
+export const INFLATION_POOLS: { name: string; percent: bigint }[] = [
+  { name: 'communityRewardsPool', percent: 40n },
+  { name: 'ecosystemDevelopmentPool', percent: 30n },
+  { name: 'liquidityMiningPool', percent: 20n },
+  { name: 'governancePool', percent: 10n }
+];
+
+// TuneToken.EPOCH_DURATION, and the year advanceEpoch spreads the liquidity pool over
+export const EPOCH_DURATION = 7 * 24 * 3600;
+export const EPOCH_YEAR = 365 * 24 * 3600;
+
+const POOL_TOPICS = new Map(
+  INFLATION_POOLS.flatMap(({ name }) => {
+    const short = name.replace(/Pool$/, '');
+    return [name, short].map(candidate => [id(candidate), name] as const);
+  })
+);
+
+/**
+ * Names the pool of a PoolFunded event. The name is an indexed string, so
+ * only its hash is logged; hashes of unknown names are kept as they are.
+ * @param value The logged poolName
+ */
+export const poolName = (value: string) => {
+  if (/^0x[0-9a-f]{64}$/i.test(value)) {
+    return POOL_TOPICS.get(value.toLowerCase()) ?? value.toLowerCase();
+  }
+  return value;
+};
+
+/**
+ * Supply held outside the token contract
+ */
+export const circulatingSupply = (state: Pick<ITokenSupplyState, 'totalSupply' | 'contractBalance'>) =>
+  (BigInt(state.totalSupply) - BigInt(state.contractBalance)).toString();
+
+export const poolBalance = (pools: IPoolBalance[], name: string) =>
+  BigInt(pools.find(pool => pool.name === name)?.balance ?? '0');
+
+export interface SupplyPoint {
+  // Start of the interval, as a unix timestamp
+  time: number;
+  // Supply figures at the end of the interval
+  totalSupply: string;
+  circulatingSupply: string;
+  totalBurned: string;
+  pools: IPoolBalance[];
+  rewardPerToken: string;
+  // Minted and burned during the interval
+  minted: string;
+  burned: string;
+}
+
+export type SupplyChange = Pick<ITokenSupplyEntry, 'type' | 'amount' | 'state'> & { timestamp: number };
+
+const EMPTY_STATE: ITokenSupplyState = {
+  totalSupply: '0',
+  totalMinted: '0',
+  inflationMinted: '0',
+  totalBurned: '0',
+  contractBalance: '0',
+  pools: [],
+  rewardPerToken: '0'
+};
+
+/**
+ * Buckets supply ledger entries into a gap-free series of intervals
+ * covering `from`..`to`
+ * @param opening The supply before the first interval, if any
+ * @param changes Entries within the range, in chain order
+ * @param from The range start, as a unix timestamp
+ * @param to The range end, as a unix timestamp
+ * @param interval The interval size in seconds
+ */
+export const buildSupplySeries = (
+  opening: ITokenSupplyState | null,
+  changes: SupplyChange[],
+  from: number,
+  to: number,
+  interval: number
+): SupplyPoint[] => {
+  const points: SupplyPoint[] = [];
+  let state = opening ?? EMPTY_STATE;
+  let next = 0;
+  for (let time = Math.floor(from / interval) * interval; time <= to; time += interval) {
+    let minted = 0n;
+    let burned = 0n;
+    for (; next < changes.length && changes[next].timestamp < time + interval; next++) {
+      const change = changes[next];
+      if (change.type === TokenSupplyEntryType.MINTED || change.type === TokenSupplyEntryType.INFLATION) {
+        minted += BigInt(change.amount ?? '0');
+      } else if (change.type === TokenSupplyEntryType.BURNED) {
+        burned += BigInt(change.amount ?? '0');
+      }
+      state = change.state;
+    }
+    points.push({
+      time,
+      totalSupply: state.totalSupply,
+      circulatingSupply: circulatingSupply(state),
+      totalBurned: state.totalBurned,
+      pools: state.pools.map(({ name, balance }) => ({ name, balance })),
+      rewardPerToken: state.rewardPerToken,
+      minted: minted.toString(),
+      burned: burned.toString()
+    });
+  }
+  return points;
+};
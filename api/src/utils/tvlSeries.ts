@@ -0,0 +1,50 @@
+// Amounts are wei decimal strings; deltas are signed
+export interface TvlChange {
+  tvlDelta: string;
+  timestamp: number;
+}
+
+export interface TvlPoint {
+  // Start of the interval, as a unix timestamp
+  time: number;
+  // Total staked at the end of the interval
+  tvl: string;
+  inflow: string;
+  outflow: string;
+}
+
+/**
+ * Buckets changes to the total staked into a gap-free series of intervals
+ * covering `from`..`to`
+ * @param opening The total staked before the first interval
+ * @param changes Changes within the range, in chain order
+ * @param from The range start, as a unix timestamp
+ * @param to The range end, as a unix timestamp
+ * @param interval The interval size in seconds
+ */
+export const buildTvlSeries = (
+  opening: bigint,
+  changes: TvlChange[],
+  from: number,
+  to: number,
+  interval: number
+): TvlPoint[] => {
+  const points: TvlPoint[] = [];
+  let tvl = opening;
+  let next = 0;
+  for (let time = Math.floor(from / interval) * interval; time <= to; time += interval) {
+    let inflow = 0n;
+    let outflow = 0n;
+    for (; next < changes.length && changes[next].timestamp < time + interval; next++) {
+      const delta = BigInt(changes[next].tvlDelta);
+      if (delta >= 0n) {
+        inflow += delta;
+      } else {
+        outflow -= delta;
+      }
+      tvl += delta;
+    }
+    points.push({ time, tvl: tvl.toString(), inflow: inflow.toString(), outflow: outflow.toString() });
+  }
+  return points;
+};
@@ -0,0 +1,112 @@
+import { IVestingSchedule } from '../models/VestingSchedule';
+
+// Amounts are wei decimal strings, computed as bigints
+export type VestingTerms = Pick<
+  IVestingSchedule,
+  'totalAmount' | 'startTime' | 'duration' | 'revoked' | 'revokedAt' | 'releasedAmount'
+>;
+
+export interface VestingStatus {
+  // The timestamp the amounts are computed at
+  at: number;
+  vested: string;
+  locked: string;
+  released: string;
+  releasable: string;
+}
+
+export interface UnlockPoint {
+  // Start of the interval, as a unix timestamp
+  time: number;
+  // Vested during the interval
+  unlocked: string;
+  // Vested and still locked at the end of the interval
+  vested: string;
+  locked: string;
+}
+
+/** Unlock calendar intervals that can be requested, in seconds */
+export const VESTING_INTERVALS: Record<string, number> = {
+  '1d': 24 * 3600,
+  '1w': 7 * 24 * 3600,
+  '30d': 30 * 24 * 3600
+};
+
+/**
+ * Mirrors TuneToken._vestedAmount: nothing before the start, then linear
+ * over the duration, rounded down. The contract caps a revoked schedule at
+ * its end just like an active one, so revocation does not stop vesting.
+ * @param schedule The schedule
+ * @param at The timestamp to evaluate at
+ */
+export const vestedAmount = (schedule: VestingTerms, at: number): bigint => {
+  const total = BigInt(schedule.totalAmount);
+  if (total === 0n || at < schedule.startTime) {
+    return 0n;
+  }
+  const elapsed = at - schedule.startTime;
+  if (elapsed >= schedule.duration) {
+    return total;
+  }
+  return (total * BigInt(elapsed)) / BigInt(schedule.duration);
+};
+
+/**
+ * Mirrors TuneToken.lockedAmount, which reports nothing locked once the
+ * schedule is revoked
+ * @param schedule The schedule
+ * @param at The timestamp to evaluate at
+ */
+export const lockedAmount = (schedule: VestingTerms, at: number): bigint => {
+  if (schedule.revoked && schedule.revokedAt != null && at >= schedule.revokedAt) {
+    return 0n;
+  }
+  return BigInt(schedule.totalAmount) - vestedAmount(schedule, at);
+};
+
+/**
+ * Vested, locked and releasable amounts of a schedule at a timestamp
+ * @param schedule The schedule
+ * @param at The timestamp to evaluate at
+ */
+export const vestingStatus = (schedule: VestingTerms, at: number): VestingStatus => {
+  const vested = vestedAmount(schedule, at);
+  const released = BigInt(schedule.releasedAmount);
+  return {
+    at,
+    vested: vested.toString(),
+    locked: lockedAmount(schedule, at).toString(),
+    released: released.toString(),
+    releasable: (vested > released ? vested - released : 0n).toString()
+  };
+};
+
+/**
+ * Projects how much vests across all schedules in each interval covering
+ * `from`..`to`
+ * @param schedules The schedules to project
+ * @param from The range start, as a unix timestamp
+ * @param to The range end, as a unix timestamp
+ * @param interval The interval size in seconds
+ */
+export const buildUnlockCalendar = (
+  schedules: VestingTerms[],
+  from: number,
+  to: number,
+  interval: number
+): UnlockPoint[] => {
+  const points: UnlockPoint[] = [];
+  for (let time = Math.floor(from / interval) * interval; time <= to; time += interval) {
+    let unlocked = 0n;
+    let vested = 0n;
+    let locked = 0n;
+    for (const schedule of schedules) {
+      const end = vestedAmount(schedule, time + interval);
+      unlocked += end - vestedAmount(schedule, time);
+      vested += end;
+      locked += lockedAmount(schedule, time + interval);
+    }
+    points.push({ time, unlocked: unlocked.toString(), vested: vested.toString(), locked: locked.toString() });
+  }
+  return points;
+};
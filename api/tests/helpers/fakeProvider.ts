@@ -0,0 +1,114 @@
+import { Filter } from 'ethers';
+import { IndexerProvider } from '../../src/indexer/BlockIndexer';
+
+/**
+ * Minimal in-memory stand-in for a JSON-RPC node (e.g. anvil) that serves
+ * blocks, logs, transactions and receipts to the indexer.
+ */
+
+export interface FakeLog {
+  address: string;
+  blockNumber: number;
+  transactionHash: string;
+  index: number;
+  topics: string[];
+  data: string;
+}
+
+export const hashOf = (seed: number | string, prefix = 'b') => {
+  const hex = Buffer.from(`${prefix}${seed}`).toString('hex');
+  return `0x${hex.padStart(64, '0').slice(-64)}`;
+};
+
+export class FakeProvider implements IndexerProvider {
+  blocks: any[] = [];
+  logs: FakeLog[] = [];
+  transactions = new Map<string, any>();
+
+  constructor(blockCount = 0) {
+    this.mine(blockCount);
+  }
+
+  /**
+   * Appends blocks to the chain, optionally on a named fork
+   */
+  mine(count: number, fork = '') {
+    for (let i = 0; i < count; i++) {
+      const number = this.blocks.length;
+      const parent = this.blocks[number - 1];
+      this.blocks.push({
+        number,
+        hash: hashOf(`${number}${fork}`),
+        parentHash: parent ? parent.hash : hashOf('genesis'),
+        timestamp: 1700000000 + number * 12,
+        gasUsed: 0n,
+        gasLimit: 30000000n,
+        baseFeePerGas: 1000000000n,
+        difficulty: 0n,
+        nonce: '0x0000000000000000',
+        miner: '0x0000000000000000000000000000000000000000',
+        extraData: '0x',
+        transactions: []
+      });
+    }
+  }
+
+  /**
+   * Replaces every block from `height` upwards with a new fork
+   */
+  reorg(height: number, fork: string) {
+    const length = this.blocks.length;
+    this.blocks = this.blocks.slice(0, height);
+    this.logs = this.logs.filter(log => log.blockNumber < height);
+    this.mine(length - height, fork);
+  }
+
+  addLog(log: Omit<FakeLog, 'index'> & { index?: number }, from = '0x' + '1'.repeat(40)) {
+    const index = log.index ?? this.logs.filter(l => l.blockNumber === log.blockNumber).length;
+    this.logs.push({ ...log, index });
+    this.transactions.set(log.transactionHash, {
+      hash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      from,
+      to: log.address,
+      value: 0n,
+      gasPrice: 1000000000n,
+      data: '0x'
+    });
+  }
+
+  async getBlockNumber() {
+    return this.blocks.length - 1;
+  }
+
+  async getBlock(number: any) {
+    return this.blocks[Number(number)] ?? null;
+  }
+
+  async getLogs(filter: Filter) {
+    const addresses = ([] as string[]).concat((filter.address as string | string[]) ?? []);
+    const wanted = new Set(addresses.map(address => address.toLowerCase()));
+    const fromBlock = Number(filter.fromBlock ?? 0);
+    const toBlock = Number(filter.toBlock ?? this.blocks.length - 1);
+    return this.logs
+      .filter(log => wanted.size === 0 || wanted.has(log.address.toLowerCase()))
+      .filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+      .map(log => ({
+        ...log,
+        blockHash: this.blocks[log.blockNumber].hash,
+        removed: false
+      })) as any;
+  }
+
+  async getTransaction(hash: string) {
+    return this.transactions.get(hash) ?? null;
+  }
+
+  async getTransactionReceipt(hash: string) {
+    const tx = this.transactions.get(hash);
+    if (!tx) {
+      return null;
+    }
+    return { hash, status: 1, gasUsed: 21000n, contractAddress: null } as any;
+  }
+}
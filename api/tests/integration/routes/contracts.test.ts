@@ -192,6 +192,27 @@ describe('Contract Routes', () => {
       expect(res.body.contracts[0].type).toBe(ContractType.ERC721);
     });
 
+    it('should filter contracts by token standard', async () => {
+      const queryChain = {
+        skip: sandbox.stub().returnsThis(),
+        limit: sandbox.stub().returnsThis(),
+        sort: sandbox.stub().returnsThis(),
+        lean: sandbox.stub().resolves([])
+      };
+
+      const findStub = sandbox.stub(Contract, 'find').returns(queryChain as any);
+      sandbox.stub(Contract, 'countDocuments').resolves(0);
+
+      const res = await request(app)
+        .get(`${API_PREFIX}/contracts`)
+        .query({ standard: 'ERC20' });
+
+      expect(res.status).toBe(200);
+      expect(findStub.firstCall.args[0]).toEqual({
+        type: { $in: [ContractType.ERC20, ContractType.TUNE_TOKEN] }
+      });
+    });
+
     it('should return empty array when no contracts match filters', async () => {
       const mockContracts: any[] = [];
       
@@ -0,0 +1,167 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import { app } from '../../../src/app';
+import { Contract, ContractType } from '../../../src/models/Contract';
+import { EngagementEntry } from '../../../src/models/EngagementEntry';
+import { FanStats } from '../../../src/models/FanStats';
+import { Track } from '../../../src/models/Track';
+
+describe('Engagement Routes', () => {
+  const API_PREFIX = '/api/v1';
+  const alice = '0x1111111111111111111111111111111111111111';
+  const bob = '0x2222222222222222222222222222222222222222';
+  const artist = '0x3333333333333333333333333333333333333333';
+  const engagementAddress = '0xcf7ed3acca5a467e9e704c703e8d87f634fb0fc9';
+  // Monday 2024-01-15 00:00 UTC
+  const week = Date.UTC(2024, 0, 15) / 1000;
+  const day = 24 * 3600;
+  let contract: mongoose.Types.ObjectId;
+  let block = 0;
+
+  const entry = (user: string, fields: Record<string, unknown>, timestamp: number) => {
+    block += 1;
+    return {
+      contract,
+      contractAddress: engagementAddress,
+      network: 'anvil',
+      user,
+      timestamp,
+      blockNumber: block,
+      logIndex: 0,
+      transactionHash: '0x' + String(block).padStart(64, '0'),
+      ...fields
+    };
+  };
+
+  const points = (user: string, action: string, amount: number, tokenId: string, timestamp: number) =>
+    entry(user, { type: 'points_earned', action, points: amount, tokenId }, timestamp);
+
+  const stats = (user: string, totalPoints: number, totalInteractions: number) => ({
+    contract,
+    contractAddress: engagementAddress,
+    network: 'anvil',
+    user,
+    totalPoints,
+    points: totalPoints,
+    totalInteractions,
+    achievementCount: 0,
+    rewardsClaimed: '0',
+    lastBlockNumber: 1,
+    lastLogIndex: 0
+  });
+
+  beforeEach(async () => {
+    block = 0;
+    const engagement = await Contract.create({
+      address: engagementAddress,
+      type: ContractType.FAN_ENGAGEMENT,
+      network: 'anvil'
+    });
+    contract = engagement._id as mongoose.Types.ObjectId;
+
+    // alice earned most last week, bob most this week
+    await EngagementEntry.create([
+      points(alice, 'purchase', 5, '1', week - 2 * day),
+      points(alice, 'like', 1, '1', week - 2 * day),
+      entry(alice, { type: 'achievement_unlocked', achievement: 'First Like', action: 'like', tokenId: '1' }, week - 2 * day),
+      points(alice, 'stream', 1, '2', week + day),
+      points(bob, 'share', 2, '1', week + day),
+      points(bob, 'stream', 1, '1', week + 2 * day)
+    ]);
+    await FanStats.create([stats(alice, 7, 3), stats(bob, 3, 2)]);
+    await Track.create({
+      contract: new mongoose.Types.ObjectId(),
+      contractAddress: '0x5fbdb2315678afecb367f032d93f642f64180aa3',
+      network: 'anvil',
+      tokenId: '1',
+      creator: artist,
+      price: '0',
+      createdBlock: 1,
+      transactionHash: '0x' + 'f'.padStart(64, '0'),
+      lastBlockNumber: 1,
+      lastLogIndex: 0
+    });
+  });
+
+  it('should return a user with their breakdown and achievements', async () => {
+    const res = await request(app).get(`${API_PREFIX}/engagement/users/${alice}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      totalPoints: 7,
+      claimableRewards: '70000000000000000',
+      rank: 1,
+      actions: [
+        { action: 'like', count: 1, points: 1 },
+        { action: 'share', count: 0, points: 0 },
+        { action: 'stream', count: 1, points: 1 },
+        { action: 'purchase', count: 1, points: 5 }
+      ],
+      achievements: [expect.objectContaining({ achievement: 'First Like', tokenId: '1' })]
+    });
+  });
+
+  it('should return 404 for a user without engagement', async () => {
+    const res = await request(app).get(`${API_PREFIX}/engagement/users/${artist}`);
+
+    expect(res.status).toBe(404);
+  });
+
+  describe('GET /api/v1/engagement/leaderboard', () => {
+    it('should rank all-time points', async () => {
+      const res = await request(app).get(`${API_PREFIX}/engagement/leaderboard`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.leaders).toEqual([
+        { rank: 1, user: alice, points: 7, interactions: 3 },
+        { rank: 2, user: bob, points: 3, interactions: 2 }
+      ]);
+    });
+
+    it('should rank points of the week containing at', async () => {
+      const res = await request(app).get(`${API_PREFIX}/engagement/leaderboard?period=weekly&at=${week + 3 * day}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ from: week, to: week + 7 * day });
+      expect(res.body.leaders).toEqual([
+        { rank: 1, user: bob, points: 3, interactions: 2 },
+        { rank: 2, user: alice, points: 1, interactions: 1 }
+      ]);
+    });
+
+    it('should reject unknown periods', async () => {
+      const res = await request(app).get(`${API_PREFIX}/engagement/leaderboard?period=daily`);
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  it('should rank the fans of a track', async () => {
+    const res = await request(app).get(`${API_PREFIX}/engagement/tracks/1/fans`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.fans.map((fan: { user: string; points: number }) => [fan.user, fan.points])).toEqual([
+      [alice, 6],
+      [bob, 3]
+    ]);
+    expect(res.body.fans[0].actions).toEqual([
+      { action: 'like', count: 1, points: 1 },
+      { action: 'purchase', count: 1, points: 5 }
+    ]);
+  });
+
+  it('should rank the top fans of an artist', async () => {
+    const res = await request(app).get(`${API_PREFIX}/engagement/artists/${artist}/top-fans?period=weekly&at=${week}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.trackCount).toBe(1);
+    expect(res.body.fans.map((fan: { user: string }) => fan.user)).toEqual([bob]);
+  });
+
+  it('should list achievements latest first', async () => {
+    const res = await request(app).get(`${API_PREFIX}/engagement/achievements?user=${alice}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.achievements).toEqual([expect.objectContaining({ user: alice, achievement: 'First Like' })]);
+  });
+});
@@ -0,0 +1,295 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import { app } from '../../../src/app';
+import { Contract, ContractType } from '../../../src/models/Contract';
+import { Delegate } from '../../../src/models/Delegate';
+import { Delegation } from '../../../src/models/Delegation';
+import { Event } from '../../../src/models/Event';
+import { Proposal } from '../../../src/models/Proposal';
+import { TimelockOperation } from '../../../src/models/TimelockOperation';
+import { TokenSupplyEntry } from '../../../src/models/TokenSupplyEntry';
+import { Vote } from '../../../src/models/Vote';
+import { VotingPowerCheckpoint } from '../../../src/models/VotingPowerCheckpoint';
+
+describe('Governance Routes', () => {
+  const API_PREFIX = '/api/v1';
+  const alice = '0x1111111111111111111111111111111111111111';
+  const bob = '0x2222222222222222222222222222222222222222';
+  const governorAddress = '0x9fe46736679d2d9a65f0992f2272de9f3c7fa6e0';
+  const tokenAddress = '0x5fbdb2315678afecb367f032d93f642f64180aa3';
+  const operationId = '0x' + 'ab'.repeat(32);
+  let governor: mongoose.Types.ObjectId;
+
+  const hash = (n: number) => '0x' + String(n).padStart(64, '0');
+
+  const proposal = (proposalId: string, block: number, overrides: Record<string, unknown> = {}) => ({
+    contract: governor,
+    contractAddress: governorAddress,
+    network: 'anvil',
+    proposalId,
+    proposer: alice,
+    actions: [{ target: tokenAddress, value: '0', signature: '', calldata: '0x' }],
+    description: `# Proposal ${proposalId}\nDetails`,
+    title: `Proposal ${proposalId}`,
+    timelockOperationId: hash(Number(proposalId)),
+    voteStart: block + 1,
+    voteEnd: block + 10,
+    proposedAt: 1700000000 + block,
+    proposedBlock: block,
+    transactionHash: hash(block),
+    lastBlockNumber: block,
+    lastLogIndex: 0,
+    ...overrides
+  });
+
+  const vote = (proposalId: string, voter: string, support: number, weight: string, block: number) => ({
+    contract: governor,
+    contractAddress: governorAddress,
+    network: 'anvil',
+    proposalId,
+    voter,
+    support,
+    weight,
+    reason: '',
+    timestamp: 1700000000 + block,
+    blockNumber: block,
+    logIndex: 0,
+    transactionHash: hash(1000 + block)
+  });
+
+  beforeEach(async () => {
+    const contract = await Contract.create({
+      address: governorAddress,
+      type: ContractType.GOVERNOR,
+      network: 'anvil',
+      lastIndexedBlock: 30
+    });
+    governor = contract._id as mongoose.Types.ObjectId;
+    const token = await Contract.create({ address: tokenAddress, type: ContractType.TUNE_TOKEN, network: 'anvil' });
+
+    await Event.create({
+      contract: governor,
+      network: 'anvil',
+      name: 'QuorumNumeratorUpdated',
+      signature: 'QuorumNumeratorUpdated(uint256,uint256)',
+      blockNumber: 1,
+      transactionHash: hash(1),
+      logIndex: 0,
+      args: { oldQuorumNumerator: '0', newQuorumNumerator: '4' }
+    });
+    await TokenSupplyEntry.create({
+      contract: token._id,
+      contractAddress: tokenAddress,
+      network: 'anvil',
+      type: 'minted',
+      amount: '10000',
+      account: alice,
+      blockNumber: 1,
+      logIndex: 1,
+      transactionHash: hash(1),
+      state: {
+        totalSupply: '10000',
+        totalMinted: '10000',
+        inflationMinted: '0',
+        totalBurned: '0',
+        contractBalance: '0',
+        pools: [],
+        rewardPerToken: '0'
+      }
+    });
+
+    // 1 passed and was queued, 2 missed quorum, 3 is still open
+    await Proposal.create([
+      proposal('1', 2, { forVotes: '500', queuedBlock: 14, queuedAt: 1700000014, eta: 1700003600, timelockOperationId: operationId }),
+      proposal('2', 3, { forVotes: '300', againstVotes: '100' }),
+      proposal('3', 25, { forVotes: '50' })
+    ]);
+    await Vote.create([
+      vote('1', alice, 1, '500', 5),
+      vote('2', alice, 1, '300', 6),
+      vote('2', bob, 0, '100', 7),
+      vote('3', bob, 1, '50', 27)
+    ]);
+    await TimelockOperation.create({
+      contract: new mongoose.Types.ObjectId(),
+      contractAddress: '0xe7f1725e7734ce288f8367e1bb143e90bb3f0512',
+      network: 'anvil',
+      operationId,
+      calls: [{ index: 0, target: tokenAddress, value: '0', data: '0x' }],
+      predecessor: '0x' + '0'.repeat(64),
+      delay: 3600,
+      scheduledAt: 1700000014,
+      scheduledBlock: 14,
+      readyAt: 1700003614,
+      transactionHash: hash(14),
+      lastBlockNumber: 14,
+      lastLogIndex: 1
+    });
+  });
+
+  describe('GET /api/v1/governance/proposals', () => {
+    it('should list proposals newest first with their state and quorum progress', async () => {
+      const res = await request(app).get(`${API_PREFIX}/governance/proposals`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.proposals.map((p: { proposalId: string; state: string }) => [p.proposalId, p.state])).toEqual([
+        ['3', 'active'],
+        ['2', 'defeated'],
+        ['1', 'queued']
+      ]);
+      expect(res.body.proposals[1].quorum).toEqual({ quorum: '400', votes: '300', progress: 75, reached: false });
+      expect(res.body.proposals[0].actionCount).toBe(1);
+    });
+
+    it('should filter by state', async () => {
+      const res = await request(app).get(`${API_PREFIX}/governance/proposals?state=defeated`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.proposals).toHaveLength(1);
+      expect(res.body.pagination.totalItems).toBe(1);
+    });
+
+    it('should reject unknown states', async () => {
+      const res = await request(app).get(`${API_PREFIX}/governance/proposals?state=expired`);
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/governance/proposals/:proposalId', () => {
+    it('should return the transitions and the timelock operation', async () => {
+      const res = await request(app).get(`${API_PREFIX}/governance/proposals/1`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.state).toBe('queued');
+      expect(res.body.transitions.map((t: { state: string }) => t.state)).toEqual([
+        'pending',
+        'active',
+        'succeeded',
+        'queued'
+      ]);
+      expect(res.body.timelockOperation).toMatchObject({ operationId, status: 'ready' });
+    });
+
+    it('should return 404 for an unknown proposal', async () => {
+      const res = await request(app).get(`${API_PREFIX}/governance/proposals/99`);
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  it('should list the votes on a proposal heaviest first', async () => {
+    const res = await request(app).get(`${API_PREFIX}/governance/proposals/2/votes`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.votes.map((v: { voter: string; supportName: string }) => [v.voter, v.supportName])).toEqual([
+      [alice, 'for'],
+      [bob, 'against']
+    ]);
+  });
+
+  it('should return an address voting history', async () => {
+    const res = await request(app).get(`${API_PREFIX}/governance/voters/${bob}/votes`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.votes).toEqual([
+      expect.objectContaining({ proposalId: '3', supportName: 'for', proposal: { title: 'Proposal 3', state: 'active' } }),
+      expect.objectContaining({ proposalId: '2', supportName: 'against', proposal: { title: 'Proposal 2', state: 'defeated' } })
+    ]);
+  });
+
+  describe('delegates', () => {
+    const carol = '0x3333333333333333333333333333333333333333';
+    let token: mongoose.Types.ObjectId;
+
+    const scoped = () => ({ contract: token, contractAddress: tokenAddress, network: 'anvil' });
+
+    const delegation = (delegator: string, block: number) => ({
+      ...scoped(),
+      delegator,
+      delegate: bob,
+      since: 1700000000 + block,
+      sinceBlock: block,
+      transactionHash: hash(block),
+      lastBlockNumber: block,
+      lastLogIndex: 0
+    });
+
+    const checkpoint = (delegate: string, previousVotes: string, newVotes: string, block: number, logIndex = 0) => ({
+      ...scoped(),
+      delegate,
+      previousVotes,
+      newVotes,
+      timestamp: 1700000000 + block,
+      blockNumber: block,
+      logIndex,
+      transactionHash: hash(2000 + block)
+    });
+
+    beforeEach(async () => {
+      const contract = await Contract.findOneAndUpdate(
+        { address: tokenAddress },
+        { $set: { lastIndexedBlock: 50 } },
+        { new: true }
+      );
+      token = contract!._id as mongoose.Types.ObjectId;
+
+      // alice and carol delegate to bob; carol moved her 2000 over in block 20
+      await Delegation.create([delegation(alice, 10), delegation(carol, 20), delegation(bob, 30)]);
+      await VotingPowerCheckpoint.create([
+        checkpoint(bob, '0', '8000', 10),
+        checkpoint(carol, '0', '2000', 15),
+        checkpoint(carol, '2000', '0', 20, 1),
+        checkpoint(bob, '8000', '10000', 20, 2)
+      ]);
+      await Delegate.create([
+        { ...scoped(), address: bob, votes: '10000', firstBlockNumber: 10, lastBlockNumber: 20, lastLogIndex: 2 },
+        { ...scoped(), address: carol, votes: '0', firstBlockNumber: 15, lastBlockNumber: 20, lastLogIndex: 1 }
+      ]);
+    });
+
+    it('should rank delegates with voting power', async () => {
+      const res = await request(app).get(`${API_PREFIX}/governance/delegates`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.delegates).toEqual([
+        { rank: 1, address: bob, votes: '10000', share: 100, delegatorCount: 3 }
+      ]);
+      expect(res.body.pagination.totalItems).toBe(1);
+    });
+
+    it('should return who an address delegates to and who delegates to it', async () => {
+      const res = await request(app).get(`${API_PREFIX}/governance/delegates/${bob}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ votes: '10000', delegatedTo: bob });
+      expect(res.body.delegators.map((d: { address: string }) => d.address)).toEqual([alice, bob, carol]);
+    });
+
+    it('should return the voting power history', async () => {
+      const res = await request(app).get(`${API_PREFIX}/governance/delegates/${carol}/history`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.history.map((h: { blockNumber: number; delta: string }) => [h.blockNumber, h.delta])).toEqual([
+        [15, '2000'],
+        [20, '-2000']
+      ]);
+    });
+
+    it('should look up voting power at a block like getPastVotes', async () => {
+      const votesAt = async (block: number) =>
+        (await request(app).get(`${API_PREFIX}/governance/delegates/${bob}/votes?block=${block}`)).body.votes;
+
+      expect(await votesAt(9)).toBe('0');
+      expect(await votesAt(10)).toBe('8000');
+      expect(await votesAt(19)).toBe('8000');
+      expect(await votesAt(20)).toBe('10000');
+    });
+
+    it('should reject blocks past the indexed head', async () => {
+      const res = await request(app).get(`${API_PREFIX}/governance/delegates/${bob}/votes?block=51`);
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import { app } from '../../../src/app';
+import { Contract, ContractType } from '../../../src/models/Contract';
+import { TrackEdge } from '../../../src/models/TrackEdge';
+import { TrackNode } from '../../../src/models/TrackNode';
+import { UserInteraction } from '../../../src/models/UserInteraction';
+
+describe('Graph Routes', () => {
+  const API_PREFIX = '/api/v1';
+  const graphAddress = '0x0165878a594ca255338adfa4d48449f69242eb8f';
+  const alice = '0x1111111111111111111111111111111111111111';
+  let contract: mongoose.Types.ObjectId;
+  let block = 0;
+
+  const position = () => ({
+    contract,
+    contractAddress: graphAddress,
+    network: 'anvil',
+    timestamp: 1700000000 + block * 12,
+    blockNumber: ++block,
+    logIndex: 0,
+    transactionHash: '0x' + block.toString(16).padStart(64, '0')
+  });
+
+  const track = (tokenId: string) => ({ ...position(), tokenId, metadataURI: `ipfs://track-${tokenId}` });
+
+  const edge = (fromTrack: string, toTrack: string, weight: number) => ({ ...position(), fromTrack, toTrack, weight });
+
+  beforeEach(async () => {
+    const graph = await Contract.create({
+      address: graphAddress,
+      type: ContractType.RECOMMENDATION_GRAPH,
+      network: 'anvil'
+    });
+    contract = graph._id as mongoose.Types.ObjectId;
+
+    await TrackNode.create(['1', '2', '3', '4', '5'].map(track));
+    // 1 -> 2 -> 4 and 1 -> 3 -> 4, 5 -> 1
+    await TrackEdge.create([
+      edge('1', '2', 30),
+      edge('1', '3', 90),
+      edge('2', '4', 100),
+      edge('3', '4', 50),
+      edge('5', '1', 70)
+    ]);
+    await UserInteraction.create([
+      { ...position(), user: alice, tokenId: '3', interactionType: 1 },
+      { ...position(), user: alice, tokenId: '3', interactionType: 0 }
+    ]);
+  });
+
+  describe('GET /api/v1/graph/tracks/:tokenId/neighbors', () => {
+    it('should list outgoing neighbors heaviest first', async () => {
+      const res = await request(app).get(`${API_PREFIX}/graph/tracks/1/neighbors`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.neighbors).toEqual([
+        expect.objectContaining({ tokenId: '3', direction: 'out', weight: 90, metadataURI: 'ipfs://track-3', interactionCount: 2 }),
+        expect.objectContaining({ tokenId: '2', direction: 'out', weight: 30, interactionCount: 0 })
+      ]);
+      expect(res.body.pagination.totalItems).toBe(2);
+    });
+
+    it('should include incoming edges in both directions', async () => {
+      const res = await request(app).get(`${API_PREFIX}/graph/tracks/1/neighbors?direction=both`);
+
+      expect(res.body.neighbors.map((n: { tokenId: string; direction: string }) => `${n.direction}:${n.tokenId}`))
+        .toEqual(['out:3', 'in:5', 'out:2']);
+    });
+
+    it('should 404 for a track not in the graph', async () => {
+      const res = await request(app).get(`${API_PREFIX}/graph/tracks/9/neighbors`);
+
+      expect(res.status).toBe(404);
+    });
+
+    it('should reject an unknown direction', async () => {
+      const res = await request(app).get(`${API_PREFIX}/graph/tracks/1/neighbors?direction=up`);
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/graph/tracks/:tokenId/related', () => {
+    it('should rank tracks within the depth by path strength', async () => {
+      const res = await request(app).get(`${API_PREFIX}/graph/tracks/1/related?depth=2`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.tracks.map((t: { tokenId: string; hops: number }) => [t.tokenId, t.hops])).toEqual([
+        ['3', 1],
+        ['4', 2],
+        ['2', 1]
+      ]);
+      expect(res.body.tracks[1]).toMatchObject({ path: ['1', '3', '4'], metadataURI: 'ipfs://track-4' });
+    });
+
+    it('should reject a depth out of range', async () => {
+      const res = await request(app).get(`${API_PREFIX}/graph/tracks/1/related?depth=9`);
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/graph/path', () => {
+    it('should return the shortest heaviest path', async () => {
+      const res = await request(app).get(`${API_PREFIX}/graph/path?from=5&to=4`);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ from: '5', to: '4', path: ['5', '1', '3', '4'], hops: 3, totalWeight: 210 });
+    });
+
+    it('should 404 when the target cannot be reached', async () => {
+      const res = await request(app).get(`${API_PREFIX}/graph/path?from=4&to=1`);
+
+      expect(res.status).toBe(404);
+    });
+
+    it('should require both tracks', async () => {
+      const res = await request(app).get(`${API_PREFIX}/graph/path?from=1`);
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
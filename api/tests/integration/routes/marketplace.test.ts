@@ -0,0 +1,108 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import { app } from '../../../src/app';
+import { Listing } from '../../../src/models/Listing';
+import { Offer } from '../../../src/models/Offer';
+
+describe('Marketplace Routes', () => {
+  const API_PREFIX = '/api/v1';
+  const seller = '0xabcdef0123456789abcdef0123456789abcdef01';
+  const alice = '0x1111111111111111111111111111111111111111';
+  const bob = '0x2222222222222222222222222222222222222222';
+  const marketplaceAddress = '0xe7f1725e7734ce288f8367e1bb143e90bb3f0512';
+  const now = Math.floor(Date.now() / 1000);
+
+  const row = (block: number, overrides: Record<string, unknown>) => ({
+    contract: new mongoose.Types.ObjectId(),
+    contractAddress: marketplaceAddress,
+    network: 'anvil',
+    tokenId: '7',
+    transactionHash: '0x' + String(block).padStart(64, '0'),
+    lastBlockNumber: block,
+    lastLogIndex: 0,
+    ...overrides
+  });
+
+  describe('GET /api/v1/marketplace/listings', () => {
+    beforeEach(async () => {
+      await Listing.create([
+        row(1, { tokenId: '1', seller, price: '20000000000000000000', listedBlock: 1 }),
+        row(2, { tokenId: '2', seller, price: '3000', listedBlock: 2 }),
+        row(3, { tokenId: '3', seller: alice, price: '500', listedBlock: 3 }),
+        row(4, { tokenId: '4', seller, price: '100', listedBlock: 4, status: 'sold', buyer: bob })
+      ]);
+    });
+
+    it('should list active listings newest first', async () => {
+      const res = await request(app).get(`${API_PREFIX}/marketplace/listings`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.listings.map((l: any) => l.tokenId)).toEqual(['3', '2', '1']);
+      expect(res.body.pagination).toMatchObject({ currentPage: 1, totalItems: 3 });
+    });
+
+    it('should sort by wei price', async () => {
+      const res = await request(app).get(`${API_PREFIX}/marketplace/listings`).query({ sort: 'price_desc' });
+
+      expect(res.body.listings.map((l: any) => l.tokenId)).toEqual(['1', '2', '3']);
+      expect(res.body.listings[0].priceValue).toBeUndefined();
+    });
+
+    it('should filter by seller and buyer', async () => {
+      const bySeller = await request(app).get(`${API_PREFIX}/marketplace/listings`).query({ seller: alice });
+      expect(bySeller.body.listings.map((l: any) => l.tokenId)).toEqual(['3']);
+
+      const byBuyer = await request(app).get(`${API_PREFIX}/marketplace/listings`).query({ status: 'all', buyer: bob });
+      expect(byBuyer.body.listings.map((l: any) => l.tokenId)).toEqual(['4']);
+    });
+
+    it('should reject invalid filters', async () => {
+      const get = (query: Record<string, string>) => request(app).get(`${API_PREFIX}/marketplace/listings`).query(query);
+
+      expect((await get({ seller: 'nobody' })).status).toBe(400);
+      expect((await get({ status: 'pending' })).status).toBe(400);
+      expect((await get({ sort: 'cheapest' })).status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/marketplace/tokens/:tokenId/offers', () => {
+    beforeEach(async () => {
+      await Offer.create([
+        row(1, { buyer: alice, price: '10', expirationTime: now + 3600, offeredBlock: 1, index: 0 }),
+        row(2, { buyer: bob, price: '30', expirationTime: now + 3600, offeredBlock: 2, index: 1 }),
+        row(3, { buyer: alice, price: '50', expirationTime: now - 60, offeredBlock: 3, index: 2 }),
+        row(4, { buyer: bob, price: '70', expirationTime: now + 3600, offeredBlock: 4, status: 'cancelled' })
+      ]);
+    });
+
+    it('should list open offers by highest price', async () => {
+      const res = await request(app).get(`${API_PREFIX}/marketplace/tokens/7/offers`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.offers.map((o: any) => o.price)).toEqual(['30', '10']);
+    });
+
+    it('should report offers past their expiration time as expired', async () => {
+      const expired = await request(app).get(`${API_PREFIX}/marketplace/tokens/7/offers`).query({ status: 'expired' });
+      expect(expired.body.offers).toMatchObject([{ price: '50', status: 'expired' }]);
+
+      const all = await request(app)
+        .get(`${API_PREFIX}/marketplace/tokens/7/offers`)
+        .query({ status: 'all', sort: 'oldest' });
+      expect(all.body.offers.map((o: any) => o.status)).toEqual(['open', 'open', 'expired', 'cancelled']);
+    });
+
+    it('should filter by buyer', async () => {
+      const res = await request(app)
+        .get(`${API_PREFIX}/marketplace/tokens/7/offers`)
+        .query({ buyer: alice, status: 'all', sort: 'price_asc' });
+
+      expect(res.body.offers.map((o: any) => o.price)).toEqual(['10', '50']);
+    });
+
+    it('should reject invalid token IDs', async () => {
+      const res = await request(app).get(`${API_PREFIX}/marketplace/tokens/abc/offers`);
+      expect(res.status).toBe(400);
+    });
+  });
+});
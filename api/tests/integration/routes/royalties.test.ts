@@ -0,0 +1,228 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import { app } from '../../../src/app';
+import { RoyaltyEntry } from '../../../src/models/RoyaltyEntry';
+import { RoyaltyPayment } from '../../../src/models/RoyaltyPayment';
+import { Block } from '../../../src/models/Block';
+
+describe('Royalty Routes', () => {
+  const API_PREFIX = '/api/v1';
+  const artist = '0xabcdef0123456789abcdef0123456789abcdef01';
+  const producer = '0x1111111111111111111111111111111111111111';
+  const distributorAddress = '0x9fe46736679d2d9a65f0992f2272de9f3c7fa6e0';
+  let contract: mongoose.Types.ObjectId;
+
+  const state = (overrides: Record<string, unknown>) => ({
+    payees: [],
+    pending: '0',
+    pendingSale: '0',
+    pendingStreaming: '0',
+    autoThreshold: '0',
+    streamedMinutes: '0',
+    totalDistributed: '0',
+    ...overrides
+  });
+
+  const position = (block: number, logIndex = 0) => ({
+    contract,
+    contractAddress: distributorAddress,
+    network: 'anvil',
+    tokenId: '1',
+    blockNumber: block,
+    logIndex,
+    transactionHash: '0x' + String(block).padStart(64, '0'),
+    timestamp: 1700000000 + block
+  });
+
+  // Stores blocks 1 to 6 of anvil, finalized up to `head`
+  const finalizeUpTo = (head: number) =>
+    Block.create([1, 2, 3, 4, 5, 6].map(number => ({
+      network: 'anvil',
+      number,
+      hash: '0x' + String(number).padStart(64, '0'),
+      parentHash: '0x' + String(number - 1).padStart(64, '0'),
+      timestamp: 1700000000 + number,
+      finalized: number <= head
+    })));
+
+  beforeEach(async () => {
+    contract = new mongoose.Types.ObjectId();
+    const split = [{ account: artist, shares: 70 }, { account: producer, shares: 30 }];
+    await RoyaltyEntry.create([
+      { ...position(1, 0), type: 'payee_added', account: artist, shares: 70, state: state({ payees: split.slice(0, 1) }) },
+      { ...position(1, 1), type: 'payee_added', account: producer, shares: 30, state: state({ payees: split }) },
+      {
+        ...position(2),
+        type: 'threshold_updated',
+        amount: '1000',
+        state: state({ payees: split, autoThreshold: '1000' })
+      },
+      {
+        ...position(3),
+        type: 'accumulated',
+        amount: '400',
+        source: 'sale',
+        state: state({ payees: split, autoThreshold: '1000', pending: '400', pendingSale: '400' })
+      }
+    ]);
+    await RoyaltyPayment.create([
+      { ...position(4), payee: artist, shares: 70, amount: '700', type: 'distribution', source: 'sale' },
+      { ...position(5), payee: artist, shares: 70, amount: '140', type: 'distribution', source: 'streaming' },
+      { ...position(6), payee: artist, shares: 70, amount: '35', type: 'reconciliation', isPositive: false },
+      { ...position(4), payee: producer, shares: 30, amount: '300', type: 'distribution', source: 'sale' }
+    ]);
+  });
+
+  describe('GET /api/v1/royalties/tokens/:tokenId', () => {
+    it('should compare pending royalties with the auto-distribution threshold', async () => {
+      const res = await request(app).get(`${API_PREFIX}/royalties/tokens/1`);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({
+        tokenId: '1',
+        pending: '400',
+        autoDistributionThreshold: '1000',
+        remainingToThreshold: '600',
+        distributionThreshold: '100000000000000000000'
+      });
+    });
+
+    it('should return 404 for tokens without royalties', async () => {
+      const res = await request(app).get(`${API_PREFIX}/royalties/tokens/9`);
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/v1/royalties/tokens/:tokenId/payees', () => {
+    it('should collapse a registration into one split change', async () => {
+      const res = await request(app).get(`${API_PREFIX}/royalties/tokens/1/payees`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.history).toHaveLength(1);
+      expect(res.body.history[0]).toMatchObject({
+        change: 'registered',
+        payees: [{ account: artist, shares: 70 }, { account: producer, shares: 30 }]
+      });
+    });
+  });
+
+  describe('GET /api/v1/royalties/payees/:address', () => {
+    it('should total earnings by source net of adjustments', async () => {
+      const res = await request(app).get(`${API_PREFIX}/royalties/payees/${artist}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.totalEarned).toBe('805');
+      expect(res.body.tokens).toEqual([
+        expect.objectContaining({
+          tokenId: '1',
+          shares: 70,
+          saleEarnings: '700',
+          streamingEarnings: '140',
+          distributed: '840',
+          adjustments: '-35',
+          total: '805'
+        })
+      ]);
+    });
+
+    it('should reject invalid addresses', async () => {
+      const res = await request(app).get(`${API_PREFIX}/royalties/payees/nobody`);
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/royalties/payees/:address/payments', () => {
+    it('should list payments newest first', async () => {
+      const res = await request(app)
+        .get(`${API_PREFIX}/royalties/payees/${artist}/payments`)
+        .query({ type: 'distribution' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.payments.map((p: any) => p.amount)).toEqual(['140', '700']);
+      expect(res.body.pagination.totalItems).toBe(2);
+    });
+  });
+
+  describe('finality', () => {
+    it('should report the ledger as of the finality head', async () => {
+      await finalizeUpTo(2);
+
+      const token = await request(app).get(`${API_PREFIX}/royalties/tokens/1`).query({ finality: 'finalized' });
+      expect(token.body).toMatchObject({ pending: '0', autoDistributionThreshold: '1000' });
+
+      const earnings = await request(app).get(`${API_PREFIX}/royalties/payees/${artist}`).query({ finality: 'finalized' });
+      expect(earnings.body).toMatchObject({ totalEarned: '0', tokens: [] });
+    });
+
+    it('should only count payments from qualifying blocks', async () => {
+      await finalizeUpTo(4);
+
+      const earnings = await request(app).get(`${API_PREFIX}/royalties/payees/${artist}`).query({ finality: 'finalized' });
+      expect(earnings.body.totalEarned).toBe('700');
+
+      const payments = await request(app)
+        .get(`${API_PREFIX}/royalties/payees/${artist}/payments`)
+        .query({ finality: 'finalized' });
+      expect(payments.body.payments.map((p: any) => p.amount)).toEqual(['700']);
+    });
+
+    it('should reject unknown finality levels', async () => {
+      const res = await request(app).get(`${API_PREFIX}/royalties/tokens/1/payees`).query({ finality: 'pending' });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/royalties/statements/:address', () => {
+    beforeEach(async () => {
+      await finalizeUpTo(6);
+    });
+
+    it('should carry earlier payments into the opening balance', async () => {
+      const res = await request(app)
+        .get(`${API_PREFIX}/royalties/statements/${artist}`)
+        .query({ from: 1700000005, to: 1700000007 });
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({
+        openingBalance: '700',
+        totals: { streamingRoyalties: '140', adjustments: '-35', total: '105' },
+        closingBalance: '805'
+      });
+      expect(res.body.lines).toHaveLength(1);
+    });
+
+    it('should accept ISO dates and render CSV', async () => {
+      const res = await request(app)
+        .get(`${API_PREFIX}/royalties/statements/${artist}`)
+        .query({ from: '2023-01-01', to: '2024-01-01', format: 'csv' });
+
+      expect(res.status).toBe(200);
+      expect(res.headers['content-type']).toContain('text/csv');
+      expect(res.headers['content-disposition']).toContain('attachment');
+      expect(res.text.split('\n')[1]).toBe('opening_balance,,,,,,,0');
+      expect(res.text).toContain('closing_balance,,,,,,,805');
+    });
+
+    it('should only cover finalized payments unless asked otherwise', async () => {
+      await Block.updateMany({ number: { $gt: 4 } }, { finalized: false });
+      const get = (query: Record<string, string | number>) =>
+        request(app).get(`${API_PREFIX}/royalties/statements/${artist}`).query({ from: 1700000000, ...query });
+
+      const finalized = await get({});
+      expect(finalized.body).toMatchObject({ finality: 'finalized', closingBalance: '700' });
+
+      const latest = await get({ finality: 'latest' });
+      expect(latest.body).toMatchObject({ finality: 'latest', closingBalance: '805' });
+    });
+
+    it('should reject invalid periods', async () => {
+      const get = (query: Record<string, string>) =>
+        request(app).get(`${API_PREFIX}/royalties/statements/${artist}`).query(query);
+
+      expect((await get({ from: 'last month' })).status).toBe(400);
+      expect((await get({ from: '200', to: '100' })).status).toBe(400);
+      expect((await get({ format: 'pdf' })).status).toBe(400);
+      expect((await get({ finality: 'pending' })).status).toBe(400);
+    });
+  });
+});
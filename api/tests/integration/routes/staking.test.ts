@@ -0,0 +1,115 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import { app } from '../../../src/app';
+import { StakingEntry } from '../../../src/models/StakingEntry';
+import { StakingPosition } from '../../../src/models/StakingPosition';
+
+describe('Staking Routes', () => {
+  const API_PREFIX = '/api/v1';
+  const alice = '0x1111111111111111111111111111111111111111';
+  const bob = '0x2222222222222222222222222222222222222222';
+  const stakingAddress = '0xdc64a140aa3e981100a9beca4e685f962f0cf6c9';
+  const day = 24 * 3600;
+  let contract: mongoose.Types.ObjectId;
+
+  const state = (overrides: Record<string, unknown>) => ({
+    amount: '0',
+    lastRewardUpdate: 0,
+    accrual: [],
+    totalStaked: '0',
+    totalUnstaked: '0',
+    totalClaimed: '0',
+    totalSlashed: '0',
+    ...overrides
+  });
+
+  const scope = (staker: string) => ({
+    contract,
+    contractAddress: stakingAddress,
+    network: 'anvil',
+    staker
+  });
+
+  const entry = (staker: string, block: number, timestamp: number) => ({
+    ...scope(staker),
+    blockNumber: block,
+    logIndex: 0,
+    transactionHash: '0x' + String(block).padStart(64, '0'),
+    timestamp
+  });
+
+  beforeEach(async () => {
+    contract = new mongoose.Types.ObjectId();
+    const aliceState = state({ amount: '500', delegatedTo: bob, totalStaked: '1000', totalSlashed: '500' });
+    await StakingEntry.create([
+      { ...entry(alice, 1, 0), type: 'staked', amount: '1000', tvlDelta: '1000', state: state({ amount: '1000' }) },
+      { ...entry(bob, 2, day), type: 'staked', amount: '200', tvlDelta: '200', state: state({ amount: '200' }) },
+      { ...entry(alice, 3, 2 * day), type: 'slashed', amount: '500', tvlDelta: '-500', state: aliceState }
+    ]);
+    await StakingPosition.create([
+      { ...scope(alice), ...aliceState, lastBlockNumber: 3, lastLogIndex: 0 },
+      { ...scope(bob), ...state({ amount: '200', totalStaked: '200' }), lastBlockNumber: 2, lastLogIndex: 0 }
+    ]);
+  });
+
+  describe('GET /api/v1/staking/stakers/:address', () => {
+    it('should return the position with its slashes', async () => {
+      const res = await request(app).get(`${API_PREFIX}/staking/stakers/${alice}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.positions).toEqual([
+        expect.objectContaining({ amount: '500', delegatedTo: bob, delegatedPower: '0', delegators: [] })
+      ]);
+      expect(res.body.slashes).toEqual([expect.objectContaining({ amount: '500', stakeAfter: '500' })]);
+    });
+
+    it('should list the stake delegated to an address', async () => {
+      const res = await request(app).get(`${API_PREFIX}/staking/stakers/${bob}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.positions[0]).toMatchObject({
+        amount: '200',
+        delegatedPower: '500',
+        delegators: [{ staker: alice, amount: '500' }]
+      });
+    });
+
+    it('should return 404 without staking activity', async () => {
+      const res = await request(app).get(`${API_PREFIX}/staking/stakers/0x3333333333333333333333333333333333333333`);
+      expect(res.status).toBe(404);
+    });
+
+    it('should reject invalid addresses', async () => {
+      const res = await request(app).get(`${API_PREFIX}/staking/stakers/not-an-address`);
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/staking/tvl', () => {
+    it('should return the total staked per interval', async () => {
+      const res = await request(app).get(`${API_PREFIX}/staking/tvl?from=${day}&to=${2 * day}&interval=1d`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.series).toHaveLength(1);
+      expect(res.body.series[0].points).toEqual([
+        { time: day, tvl: '1200', inflow: '200', outflow: '0' },
+        { time: 2 * day, tvl: '700', inflow: '0', outflow: '500' }
+      ]);
+    });
+
+    it('should reject unknown intervals', async () => {
+      const res = await request(app).get(`${API_PREFIX}/staking/tvl?interval=5m`);
+      expect(res.status).toBe(400);
+      expect((await request(app).get(`${API_PREFIX}/staking/tvl?interval=toString`)).status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/staking/stakers/:address/reconciliation', () => {
+    it('should return 404 without a position', async () => {
+      const res = await request(app).get(
+        `${API_PREFIX}/staking/stakers/0x3333333333333333333333333333333333333333/reconciliation`
+      );
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import { app } from '../../../src/app';
+import { Contract, ContractType } from '../../../src/models/Contract';
+import { Event } from '../../../src/models/Event';
+import { ServiceTier } from '../../../src/models/ServiceTier';
+import { TokenHolder } from '../../../src/models/TokenHolder';
+import { TokenSupplyEntry } from '../../../src/models/TokenSupplyEntry';
+import { VestingSchedule } from '../../../src/models/VestingSchedule';
+
+describe('Token Routes', () => {
+  const API_PREFIX = '/api/v1';
+  const alice = '0x1111111111111111111111111111111111111111';
+  const bob = '0x2222222222222222222222222222222222222222';
+  const tokenAddress = '0x5fbdb2315678afecb367f032d93f642f64180aa3';
+  const day = 24 * 3600;
+  let contract: mongoose.Types.ObjectId;
+
+  const schedule = (beneficiary: string, overrides: Record<string, unknown>) => ({
+    contract,
+    contractAddress: tokenAddress,
+    network: 'anvil',
+    beneficiary,
+    totalAmount: '3000',
+    startTime: 0,
+    duration: 30 * day,
+    revoked: false,
+    releasedAmount: '0',
+    scheduledBlock: 1,
+    transactionHash: '0x' + '1'.padStart(64, '0'),
+    lastBlockNumber: 1,
+    lastLogIndex: 0,
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    contract = new mongoose.Types.ObjectId();
+    await VestingSchedule.create([
+      schedule(alice, { releasedAmount: '500', lastBlockNumber: 2 }),
+      schedule(bob, { totalAmount: '600', startTime: 30 * day, duration: 60 * day })
+    ]);
+    await Event.create({
+      contract,
+      network: 'anvil',
+      name: 'TokensReleased',
+      signature: 'TokensReleased(address,uint256)',
+      blockNumber: 2,
+      transactionHash: '0x' + '2'.padStart(64, '0'),
+      logIndex: 0,
+      args: { beneficiary: alice, amount: '500' },
+      timestamp: 10 * day
+    });
+  });
+
+  describe('GET /api/v1/token/vesting/schedules/:beneficiary', () => {
+    it('should return vested and locked amounts at the requested time', async () => {
+      const res = await request(app).get(`${API_PREFIX}/token/vesting/schedules/${alice}?at=${10 * day}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({
+        beneficiary: alice,
+        totalAmount: '3000',
+        endTime: 30 * day,
+        status: { vested: '1000', locked: '2000', released: '500', releasable: '500' },
+        releases: [{ amount: '500', timestamp: 10 * day }]
+      });
+    });
+
+    it('should return 404 without a schedule', async () => {
+      const res = await request(app).get(
+        `${API_PREFIX}/token/vesting/schedules/0x3333333333333333333333333333333333333333`
+      );
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/v1/token/vesting/schedules', () => {
+    it('should list schedules', async () => {
+      const res = await request(app).get(`${API_PREFIX}/token/vesting/schedules?at=0`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.schedules.map((s: { beneficiary: string }) => s.beneficiary)).toEqual([alice, bob]);
+      expect(res.body.pagination.totalItems).toBe(2);
+    });
+  });
+
+  describe('GET /api/v1/token/vesting/calendar', () => {
+    it('should project unlocks across beneficiaries', async () => {
+      const res = await request(app).get(`${API_PREFIX}/token/vesting/calendar?from=0&to=${60 * day}&interval=30d`);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ schedules: 2, totalScheduled: '3600', totalReleased: '500' });
+      expect(res.body.points).toEqual([
+        { time: 0, unlocked: '3000', vested: '3000', locked: '600' },
+        { time: 30 * day, unlocked: '300', vested: '3300', locked: '300' },
+        { time: 60 * day, unlocked: '300', vested: '3600', locked: '0' }
+      ]);
+    });
+
+    it('should reject unknown intervals', async () => {
+      const res = await request(app).get(`${API_PREFIX}/token/vesting/calendar?interval=1y`);
+      expect(res.status).toBe(400);
+      expect((await request(app).get(`${API_PREFIX}/token/vesting/calendar?interval=constructor`)).status).toBe(400);
+    });
+  });
+
+  describe('supply and holders', () => {
+    const carol = '0x3333333333333333333333333333333333333333';
+
+    const supplyState = (totalSupply: string, overrides: Record<string, unknown> = {}) => ({
+      totalSupply,
+      totalMinted: totalSupply,
+      inflationMinted: '0',
+      totalBurned: '0',
+      contractBalance: '0',
+      pools: [],
+      rewardPerToken: '0',
+      ...overrides
+    });
+
+    const entry = (block: number, timestamp: number) => ({
+      contract,
+      contractAddress: tokenAddress,
+      network: 'anvil',
+      blockNumber: block,
+      logIndex: 0,
+      transactionHash: '0x' + String(block).padStart(64, '0'),
+      timestamp
+    });
+
+    const holder = (address: string, balance: string) => ({
+      contract,
+      contractAddress: tokenAddress,
+      network: 'anvil',
+      address,
+      balance,
+      firstBlockNumber: 1,
+      lastBlockNumber: 1,
+      lastLogIndex: 0
+    });
+
+    beforeEach(async () => {
+      const token = await Contract.create({ address: tokenAddress, type: ContractType.TUNE_TOKEN, network: 'anvil' });
+      contract = token._id as mongoose.Types.ObjectId;
+      await TokenSupplyEntry.create([
+        { ...entry(1, 0), type: 'minted', amount: '1000', account: alice, state: supplyState('1000') },
+        {
+          ...entry(2, day),
+          type: 'inflation',
+          amount: '100',
+          state: supplyState('1100', {
+            totalMinted: '1100',
+            inflationMinted: '100',
+            contractBalance: '100',
+            pools: [{ name: 'liquidityMiningPool', balance: '20' }]
+          })
+        },
+        {
+          ...entry(3, 2 * day),
+          type: 'epoch_advanced',
+          amount: '0',
+          state: supplyState('1100', { contractBalance: '100', epoch: 2 * day, rewardPerToken: '7' })
+        }
+      ]);
+      // carol sold everything and no longer counts as a holder
+      await TokenHolder.create([holder(alice, '900'), holder(bob, '100'), holder(tokenAddress, '100'), holder(carol, '0')]);
+    });
+
+    it('should return the current supply', async () => {
+      const res = await request(app).get(`${API_PREFIX}/token/supply`);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({
+        totalSupply: '1100',
+        circulatingSupply: '1000',
+        rewardPerToken: '7',
+        epoch: 2 * day,
+        holders: 3
+      });
+    });
+
+    it('should return the supply history', async () => {
+      const res = await request(app).get(`${API_PREFIX}/token/supply/history?from=0&to=${day}&interval=1d`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.points.map((p: { totalSupply: string; minted: string }) => [p.totalSupply, p.minted])).toEqual([
+        ['1000', '1000'],
+        ['1100', '100']
+      ]);
+    });
+
+    it('should reject unknown supply history intervals', async () => {
+      for (const interval of ['5m', 'toString']) {
+        const res = await request(app).get(`${API_PREFIX}/token/supply/history?interval=${interval}`);
+        expect(res.status).toBe(400);
+      }
+    });
+
+    it('should list epochs with the change in reward per token', async () => {
+      const res = await request(app).get(`${API_PREFIX}/token/epochs`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.epochs).toEqual([expect.objectContaining({ rewardPerToken: '7', rewardPerTokenDelta: '7' })]);
+    });
+
+    it('should rank holders by balance', async () => {
+      const res = await request(app).get(`${API_PREFIX}/token/holders?limit=2`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.holders).toEqual([
+        { rank: 1, address: alice, balance: '900', share: 81.81, isContract: false },
+        expect.objectContaining({ rank: 2, balance: '100' })
+      ]);
+      expect(res.body.pagination.totalItems).toBe(3);
+    });
+  });
+
+  describe('GET /api/v1/token/service-tiers', () => {
+    it('should merge indexed updates over the constructor tiers', async () => {
+      const token = await Contract.create({ address: tokenAddress, type: ContractType.TUNE_TOKEN, network: 'anvil' });
+      await ServiceTier.create({
+        contract: token._id,
+        contractAddress: tokenAddress,
+        network: 'anvil',
+        tier: 3,
+        minTokens: '90000',
+        discountRate: 2500,
+        timestamp: day,
+        blockNumber: 4,
+        logIndex: 0,
+        transactionHash: '0x' + '4'.padStart(64, '0')
+      });
+
+      const res = await request(app).get(`${API_PREFIX}/token/service-tiers`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.tiers).toEqual([
+        expect.objectContaining({ tier: 1, discountRate: 500, isDefault: true, updatedAt: null }),
+        expect.objectContaining({ tier: 2, discountRate: 1000, isDefault: true }),
+        { tier: 3, minTokens: '90000', discountRate: 2500, isDefault: false, updatedAt: day }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,276 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import { app } from '../../../src/app';
+import { Track } from '../../../src/models/Track';
+import { TrackVersion } from '../../../src/models/TrackVersion';
+import { MetadataCache, MetadataCacheStatus } from '../../../src/models/MetadataCache';
+import { Sale } from '../../../src/models/Sale';
+import { Listing } from '../../../src/models/Listing';
+import { Block } from '../../../src/models/Block';
+
+describe('Track Routes', () => {
+  const API_PREFIX = '/api/v1';
+  const creator = '0xabcdef0123456789abcdef0123456789abcdef01';
+  const nftAddress = '0x5fbdb2315678afecb367f032d93f642f64180aa3';
+
+  const track = (overrides: Record<string, unknown>) => ({
+    contract: new mongoose.Types.ObjectId(),
+    contractAddress: nftAddress,
+    network: 'anvil',
+    tokenId: '0',
+    creator,
+    price: '1000',
+    uri: 'ipfs://track',
+    version: 1,
+    albumId: '0',
+    createdBlock: 1,
+    lastBlockNumber: 1,
+    lastLogIndex: 0,
+    ...overrides
+  });
+
+  let contract: mongoose.Types.ObjectId;
+
+  beforeEach(async () => {
+    contract = new mongoose.Types.ObjectId();
+    await Track.create([
+      track({ contract, tokenId: '0', price: '1000' }),
+      track({ contract, tokenId: '1', price: '20000000000000000000', createdBlock: 2 }),
+      track({ contract, tokenId: '2', price: '5', creator: '0x1111111111111111111111111111111111111111', createdBlock: 3 })
+    ]);
+  });
+
+  describe('GET /api/v1/tracks', () => {
+    it('should list tracks newest first', async () => {
+      const res = await request(app).get(`${API_PREFIX}/tracks`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.tracks.map((t: any) => t.tokenId)).toEqual(['2', '1', '0']);
+      expect(res.body.pagination).toMatchObject({ currentPage: 1, totalItems: 3 });
+    });
+
+    it('should filter by creator', async () => {
+      const res = await request(app)
+        .get(`${API_PREFIX}/tracks`)
+        .query({ creator: creator.toUpperCase().replace('0X', '0x') });
+
+      expect(res.body.tracks.map((t: any) => t.tokenId)).toEqual(['1', '0']);
+    });
+
+    it('should filter by price range using wei amounts', async () => {
+      const res = await request(app)
+        .get(`${API_PREFIX}/tracks`)
+        .query({ minPrice: '1000', maxPrice: '30000000000000000000' });
+
+      expect(res.body.tracks.map((t: any) => t.tokenId)).toEqual(['1', '0']);
+    });
+
+    it('should reject invalid filters', async () => {
+      expect((await request(app).get(`${API_PREFIX}/tracks`).query({ creator: 'nobody' })).status).toBe(400);
+      expect((await request(app).get(`${API_PREFIX}/tracks`).query({ minPrice: '1.5' })).status).toBe(400);
+      expect((await request(app).get(`${API_PREFIX}/tracks`).query({ album: 'x' })).status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/tracks/:tokenId', () => {
+    it('should return a track', async () => {
+      const res = await request(app).get(`${API_PREFIX}/tracks/1`);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ tokenId: '1', price: '20000000000000000000', creator });
+    });
+
+    it('should return 404 for unknown tracks', async () => {
+      const res = await request(app).get(`${API_PREFIX}/tracks/99`);
+      expect(res.status).toBe(404);
+    });
+
+    it('should require a scope when the token ID exists on several contracts', async () => {
+      await Track.create(track({ network: 'sepolia', tokenId: '1' }));
+
+      const ambiguous = await request(app).get(`${API_PREFIX}/tracks/1`);
+      expect(ambiguous.status).toBe(409);
+
+      const scoped = await request(app).get(`${API_PREFIX}/tracks/1`).query({ network: 'sepolia' });
+      expect(scoped.status).toBe(200);
+      expect(scoped.body.network).toBe('sepolia');
+    });
+  });
+
+  describe('GET /api/v1/tracks/:tokenId/versions', () => {
+    const version = (n: number, uri: string, changelog: string) => ({
+      contract,
+      network: 'anvil',
+      tokenId: '1',
+      version: n,
+      uri,
+      changelog,
+      blockNumber: n,
+      logIndex: 0,
+      transactionHash: '0x' + String(n).padStart(64, '0')
+    });
+
+    beforeEach(async () => {
+      await TrackVersion.create([
+        version(2, 'ipfs://v2', 'Remaster'),
+        version(1, 'ipfs://v1', 'Initial version')
+      ]);
+      await MetadataCache.create([
+        {
+          contract,
+          tokenId: '1',
+          uri: 'ipfs://v1',
+          status: MetadataCacheStatus.SUCCESS,
+          metadata: { name: 'Song', attributes: [{ trait_type: 'Mix', value: 'Original' }] }
+        },
+        { contract, tokenId: '1', uri: 'ipfs://v2', status: MetadataCacheStatus.PENDING }
+      ]);
+    });
+
+    it('should return the ordered history with resolved metadata', async () => {
+      const res = await request(app).get(`${API_PREFIX}/tracks/1/versions`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.versions).toMatchObject([
+        { version: 1, changelog: 'Initial version', metadataStatus: 'success', metadata: { name: 'Song' } },
+        { version: 2, changelog: 'Remaster', metadataStatus: 'pending', metadata: null }
+      ]);
+    });
+
+    it('should diff the metadata of two versions', async () => {
+      await MetadataCache.updateOne(
+        { uri: 'ipfs://v2' },
+        {
+          $set: {
+            status: MetadataCacheStatus.SUCCESS,
+            metadata: { name: 'Song', attributes: [{ trait_type: 'Mix', value: 'Remaster' }] }
+          }
+        }
+      );
+
+      const res = await request(app).get(`${API_PREFIX}/tracks/1/versions`).query({ diff: 'true' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.from.version).toBe(1);
+      expect(res.body.to.version).toBe(2);
+      expect(res.body.changes).toEqual([
+        { field: 'attributes.Mix', change: 'changed', from: 'Original', to: 'Remaster' }
+      ]);
+    });
+
+    it('should refuse to diff unresolved or unknown versions', async () => {
+      const pending = await request(app).get(`${API_PREFIX}/tracks/1/versions`).query({ diff: 'true' });
+      expect(pending.status).toBe(409);
+
+      const unknown = await request(app)
+        .get(`${API_PREFIX}/tracks/1/versions`)
+        .query({ diff: 'true', from: 1, to: 5 });
+      expect(unknown.status).toBe(404);
+    });
+  });
+
+  describe('sales', () => {
+    const buyer = '0x2222222222222222222222222222222222222222';
+    const now = Math.floor(Date.now() / 1000);
+    const DAY = 24 * 3600;
+
+    const sale = (block: number, overrides: Record<string, unknown>) => ({
+      contract: new mongoose.Types.ObjectId(),
+      contractAddress: '0xe7f1725e7734ce288f8367e1bb143e90bb3f0512',
+      network: 'anvil',
+      tokenId: '1',
+      type: 'listing',
+      seller: creator,
+      buyer,
+      blockNumber: block,
+      logIndex: 0,
+      transactionHash: '0x' + String(block).padStart(64, '0'),
+      ...overrides
+    });
+
+    beforeEach(async () => {
+      await Sale.create([
+        sale(1, { type: 'primary', contract, seller: undefined, price: '1000000000000000000', timestamp: now - 20 * DAY }),
+        sale(2, { price: '3000000000000000000', timestamp: now - 3 * DAY }),
+        sale(3, { type: 'offer', price: '2000000000000000000', timestamp: now - 3600 }),
+        // A primary sale of the same token ID on another MusicNFT
+        sale(4, { type: 'primary', price: '9', timestamp: now - 60 })
+      ]);
+    });
+
+    it('should list the sales of a track newest first', async () => {
+      const res = await request(app).get(`${API_PREFIX}/tracks/1/sales`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.sales.map((s: any) => s.type)).toEqual(['offer', 'listing', 'primary']);
+      expect(res.body.pagination.totalItems).toBe(3);
+    });
+
+    it('should filter sales and add formatted amounts on request', async () => {
+      const res = await request(app).get(`${API_PREFIX}/tracks/1/sales`).query({ type: 'listing', formatted: 'true' });
+
+      expect(res.body.sales).toMatchObject([{ price: '3000000000000000000', priceFormatted: '3.0' }]);
+      expect((await request(app).get(`${API_PREFIX}/tracks/1/sales`).query({ type: 'gift' })).status).toBe(400);
+    });
+
+    it('should summarize sales over rolling windows', async () => {
+      await Listing.create({
+        contract: new mongoose.Types.ObjectId(),
+        contractAddress: '0xe7f1725e7734ce288f8367e1bb143e90bb3f0512',
+        network: 'anvil',
+        tokenId: '1',
+        seller: creator,
+        price: '4000000000000000000',
+        listedBlock: 5,
+        transactionHash: '0x' + '5'.padStart(64, '0'),
+        lastBlockNumber: 5,
+        lastLogIndex: 0
+      });
+
+      const res = await request(app).get(`${API_PREFIX}/tracks/1/analytics`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.floorPrice).toBe('4000000000000000000');
+      expect(res.body.lastSale).toMatchObject({ type: 'offer', price: '2000000000000000000' });
+      expect(res.body.windows).toEqual({
+        '24h': { volume: '2000000000000000000', count: 1, floorPrice: '2000000000000000000' },
+        '7d': { volume: '5000000000000000000', count: 2, floorPrice: '2000000000000000000' },
+        '30d': { volume: '6000000000000000000', count: 3, floorPrice: '1000000000000000000' }
+      });
+      expect(res.body.candles.map((c: any) => c.close)).toEqual([
+        '1000000000000000000',
+        '3000000000000000000',
+        '2000000000000000000'
+      ]);
+    });
+
+    it('should only count sales up to the finality head on request', async () => {
+      await Block.create([2, 3].map(number => ({
+        network: 'anvil',
+        number,
+        hash: '0x' + String(number).padStart(64, '0'),
+        parentHash: '0x' + String(number - 1).padStart(64, '0'),
+        timestamp: now,
+        finalized: number === 2
+      })));
+
+      const sales = await request(app).get(`${API_PREFIX}/tracks/1/sales`).query({ finality: 'finalized' });
+      expect(sales.body.sales.map((s: any) => s.type)).toEqual(['listing', 'primary']);
+
+      const analytics = await request(app).get(`${API_PREFIX}/tracks/1/analytics`).query({ finality: 'finalized' });
+      expect(analytics.body.lastSale).toMatchObject({ type: 'listing', price: '3000000000000000000' });
+      expect(analytics.body.windows['24h'].count).toBe(0);
+
+      expect((await request(app).get(`${API_PREFIX}/tracks/1/sales`).query({ finality: 'pending' })).status).toBe(400);
+    });
+
+    it('should validate the candle interval and range', async () => {
+      const get = (query: Record<string, string>) => request(app).get(`${API_PREFIX}/tracks/1/analytics`).query(query);
+
+      expect((await get({ interval: '3m' })).status).toBe(400);
+      expect((await get({ interval: 'constructor' })).status).toBe(400);
+      expect((await get({ interval: '1h', from: '0' })).status).toBe(400);
+      expect((await get({ interval: '1w', formatted: 'true' })).body.windows['7d'].volumeFormatted).toBe('5.0');
+    });
+  });
+});
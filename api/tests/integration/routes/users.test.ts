@@ -0,0 +1,202 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import { app } from '../../../src/app';
+import { Contract, ContractType } from '../../../src/models/Contract';
+import { ItemSimilarity } from '../../../src/models/ItemSimilarity';
+import { ServiceTier } from '../../../src/models/ServiceTier';
+import { TokenHolder } from '../../../src/models/TokenHolder';
+import { TrackEdge } from '../../../src/models/TrackEdge';
+import { UserInteraction } from '../../../src/models/UserInteraction';
+
+describe('User Routes', () => {
+  const API_PREFIX = '/api/v1';
+  const alice = '0x1111111111111111111111111111111111111111';
+  const bob = '0x2222222222222222222222222222222222222222';
+  const tokenAddress = '0x5fbdb2315678afecb367f032d93f642f64180aa3';
+  const TUNE = 10n ** 18n;
+  let contract: mongoose.Types.ObjectId;
+
+  const holder = (address: string, balance: bigint) => ({
+    contract,
+    contractAddress: tokenAddress,
+    network: 'anvil',
+    address,
+    balance: balance.toString(),
+    firstBlockNumber: 1,
+    lastBlockNumber: 1,
+    lastLogIndex: 0
+  });
+
+  beforeEach(async () => {
+    const token = await Contract.create({
+      address: tokenAddress,
+      type: ContractType.TUNE_TOKEN,
+      network: 'anvil',
+      lastIndexedBlock: 10
+    });
+    contract = token._id as mongoose.Types.ObjectId;
+    await TokenHolder.create([holder(alice, 60_000n * TUNE), holder(bob, 45_000n * TUNE)]);
+  });
+
+  describe('GET /api/v1/users/:address/tier', () => {
+    it('should resolve the tier from the indexed balance and default tiers', async () => {
+      const res = await request(app).get(`${API_PREFIX}/users/${alice}/tier`);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({
+        address: alice,
+        contractAddress: tokenAddress,
+        tier: 2,
+        discountRate: 1000,
+        balance: (60_000n * TUNE).toString(),
+        nextTier: { tier: 3, discountRate: 2000, tokensNeeded: (40_000n * TUNE).toString() },
+        indexedBlock: 10
+      });
+      expect(res.body.verification).toBeUndefined();
+    });
+
+    it('should apply indexed tier updates', async () => {
+      await ServiceTier.create({
+        contract,
+        contractAddress: tokenAddress,
+        network: 'anvil',
+        tier: 2,
+        minTokens: (40_000n * TUNE).toString(),
+        discountRate: 1200,
+        blockNumber: 5,
+        logIndex: 0,
+        transactionHash: '0x' + '5'.padStart(64, '0')
+      });
+
+      const res = await request(app).get(`${API_PREFIX}/users/${bob}/tier?formatted=true`);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ tier: 2, discountRate: 1200, balanceFormatted: '45000.0' });
+    });
+
+    it('should return no tier for an address without tokens', async () => {
+      const res = await request(app).get(`${API_PREFIX}/users/0x3333333333333333333333333333333333333333/tier`);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({
+        tier: null,
+        discountRate: 0,
+        balance: '0',
+        nextTier: { tier: 1, tokensNeeded: (10_000n * TUNE).toString() }
+      });
+    });
+
+    it('should reject an invalid address', async () => {
+      const res = await request(app).get(`${API_PREFIX}/users/not-an-address/tier`);
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/users/:address/recommendations', () => {
+    const graphAddress = '0x0165878a594ca255338adfa4d48449f69242eb8f';
+    let graph: mongoose.Types.ObjectId;
+    let block = 0;
+
+    const position = () => ({
+      contract: graph,
+      contractAddress: graphAddress,
+      network: 'anvil',
+      blockNumber: ++block,
+      logIndex: 0,
+      transactionHash: '0x' + block.toString(16).padStart(64, '0')
+    });
+
+    beforeEach(async () => {
+      const contract = await Contract.create({
+        address: graphAddress,
+        type: ContractType.RECOMMENDATION_GRAPH,
+        network: 'anvil'
+      });
+      graph = contract._id as mongoose.Types.ObjectId;
+
+      await TrackEdge.create([
+        { ...position(), fromTrack: '1', toTrack: '3', weight: 60 },
+        { ...position(), fromTrack: '2', toTrack: '4', weight: 20 },
+        { ...position(), fromTrack: '1', toTrack: '2', weight: 100 }
+      ]);
+      await UserInteraction.create([
+        { ...position(), user: alice, tokenId: '1', interactionType: 0 },
+        { ...position(), user: alice, tokenId: '2', interactionType: 2 },
+        { ...position(), user: bob, tokenId: '4', interactionType: 1 }
+      ]);
+    });
+
+    it('should rank linked tracks the user has not interacted with', async () => {
+      const res = await request(app).get(`${API_PREFIX}/users/${alice}/recommendations`);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ user: alice, strategy: 'graph', contractAddress: graphAddress, interactedTracks: 2 });
+      expect(res.body.recommendations).toEqual([
+        {
+          tokenId: '4',
+          score: 100,
+          interactionCount: 1,
+          because: [{ tokenId: '2', interactions: { share: 1 }, weight: 20, score: 100 }],
+          explanation: 'Because you shared track #2'
+        },
+        {
+          tokenId: '3',
+          score: 60,
+          interactionCount: 0,
+          because: [{ tokenId: '1', interactions: { view: 1 }, weight: 60, score: 60 }],
+          explanation: 'Because you viewed track #1'
+        }
+      ]);
+      expect(res.body.pagination.totalItems).toBe(2);
+    });
+
+    it('should return nothing for a user without interactions', async () => {
+      const res = await request(app).get(`${API_PREFIX}/users/0x3333333333333333333333333333333333333333/recommendations`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.recommendations).toEqual([]);
+    });
+
+    describe('with item similarities', () => {
+      const similar = (tokenId: string, similarTokenId: string, similarity: number) =>
+        ({ network: 'anvil', tokenId, similarTokenId, similarity, commonUsers: 2, computedAt: new Date(1700000000000) });
+
+      beforeEach(async () => {
+        await ItemSimilarity.create([similar('1', '5', 0.9), similar('2', '6', 0.5), similar('1', '2', 0.7)]);
+      });
+
+      it('should recommend tracks similar to the ones the user was active on', async () => {
+        const res = await request(app).get(`${API_PREFIX}/users/${alice}/recommendations?strategy=cf`);
+
+        expect(res.status).toBe(200);
+        expect(res.body).toMatchObject({
+          strategy: 'cf',
+          network: 'anvil',
+          contractAddress: null,
+          computedAt: new Date(1700000000000).toISOString()
+        });
+        // Sharing track 2 weighs more than viewing track 1
+        expect(res.body.recommendations.map((r: { tokenId: string; explanation: string }) => [r.tokenId, r.explanation]))
+          .toEqual([
+            ['6', 'Because you shared track #2'],
+            ['5', 'Because you viewed track #1']
+          ]);
+      });
+
+      it('should blend graph and similarity recommendations', async () => {
+        const res = await request(app).get(`${API_PREFIX}/users/${alice}/recommendations?strategy=hybrid`);
+
+        expect(res.status).toBe(200);
+        expect(res.body.recommendations.map((r: { tokenId: string }) => r.tokenId)).toEqual(['4', '6', '5', '3']);
+        expect(res.body.recommendations[1]).toMatchObject({ score: 0.5, graph: null, cf: { tokenId: '6' } });
+      });
+    });
+
+    it('should reject an unknown strategy', async () => {
+      const res = await request(app).get(`${API_PREFIX}/users/${alice}/recommendations?strategy=random`);
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getAddress, id, Interface } from 'ethers';
+import { AbiRegistry, createAbiRegistry } from '../../../src/indexer/abi/AbiRegistry';
+import { TUNEFI_ABIS } from '../../../src/indexer/abi/tunefi';
+
+describe('AbiRegistry', () => {
+  const address = '0x1234567890123456789012345678901234567890';
+  const creator = getAddress('0xabcdef0123456789abcdef0123456789abcdef01');
+
+  const encode = (abi: string[], name: string, values: unknown[]) => {
+    const iface = new Interface(abi);
+    return iface.encodeEventLog(name, values);
+  };
+
+  describe('createAbiRegistry', () => {
+    it('should seed every TuneFi ABI', () => {
+      const registry = createAbiRegistry(undefined);
+      for (const name of Object.keys(TUNEFI_ABIS)) {
+        expect(registry.has(name)).toBe(true);
+      }
+    });
+  });
+
+  describe('decodeLog', () => {
+    const registry = createAbiRegistry(undefined);
+
+    it('should decode a log into typed args with decimal string bigints', () => {
+      const log = encode(TUNEFI_ABIS.MusicNFT, 'TrackCreated', [42n, creator, 10n ** 18n]);
+
+      const decoded = registry.decodeLog({ address, name: 'MusicNFT', type: 'ERC1155' }, log);
+
+      expect(decoded).toEqual({
+        name: 'TrackCreated',
+        signature: 'TrackCreated(uint256,address,uint256)',
+        args: {
+          tokenId: '42',
+          creator: creator.toLowerCase(),
+          price: '1000000000000000000'
+        }
+      });
+    });
+
+    it('should prefer the abi field over the name and type', () => {
+      const log = encode(TUNEFI_ABIS.Marketplace, 'TokenListed', [1n, creator, 5n]);
+
+      const decoded = registry.decodeLog(
+        { address, name: 'My Market', type: 'ERC721', abi: 'Marketplace' },
+        log
+      );
+
+      expect(decoded?.name).toBe('TokenListed');
+    });
+
+    it('should fall back to the contract type', () => {
+      const log = encode(TUNEFI_ABIS.ERC721, 'Transfer', [creator, address, 7n]);
+
+      const decoded = registry.decodeLog({ address, name: 'Unregistered', type: 'ERC721' }, log);
+
+      expect(decoded?.signature).toBe('Transfer(address,address,uint256)');
+      expect(decoded?.args.tokenId).toBe('7');
+    });
+
+    it('should decode arrays and keep indexed dynamic values as hashes', () => {
+      const batch = encode(TUNEFI_ABIS.MusicNFT, 'TransferBatch', [creator, creator, address, [1n, 2n], [3n, 4n]]);
+      const funded = encode(TUNEFI_ABIS.TuneToken, 'PoolFunded', ['rewards', 100n]);
+
+      expect(registry.decodeLog({ address, name: 'MusicNFT', type: 'ERC1155' }, batch)?.args).toMatchObject({
+        ids: ['1', '2'],
+        values: ['3', '4']
+      });
+      expect(registry.decodeLog({ address, name: 'TuneToken', type: 'ERC721' }, funded)?.args).toEqual({
+        poolName: id('rewards'),
+        amount: '100'
+      });
+    });
+
+    it('should use an address binding before anything else', () => {
+      const bound = createAbiRegistry(undefined);
+      bound.bind(address.toUpperCase().replace('0X', '0x'), 'FanEngagement');
+      const log = encode(TUNEFI_ABIS.FanEngagement, 'PointsEarned', [creator, 10n, 'purchase']);
+
+      const decoded = bound.decodeLog({ address, name: 'MusicNFT', type: 'ERC1155' }, log);
+
+      expect(decoded?.args).toEqual({ user: creator.toLowerCase(), points: '10', action: 'purchase' });
+    });
+
+    it('should return null for logs the ABI does not describe', () => {
+      const log = encode(TUNEFI_ABIS.Marketplace, 'TokenListed', [1n, creator, 5n]);
+
+      expect(registry.decodeLog({ address, name: 'MusicNFT', type: 'ERC1155' }, log)).toBeNull();
+      expect(registry.decodeLog({ address, type: 'ERC721' }, { topics: [], data: '0x' })).toBeNull();
+    });
+  });
+
+  describe('decodeCall', () => {
+    const registry = createAbiRegistry(undefined);
+
+    it('should decode calldata with the contract ABI', () => {
+      const data = new Interface(TUNEFI_ABIS.MusicNFT).encodeFunctionData('createTrackWithCollaborators', [
+        'ipfs://track',
+        [creator],
+        [10000n],
+        100n,
+        5n
+      ]);
+
+      const decoded = registry.decodeCall({ address, name: 'MusicNFT', type: 'MUSIC_NFT' }, data);
+
+      expect(decoded).toEqual({
+        name: 'createTrackWithCollaborators',
+        signature: 'createTrackWithCollaborators(string,address[],uint256[],uint256,uint256)',
+        args: {
+          uri: 'ipfs://track',
+          collaborators: [creator.toLowerCase()],
+          shares: ['10000'],
+          maxSupply: '100',
+          price: '5'
+        }
+      });
+    });
+
+    it('should return null for unknown selectors', () => {
+      expect(registry.decodeCall({ address, name: 'MusicNFT', type: 'MUSIC_NFT' }, '0xdeadbeef')).toBeNull();
+    });
+  });
+
+  describe('loadFoundryArtifacts', () => {
+    let outDir: string;
+
+    beforeEach(() => {
+      outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'foundry-out-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(outDir, { recursive: true, force: true });
+    });
+
+    const writeArtifact = (file: string, abi: unknown) => {
+      fs.mkdirSync(path.dirname(path.join(outDir, file)), { recursive: true });
+      fs.writeFileSync(path.join(outDir, file), JSON.stringify({ abi }));
+    };
+
+    it('should register artifacts with events and apply aliases', () => {
+      const governorAbi = new Interface(TUNEFI_ABIS.Governor).formatJson();
+      writeArtifact('Governor.sol/TuneFiGovernor.json', JSON.parse(governorAbi));
+      writeArtifact('Library.sol/Library.json', []);
+      writeArtifact('build-info/abc.json', JSON.parse(governorAbi));
+
+      const registry = new AbiRegistry();
+      const loaded = registry.loadFoundryArtifacts(outDir);
+
+      expect(loaded).toEqual(['TuneFiGovernor']);
+      expect(registry.has('Governor')).toBe(true);
+      expect(registry.has('Library')).toBe(false);
+    });
+
+    it('should ignore a missing directory', () => {
+      const registry = new AbiRegistry();
+      expect(registry.loadFoundryArtifacts(path.join(outDir, 'missing'))).toEqual([]);
+    });
+  });
+});
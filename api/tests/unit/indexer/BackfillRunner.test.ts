@@ -0,0 +1,170 @@
+import { Filter } from 'ethers';
+import {
+  BackfillRunner,
+  isRangeTooLargeError,
+  scheduleBackfill
+} from '../../../src/indexer/BackfillRunner';
+import { Block } from '../../../src/models/Block';
+import { Contract, ContractType, IContract } from '../../../src/models/Contract';
+import { Event } from '../../../src/models/Event';
+import { IndexingStatus, IndexingStatusType } from '../../../src/models/IndexingStatus';
+import { FakeProvider, hashOf } from '../../helpers/fakeProvider';
+
+// Rejects getLogs ranges wider than a limit, like hosted RPC providers do
+class LimitedProvider extends FakeProvider {
+  requestedRanges: number[] = [];
+
+  constructor(blockCount: number, private maxRange: number) {
+    super(blockCount);
+  }
+
+  async getLogs(filter: Filter) {
+    const range = Number(filter.toBlock) - Number(filter.fromBlock) + 1;
+    this.requestedRanges.push(range);
+    if (range > this.maxRange) {
+      throw new Error(`eth_getLogs block range is too large, max is ${this.maxRange}`);
+    }
+    return super.getLogs(filter);
+  }
+}
+
+describe('BackfillRunner', () => {
+  const address = '0x1234567890123456789012345678901234567890';
+  const topic = hashOf('Transfer', 't');
+  let contract: IContract;
+
+  beforeEach(async () => {
+    contract = await Contract.create({
+      address,
+      name: 'Test NFT',
+      type: ContractType.ERC721,
+      network: 'ethereum',
+      deployedAt: 10
+    });
+  });
+
+  const addLogs = (provider: FakeProvider, blocks: number[]) => {
+    for (const blockNumber of blocks) {
+      provider.addLog({
+        address,
+        blockNumber,
+        transactionHash: hashOf(blockNumber, 'tx'),
+        topics: [topic],
+        data: '0x'
+      });
+    }
+  };
+
+  it('should index a bounded block range and complete the job', async () => {
+    const provider = new FakeProvider(100);
+    addLogs(provider, [5, 20, 45, 60]);
+    await scheduleBackfill(contract, 10, 50);
+
+    const runner = new BackfillRunner(provider, { network: 'ethereum', initialChunkSize: 10 });
+    expect(await runner.runNext()).toBe(true);
+
+    const blockNumbers = (await Event.find().sort({ blockNumber: 1 })).map(event => event.blockNumber);
+    expect(blockNumbers).toEqual([20, 45]);
+
+    const status = await IndexingStatus.findOne({ contract: contract._id });
+    expect(status?.status).toBe(IndexingStatusType.COMPLETED);
+    expect(status?.currentBlock).toBe(50);
+    expect(status?.progress).toBe(100);
+    expect(status?.isIndexing).toBe(false);
+  });
+
+  it('should track confirmations and finality of backfilled history', async () => {
+    const provider = new FakeProvider(100);
+    addLogs(provider, [20, 45]);
+    await scheduleBackfill(contract, 10, 50);
+
+    const runner = new BackfillRunner(provider, {
+      network: 'ethereum',
+      initialChunkSize: 10,
+      finality: { confirmationDepth: 64, safeDepth: 32 }
+    });
+    await runner.runNext();
+
+    const events = await Event.find().sort({ blockNumber: 1 });
+    expect(events.map(event => [event.confirmations, event.finalized])).toEqual([
+      [80, true],
+      [55, false]
+    ]);
+    expect((await Block.findOne({ number: 20 }))?.finalized).toBe(true);
+  });
+
+  it('should shrink the chunk size when the node rejects a range', async () => {
+    const provider = new LimitedProvider(100, 8);
+    addLogs(provider, [15, 35]);
+    await scheduleBackfill(contract, 10, 40);
+
+    const runner = new BackfillRunner(provider, { network: 'ethereum', initialChunkSize: 32 });
+    await runner.runNext();
+
+    expect(provider.requestedRanges.slice(0, 3)).toEqual([31, 16, 8]);
+    expect(await Event.countDocuments()).toBe(2);
+    const status = await IndexingStatus.findOne({ contract: contract._id });
+    expect(status?.status).toBe(IndexingStatusType.COMPLETED);
+  });
+
+  it('should resume an interrupted job from currentBlock', async () => {
+    const provider = new LimitedProvider(100, 100);
+    await scheduleBackfill(contract, 10, 50);
+    await IndexingStatus.updateOne(
+      { contract: contract._id },
+      { $set: { status: IndexingStatusType.RUNNING, currentBlock: 29 } }
+    );
+
+    const runner = new BackfillRunner(provider, { network: 'ethereum', initialChunkSize: 100 });
+    expect(await runner.resumeInterrupted()).toBe(1);
+    await runner.runNext();
+
+    expect(provider.requestedRanges).toEqual([21]);
+  });
+
+  it('should end open-ended jobs where live indexing starts', async () => {
+    const provider = new FakeProvider(30);
+    await scheduleBackfill(contract, 10);
+
+    const runner = new BackfillRunner(provider, { network: 'ethereum' });
+    await runner.runNext();
+
+    const status = await IndexingStatus.findOne({ contract: contract._id });
+    expect(status?.endBlock).toBe(29);
+    const updated = await Contract.findById(contract._id);
+    expect(updated?.lastIndexedBlock).toBe(29);
+  });
+
+  it('should mark the job as failed on unexpected errors', async () => {
+    const provider = new FakeProvider(30);
+    provider.getLogs = async () => {
+      throw new Error('connection refused');
+    };
+    await scheduleBackfill(contract, 10, 20);
+
+    const runner = new BackfillRunner(provider, { network: 'ethereum' });
+    await runner.runNext();
+
+    const status = await IndexingStatus.findOne({ contract: contract._id });
+    expect(status?.status).toBe(IndexingStatusType.FAILED);
+    expect(status?.error).toBe('connection refused');
+  });
+
+  it('should return false when no job is queued', async () => {
+    const runner = new BackfillRunner(new FakeProvider(1), { network: 'ethereum' });
+    expect(await runner.runNext()).toBe(false);
+  });
+
+  describe('isRangeTooLargeError', () => {
+    it('should recognize common provider messages', () => {
+      expect(isRangeTooLargeError(new Error('query returned more than 10000 results'))).toBe(true);
+      expect(isRangeTooLargeError({ error: { code: -32005, message: 'limit' } })).toBe(true);
+      expect(isRangeTooLargeError({ info: { error: { message: 'Log response size exceeded.' } } })).toBe(true);
+    });
+
+    it('should ignore unrelated errors', () => {
+      expect(isRangeTooLargeError(new Error('connection refused'))).toBe(false);
+      expect(isRangeTooLargeError(undefined)).toBe(false);
+    });
+  });
+});
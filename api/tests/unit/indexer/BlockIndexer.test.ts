@@ -0,0 +1,161 @@
+import { BlockIndexer } from '../../../src/indexer/BlockIndexer';
+import { Block } from '../../../src/models/Block';
+import { Contract, ContractType, IContract } from '../../../src/models/Contract';
+import { Event } from '../../../src/models/Event';
+import { IndexingStatus, IndexingStatusType } from '../../../src/models/IndexingStatus';
+import { Transaction } from '../../../src/models/Transaction';
+import { FakeProvider, hashOf } from '../../helpers/fakeProvider';
+
+describe('BlockIndexer', () => {
+  const address = '0x1234567890123456789012345678901234567890';
+  const transferTopic = hashOf('Transfer', 't');
+  let provider: FakeProvider;
+  let contract: IContract;
+
+  beforeEach(async () => {
+    provider = new FakeProvider(10);
+    contract = await Contract.create({
+      address,
+      name: 'Test NFT',
+      type: ContractType.ERC721,
+      network: 'ethereum',
+      lastIndexedBlock: 1
+    });
+  });
+
+  it('should resume from the last indexed block', async () => {
+    const indexer = new BlockIndexer(provider, { network: 'ethereum' });
+    const result = await indexer.poll();
+
+    expect(result).toMatchObject({ fromBlock: 2, toBlock: 9, latestBlock: 9 });
+    expect(await Block.countDocuments()).toBe(8);
+
+    const updated = await Contract.findById(contract._id);
+    expect(updated?.lastIndexedBlock).toBe(9);
+  });
+
+  it('should persist events and transactions for contract logs', async () => {
+    const txHash = hashOf(1, 'tx');
+    provider.addLog({
+      address,
+      blockNumber: 5,
+      transactionHash: txHash,
+      topics: [transferTopic],
+      data: '0x'
+    });
+
+    const indexer = new BlockIndexer(provider, { network: 'ethereum' });
+    const result = await indexer.poll();
+    expect(result?.eventCount).toBe(1);
+
+    const event = await Event.findOne({ transactionHash: txHash });
+    expect(event?.blockNumber).toBe(5);
+    expect(event?.signature).toBe(transferTopic);
+    expect(event?.timestamp).toBe(provider.blocks[5].timestamp);
+
+    const transaction = await Transaction.findOne({ hash: txHash });
+    expect(transaction?.contract.toString()).toBe(contract._id?.toString());
+    expect(transaction?.status).toBe(true);
+  });
+
+  it('should not duplicate rows when polled again', async () => {
+    provider.addLog({
+      address,
+      blockNumber: 3,
+      transactionHash: hashOf(2, 'tx'),
+      topics: [transferTopic],
+      data: '0x'
+    });
+
+    const indexer = new BlockIndexer(provider, { network: 'ethereum' });
+    await indexer.poll();
+    expect(await indexer.poll()).toBeNull();
+
+    provider.mine(2);
+    await indexer.poll();
+
+    expect(await Event.countDocuments()).toBe(1);
+    expect(await Block.countDocuments()).toBe(10);
+  });
+
+  it('should respect the maximum block range per poll', async () => {
+    const indexer = new BlockIndexer(provider, { network: 'ethereum', maxBlockRange: 3 });
+
+    expect(await indexer.poll()).toMatchObject({ fromBlock: 2, toBlock: 4 });
+    expect(await indexer.poll()).toMatchObject({ fromBlock: 5, toBlock: 7 });
+  });
+
+  it('should start new contracts at the chain head', async () => {
+    await Contract.updateOne({ _id: contract._id }, { $unset: { lastIndexedBlock: '' } });
+
+    const indexer = new BlockIndexer(provider, { network: 'ethereum' });
+    const result = await indexer.poll();
+
+    expect(result).toMatchObject({ fromBlock: 9, toBlock: 9 });
+  });
+
+  it('should update the indexing status for the contract', async () => {
+    const indexer = new BlockIndexer(provider, { network: 'ethereum' });
+    await indexer.poll();
+
+    const status = await IndexingStatus.findOne({ contract: contract._id });
+    expect(status?.lastIndexedBlock).toBe(9);
+    expect(status?.status).toBe(IndexingStatusType.PENDING);
+  });
+
+  it('should ignore logs from unregistered contracts', async () => {
+    provider.addLog({
+      address: '0x0000000000000000000000000000000000000001',
+      blockNumber: 4,
+      transactionHash: hashOf(3, 'tx'),
+      topics: [transferTopic],
+      data: '0x'
+    });
+
+    const indexer = new BlockIndexer(provider, { network: 'ethereum' });
+    const result = await indexer.poll();
+
+    expect(result?.eventCount).toBe(0);
+    expect(await Event.countDocuments()).toBe(0);
+  });
+
+  it('should track confirmations and finality against the head', async () => {
+    provider.addLog({
+      address,
+      blockNumber: 4,
+      transactionHash: hashOf(4, 'tx'),
+      topics: [transferTopic],
+      data: '0x'
+    });
+
+    const indexer = new BlockIndexer(provider, {
+      network: 'ethereum',
+      finality: { confirmationDepth: 5, safeDepth: 2 }
+    });
+    await indexer.poll();
+
+    const event = await Event.findOne({ blockNumber: 4 });
+    expect(event?.confirmations).toBe(6);
+    expect(event?.finalized).toBe(true);
+
+    const head = await Block.findOne({ number: 9 });
+    expect(head?.confirmations).toBe(1);
+    expect(head?.finalized).toBe(false);
+
+    provider.mine(4);
+    await indexer.poll();
+    expect((await Block.findOne({ number: 9 }))?.finalized).toBe(true);
+  });
+
+  it('should skip contracts whose indexing is paused', async () => {
+    await IndexingStatus.create({
+      contract: contract._id,
+      lastIndexedBlock: 1,
+      lastIndexedAt: Date.now(),
+      status: IndexingStatusType.PAUSED
+    });
+
+    const indexer = new BlockIndexer(provider, { network: 'ethereum' });
+    expect(await indexer.poll()).toBeNull();
+  });
+});
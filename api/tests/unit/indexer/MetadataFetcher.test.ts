@@ -0,0 +1,142 @@
+import mongoose from 'mongoose';
+import { MetadataCache, MetadataCacheStatus } from '../../../src/models/MetadataCache';
+import {
+  isPrivateAddress,
+  MetadataFetcher,
+  queueMetadata,
+  resolveMetadataUrl
+} from '../../../src/indexer/MetadataFetcher';
+
+describe('MetadataFetcher', () => {
+  const contract = new mongoose.Types.ObjectId();
+
+  const respond = (status: number, body: unknown) =>
+    jest.fn(async () => new Response(JSON.stringify(body), { status })) as unknown as typeof fetch;
+
+  // Every host resolves to a public address unless named after a private one
+  const lookup = async (hostname: string) => [hostname === 'internal.example' ? '10.0.0.5' : '93.184.216.34'];
+
+  describe('resolveMetadataUrl', () => {
+    it('should resolve IPFS and Arweave URIs through gateways', () => {
+      expect(resolveMetadataUrl('ipfs://Qm123/1.json')).toBe('https://ipfs.io/ipfs/Qm123/1.json');
+      expect(resolveMetadataUrl('ipfs://ipfs/Qm123', 'http://localhost:8080/ipfs')).toBe('http://localhost:8080/ipfs/Qm123');
+      expect(resolveMetadataUrl('ar://tx')).toBe('https://arweave.net/tx');
+      expect(resolveMetadataUrl('https://example.com/1')).toBe('https://example.com/1');
+    });
+  });
+
+  describe('queueMetadata', () => {
+    it('should queue each URI once and skip invalid ones', async () => {
+      await queueMetadata(contract, '1', 'ipfs://Qm1');
+      await queueMetadata(contract, '1', 'ipfs://Qm1');
+      await queueMetadata(contract, '1', 'not a uri');
+
+      const entries = await MetadataCache.find();
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ uri: 'ipfs://Qm1', status: MetadataCacheStatus.PENDING });
+    });
+  });
+
+  describe('runNext', () => {
+    beforeEach(async () => {
+      await queueMetadata(contract, '1', 'ipfs://Qm1');
+    });
+
+    it('should store fetched metadata', async () => {
+      const fetch = respond(200, { name: 'Song', attributes: [{ trait_type: 'Genre', value: 'House' }] });
+      const fetcher = new MetadataFetcher({ fetch, lookup });
+
+      await expect(fetcher.runNext()).resolves.toBe(true);
+
+      expect(fetch).toHaveBeenCalledWith('https://ipfs.io/ipfs/Qm1', expect.anything());
+      const entry = await MetadataCache.findOne();
+      expect(entry).toMatchObject({ status: MetadataCacheStatus.SUCCESS, metadata: { name: 'Song' } });
+      expect(entry?.lastFetched).toBeDefined();
+      await expect(fetcher.runNext()).resolves.toBe(false);
+    });
+
+    it('should record failures and retry them after the delay', async () => {
+      const fetcher = new MetadataFetcher({ fetch: respond(504, {}), lookup, retryDelayMs: 0, maxRetries: 2 });
+
+      await fetcher.runNext();
+      expect(await MetadataCache.findOne()).toMatchObject({
+        status: MetadataCacheStatus.FAILED,
+        error: 'HTTP 504',
+        retryCount: 1
+      });
+
+      await expect(fetcher.runNext()).resolves.toBe(true);
+      await expect(fetcher.runNext()).resolves.toBe(false);
+      expect((await MetadataCache.findOne())?.retryCount).toBe(2);
+    });
+
+    it('should mark responses that are not metadata as invalid', async () => {
+      const fetcher = new MetadataFetcher({ fetch: respond(200, ['not', 'an', 'object']), lookup });
+
+      await fetcher.runNext();
+
+      expect(await MetadataCache.findOne()).toMatchObject({ status: MetadataCacheStatus.INVALID });
+    });
+  });
+
+  describe('request safety', () => {
+    const resolveOnly = async (uri: string, options: ConstructorParameters<typeof MetadataFetcher>[0] = {}) => {
+      await queueMetadata(contract, '2', uri);
+      const fetch = options.fetch ?? respond(200, { name: 'Song' });
+      await new MetadataFetcher({ lookup, ...options, fetch }).runNext();
+      return { fetch, entry: await MetadataCache.findOne({ uri }) };
+    };
+
+    it('should recognize private and loopback addresses', () => {
+      for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '::1', 'fd00::1', '::ffff:7f00:1']) {
+        expect(isPrivateAddress(address)).toBe(true);
+      }
+      expect(isPrivateAddress('93.184.216.34')).toBe(false);
+      expect(isPrivateAddress('2606:4700::1111')).toBe(false);
+    });
+
+    it('should refuse URLs on private addresses without requesting them', async () => {
+      for (const uri of ['http://127.0.0.1/1.json', 'http://[::1]/1.json', 'https://internal.example/1.json']) {
+        const { fetch, entry } = await resolveOnly(uri);
+        expect(fetch).not.toHaveBeenCalled();
+        expect(entry).toMatchObject({ status: MetadataCacheStatus.INVALID, error: expect.stringMatching(/private address/) });
+      }
+    });
+
+    it('should only fetch http(s) URLs', async () => {
+      const { fetch, entry } = await resolveOnly('file:///etc/passwd');
+
+      expect(fetch).not.toHaveBeenCalled();
+      expect(entry).toMatchObject({ status: MetadataCacheStatus.INVALID, error: 'Unsupported protocol file:' });
+    });
+
+    it('should restrict hosts to the allow-list but always trust the gateway', async () => {
+      const options = { allowedHosts: ['Meta.example'], ipfsGatewayUrl: 'http://localhost:8080/ipfs/' };
+
+      expect((await resolveOnly('https://other.example/1.json', options)).entry?.status).toBe(MetadataCacheStatus.INVALID);
+      expect((await resolveOnly('https://meta.example/1.json', options)).entry?.status).toBe(MetadataCacheStatus.SUCCESS);
+      expect((await resolveOnly('ipfs://Qm2', options)).entry?.status).toBe(MetadataCacheStatus.SUCCESS);
+    });
+
+    it('should check every redirect target', async () => {
+      const redirect = jest.fn(async () => new Response(null, {
+        status: 302,
+        headers: { location: 'http://169.254.169.254/latest/meta-data' }
+      })) as unknown as typeof fetch;
+
+      const { entry } = await resolveOnly('https://meta.example/1.json', { fetch: redirect });
+
+      expect(redirect).toHaveBeenCalledTimes(1);
+      expect(entry).toMatchObject({ status: MetadataCacheStatus.INVALID });
+    });
+
+    it('should reject responses over the size limit', async () => {
+      const { entry } = await resolveOnly('https://meta.example/1.json', {
+        fetch: respond(200, { name: 'x'.repeat(200) }),
+        maxResponseBytes: 100
+      });
+
+      expect(entry).toMatchObject({ status: MetadataCacheStatus.INVALID, error: 'Response exceeds 100 bytes' });
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import mongoose from 'mongoose';
+import { EngagementEntry, EngagementEntryType } from '../../../src/models/EngagementEntry';
+import { ItemSimilarity } from '../../../src/models/ItemSimilarity';
+import { Sale, SaleType } from '../../../src/models/Sale';
+import { UserInteraction } from '../../../src/models/UserInteraction';
+import { loadSignals, SimilarityJob } from '../../../src/indexer/SimilarityJob';
+
+describe('SimilarityJob', () => {
+  const alice = '0x1111111111111111111111111111111111111111';
+  const bob = '0x2222222222222222222222222222222222222222';
+  const carol = '0x3333333333333333333333333333333333333333';
+  const contract = new mongoose.Types.ObjectId();
+  let block = 0;
+
+  const position = (network = 'anvil') => ({
+    contract,
+    contractAddress: '0x0165878a594ca255338adfa4d48449f69242eb8f',
+    network,
+    blockNumber: ++block,
+    logIndex: 0,
+    transactionHash: '0x' + block.toString(16).padStart(64, '0')
+  });
+
+  const interaction = (user: string, tokenId: string, interactionType: number) =>
+    UserInteraction.create({ ...position(), user, tokenId, interactionType });
+
+  const earn = (user: string, tokenId: string | undefined, action: string, points: number) =>
+    EngagementEntry.create({ ...position(), user, type: EngagementEntryType.POINTS_EARNED, action, points, tokenId });
+
+  const buy = (buyer: string, tokenId: string, network = 'anvil') =>
+    Sale.create({ ...position(network), tokenId, type: SaleType.PRIMARY, buyer, price: '1000' });
+
+  beforeEach(async () => {
+    // Tracks 1 and 2 go together for alice and bob; carol only overlaps on 1
+    await interaction(alice, '1', 1);
+    await earn(alice, '2', 'stream', 1);
+    await buy(bob, '1');
+    await interaction(bob, '2', 2);
+    await interaction(carol, '1', 0);
+    await earn(carol, '3', 'share', 2);
+  });
+
+  describe('loadSignals', () => {
+    it('should weigh interactions, points and purchases of a user', async () => {
+      await earn(alice, undefined, 'like', 1);
+      await buy(alice, '2');
+      await buy(alice, '2', 'sepolia');
+
+      const signals = await loadSignals('anvil', alice);
+
+      expect(signals).toHaveLength(3);
+      expect(signals).toEqual(expect.arrayContaining([
+        { user: alice, tokenId: '1', action: 'like', weight: 3 },
+        { user: alice, tokenId: '2', action: 'stream', weight: 1 },
+        { user: alice, tokenId: '2', action: 'purchase', weight: 5 }
+      ]));
+    });
+  });
+
+  describe('run', () => {
+    it('should store the similar tracks of every track both ways', async () => {
+      const job = new SimilarityJob({ networks: ['anvil'] });
+
+      await expect(job.run('anvil')).resolves.toBe(2);
+
+      const rows = await ItemSimilarity.find({ network: 'anvil' }).sort({ tokenId: 1 });
+      expect(rows.map(row => [row.tokenId, row.similarTokenId, row.commonUsers])).toEqual([
+        ['1', '2', 2],
+        ['2', '1', 2]
+      ]);
+      expect(rows[0].similarity).toBeGreaterThan(0);
+      expect(rows[0].similarity).toBeLessThanOrEqual(1);
+    });
+
+    it('should replace the similarities of an earlier run', async () => {
+      const job = new SimilarityJob({ networks: ['anvil'] });
+      await job.run('anvil');
+      await ItemSimilarity.create({
+        network: 'sepolia',
+        tokenId: '1',
+        similarTokenId: '2',
+        similarity: 1,
+        commonUsers: 2,
+        computedAt: new Date()
+      });
+      await UserInteraction.deleteMany({ user: bob });
+      await Sale.deleteMany({ buyer: bob });
+
+      await expect(job.run('anvil')).resolves.toBe(0);
+
+      expect(await ItemSimilarity.countDocuments({ network: 'anvil' })).toBe(0);
+      expect(await ItemSimilarity.countDocuments({ network: 'sepolia' })).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { Interface } from 'ethers';
+import { ContractType } from '../../../src/models/Contract';
+import {
+  ContractDetectionError,
+  detectContract,
+  DetectionProvider,
+  INTERFACE_IDS
+} from '../../../src/indexer/detection';
+import { createAbiRegistry } from '../../../src/indexer/abi/AbiRegistry';
+
+const probeAbi = new Interface([
+  'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)'
+]);
+
+interface FakeContract {
+  code?: string;
+  interfaces?: string[];
+  name?: string;
+  symbol?: string;
+  decimals?: number;
+}
+
+/**
+ * Answers eth_call like a contract implementing the given interfaces and
+ * metadata; anything else reverts
+ */
+const fakeProvider = (contract: FakeContract): DetectionProvider => ({
+  getCode: async () => contract.code ?? '0x6080',
+  call: async ({ data }) => {
+    const parsed = probeAbi.parseTransaction({ data: data as string });
+    switch (parsed?.name) {
+      case 'supportsInterface':
+        if (!contract.interfaces) {
+          break;
+        }
+        return probeAbi.encodeFunctionResult('supportsInterface', [
+          contract.interfaces.includes(parsed.args[0])
+        ]);
+      case 'name':
+      case 'symbol':
+      case 'decimals':
+        if (contract[parsed.name] != null) {
+          return probeAbi.encodeFunctionResult(parsed.name, [contract[parsed.name]]);
+        }
+        break;
+    }
+    throw new Error('execution reverted');
+  }
+});
+
+describe('detectContract', () => {
+  const address = '0x1234567890123456789012345678901234567890';
+  const registry = createAbiRegistry(undefined);
+
+  it('should detect ERC721 contracts through ERC-165', async () => {
+    const provider = fakeProvider({
+      interfaces: [INTERFACE_IDS.erc165, INTERFACE_IDS.erc721],
+      name: 'Test NFT',
+      symbol: 'TNFT'
+    });
+
+    const result = await detectContract(address, 'anvil', provider, registry);
+
+    expect(result).toMatchObject({ type: ContractType.ERC721, name: 'Test NFT', symbol: 'TNFT', erc20: false });
+    expect(result.interfaces.erc721).toBe(true);
+    expect(result.interfaces.erc1155).toBe(false);
+  });
+
+  it('should detect ERC20 tokens from decimals and symbol', async () => {
+    const provider = fakeProvider({ name: 'Token', symbol: 'TKN', decimals: 18 });
+
+    const result = await detectContract(address, 'anvil', provider, registry);
+
+    expect(result).toMatchObject({ type: ContractType.ERC20, decimals: 18, erc20: true });
+    expect(result.interfaces.erc165).toBe(false);
+  });
+
+  it('should detect governors', async () => {
+    const provider = fakeProvider({
+      interfaces: [INTERFACE_IDS.erc165, INTERFACE_IDS.governor],
+      name: 'TuneFiGovernor'
+    });
+
+    const result = await detectContract(address, 'anvil', provider, registry);
+
+    expect(result.type).toBe(ContractType.GOVERNOR);
+  });
+
+  it('should ignore contracts claiming to support every interface', async () => {
+    const provider = fakeProvider({
+      interfaces: [...Object.values(INTERFACE_IDS), '0xffffffff']
+    });
+
+    const result = await detectContract(address, 'anvil', provider, registry);
+
+    expect(result.type).toBe(ContractType.OTHER);
+    expect(result.interfaces.erc721).toBe(false);
+  });
+
+  it('should recognise TuneFi contracts from event topics in the bytecode', async () => {
+    const musicNft = registry.get('MusicNFT') as Interface;
+    const topics = ['TrackCreated', 'TrackVersionUpdated']
+      .map(name => musicNft.getEvent(name)!.topicHash.slice(2))
+      .join('5b');
+    const provider = fakeProvider({
+      code: `0x6080${topics}00`,
+      interfaces: [INTERFACE_IDS.erc165, INTERFACE_IDS.erc1155, INTERFACE_IDS.erc2981]
+    });
+
+    const result = await detectContract(address, 'anvil', provider, registry);
+
+    expect(result).toMatchObject({ type: ContractType.MUSIC_NFT, protocolRole: ContractType.MUSIC_NFT });
+    expect(result.interfaces.erc2981).toBe(true);
+  });
+
+  it('should reject addresses without code', async () => {
+    const provider = fakeProvider({ code: '0x' });
+
+    await expect(detectContract(address, 'anvil', provider, registry)).rejects.toThrow(ContractDetectionError);
+  });
+});
@@ -0,0 +1,115 @@
+import { Contract, ContractType } from '../../../src/models/Contract';
+import { IndexingStatus, IndexingStatusType } from '../../../src/models/IndexingStatus';
+import { ValidationError } from '../../../src/middleware/error-handler';
+import {
+  contractTypeForName,
+  importFoundryBroadcast,
+  parseBroadcast
+} from '../../../src/indexer/foundryImport';
+
+describe('Foundry import', () => {
+  const tokenAddress = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+  const nftAddress = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+
+  const broadcast = {
+    chain: 31337,
+    transactions: [
+      {
+        hash: '0x' + '1'.repeat(64),
+        transactionType: 'CREATE',
+        contractName: 'TuneToken',
+        contractAddress: tokenAddress
+      },
+      {
+        hash: '0x' + '2'.repeat(64),
+        transactionType: 'CREATE',
+        contractName: 'MusicNFT',
+        contractAddress: nftAddress
+      },
+      {
+        hash: '0x' + '3'.repeat(64),
+        transactionType: 'CALL',
+        contractName: 'RoyaltyDistributor',
+        contractAddress: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+        function: 'grantRole(bytes32,address)'
+      }
+    ],
+    receipts: [
+      { transactionHash: '0x' + '1'.repeat(64), blockNumber: '0x1' },
+      { transactionHash: '0x' + '2'.repeat(64), blockNumber: '0x3' }
+    ]
+  };
+
+  describe('parseBroadcast', () => {
+    it('should map CREATE transactions to deployments', () => {
+      expect(parseBroadcast(broadcast)).toEqual({
+        chainId: 31337,
+        deployments: [
+          {
+            name: 'TuneToken',
+            address: tokenAddress.toLowerCase(),
+            transactionHash: '0x' + '1'.repeat(64),
+            blockNumber: 1
+          },
+          {
+            name: 'MusicNFT',
+            address: nftAddress.toLowerCase(),
+            transactionHash: '0x' + '2'.repeat(64),
+            blockNumber: 3
+          }
+        ]
+      });
+    });
+
+    it('should reject files that are not broadcasts', () => {
+      expect(() => parseBroadcast({})).toThrow(ValidationError);
+      expect(() => parseBroadcast({ transactions: [] })).toThrow('Invalid broadcast file: missing chain ID');
+    });
+  });
+
+  describe('contractTypeForName', () => {
+    it('should map TuneFi contract names to types', () => {
+      expect(contractTypeForName('MusicNFT')).toBe(ContractType.MUSIC_NFT);
+      expect(contractTypeForName('StakingContract')).toBe(ContractType.STAKING);
+      expect(contractTypeForName('TuneFiGovernor')).toBe(ContractType.GOVERNOR);
+      expect(contractTypeForName('TuneAccessControl')).toBe(ContractType.OTHER);
+    });
+  });
+
+  describe('importFoundryBroadcast', () => {
+    it('should register contracts and queue backfills', async () => {
+      const result = await importFoundryBroadcast(broadcast);
+
+      expect(result.network).toBe('anvil');
+      expect(result.contracts.map(contract => contract.status)).toEqual(['created', 'created']);
+
+      const nft = await Contract.findOne({ address: nftAddress.toLowerCase() });
+      expect(nft).toMatchObject({ name: 'MusicNFT', type: ContractType.MUSIC_NFT, network: 'anvil', deployedAt: 3 });
+
+      const status = await IndexingStatus.findOne({ contract: nft?._id });
+      expect(status).toMatchObject({ status: IndexingStatusType.PENDING, startBlock: 3 });
+    });
+
+    it('should skip contracts that are already registered', async () => {
+      await importFoundryBroadcast(broadcast, { backfill: false });
+      const result = await importFoundryBroadcast(broadcast);
+
+      expect(result.contracts.map(contract => contract.status)).toEqual(['existing', 'existing']);
+      expect(await IndexingStatus.countDocuments()).toBe(0);
+    });
+
+    it('should require a network for unknown chains', async () => {
+      await expect(importFoundryBroadcast({ ...broadcast, chain: 999 })).rejects.toThrow(
+        'Unknown chain ID 999, specify a network'
+      );
+    });
+
+    it('should register on the given network when its chain ID matches', async () => {
+      await expect(importFoundryBroadcast(broadcast, { network: 'localhost' })).resolves
+        .toMatchObject({ network: 'localhost' });
+      await expect(importFoundryBroadcast(broadcast, { network: 'sepolia' })).rejects.toThrow(
+        'Broadcast chain ID 31337 does not match sepolia (chain ID 11155111)'
+      );
+    });
+  });
+});
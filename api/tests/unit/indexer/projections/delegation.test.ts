@@ -0,0 +1,97 @@
+import { Contract, ContractType, IContract } from '../../../../src/models/Contract';
+import { Delegate } from '../../../../src/models/Delegate';
+import { Delegation } from '../../../../src/models/Delegation';
+import { Event } from '../../../../src/models/Event';
+import { VotingPowerCheckpoint } from '../../../../src/models/VotingPowerCheckpoint';
+import { delegationProjection } from '../../../../src/indexer/projections/delegation';
+
+describe('Delegation projection', () => {
+  const alice = '0x1111111111111111111111111111111111111111';
+  const bob = '0x2222222222222222222222222222222222222222';
+  const carol = '0x3333333333333333333333333333333333333333';
+  const zero = '0x0000000000000000000000000000000000000000';
+  let contract: IContract;
+
+  const hash = (n: number) => '0x' + n.toString(16).padStart(64, '0');
+
+  const storeEvent = async (name: string, blockNumber: number, args: Record<string, unknown>, logIndex = 0) => {
+    const event = await Event.create({
+      contract: contract._id,
+      network: 'anvil',
+      name,
+      signature: name,
+      blockNumber,
+      transactionHash: hash(blockNumber * 10 + logIndex),
+      logIndex,
+      args,
+      timestamp: 1700000000 + blockNumber * 12
+    });
+    await delegationProjection.apply(event, contract);
+    return event;
+  };
+
+  const delegate = (blockNumber: number, delegator: string, fromDelegate: string, toDelegate: string) =>
+    storeEvent('DelegateChanged', blockNumber, { delegator, fromDelegate, toDelegate });
+
+  const votesChanged = (blockNumber: number, address: string, previousVotes: string, newVotes: string, logIndex = 1) =>
+    storeEvent('DelegateVotesChanged', blockNumber, { delegate: address, previousVotes, newVotes }, logIndex);
+
+  beforeEach(async () => {
+    contract = await Contract.create({
+      address: '0x5fbdb2315678afecb367f032d93f642f64180aa3',
+      type: ContractType.TUNE_TOKEN,
+      network: 'anvil'
+    });
+  });
+
+  it('should keep the latest delegate of each holder', async () => {
+    await delegate(5, alice, zero, bob);
+    await delegate(3, alice, zero, carol);
+
+    expect(await Delegation.findOne({ delegator: alice })).toMatchObject({ delegate: bob, sinceBlock: 5 });
+
+    await delegate(7, alice, bob, zero);
+
+    expect(await Delegation.findOne({ delegator: alice })).toMatchObject({ delegate: null, sinceBlock: 7 });
+  });
+
+  it('should checkpoint voting power and keep the current votes', async () => {
+    await votesChanged(5, bob, '0', '100');
+    await votesChanged(8, bob, '100', '40');
+    await votesChanged(2, bob, '0', '0');
+
+    expect(await VotingPowerCheckpoint.countDocuments({ delegate: bob })).toBe(3);
+    expect(await Delegate.findOne({ address: bob })).toMatchObject({
+      votes: '40',
+      firstBlockNumber: 2,
+      lastBlockNumber: 8
+    });
+  });
+
+  it('should roll back to the checkpoints and delegations left', async () => {
+    await delegate(5, alice, zero, bob);
+    await votesChanged(5, bob, '0', '100');
+    await delegate(9, alice, bob, carol);
+    await votesChanged(9, bob, '100', '0', 1);
+    await votesChanged(9, carol, '0', '100', 2);
+    await Event.deleteMany({ blockNumber: { $gt: 6 } });
+
+    await delegationProjection.rollback('anvil', 6);
+
+    expect(await Delegation.findOne({ delegator: alice })).toMatchObject({ delegate: bob, sinceBlock: 5 });
+    expect(await Delegate.findOne({ address: bob })).toMatchObject({ votes: '100', lastBlockNumber: 5 });
+    expect(await Delegate.findOne({ address: carol })).toBeNull();
+    expect(await VotingPowerCheckpoint.countDocuments()).toBe(1);
+  });
+
+  it('should clear everything on reset', async () => {
+    await delegate(5, alice, zero, bob);
+    await votesChanged(5, bob, '0', '100');
+
+    await delegationProjection.reset(contract);
+
+    expect(await Delegation.countDocuments()).toBe(0);
+    expect(await Delegate.countDocuments()).toBe(0);
+    expect(await VotingPowerCheckpoint.countDocuments()).toBe(0);
+  });
+});
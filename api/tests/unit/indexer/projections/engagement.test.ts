@@ -0,0 +1,110 @@
+import { Interface } from 'ethers';
+import { Contract, ContractType, IContract } from '../../../../src/models/Contract';
+import { EngagementEntry } from '../../../../src/models/EngagementEntry';
+import { Event } from '../../../../src/models/Event';
+import { FanStats } from '../../../../src/models/FanStats';
+import { Transaction } from '../../../../src/models/Transaction';
+import { TUNEFI_ABIS } from '../../../../src/indexer/abi/tunefi';
+import { engagementProjection } from '../../../../src/indexer/projections/engagement';
+
+describe('Engagement projection', () => {
+  const alice = '0x1111111111111111111111111111111111111111';
+  const fanEngagement = new Interface(TUNEFI_ABIS.FanEngagement);
+  let contract: IContract;
+
+  const hash = (n: number) => '0x' + n.toString(16).padStart(64, '0');
+
+  const storeEvent = async (name: string, blockNumber: number, args: Record<string, unknown>, logIndex = 0) => {
+    const event = await Event.create({
+      contract: contract._id,
+      network: 'anvil',
+      name,
+      signature: name,
+      blockNumber,
+      transactionHash: hash(blockNumber),
+      logIndex,
+      args: { user: alice, ...args },
+      timestamp: 1700000000 + blockNumber * 12
+    });
+    await engagementProjection.apply(event, contract);
+    return event;
+  };
+
+  const call = (blockNumber: number, functionName: string, tokenId: bigint) =>
+    Transaction.create({
+      contract: contract._id,
+      network: 'anvil',
+      hash: hash(blockNumber),
+      blockNumber,
+      from: alice,
+      to: contract.address,
+      input: fanEngagement.encodeFunctionData(functionName, [tokenId])
+    });
+
+  const earn = (blockNumber: number, action: string, points: number, logIndex = 1) =>
+    storeEvent('PointsEarned', blockNumber, { points: String(points), action }, logIndex);
+
+  beforeEach(async () => {
+    contract = await Contract.create({
+      address: '0xcf7ed3acca5a467e9e704c703e8d87f634fb0fc9',
+      type: ContractType.FAN_ENGAGEMENT,
+      network: 'anvil'
+    });
+  });
+
+  it('should read the track from the record calldata', async () => {
+    await call(1, 'recordLike', 7n);
+    await storeEvent('AchievementUnlocked', 1, { achievement: 'First Like' }, 0);
+    await earn(1, 'like', 1);
+
+    expect(await EngagementEntry.findOne({ type: 'points_earned' })).toMatchObject({ action: 'like', points: 1, tokenId: '7' });
+    expect(await EngagementEntry.findOne({ type: 'achievement_unlocked' })).toMatchObject({
+      achievement: 'First Like',
+      action: 'like',
+      tokenId: '7'
+    });
+  });
+
+  it('should leave the track out when the calldata is not a matching record call', async () => {
+    await call(1, 'recordShare', 7n);
+    await earn(1, 'like', 1);
+    await earn(2, 'stream', 1);
+
+    const entries = await EngagementEntry.find().sort({ blockNumber: 1 }).lean();
+    expect(entries.map(entry => [entry.action, entry.tokenId])).toEqual([['like', undefined], ['stream', undefined]]);
+  });
+
+  it('should fold points, achievements and claims into the user totals', async () => {
+    await earn(1, 'like', 1);
+    await earn(2, 'purchase', 5);
+    await storeEvent('RewardsClaimed', 3, { amount: '60000000000000000' });
+    await earn(4, 'share', 2);
+
+    expect(await FanStats.findOne({ user: alice })).toMatchObject({
+      totalPoints: 8,
+      points: 2,
+      totalInteractions: 3,
+      rewardsClaimed: '60000000000000000',
+      lastBlockNumber: 4
+    });
+  });
+
+  it('should replay the ledger when events arrive out of order', async () => {
+    await earn(1, 'like', 1);
+    await earn(4, 'share', 2);
+    await storeEvent('RewardsClaimed', 3, { amount: '10000000000000000' });
+
+    expect(await FanStats.findOne({ user: alice })).toMatchObject({ totalPoints: 3, points: 2, lastBlockNumber: 4 });
+  });
+
+  it('should roll back entries above the ancestor', async () => {
+    await earn(1, 'like', 1);
+    await earn(4, 'share', 2);
+    await Event.deleteMany({ blockNumber: { $gt: 2 } });
+
+    await engagementProjection.rollback('anvil', 2);
+
+    expect(await EngagementEntry.countDocuments()).toBe(1);
+    expect(await FanStats.findOne({ user: alice })).toMatchObject({ totalPoints: 1, lastBlockNumber: 1 });
+  });
+});
@@ -0,0 +1,155 @@
+import { Interface } from 'ethers';
+import { Contract, ContractType, IContract } from '../../../../src/models/Contract';
+import { Event } from '../../../../src/models/Event';
+import { Proposal } from '../../../../src/models/Proposal';
+import { Vote } from '../../../../src/models/Vote';
+import { TUNEFI_ABIS } from '../../../../src/indexer/abi/tunefi';
+import { governanceProjection } from '../../../../src/indexer/projections/governance';
+import { timelockOperationId } from '../../../../src/utils/governance';
+
+describe('Governance projection', () => {
+  const proposer = '0xabcdef0123456789abcdef0123456789abcdef01';
+  const alice = '0x1111111111111111111111111111111111111111';
+  const bob = '0x2222222222222222222222222222222222222222';
+  const tokenAddress = '0x5fbdb2315678afecb367f032d93f642f64180aa3';
+  const proposalId = '4242';
+  const tuneToken = new Interface(TUNEFI_ABIS.TuneToken);
+  const calldata = tuneToken.encodeFunctionData('createVestingSchedule', [alice, 1000n, 1700000000n, 1000n, true]);
+  let contract: IContract;
+
+  const hash = (n: number) => '0x' + n.toString(16).padStart(64, '0');
+
+  const storeEvent = async (name: string, blockNumber: number, args: Record<string, unknown> = {}, logIndex = 0) => {
+    const event = await Event.create({
+      contract: contract._id,
+      network: 'anvil',
+      name,
+      signature: name,
+      blockNumber,
+      transactionHash: hash(blockNumber * 10 + logIndex),
+      logIndex,
+      args: { proposalId, ...args },
+      timestamp: 1700000000 + blockNumber * 12
+    });
+    await governanceProjection.apply(event, contract);
+    return event;
+  };
+
+  const propose = (blockNumber = 1) =>
+    storeEvent('ProposalCreated', blockNumber, {
+      proposer,
+      targets: [tokenAddress],
+      values: ['0'],
+      signatures: [''],
+      calldatas: [calldata],
+      voteStart: '10',
+      voteEnd: '20',
+      description: '# Grant\nPay alice'
+    });
+
+  const vote = (blockNumber: number, voter: string, support: number, weight: string, logIndex = 0) =>
+    storeEvent('VoteCast', blockNumber, { voter, support: String(support), weight, reason: '' }, logIndex);
+
+  beforeEach(async () => {
+    contract = await Contract.create({
+      address: '0x9fe46736679d2d9a65f0992f2272de9f3c7fa6e0',
+      type: ContractType.GOVERNOR,
+      network: 'anvil'
+    });
+    await Contract.create({ address: tokenAddress, type: ContractType.TUNE_TOKEN, network: 'anvil' });
+  });
+
+  it('should store the proposal with decoded actions and its timelock id', async () => {
+    await propose();
+
+    const proposal = await Proposal.findOne({ proposalId }).lean();
+    expect(proposal).toMatchObject({
+      proposer,
+      title: 'Grant',
+      voteStart: 10,
+      voteEnd: 20,
+      forVotes: '0',
+      voterCount: 0,
+      timelockOperationId: timelockOperationId(contract.address, [tokenAddress], ['0'], [calldata], '# Grant\nPay alice')
+    });
+    expect(proposal?.actions[0].decoded).toMatchObject({
+      name: 'createVestingSchedule',
+      args: { beneficiary: alice, amount: '1000', revocable: true }
+    });
+  });
+
+  it('should add up votes by support', async () => {
+    await propose();
+    await vote(12, alice, 1, '600');
+    await vote(13, bob, 0, '300');
+    await storeEvent('VoteCastWithParams', 14, {
+      voter: proposer,
+      support: '2',
+      weight: '100',
+      reason: 'no view',
+      params: '0x01'
+    });
+
+    expect(await Proposal.findOne({ proposalId })).toMatchObject({
+      forVotes: '600',
+      againstVotes: '300',
+      abstainVotes: '100',
+      voterCount: 3
+    });
+    expect(await Vote.findOne({ voter: proposer })).toMatchObject({ support: 2, reason: 'no view', params: '0x01' });
+  });
+
+  it('should pick up votes and lifecycle events stored before the proposal', async () => {
+    await vote(12, alice, 1, '600');
+    await storeEvent('ProposalQueued', 22, { etaSeconds: '1700090000' });
+    expect(await Proposal.countDocuments()).toBe(0);
+
+    await propose();
+
+    expect(await Proposal.findOne({ proposalId })).toMatchObject({
+      forVotes: '600',
+      voterCount: 1,
+      queuedBlock: 22,
+      eta: 1700090000,
+      lastBlockNumber: 22
+    });
+  });
+
+  it('should record queueing, execution and cancellation', async () => {
+    await propose();
+    await storeEvent('ProposalQueued', 22, { etaSeconds: '1700090000' });
+    await storeEvent('ProposalExecuted', 30);
+
+    expect(await Proposal.findOne({ proposalId })).toMatchObject({
+      queuedBlock: 22,
+      executedBlock: 30,
+      executedAt: 1700000360,
+      lastBlockNumber: 30
+    });
+  });
+
+  it('should drop votes and lifecycle events above the ancestor on rollback', async () => {
+    await propose();
+    await vote(12, alice, 1, '600');
+    await vote(15, bob, 0, '300');
+    await storeEvent('ProposalCanceled', 16);
+    await Event.deleteMany({ blockNumber: { $gt: 14 } });
+
+    await governanceProjection.rollback('anvil', 14);
+
+    const proposal = await Proposal.findOne({ proposalId }).lean();
+    expect(proposal).toMatchObject({ forVotes: '600', againstVotes: '0', voterCount: 1, lastBlockNumber: 12 });
+    expect(proposal?.canceledBlock).toBeUndefined();
+    expect(await Vote.countDocuments()).toBe(1);
+  });
+
+  it('should clear proposals and votes on reset', async () => {
+    await propose();
+    await vote(12, alice, 1, '600');
+
+    await governanceProjection.reset(contract);
+
+    expect(await Proposal.countDocuments()).toBe(0);
+    expect(await Vote.countDocuments()).toBe(0);
+  });
+});
@@ -0,0 +1,71 @@
+import { Contract, ContractType, IContract } from '../../../../src/models/Contract';
+import { Event } from '../../../../src/models/Event';
+import { TokenHolder } from '../../../../src/models/TokenHolder';
+import { holderProjection } from '../../../../src/indexer/projections/holders';
+
+describe('Holder projection', () => {
+  const alice = '0x1111111111111111111111111111111111111111';
+  const bob = '0x2222222222222222222222222222222222222222';
+  const zero = '0x0000000000000000000000000000000000000000';
+  let contract: IContract;
+
+  const transfer = async (blockNumber: number, from: string, to: string, value: string) => {
+    const event = await Event.create({
+      contract: contract._id,
+      network: 'anvil',
+      name: 'Transfer',
+      signature: 'Transfer(address,address,uint256)',
+      blockNumber,
+      transactionHash: '0x' + blockNumber.toString(16).padStart(64, '0'),
+      logIndex: 0,
+      args: { from, to, value },
+      timestamp: 1700000000 + blockNumber
+    });
+    await holderProjection.apply(event, contract);
+    return event;
+  };
+
+  const balances = async () =>
+    Object.fromEntries((await TokenHolder.find().lean()).map(holder => [holder.address, holder.balance]));
+
+  beforeEach(async () => {
+    contract = await Contract.create({
+      address: '0x5fbdb2315678afecb367f032d93f642f64180aa3',
+      type: ContractType.TUNE_TOKEN,
+      network: 'anvil'
+    });
+  });
+
+  it('should move balances without tracking the zero address', async () => {
+    await transfer(1, zero, alice, '1000');
+    await transfer(2, alice, bob, '400');
+    await transfer(3, bob, zero, '100');
+
+    expect(await balances()).toEqual({ [alice]: '600', [bob]: '300' });
+  });
+
+  it('should not apply the same transfer twice', async () => {
+    const event = await transfer(1, zero, alice, '1000');
+    await holderProjection.apply(event, contract);
+
+    expect(await balances()).toEqual({ [alice]: '1000' });
+  });
+
+  it('should rebuild balances when earlier transfers are backfilled', async () => {
+    await transfer(1, zero, alice, '1000');
+    await transfer(3, alice, bob, '400');
+    await transfer(2, zero, alice, '50');
+
+    expect(await balances()).toEqual({ [alice]: '650', [bob]: '400' });
+  });
+
+  it('should rebuild holders above a reorg ancestor', async () => {
+    await transfer(1, zero, alice, '1000');
+    await transfer(2, alice, bob, '400');
+    await Event.deleteMany({ blockNumber: { $gt: 1 } });
+
+    await holderProjection.rollback('anvil', 1);
+
+    expect(await balances()).toEqual({ [alice]: '1000' });
+  });
+});
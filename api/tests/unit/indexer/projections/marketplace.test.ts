@@ -0,0 +1,113 @@
+import { Interface } from 'ethers';
+import { Contract, ContractType, IContract } from '../../../../src/models/Contract';
+import { Event } from '../../../../src/models/Event';
+import { Listing } from '../../../../src/models/Listing';
+import { Offer } from '../../../../src/models/Offer';
+import { Transaction } from '../../../../src/models/Transaction';
+import { TUNEFI_ABIS } from '../../../../src/indexer/abi/tunefi';
+import { marketplaceProjection } from '../../../../src/indexer/projections/marketplace';
+
+describe('Marketplace projection', () => {
+  const seller = '0xabcdef0123456789abcdef0123456789abcdef01';
+  const alice = '0x1111111111111111111111111111111111111111';
+  const bob = '0x2222222222222222222222222222222222222222';
+  const marketplace = new Interface(TUNEFI_ABIS.Marketplace);
+  let contract: IContract;
+
+  const hash = (n: number) => '0x' + n.toString(16).padStart(64, '0');
+
+  const storeEvent = async (name: string, blockNumber: number, args: Record<string, unknown>, apply = true) => {
+    const event = await Event.create({
+      contract: contract._id,
+      network: 'anvil',
+      name,
+      signature: name,
+      blockNumber,
+      transactionHash: hash(blockNumber),
+      logIndex: 0,
+      args: { tokenId: '7', ...args },
+      timestamp: 1700000000 + blockNumber
+    });
+    if (apply) {
+      await marketplaceProjection.apply(event, contract);
+    }
+    return event;
+  };
+
+  const storeCall = (blockNumber: number, functionName: string, offerIndex: number) =>
+    Transaction.create({
+      contract: contract._id,
+      network: 'anvil',
+      hash: hash(blockNumber),
+      blockNumber,
+      from: seller,
+      to: contract.address,
+      input: marketplace.encodeFunctionData(functionName, [7n, BigInt(offerIndex)])
+    });
+
+  const offers = async () =>
+    (await Offer.find().sort({ offeredBlock: 1 })).map(offer => [offer.buyer, offer.status, offer.index]);
+
+  beforeEach(async () => {
+    contract = await Contract.create({
+      address: '0xe7f1725e7734ce288f8367e1bb143e90bb3f0512',
+      type: ContractType.MARKETPLACE,
+      network: 'anvil'
+    });
+  });
+
+  it('should follow a listing until it is sold', async () => {
+    await storeEvent('TokenListed', 1, { seller, price: '1000' });
+    await storeEvent('TokenSold', 2, { seller, buyer: alice, price: '1000' });
+
+    const listing = await Listing.findOne();
+    expect(listing).toMatchObject({ status: 'sold', seller, buyer: alice, listedBlock: 1, closedBlock: 2 });
+  });
+
+  it('should keep the offers array order through cancellations', async () => {
+    await storeEvent('OfferCreated', 1, { buyer: alice, price: '10', expirationTime: '1800000000' });
+    await storeEvent('OfferCreated', 2, { buyer: bob, price: '20', expirationTime: '1800000000' });
+    await storeEvent('OfferCreated', 3, { buyer: alice, price: '30', expirationTime: '1800000000' });
+
+    await storeCall(4, 'cancelOffer', 0);
+    await storeEvent('OfferCancelled', 4, { buyer: alice });
+
+    expect(await offers()).toEqual([
+      [alice, 'cancelled', undefined],
+      [bob, 'open', 1],
+      [alice, 'open', 0]
+    ]);
+  });
+
+  it('should void the other offers when one is accepted', async () => {
+    await storeEvent('OfferCreated', 1, { buyer: alice, price: '10', expirationTime: '1800000000' });
+    await storeEvent('OfferCreated', 2, { buyer: bob, price: '20', expirationTime: '1800000000' });
+
+    await storeEvent('OfferAccepted', 3, { seller, buyer: bob, price: '20' });
+
+    expect(await offers()).toEqual([
+      [alice, 'voided', undefined],
+      [bob, 'accepted', undefined]
+    ]);
+    expect((await Offer.findOne({ buyer: bob }))?.seller).toBe(seller);
+  });
+
+  it('should rebuild the order book when history is backfilled', async () => {
+    await storeEvent('TokenDelisted', 2, { seller });
+    const listed = await storeEvent('TokenListed', 1, { seller, price: '1000' }, false);
+
+    await marketplaceProjection.apply(listed, contract);
+
+    expect(await Listing.find().lean()).toMatchObject([{ status: 'delisted', closedBlock: 2 }]);
+  });
+
+  it('should reopen a listing closed above a reorg ancestor', async () => {
+    await storeEvent('TokenListed', 1, { seller, price: '1000' });
+    await storeEvent('TokenDelisted', 3, { seller });
+
+    await Event.deleteMany({ blockNumber: { $gt: 2 } });
+    await marketplaceProjection.rollback('anvil', 2);
+
+    expect(await Listing.findOne()).toMatchObject({ status: 'active', lastBlockNumber: 1 });
+  });
+});
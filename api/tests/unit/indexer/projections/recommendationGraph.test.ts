@@ -0,0 +1,98 @@
+import { ArtistNode } from '../../../../src/models/ArtistNode';
+import { Contract, ContractType, IContract } from '../../../../src/models/Contract';
+import { Event } from '../../../../src/models/Event';
+import { TrackEdge } from '../../../../src/models/TrackEdge';
+import { TrackNode } from '../../../../src/models/TrackNode';
+import { UserInteraction } from '../../../../src/models/UserInteraction';
+import { recommendationGraphProjection } from '../../../../src/indexer/projections/recommendationGraph';
+
+describe('Recommendation graph projection', () => {
+  const alice = '0x1111111111111111111111111111111111111111';
+  let contract: IContract;
+
+  const hash = (n: number) => '0x' + n.toString(16).padStart(64, '0');
+
+  const storeEvent = async (name: string, blockNumber: number, args: Record<string, unknown>, logIndex = 0) => {
+    const event = await Event.create({
+      contract: contract._id,
+      network: 'anvil',
+      name,
+      signature: name,
+      blockNumber,
+      transactionHash: hash(blockNumber),
+      logIndex,
+      args,
+      timestamp: 1700000000 + blockNumber * 12
+    });
+    await recommendationGraphProjection.apply(event, contract);
+    return event;
+  };
+
+  const addTrack = (blockNumber: number, tokenId: string, metadataURI = `ipfs://track-${tokenId}`) =>
+    storeEvent('TrackNodeAdded', blockNumber, { tokenId, metadataURI });
+
+  const addEdge = (blockNumber: number, fromTrack: string, toTrack: string, weight: number, logIndex = 0) =>
+    storeEvent('TrackEdgeCreated', blockNumber, { fromTrack, toTrack, weight: String(weight) }, logIndex);
+
+  beforeEach(async () => {
+    contract = await Contract.create({
+      address: '0x0165878a594ca255338adfa4d48449f69242eb8f',
+      type: ContractType.RECOMMENDATION_GRAPH,
+      network: 'anvil'
+    });
+  });
+
+  it('should store track and artist nodes', async () => {
+    await addTrack(1, '1');
+    await storeEvent('ArtistNodeAdded', 2, { artist: alice, metadataURI: 'ipfs://alice' });
+
+    expect(await TrackNode.findOne({ tokenId: '1' })).toMatchObject({ metadataURI: 'ipfs://track-1', blockNumber: 1 });
+    expect(await ArtistNode.findOne({ artist: alice })).toMatchObject({ metadataURI: 'ipfs://alice', timestamp: 1700000024 });
+  });
+
+  it('should keep the weight of the latest edge between two tracks', async () => {
+    await addEdge(5, '1', '2', 80);
+    await addEdge(3, '1', '2', 40);
+    await addEdge(4, '2', '1', 10);
+
+    expect(await TrackEdge.findOne({ fromTrack: '1', toTrack: '2' })).toMatchObject({ weight: 80, blockNumber: 5 });
+    expect(await TrackEdge.findOne({ fromTrack: '2', toTrack: '1' })).toMatchObject({ weight: 10 });
+  });
+
+  it('should keep every interaction once', async () => {
+    const event = await storeEvent('UserInteraction', 3, { user: alice, tokenId: '1', interactionType: '2' });
+    await storeEvent('UserInteraction', 4, { user: alice, tokenId: '1', interactionType: '0' });
+    await recommendationGraphProjection.apply(event, contract);
+
+    const interactions = await UserInteraction.find({ user: alice }).sort({ blockNumber: 1 });
+    expect(interactions.map(interaction => interaction.interactionType)).toEqual([2, 0]);
+  });
+
+  it('should restore edge weights and drop nodes and interactions on rollback', async () => {
+    await addTrack(1, '1');
+    await addTrack(2, '2');
+    await addEdge(2, '1', '2', 40, 1);
+    await addEdge(6, '1', '2', 90);
+    await addTrack(7, '3');
+    await storeEvent('UserInteraction', 8, { user: alice, tokenId: '1', interactionType: '1' });
+    await Event.deleteMany({ blockNumber: { $gt: 5 } });
+
+    await recommendationGraphProjection.rollback('anvil', 5);
+
+    expect(await TrackEdge.findOne({ fromTrack: '1', toTrack: '2' })).toMatchObject({ weight: 40, blockNumber: 2 });
+    expect(await TrackNode.findOne({ tokenId: '3' })).toBeNull();
+    expect(await UserInteraction.countDocuments()).toBe(0);
+  });
+
+  it('should clear the graph on reset', async () => {
+    await addTrack(1, '1');
+    await addEdge(2, '1', '1', 50);
+    await storeEvent('UserInteraction', 3, { user: alice, tokenId: '1', interactionType: '0' });
+
+    await recommendationGraphProjection.reset(contract);
+
+    expect(await TrackNode.countDocuments()).toBe(0);
+    expect(await TrackEdge.countDocuments()).toBe(0);
+    expect(await UserInteraction.countDocuments()).toBe(0);
+  });
+});
@@ -0,0 +1,136 @@
+import { Contract, ContractType, IContract } from '../../../../src/models/Contract';
+import { Event } from '../../../../src/models/Event';
+import { RoyaltyEntry } from '../../../../src/models/RoyaltyEntry';
+import { RoyaltyPayment } from '../../../../src/models/RoyaltyPayment';
+import { royaltyProjection } from '../../../../src/indexer/projections/royalties';
+
+describe('Royalty projection', () => {
+  const artist = '0xabcdef0123456789abcdef0123456789abcdef01';
+  const producer = '0x1111111111111111111111111111111111111111';
+  const mixer = '0x2222222222222222222222222222222222222222';
+  let contract: IContract;
+
+  const hash = (n: number) => '0x' + n.toString(16).padStart(64, '0');
+
+  // Events of one transaction share the block and get increasing log indexes
+  const storeTx = async (blockNumber: number, events: [string, Record<string, unknown>][], apply = true) => {
+    const stored = [];
+    for (const [logIndex, [name, args]] of events.entries()) {
+      const event = await Event.create({
+        contract: contract._id,
+        network: 'anvil',
+        name,
+        signature: name,
+        blockNumber,
+        transactionHash: hash(blockNumber),
+        logIndex,
+        args: { tokenId: '1', ...args },
+        timestamp: 1700000000 + blockNumber
+      });
+      if (apply) {
+        await royaltyProjection.apply(event, contract);
+      }
+      stored.push(event);
+    }
+    return stored;
+  };
+
+  const register = (blockNumber: number) =>
+    storeTx(blockNumber, [
+      ['PayeeAdded', { account: artist, shares: '60' }],
+      ['PayeeAdded', { account: producer, shares: '30' }],
+      ['PayeeAdded', { account: mixer, shares: '10' }]
+    ]);
+
+  const latestState = async () => (await RoyaltyEntry.findOne().sort({ blockNumber: -1, logIndex: -1 }))?.state;
+
+  beforeEach(async () => {
+    contract = await Contract.create({
+      address: '0x9fe46736679d2d9a65f0992f2272de9f3c7fa6e0',
+      type: ContractType.ROYALTY_DISTRIBUTOR,
+      network: 'anvil'
+    });
+  });
+
+  it('should replace the split on registration and spread removed shares', async () => {
+    await register(1);
+    await storeTx(2, [['PayeeRemoved', { account: artist }]]);
+
+    expect((await latestState())?.payees).toEqual([
+      { account: mixer, shares: 40 },
+      { account: producer, shares: 60 }
+    ]);
+
+    await storeTx(3, [['PayeeAdded', { account: artist, shares: '100' }]]);
+    expect((await latestState())?.payees).toEqual([{ account: artist, shares: 100 }]);
+  });
+
+  it('should split direct distributions by shares', async () => {
+    await register(1);
+    await storeTx(2, [['RoyaltyDistributed', { amount: '1000' }]]);
+
+    const payments = await RoyaltyPayment.find().sort({ shares: -1 });
+    expect(payments.map(p => [p.payee, p.amount, p.source])).toEqual([
+      [artist, '600', 'sale'],
+      [producer, '300', 'sale'],
+      [mixer, '100', 'sale']
+    ]);
+  });
+
+  it('should attribute automatic distributions to the accumulated sources', async () => {
+    await register(1);
+    await storeTx(2, [['TokenDistributionThresholdUpdated', { threshold: '500' }]]);
+    await storeTx(3, [['RoyaltyAccumulated', { amount: '200' }]]);
+    expect(await latestState()).toMatchObject({ pending: '200', pendingSale: '200', autoThreshold: '500' });
+
+    await storeTx(4, [
+      ['StreamingMinutesAdded', { streamedMinutes: '30' }],
+      ['RoyaltyAccumulated', { amount: '300' }],
+      ['RoyaltyDistributed', { amount: '500' }]
+    ]);
+
+    expect(await latestState()).toMatchObject({ pending: '0', streamedMinutes: '30', totalDistributed: '500' });
+    const artistPayments = await RoyaltyPayment.find({ payee: artist }).sort({ source: 1 });
+    expect(artistPayments.map(p => [p.source, p.amount])).toEqual([
+      ['sale', '120'],
+      ['streaming', '180']
+    ]);
+  });
+
+  it('should record reconciliations as adjustments', async () => {
+    await register(1);
+    await storeTx(2, [['RoyaltyReconciled', { amount: '100', isPositive: false }]]);
+
+    expect(await RoyaltyPayment.findOne({ payee: producer })).toMatchObject({
+      type: 'reconciliation',
+      amount: '30',
+      isPositive: false
+    });
+  });
+
+  it('should rebuild the ledger when earlier events are backfilled', async () => {
+    const [late] = await storeTx(5, [['RoyaltyDistributed', { amount: '1000' }]]);
+    expect(await RoyaltyPayment.countDocuments()).toBe(0);
+
+    const registration = await storeTx(1, [
+      ['PayeeAdded', { account: artist, shares: '100' }]
+    ], false);
+    await royaltyProjection.apply(registration[0], contract);
+
+    expect(await RoyaltyEntry.countDocuments()).toBe(2);
+    expect((await RoyaltyPayment.findOne())?.amount).toBe('1000');
+
+    await royaltyProjection.apply(late, contract);
+    expect(await RoyaltyPayment.countDocuments()).toBe(1);
+  });
+
+  it('should drop entries above a reorg ancestor', async () => {
+    await register(1);
+    await storeTx(3, [['RoyaltyDistributed', { amount: '1000' }]]);
+
+    await royaltyProjection.rollback('anvil', 2);
+
+    expect(await RoyaltyEntry.countDocuments()).toBe(3);
+    expect(await RoyaltyPayment.countDocuments()).toBe(0);
+  });
+});
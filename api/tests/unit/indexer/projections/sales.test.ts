@@ -0,0 +1,64 @@
+import { Contract, ContractType, IContract } from '../../../../src/models/Contract';
+import { Event } from '../../../../src/models/Event';
+import { Sale } from '../../../../src/models/Sale';
+import { saleProjection } from '../../../../src/indexer/projections/sales';
+
+describe('Sale projection', () => {
+  const seller = '0xabcdef0123456789abcdef0123456789abcdef01';
+  const buyer = '0x1111111111111111111111111111111111111111';
+  let nft: IContract;
+  let marketplace: IContract;
+
+  const storeEvent = async (contract: IContract, name: string, blockNumber: number, args: Record<string, unknown>) => {
+    const event = await Event.create({
+      contract: contract._id,
+      network: 'anvil',
+      name,
+      signature: name,
+      blockNumber,
+      transactionHash: '0x' + blockNumber.toString(16).padStart(64, '0'),
+      logIndex: 0,
+      args: { tokenId: '3', ...args },
+      timestamp: 1700000000 + blockNumber
+    });
+    await saleProjection.apply(event, contract);
+    return event;
+  };
+
+  beforeEach(async () => {
+    nft = await Contract.create({
+      address: '0x5fbdb2315678afecb367f032d93f642f64180aa3',
+      type: ContractType.MUSIC_NFT,
+      network: 'anvil'
+    });
+    marketplace = await Contract.create({
+      address: '0xe7f1725e7734ce288f8367e1bb143e90bb3f0512',
+      type: ContractType.MARKETPLACE,
+      network: 'anvil'
+    });
+  });
+
+  it('should record primary, listing and offer sales', async () => {
+    await storeEvent(nft, 'TrackPurchased', 1, { buyer, price: '100' });
+    await storeEvent(marketplace, 'TokenSold', 2, { seller, buyer, price: '200' });
+    await storeEvent(marketplace, 'OfferAccepted', 3, { seller, buyer, price: '300' });
+
+    const sales = await Sale.find().sort({ blockNumber: 1 });
+    expect(sales.map(sale => [sale.type, sale.seller, sale.price])).toEqual([
+      ['primary', undefined, '100'],
+      ['listing', seller, '200'],
+      ['offer', seller, '300']
+    ]);
+    expect(sales[0]).toMatchObject({ network: 'anvil', tokenId: '3', timestamp: 1700000001 });
+  });
+
+  it('should record an event once and drop sales above a reorg ancestor', async () => {
+    const event = await storeEvent(marketplace, 'TokenSold', 2, { seller, buyer, price: '200' });
+    await saleProjection.apply(event, marketplace);
+    await storeEvent(marketplace, 'TokenSold', 5, { seller, buyer, price: '400' });
+
+    await saleProjection.rollback('anvil', 4);
+
+    expect((await Sale.find()).map(sale => sale.price)).toEqual(['200']);
+  });
+});
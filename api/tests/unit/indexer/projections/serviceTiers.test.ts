@@ -0,0 +1,68 @@
+import { Contract, ContractType, IContract } from '../../../../src/models/Contract';
+import { Event } from '../../../../src/models/Event';
+import { ServiceTier } from '../../../../src/models/ServiceTier';
+import { serviceTierProjection } from '../../../../src/indexer/projections/serviceTiers';
+
+describe('Service tier projection', () => {
+  let contract: IContract;
+
+  const hash = (n: number) => '0x' + n.toString(16).padStart(64, '0');
+
+  const storeEvent = async (blockNumber: number, tier: number, minTokens: string, discountRate: number) => {
+    const event = await Event.create({
+      contract: contract._id,
+      network: 'anvil',
+      name: 'ServiceTierUpdated',
+      signature: 'ServiceTierUpdated(uint256,uint256,uint256)',
+      blockNumber,
+      transactionHash: hash(blockNumber),
+      logIndex: 0,
+      args: { tier: String(tier), minTokens, discountRate: String(discountRate) },
+      timestamp: 1700000000 + blockNumber * 100
+    });
+    await serviceTierProjection.apply(event, contract);
+    return event;
+  };
+
+  beforeEach(async () => {
+    contract = await Contract.create({
+      address: '0x5fbdb2315678afecb367f032d93f642f64180aa3',
+      type: ContractType.TUNE_TOKEN,
+      network: 'anvil'
+    });
+  });
+
+  it('should store the terms of an updated tier', async () => {
+    await storeEvent(1, 2, '40000', 1500);
+
+    const tier = await ServiceTier.findOne({ tier: 2 });
+    expect(tier).toMatchObject({ minTokens: '40000', discountRate: 1500, blockNumber: 1, timestamp: 1700000100 });
+  });
+
+  it('should keep the latest update when events arrive out of order', async () => {
+    await storeEvent(3, 1, '30000', 700);
+    await storeEvent(2, 1, '20000', 600);
+
+    expect(await ServiceTier.findOne({ tier: 1 })).toMatchObject({ minTokens: '30000', discountRate: 700 });
+  });
+
+  it('should fall back to the previous update on rollback', async () => {
+    await storeEvent(2, 1, '20000', 600);
+    await storeEvent(5, 1, '30000', 700);
+    await storeEvent(6, 3, '90000', 2500);
+    await Event.deleteMany({ blockNumber: { $gt: 4 } });
+
+    await serviceTierProjection.rollback('anvil', 4);
+
+    expect(await ServiceTier.findOne({ tier: 1 })).toMatchObject({ minTokens: '20000', discountRate: 600 });
+    expect(await ServiceTier.findOne({ tier: 3 })).toBeNull();
+  });
+
+  it('should clear the table on reset', async () => {
+    await storeEvent(1, 1, '20000', 600);
+
+    await serviceTierProjection.reset(contract);
+
+    expect(await ServiceTier.countDocuments()).toBe(0);
+  });
+});
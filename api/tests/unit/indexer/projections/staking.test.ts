@@ -0,0 +1,113 @@
+import { Contract, ContractType, IContract } from '../../../../src/models/Contract';
+import { Event } from '../../../../src/models/Event';
+import { StakingEntry, StakingEntryType } from '../../../../src/models/StakingEntry';
+import { StakingPosition } from '../../../../src/models/StakingPosition';
+import { stakingProjection } from '../../../../src/indexer/projections/staking';
+
+describe('Staking projection', () => {
+  const alice = '0x1111111111111111111111111111111111111111';
+  const bob = '0x2222222222222222222222222222222222222222';
+  const zero = '0x0000000000000000000000000000000000000000';
+  let contract: IContract;
+
+  const store = async (blockNumber: number, name: string, args: Record<string, unknown>) => {
+    const event = await Event.create({
+      contract: contract._id,
+      network: 'anvil',
+      name,
+      signature: name,
+      blockNumber,
+      transactionHash: '0x' + blockNumber.toString(16).padStart(64, '0'),
+      logIndex: 0,
+      args,
+      timestamp: 1700000000 + blockNumber * 100
+    });
+    await stakingProjection.apply(event, contract);
+    return event;
+  };
+
+  const position = (staker: string) => StakingPosition.findOne({ staker }).lean();
+
+  beforeEach(async () => {
+    contract = await Contract.create({
+      address: '0xdc64a140aa3e981100a9beca4e685f962f0cf6c9',
+      type: ContractType.STAKING,
+      network: 'anvil'
+    });
+  });
+
+  it('should track stakes and accrue rewards between updates', async () => {
+    await store(1, 'Staked', { user: alice, amount: '1000' });
+    await store(2, 'Staked', { user: alice, amount: '500' });
+    await store(4, 'Unstaked', { user: alice, amount: '300' });
+
+    const current = await position(alice);
+    expect(current?.amount).toBe('1200');
+    expect(current?.lastRewardUpdate).toBe(1700000400);
+    expect(current?.accrual).toEqual([
+      { amount: '1000', seconds: 100 },
+      { amount: '1500', seconds: 200 }
+    ]);
+
+    await store(5, 'RewardsClaimed', { user: alice, amount: '7' });
+    expect((await position(alice))?.accrual).toEqual([]);
+    expect((await position(alice))?.totalClaimed).toBe('7');
+  });
+
+  it('should record emergency withdrawals and slashes', async () => {
+    await store(1, 'Staked', { user: alice, amount: '1000' });
+    await store(2, 'Slashed', { user: alice, amount: '500' });
+    await store(3, 'EmergencyStateUpdated', { state: true });
+    await store(4, 'Unstaked', { user: alice, amount: '500' });
+
+    const entries = await StakingEntry.find().sort({ blockNumber: 1 });
+    expect(entries.map(e => [e.type, e.tvlDelta])).toEqual([
+      [StakingEntryType.STAKED, '1000'],
+      [StakingEntryType.SLASHED, '-500'],
+      [StakingEntryType.EMERGENCY_WITHDRAWN, '-500']
+    ]);
+    // emergencyWithdraw leaves lastRewardUpdate alone
+    expect((await position(alice))?.lastRewardUpdate).toBe(1700000100);
+    expect((await position(alice))?.totalSlashed).toBe('500');
+  });
+
+  it('should follow delegation changes', async () => {
+    await store(1, 'Staked', { user: alice, amount: '1000' });
+    await store(2, 'DelegationUpdated', { from: alice, to: bob });
+    expect((await position(alice))?.delegatedTo).toBe(bob);
+
+    await store(3, 'DelegationUpdated', { from: alice, to: zero });
+    const undelegated = await StakingEntry.findOne({ type: StakingEntryType.UNDELEGATED });
+    expect(undelegated?.previousDelegatee).toBe(bob);
+    expect((await position(alice))?.delegatedTo).toBeNull();
+  });
+
+  it('should rebuild a staker when earlier events are backfilled', async () => {
+    await store(2, 'Staked', { user: alice, amount: '500' });
+    await store(1, 'Staked', { user: alice, amount: '1000' });
+
+    expect((await position(alice))?.amount).toBe('1500');
+    expect((await position(alice))?.accrual).toEqual([{ amount: '1000', seconds: 100 }]);
+  });
+
+  it('should reclassify withdrawals after a backfilled emergency state', async () => {
+    await store(1, 'Staked', { user: alice, amount: '1000' });
+    await store(3, 'Unstaked', { user: alice, amount: '1000' });
+    await store(2, 'EmergencyStateUpdated', { state: true });
+
+    const withdrawal = await StakingEntry.findOne({ blockNumber: 3 });
+    expect(withdrawal?.type).toBe(StakingEntryType.EMERGENCY_WITHDRAWN);
+  });
+
+  it('should restore positions above a reorg ancestor', async () => {
+    await store(1, 'Staked', { user: alice, amount: '1000' });
+    await store(2, 'Staked', { user: alice, amount: '500' });
+    await store(3, 'Staked', { user: bob, amount: '10' });
+    await Event.deleteMany({ blockNumber: { $gt: 1 } });
+
+    await stakingProjection.rollback('anvil', 1);
+
+    expect((await position(alice))?.amount).toBe('1000');
+    expect(await position(bob)).toBeNull();
+  });
+});
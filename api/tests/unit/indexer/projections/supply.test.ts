@@ -0,0 +1,77 @@
+import { Contract, ContractType, IContract } from '../../../../src/models/Contract';
+import { Event } from '../../../../src/models/Event';
+import { TokenSupplyEntry, TokenSupplyEntryType } from '../../../../src/models/TokenSupplyEntry';
+import { supplyProjection } from '../../../../src/indexer/projections/supply';
+
+describe('Supply projection', () => {
+  const owner = '0xabcdef0123456789abcdef0123456789abcdef01';
+  const alice = '0x1111111111111111111111111111111111111111';
+  const zero = '0x0000000000000000000000000000000000000000';
+  const tokenAddress = '0x5fbdb2315678afecb367f032d93f642f64180aa3';
+  let contract: IContract;
+
+  const store = async (blockNumber: number, logIndex: number, name: string, args: Record<string, unknown>) => {
+    const event = await Event.create({
+      contract: contract._id,
+      network: 'anvil',
+      name,
+      signature: name,
+      blockNumber,
+      transactionHash: '0x' + blockNumber.toString(16).padStart(64, '0'),
+      logIndex,
+      args,
+      timestamp: 1700000000 + blockNumber
+    });
+    await supplyProjection.apply(event, contract);
+    return event;
+  };
+
+  const latestState = async () =>
+    (await TokenSupplyEntry.findOne().sort({ blockNumber: -1, logIndex: -1 }).lean())?.state;
+
+  beforeEach(async () => {
+    contract = await Contract.create({ address: tokenAddress, type: ContractType.TUNE_TOKEN, network: 'anvil' });
+  });
+
+  it('should split inflation mints across the pools', async () => {
+    await store(1, 0, 'Transfer', { from: zero, to: owner, value: '1000000' });
+    await store(2, 0, 'Transfer', { from: zero, to: tokenAddress, value: '20000' });
+
+    const state = await latestState();
+    expect(state).toMatchObject({ totalSupply: '1020000', inflationMinted: '20000', contractBalance: '20000' });
+    expect(state?.pools).toEqual([
+      { name: 'communityRewardsPool', balance: '8000' },
+      { name: 'ecosystemDevelopmentPool', balance: '6000' },
+      { name: 'governancePool', balance: '2000' },
+      { name: 'liquidityMiningPool', balance: '4000' }
+    ]);
+  });
+
+  it('should count burns once and ignore transfers between holders', async () => {
+    await store(1, 0, 'Transfer', { from: zero, to: owner, value: '1000' });
+    await store(2, 0, 'Transfer', { from: owner, to: alice, value: '100' });
+    await store(3, 0, 'Transfer', { from: alice, to: zero, value: '40' });
+    await store(3, 1, 'TokensBurned', { from: alice, amount: '40' });
+
+    expect(await TokenSupplyEntry.countDocuments()).toBe(2);
+    expect(await latestState()).toMatchObject({ totalSupply: '960', totalBurned: '40' });
+  });
+
+  it('should pay a week of the liquidity pool out on epoch advance', async () => {
+    await store(1, 0, 'Transfer', { from: zero, to: tokenAddress, value: '365000' });
+    await store(2, 0, 'EpochAdvanced', { epoch: '1700000002', rewardPerToken: '5' });
+
+    const epoch = await TokenSupplyEntry.findOne({ type: TokenSupplyEntryType.EPOCH_ADVANCED });
+    // 20% of 365000 is 73000, a week of which is 1400
+    expect(epoch?.amount).toBe('1400');
+    expect(epoch?.state.rewardPerToken).toBe('5');
+    expect(epoch?.state.pools.find(p => p.name === 'liquidityMiningPool')?.balance).toBe('71600');
+  });
+
+  it('should rebuild the ledger when earlier events are backfilled', async () => {
+    await store(2, 0, 'TokensBurned', { from: owner, amount: '10' });
+    await store(1, 0, 'Transfer', { from: zero, to: owner, value: '1000' });
+
+    expect(await latestState()).toMatchObject({ totalSupply: '990', totalMinted: '1000', totalBurned: '10' });
+  });
+});
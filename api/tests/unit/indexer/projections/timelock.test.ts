@@ -0,0 +1,84 @@
+import { Contract, ContractType, IContract } from '../../../../src/models/Contract';
+import { Event } from '../../../../src/models/Event';
+import { TimelockOperation } from '../../../../src/models/TimelockOperation';
+import { timelockProjection } from '../../../../src/indexer/projections/timelock';
+
+describe('Timelock projection', () => {
+  const target = '0x5fbdb2315678afecb367f032d93f642f64180aa3';
+  const operationId = '0x' + 'ab'.repeat(32);
+  let contract: IContract;
+
+  const hash = (n: number) => '0x' + n.toString(16).padStart(64, '0');
+
+  const storeEvent = async (name: string, blockNumber: number, args: Record<string, unknown> = {}, logIndex = 0) => {
+    const event = await Event.create({
+      contract: contract._id,
+      network: 'anvil',
+      name,
+      signature: name,
+      blockNumber,
+      transactionHash: hash(blockNumber * 10 + logIndex),
+      logIndex,
+      args: { id: operationId, ...args },
+      timestamp: 1700000000 + blockNumber * 12
+    });
+    await timelockProjection.apply(event, contract);
+    return event;
+  };
+
+  const schedule = (blockNumber: number, index: number) =>
+    storeEvent('CallScheduled', blockNumber, {
+      index: String(index),
+      target,
+      value: '0',
+      data: '0x',
+      predecessor: '0x' + '0'.repeat(64),
+      delay: '3600'
+    }, index);
+
+  beforeEach(async () => {
+    contract = await Contract.create({
+      address: '0xe7f1725e7734ce288f8367e1bb143e90bb3f0512',
+      type: ContractType.TIMELOCK,
+      network: 'anvil'
+    });
+  });
+
+  it('should collect the calls of a batch and when it becomes ready', async () => {
+    await schedule(5, 1);
+    await schedule(5, 0);
+
+    const operation = await TimelockOperation.findOne({ operationId }).lean();
+    expect(operation).toMatchObject({ delay: 3600, scheduledBlock: 5, readyAt: 1700000060 + 3600 });
+    expect(operation?.calls.map(call => call.index)).toEqual([0, 1]);
+  });
+
+  it('should mark the operation executed', async () => {
+    await schedule(5, 0);
+    await storeEvent('CallExecuted', 400, { index: '0', target, value: '0', data: '0x' });
+
+    expect(await TimelockOperation.findOne({ operationId })).toMatchObject({ executedBlock: 400, lastBlockNumber: 400 });
+  });
+
+  it('should start over when a cancelled operation is scheduled again', async () => {
+    await schedule(5, 0);
+    await storeEvent('Cancelled', 6);
+    expect(await TimelockOperation.findOne({ operationId })).toMatchObject({ cancelledBlock: 6 });
+
+    await schedule(7, 0);
+
+    const operation = await TimelockOperation.findOne({ operationId }).lean();
+    expect(operation).toMatchObject({ scheduledBlock: 7 });
+    expect(operation?.cancelledBlock).toBeUndefined();
+    expect(operation?.calls).toHaveLength(1);
+  });
+
+  it('should drop operations scheduled above the ancestor on rollback', async () => {
+    await schedule(5, 0);
+    await Event.deleteMany({ blockNumber: { $gt: 4 } });
+
+    await timelockProjection.rollback('anvil', 4);
+
+    expect(await TimelockOperation.countDocuments()).toBe(0);
+  });
+});
@@ -0,0 +1,84 @@
+import { Interface } from 'ethers';
+import { Contract, ContractType, IContract } from '../../../../src/models/Contract';
+import { Event } from '../../../../src/models/Event';
+import { MetadataCache } from '../../../../src/models/MetadataCache';
+import { TrackVersion } from '../../../../src/models/TrackVersion';
+import { Transaction } from '../../../../src/models/Transaction';
+import { TUNEFI_ABIS } from '../../../../src/indexer/abi/tunefi';
+import { trackVersionProjection } from '../../../../src/indexer/projections/trackVersions';
+
+describe('Track version projection', () => {
+  const creator = '0xabcdef0123456789abcdef0123456789abcdef01';
+  const musicNft = new Interface(TUNEFI_ABIS.MusicNFT);
+  let contract: IContract;
+
+  const hash = (n: number) => '0x' + n.toString(16).padStart(64, '0');
+
+  const storeEvent = async (name: string, blockNumber: number, args: Record<string, unknown>) => {
+    const event = await Event.create({
+      contract: contract._id,
+      network: 'anvil',
+      name,
+      signature: name,
+      blockNumber,
+      transactionHash: hash(blockNumber),
+      logIndex: 0,
+      args,
+      timestamp: 1700000000 + blockNumber
+    });
+    await trackVersionProjection.apply(event, contract);
+  };
+
+  const createTrack = async () => {
+    await Transaction.create({
+      contract: contract._id,
+      network: 'anvil',
+      hash: hash(1),
+      blockNumber: 1,
+      from: creator,
+      to: contract.address,
+      input: musicNft.encodeFunctionData('createTrackWithCollaborators', ['ipfs://v1', [creator], [10000n], 1n, 5n])
+    });
+    await storeEvent('TrackCreated', 1, { tokenId: '0', creator, price: '5' });
+  };
+
+  const versions = async () =>
+    (await TrackVersion.find({ tokenId: '0' }).sort({ version: 1 })).map(v => [v.version, v.uri, v.changelog]);
+
+  beforeEach(async () => {
+    contract = await Contract.create({
+      address: '0x5fbdb2315678afecb367f032d93f642f64180aa3',
+      type: ContractType.MUSIC_NFT,
+      network: 'anvil'
+    });
+  });
+
+  it('should record the initial version and every update', async () => {
+    await createTrack();
+    await storeEvent('TrackVersionUpdated', 3, { tokenId: '0', newUri: 'ipfs://v2', changelog: 'Remaster' });
+
+    expect(await versions()).toEqual([
+      [1, 'ipfs://v1', 'Initial version'],
+      [2, 'ipfs://v2', 'Remaster']
+    ]);
+    expect((await MetadataCache.find()).map(entry => entry.uri).sort()).toEqual(['ipfs://v1', 'ipfs://v2']);
+  });
+
+  it('should number versions once the creation is backfilled', async () => {
+    await storeEvent('TrackVersionUpdated', 3, { tokenId: '0', newUri: 'ipfs://v2', changelog: 'Remaster' });
+    expect(await TrackVersion.countDocuments()).toBe(0);
+
+    await createTrack();
+
+    expect((await versions()).map(([version]) => version)).toEqual([1, 2]);
+  });
+
+  it('should drop versions above a reorg ancestor', async () => {
+    await createTrack();
+    await storeEvent('TrackVersionUpdated', 3, { tokenId: '0', newUri: 'ipfs://v2', changelog: 'Remaster' });
+
+    await trackVersionProjection.rollback('anvil', 2);
+
+    expect(await versions()).toEqual([[1, 'ipfs://v1', 'Initial version']]);
+  });
+});
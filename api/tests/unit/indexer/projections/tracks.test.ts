@@ -0,0 +1,140 @@
+import { Interface } from 'ethers';
+import { Contract, ContractType, IContract } from '../../../../src/models/Contract';
+import { Event, IEvent } from '../../../../src/models/Event';
+import { Track } from '../../../../src/models/Track';
+import { Transaction } from '../../../../src/models/Transaction';
+import { TUNEFI_ABIS } from '../../../../src/indexer/abi/tunefi';
+import { trackProjection } from '../../../../src/indexer/projections/tracks';
+import { rollbackProjections } from '../../../../src/indexer/projections';
+
+describe('Track projection', () => {
+  const creator = '0xabcdef0123456789abcdef0123456789abcdef01';
+  const buyer = '0x1111111111111111111111111111111111111111';
+  const musicNft = new Interface(TUNEFI_ABIS.MusicNFT);
+  let contract: IContract;
+
+  const hash = (n: number) => '0x' + n.toString(16).padStart(64, '0');
+
+  const storeEvent = async (
+    name: string,
+    blockNumber: number,
+    args: Record<string, unknown>,
+    logIndex = 0
+  ): Promise<IEvent> => {
+    const event = await Event.create({
+      contract: contract._id,
+      network: 'anvil',
+      name,
+      signature: name,
+      blockNumber,
+      transactionHash: hash(blockNumber * 100 + logIndex),
+      logIndex,
+      args,
+      timestamp: 1700000000 + blockNumber
+    });
+    await trackProjection.apply(event, contract);
+    return event;
+  };
+
+  const createTrack = async (blockNumber = 1) => {
+    await Transaction.create({
+      contract: contract._id,
+      network: 'anvil',
+      hash: hash(blockNumber * 100),
+      blockNumber,
+      from: creator,
+      to: contract.address,
+      value: '0',
+      gasPrice: '1',
+      input: musicNft.encodeFunctionData('createTrackWithCollaborators', [
+        'ipfs://v1',
+        [creator, buyer],
+        [7000n, 3000n],
+        100n,
+        500n
+      ]),
+      status: true,
+      timestamp: 1700000000 + blockNumber
+    });
+    return storeEvent('TrackCreated', blockNumber, { tokenId: '0', creator, price: '500' });
+  };
+
+  beforeEach(async () => {
+    contract = await Contract.create({
+      address: '0x5fbdb2315678afecb367f032d93f642f64180aa3',
+      type: ContractType.MUSIC_NFT,
+      network: 'anvil',
+      name: 'MusicNFT'
+    });
+  });
+
+  it('should create a track with the details from the creation calldata', async () => {
+    await createTrack();
+
+    const track = await Track.findOne({ tokenId: '0' });
+    expect(track).toMatchObject({
+      contractAddress: contract.address,
+      creator,
+      price: '500',
+      uri: 'ipfs://v1',
+      version: 1,
+      albumId: '0',
+      collaborators: [creator, buyer],
+      royaltyShares: [7000, 3000],
+      maxSupply: '100',
+      purchaseCount: 0,
+      createdBlock: 1
+    });
+  });
+
+  it('should count purchases and follow version and URI updates', async () => {
+    await createTrack();
+    await storeEvent('TrackPurchased', 2, { tokenId: '0', buyer, price: '500' });
+    await storeEvent('TrackPurchased', 3, { tokenId: '0', buyer, price: '500' });
+    await storeEvent('TrackVersionUpdated', 4, { tokenId: '0', newUri: 'ipfs://v2', changelog: 'Remaster' });
+    await storeEvent('TrackUriUpdated', 5, { tokenId: '0', newUri: 'ipfs://v2-fixed' });
+
+    const track = await Track.findOne({ tokenId: '0' });
+    expect(track).toMatchObject({
+      purchaseCount: 2,
+      lastPurchasedAt: 1700000003,
+      version: 2,
+      uri: 'ipfs://v2-fixed',
+      lastBlockNumber: 5
+    });
+  });
+
+  it('should not double count an event that is indexed twice', async () => {
+    await createTrack();
+    const purchase = await storeEvent('TrackPurchased', 2, { tokenId: '0', buyer, price: '500' });
+
+    await trackProjection.apply(purchase, contract);
+
+    expect((await Track.findOne({ tokenId: '0' }))?.purchaseCount).toBe(1);
+  });
+
+  it('should fold in history that is backfilled after later events', async () => {
+    await storeEvent('TrackVersionUpdated', 4, { tokenId: '0', newUri: 'ipfs://v2', changelog: 'Remaster' });
+    expect(await Track.countDocuments()).toBe(0);
+
+    await createTrack();
+
+    const track = await Track.findOne({ tokenId: '0' });
+    expect(track).toMatchObject({ version: 2, uri: 'ipfs://v2', lastBlockNumber: 4 });
+  });
+
+  it('should re-derive tracks after a reorg removes events', async () => {
+    await createTrack();
+    await storeEvent('TrackPurchased', 2, { tokenId: '0', buyer, price: '500' });
+    await storeEvent('TrackPurchased', 6, { tokenId: '0', buyer, price: '500' });
+
+    await Event.deleteMany({ blockNumber: { $gt: 5 } });
+    await rollbackProjections('anvil', 5);
+
+    expect(await Track.findOne({ tokenId: '0' })).toMatchObject({ purchaseCount: 1, lastBlockNumber: 2 });
+
+    await Event.deleteMany({});
+    await rollbackProjections('anvil', 0);
+    expect(await Track.countDocuments()).toBe(0);
+  });
+});
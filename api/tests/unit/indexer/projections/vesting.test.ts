@@ -0,0 +1,95 @@
+import { Interface } from 'ethers';
+import { Contract, ContractType, IContract } from '../../../../src/models/Contract';
+import { Event } from '../../../../src/models/Event';
+import { Transaction } from '../../../../src/models/Transaction';
+import { VestingSchedule } from '../../../../src/models/VestingSchedule';
+import { TUNEFI_ABIS } from '../../../../src/indexer/abi/tunefi';
+import { vestingProjection } from '../../../../src/indexer/projections/vesting';
+
+describe('Vesting projection', () => {
+  const owner = '0xabcdef0123456789abcdef0123456789abcdef01';
+  const alice = '0x1111111111111111111111111111111111111111';
+  const tuneToken = new Interface(TUNEFI_ABIS.TuneToken);
+  let contract: IContract;
+
+  const hash = (n: number) => '0x' + n.toString(16).padStart(64, '0');
+
+  const storeEvent = async (name: string, blockNumber: number, args: Record<string, unknown> = {}) => {
+    const event = await Event.create({
+      contract: contract._id,
+      network: 'anvil',
+      name,
+      signature: name,
+      blockNumber,
+      transactionHash: hash(blockNumber),
+      logIndex: 0,
+      args: { beneficiary: alice, ...args },
+      timestamp: 1700000000 + blockNumber * 100
+    });
+    await vestingProjection.apply(event, contract);
+    return event;
+  };
+
+  const create = (blockNumber: number) =>
+    storeEvent('VestingScheduleCreated', blockNumber, {
+      amount: '1000',
+      startTime: '1700000000',
+      duration: '1000'
+    });
+
+  beforeEach(async () => {
+    contract = await Contract.create({
+      address: '0x5fbdb2315678afecb367f032d93f642f64180aa3',
+      type: ContractType.TUNE_TOKEN,
+      network: 'anvil'
+    });
+  });
+
+  it('should read revocability from the createVestingSchedule calldata', async () => {
+    await Transaction.create({
+      contract: contract._id,
+      network: 'anvil',
+      hash: hash(1),
+      blockNumber: 1,
+      from: owner,
+      to: contract.address,
+      input: tuneToken.encodeFunctionData('createVestingSchedule', [alice, 1000n, 1700000000n, 1000n, true])
+    });
+    await create(1);
+
+    const schedule = await VestingSchedule.findOne({ beneficiary: alice });
+    expect(schedule).toMatchObject({ totalAmount: '1000', startTime: 1700000000, duration: 1000, revocable: true });
+  });
+
+  it('should add up releases and record the refund on revocation', async () => {
+    await create(1);
+    await storeEvent('TokensReleased', 2, { amount: '200' });
+    await storeEvent('VestingScheduleRevoked', 3);
+
+    const schedule = await VestingSchedule.findOne({ beneficiary: alice });
+    expect(schedule).toMatchObject({
+      releasedAmount: '200',
+      revoked: true,
+      revokedAt: 1700000300,
+      refundedAmount: '700'
+    });
+  });
+
+  it('should rebuild the schedule when events arrive out of order', async () => {
+    await storeEvent('TokensReleased', 2, { amount: '200' });
+    expect(await VestingSchedule.countDocuments()).toBe(0);
+
+    await create(1);
+    expect((await VestingSchedule.findOne({ beneficiary: alice }))?.releasedAmount).toBe('200');
+  });
+
+  it('should rebuild schedules above a reorg ancestor', async () => {
+    await create(1);
+    await storeEvent('TokensReleased', 2, { amount: '200' });
+    await Event.deleteMany({ blockNumber: { $gt: 1 } });
+
+    await vestingProjection.rollback('anvil', 1);
+
+    expect((await VestingSchedule.findOne({ beneficiary: alice }))?.releasedAmount).toBe('0');
+  });
+});
@@ -0,0 +1,80 @@
+import { BlockIndexer } from '../../../src/indexer/BlockIndexer';
+import { findCommonAncestor, ReorgTooDeepError, rollbackToBlock } from '../../../src/indexer/reorg';
+import { Block } from '../../../src/models/Block';
+import { Contract, ContractType, IContract } from '../../../src/models/Contract';
+import { Event } from '../../../src/models/Event';
+import { IndexingStatus } from '../../../src/models/IndexingStatus';
+import { FakeProvider, hashOf } from '../../helpers/fakeProvider';
+
+describe('Chain reorganization handling', () => {
+  const address = '0x1234567890123456789012345678901234567890';
+  const topic = hashOf('Transfer', 't');
+  let provider: FakeProvider;
+  let contract: IContract;
+  let indexer: BlockIndexer;
+
+  beforeEach(async () => {
+    provider = new FakeProvider(10);
+    contract = await Contract.create({
+      address,
+      name: 'Test NFT',
+      type: ContractType.ERC721,
+      network: 'ethereum',
+      lastIndexedBlock: 0
+    });
+    provider.addLog({ address, blockNumber: 5, transactionHash: hashOf(5, 'tx'), topics: [topic], data: '0x' });
+    provider.addLog({ address, blockNumber: 8, transactionHash: hashOf(8, 'tx'), topics: [topic], data: '0x' });
+
+    indexer = new BlockIndexer(provider, { network: 'ethereum' });
+    await indexer.poll();
+  });
+
+  it('should find the common ancestor of a forked chain', async () => {
+    provider.reorg(7, 'fork');
+    await expect(findCommonAncestor(provider, 'ethereum', 9)).resolves.toBe(6);
+  });
+
+  it('should give up when the fork is deeper than the limit', async () => {
+    provider.reorg(2, 'fork');
+    await expect(findCommonAncestor(provider, 'ethereum', 9, 3)).rejects.toThrow(ReorgTooDeepError);
+  });
+
+  it('should delete orphaned rows and rewind cursors on rollback', async () => {
+    const result = await rollbackToBlock('ethereum', 6);
+
+    expect(result).toMatchObject({ ancestor: 6, blocks: 3, events: 1, transactions: 1 });
+    expect(await Block.countDocuments({ number: { $gt: 6 } })).toBe(0);
+    expect(await Event.countDocuments()).toBe(1);
+
+    const updated = await Contract.findById(contract._id);
+    expect(updated?.lastIndexedBlock).toBe(6);
+    const status = await IndexingStatus.findOne({ contract: contract._id });
+    expect(status?.lastIndexedBlock).toBe(6);
+  });
+
+  it('should detect a parent hash mismatch while following the head', async () => {
+    provider.reorg(7, 'fork');
+    provider.mine(1, 'fork');
+
+    const result = await indexer.poll();
+
+    expect(result?.reorg).toMatchObject({ ancestor: 6, events: 1 });
+    expect(await Event.countDocuments({ blockNumber: 8 })).toBe(0);
+  });
+
+  it('should re-index the canonical chain after a rollback', async () => {
+    provider.reorg(7, 'fork');
+    provider.addLog({ address, blockNumber: 9, transactionHash: hashOf(9, 'tx'), topics: [topic], data: '0x' });
+    provider.mine(1, 'fork');
+
+    await indexer.poll();
+    const result = await indexer.poll();
+
+    expect(result).toMatchObject({ fromBlock: 7, toBlock: 10 });
+    const blockNumbers = (await Event.find().sort({ blockNumber: 1 })).map(event => event.blockNumber);
+    expect(blockNumbers).toEqual([5, 9]);
+
+    const stored = await Block.findOne({ number: 8 });
+    expect(stored?.hash).toBe(provider.blocks[8].hash);
+  });
+});
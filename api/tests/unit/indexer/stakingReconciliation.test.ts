@@ -0,0 +1,92 @@
+import { Interface } from 'ethers';
+import { IContract } from '../../../src/models/Contract';
+import {
+  expectedPendingRewards,
+  reconcileStakingPosition,
+  ReconciliationProvider
+} from '../../../src/indexer/stakingReconciliation';
+
+const stakingAbi = new Interface([
+  'function stakedAmount(address staker) view returns (uint256)',
+  'function pendingRewards(address staker) view returns (uint256)',
+  'function delegatedTo(address staker) view returns (address)',
+  'function delegatedPower(address delegatee) view returns (uint256)',
+  'function rewardRate() view returns (uint256)'
+]);
+
+const YEAR = 365 * 24 * 3600;
+const TUNE = 10n ** 18n;
+
+/**
+ * Answers StakingContract views with fixed values at a block
+ */
+const fakeProvider = (views: Record<string, unknown>, block = { number: 42, timestamp: 1700000000 + YEAR }) => {
+  const calls: unknown[] = [];
+  const provider = {
+    getBlock: async (tag: unknown) => {
+      calls.push(tag);
+      return block;
+    },
+    call: async ({ data, blockTag }: { data: string; blockTag: unknown }) => {
+      calls.push(blockTag);
+      const parsed = stakingAbi.parseTransaction({ data });
+      return stakingAbi.encodeFunctionResult(parsed!.name, [views[parsed!.name]]);
+    }
+  } as unknown as ReconciliationProvider;
+  return { provider, calls };
+};
+
+describe('staking reconciliation', () => {
+  const staker = '0x1111111111111111111111111111111111111111';
+  const delegatee = '0x2222222222222222222222222222222222222222';
+  const contract = {
+    address: '0xdc64a140aa3e981100a9beca4e685f962f0cf6c9',
+    network: 'anvil',
+    lastIndexedBlock: 42
+  } as IContract;
+
+  // A year at 1000 TUNE, then half a year at 2000 TUNE since the last update
+  const position = {
+    staker,
+    amount: (2000n * TUNE).toString(),
+    delegatedTo: delegatee,
+    lastRewardUpdate: 1700000000 + YEAR / 2,
+    accrual: [{ amount: (1000n * TUNE).toString(), seconds: YEAR }]
+  };
+
+  it('should add the accrual since the last update to the reward debt', () => {
+    expect(expectedPendingRewards(position, 10n, 1700000000 + YEAR)).toBe(200n * TUNE);
+    expect(expectedPendingRewards({ ...position, amount: '0' }, 10n, 1700000000 + YEAR)).toBe(0n);
+  });
+
+  it('should match the views at the last indexed block', async () => {
+    const { provider, calls } = fakeProvider({
+      rewardRate: 10n,
+      stakedAmount: 2000n * TUNE,
+      pendingRewards: 200n * TUNE,
+      delegatedTo: delegatee,
+      delegatedPower: 0n
+    });
+
+    const result = await reconcileStakingPosition(contract, position, 0n, provider);
+
+    expect(result.matches).toBe(true);
+    expect(result.blockNumber).toBe(42);
+    expect(calls.every(tag => tag === 42)).toBe(true);
+  });
+
+  it('should report fields that drifted', async () => {
+    const { provider } = fakeProvider({
+      rewardRate: 10n,
+      stakedAmount: 1500n * TUNE,
+      pendingRewards: 200n * TUNE,
+      delegatedTo: '0x0000000000000000000000000000000000000000',
+      delegatedPower: 5n
+    });
+
+    const result = await reconcileStakingPosition(contract, position, 5n, provider);
+
+    expect(result.matches).toBe(false);
+    expect(result.checks.filter(c => !c.matches).map(c => c.field)).toEqual(['stakedAmount', 'delegatedTo']);
+  });
+});
@@ -0,0 +1,63 @@
+import { Interface } from 'ethers';
+import { IContract } from '../../../src/models/Contract';
+import { verifyServiceTier, VerificationProvider } from '../../../src/indexer/tierVerification';
+
+const tokenAbi = new Interface([
+  'function balanceOf(address account) view returns (uint256)',
+  'function getServiceTierDiscount(address user) view returns (uint256)'
+]);
+
+/**
+ * Answers TuneToken views with fixed values
+ */
+const fakeProvider = (views: Record<string, unknown>) => {
+  const calls: unknown[] = [];
+  const provider: VerificationProvider = {
+    call: async ({ data, blockTag }) => {
+      calls.push(blockTag);
+      const parsed = tokenAbi.parseTransaction({ data: data! });
+      return tokenAbi.encodeFunctionResult(parsed!.name, [views[parsed!.name]]);
+    }
+  };
+  return { provider, calls };
+};
+
+describe('service tier verification', () => {
+  const holder = '0x1111111111111111111111111111111111111111';
+  const contract = {
+    address: '0x5fbdb2315678afecb367f032d93f642f64180aa3',
+    network: 'anvil',
+    lastIndexedBlock: 42
+  } as IContract;
+
+  it('should match the indexed tier at the last indexed block', async () => {
+    const { provider, calls } = fakeProvider({ balanceOf: 20_000n, getServiceTierDiscount: 500n });
+
+    const result = await verifyServiceTier(contract, holder, { balance: '20000', discountRate: 500 }, provider);
+
+    expect(result).toEqual({ blockTag: 42, balance: '20000', discountRate: 500, matches: true });
+    expect(calls).toEqual([42, 42]);
+  });
+
+  it('should report a mismatch', async () => {
+    const { provider } = fakeProvider({ balanceOf: 20_000n, getServiceTierDiscount: 1000n });
+
+    const result = await verifyServiceTier(contract, holder, { balance: '20000', discountRate: 500 }, provider);
+
+    expect(result).toMatchObject({ discountRate: 1000, matches: false });
+  });
+
+  it('should read the latest block before anything was indexed', async () => {
+    const { provider, calls } = fakeProvider({ balanceOf: 0n, getServiceTierDiscount: 0n });
+
+    const result = await verifyServiceTier(
+      { ...contract, lastIndexedBlock: undefined } as IContract,
+      holder,
+      { balance: '0', discountRate: 0 },
+      provider
+    );
+
+    expect(result).toMatchObject({ blockTag: 'latest', matches: true });
+    expect(calls).toEqual(['latest', 'latest']);
+  });
+});
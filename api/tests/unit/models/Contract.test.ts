@@ -1,5 +1,6 @@
 import mongoose from 'mongoose';
 import { Contract, ContractType, IContract } from '../../../src/models/Contract';
+import { migrateIndexes } from '../../../src/config/database';
 
 describe('Contract Model', () => {
   const validContract = {
@@ -44,6 +45,29 @@ describe('Contract Model', () => {
     await expect(Contract.create(differentAddress)).resolves.toBeDefined();
   });
 
+  it('should allow the same address on different networks', async () => {
+    await Contract.create(validContract);
+    await expect(Contract.create({ ...validContract, network: 'sepolia' })).resolves.toBeDefined();
+  });
+
+  it('should drop the unique address index of earlier versions', async () => {
+    await Contract.createCollection();
+    await Contract.collection.dropIndexes();
+    await Contract.collection.createIndex({ address: 1 }, { unique: true, name: 'address_1' });
+    await Contract.create(validContract);
+    await expect(Contract.create({ ...validContract, network: 'sepolia' })).rejects.toThrow();
+
+    await migrateIndexes();
+
+    const indexes = await Contract.collection.indexes();
+    expect(indexes.find(index => index.name === 'address_1')?.unique).toBeFalsy();
+    await expect(Contract.create({ ...validContract, network: 'sepolia' })).resolves.toBeDefined();
+  });
+
+  it('should reject unknown networks', async () => {
+    await expect(Contract.create({ ...validContract, network: 'devnet' })).rejects.toThrow('Unknown network');
+  });
+
   it('should convert address to lowercase', async () => {
     const upperCaseAddress = {
       ...validContract,
@@ -61,6 +85,11 @@ describe('Contract Model', () => {
     await expect(Contract.create(invalidType)).rejects.toThrow();
   });
 
+  it('should accept TuneFi protocol types', async () => {
+    const contract = await Contract.create({ ...validContract, type: ContractType.MUSIC_NFT });
+    expect(contract.type).toBe('MUSIC_NFT');
+  });
+
   it('should update contract fields', async () => {
     const contract = await Contract.create(validContract);
     const newBlockNumber = 3000000;
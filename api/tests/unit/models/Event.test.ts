@@ -1,6 +1,8 @@
 import mongoose from 'mongoose';
 import { Event } from '../../../src/models/Event';
 import { Contract, ContractType, IContract } from '../../../src/models/Contract';
+import { Block } from '../../../src/models/Block';
+import { migrateIndexes, migrateLegacyNetworks } from '../../../src/config/database';
 
 describe('Event Model', () => {
   let contract: IContract;
@@ -23,6 +25,7 @@ describe('Event Model', () => {
   it('should create an event with valid fields', async () => {
     const validEvent = {
       contract: contract._id,
+      network: 'ethereum',
       name: 'Transfer',
       signature: 'Transfer(address,address,uint256)',
       blockNumber: 12345678,
@@ -62,6 +65,7 @@ describe('Event Model', () => {
   it('should validate transaction hash format', async () => {
     const eventWithInvalidHash = {
       contract: contract._id,
+      network: 'ethereum',
       name: 'Transfer',
       signature: 'Transfer(address,address,uint256)',
       blockNumber: 12345678,
@@ -75,6 +79,7 @@ describe('Event Model', () => {
   it('should enforce unique compound index', async () => {
     const event = {
       contract: contract._id,
+      network: 'ethereum',
       name: 'Transfer',
       signature: 'Transfer(address,address,uint256)',
       blockNumber: 12345678,
@@ -89,6 +94,7 @@ describe('Event Model', () => {
   it('should validate block number is positive', async () => {
     const eventWithNegativeBlock = {
       contract: contract._id,
+      network: 'ethereum',
       name: 'Transfer',
       signature: 'Transfer(address,address,uint256)',
       blockNumber: -1,
@@ -102,6 +108,7 @@ describe('Event Model', () => {
   it('should validate log index is non-negative', async () => {
     const eventWithNegativeLogIndex = {
       contract: contract._id,
+      network: 'ethereum',
       name: 'Transfer',
       signature: 'Transfer(address,address,uint256)',
       blockNumber: 12345678,
@@ -116,6 +123,7 @@ describe('Event Model', () => {
     await Promise.all([
       Event.create({
         contract: contract._id,
+        network: 'ethereum',
         name: 'Transfer',
         signature: 'Transfer(address,address,uint256)',
         blockNumber: 100,
@@ -124,6 +132,7 @@ describe('Event Model', () => {
       }),
       Event.create({
         contract: contract._id,
+        network: 'ethereum',
         name: 'Transfer',
         signature: 'Transfer(address,address,uint256)',
         blockNumber: 200,
@@ -132,6 +141,7 @@ describe('Event Model', () => {
       }),
       Event.create({
         contract: contract._id,
+        network: 'ethereum',
         name: 'Transfer',
         signature: 'Transfer(address,address,uint256)',
         blockNumber: 300,
@@ -152,6 +162,7 @@ describe('Event Model', () => {
     await Promise.all([
       Event.create({
         contract: contract._id,
+        network: 'ethereum',
         name: 'Transfer',
         signature: 'Transfer(address,address,uint256)',
         blockNumber: 100,
@@ -160,6 +171,7 @@ describe('Event Model', () => {
       }),
       Event.create({
         contract: contract._id,
+        network: 'ethereum',
         name: 'Approval',
         signature: 'Approval(address,address,uint256)',
         blockNumber: 101,
@@ -176,6 +188,7 @@ describe('Event Model', () => {
   it('should create timestamps automatically', async () => {
     const event = await Event.create({
       contract: contract._id,
+      network: 'ethereum',
       name: 'Transfer',
       signature: 'Transfer(address,address,uint256)',
       blockNumber: 12345678,
@@ -188,4 +201,42 @@ describe('Event Model', () => {
     expect(event.createdAt).toBeInstanceOf(Date);
     expect(event.updatedAt).toBeInstanceOf(Date);
   });
-}); 
\ No newline at end of file
+
+  describe('databases from before networks', () => {
+    const transactionHash = '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890';
+    const hash = `0x${'1'.padStart(64, '0')}`;
+
+    it('should assign networks and replace the single network unique indexes', async () => {
+      const owner = await Contract.create({
+        address: '0x1234567890123456789012345678901234567890',
+        type: ContractType.ERC721,
+        network: 'ethereum'
+      });
+      await Promise.all([Event.createCollection(), Block.createCollection()]);
+      await Promise.all([Event.collection.dropIndexes(), Block.collection.dropIndexes()]);
+      await Event.collection.createIndex({ transactionHash: 1, logIndex: 1 }, { unique: true });
+      await Block.collection.createIndex({ number: 1 }, { unique: true, name: 'number_1' });
+      await Block.collection.createIndex({ hash: 1 }, { unique: true, name: 'hash_1' });
+      await Event.collection.insertOne({
+        contract: owner._id,
+        name: 'Transfer',
+        signature: 'Transfer(address,address,uint256)',
+        blockNumber: 1,
+        transactionHash,
+        logIndex: 0
+      });
+      await Block.collection.insertOne({ number: 1, hash, parentHash: hash, timestamp: 1 });
+
+      await migrateLegacyNetworks();
+      await migrateIndexes();
+
+      expect(await Event.findOne({ transactionHash })).toMatchObject({ network: 'ethereum' });
+      expect(await Block.findOne({ number: 1 })).toMatchObject({ network: 'ethereum' });
+      const polygon = await Contract.create({ address: owner.address, type: ContractType.ERC721, network: 'polygon' });
+      await expect(Event.collection.insertOne({ contract: polygon._id, network: 'polygon', transactionHash, logIndex: 0 }))
+        .resolves.toBeDefined();
+      await expect(Block.collection.insertOne({ network: 'polygon', number: 1, hash, parentHash: hash, timestamp: 1 }))
+        .resolves.toBeDefined();
+    });
+  });
+});
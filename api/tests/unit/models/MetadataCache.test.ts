@@ -1,6 +1,7 @@
 import mongoose from 'mongoose';
 import { MetadataCache, MetadataCacheStatus, IMetadataCache } from '../../../src/models/MetadataCache';
 import { Contract, ContractType, IContract } from '../../../src/models/Contract';
+import { migrateIndexes } from '../../../src/config/database';
 
 describe('MetadataCache Model', () => {
   let contract: IContract;
@@ -69,7 +70,7 @@ describe('MetadataCache Model', () => {
     await expect(MetadataCache.create(metadataWithoutTokenId)).rejects.toThrow();
   });
 
-  it('should enforce unique contract and tokenId combination', async () => {
+  it('should enforce unique contract, tokenId and uri combination', async () => {
     const metadata = {
       contract: contract._id,
       tokenId: '1',
@@ -82,6 +83,41 @@ describe('MetadataCache Model', () => {
     await expect(MetadataCache.create(metadata)).rejects.toThrow();
   });
 
+  it('should keep one entry per URI of a token', async () => {
+    const metadata = {
+      contract: contract._id,
+      tokenId: '1',
+      uri: 'https://api.example.com/token/1',
+      status: MetadataCacheStatus.PENDING
+    };
+
+    await MetadataCache.create(metadata);
+    await expect(
+      MetadataCache.create({ ...metadata, uri: 'https://api.example.com/token/1?v=2' })
+    ).resolves.toBeDefined();
+  });
+
+  it('should drop the one entry per token index of earlier versions', async () => {
+    const metadata = {
+      contract: contract._id,
+      tokenId: '1',
+      uri: 'https://api.example.com/token/1',
+      status: MetadataCacheStatus.PENDING
+    };
+    await MetadataCache.createCollection();
+    await MetadataCache.collection.dropIndexes();
+    await MetadataCache.collection.createIndex({ contract: 1, tokenId: 1 }, { unique: true });
+    await MetadataCache.create(metadata);
+
+    await migrateIndexes();
+
+    const indexes = await MetadataCache.collection.indexes();
+    expect(indexes.map(index => index.name)).not.toContain('contract_1_tokenId_1');
+    await expect(
+      MetadataCache.create({ ...metadata, uri: 'https://api.example.com/token/1?v=2' })
+    ).resolves.toBeDefined();
+  });
+
   it('should validate URI format', async () => {
     const metadataWithInvalidUri = {
       contract: contract._id,
@@ -19,6 +19,7 @@ describe('Transaction Model', () => {
 
   const validTransaction = {
     contract: undefined as unknown as mongoose.Types.ObjectId, // Will be set in beforeEach
+    network: 'ethereum',
     hash: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
     blockNumber: 1000000,
     from: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
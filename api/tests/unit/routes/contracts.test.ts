@@ -19,6 +19,7 @@ const mockFind = jest.fn<() => Promise<IContract[]>>();
 const mockFindOne = jest.fn<(query: any) => Promise<IContract | null>>();
 const mockCountDocuments = jest.fn<() => Promise<number>>();
 const mockDeleteMany = jest.fn<() => Promise<{ acknowledged: boolean; deletedCount: number }>>();
+const mockDetectContract = jest.fn<(address: string, network: string) => Promise<any>>();
 
 jest.mock('../../../src/models/Contract', () => ({
   Contract: {
@@ -34,6 +35,10 @@ jest.mock('../../../src/models/Contract', () => ({
   }
 }));
 
+jest.mock('../../../src/indexer/detection', () => ({
+  detectContract: mockDetectContract
+}));
+
 // Other imports
 import request from 'supertest';
 import { app } from '../../../src/app';
@@ -93,5 +98,104 @@ describe('Contract Routes', () => {
       expect(response.status).toBe(409);
       expect(response.body.error).toBe('Contract already exists');
     });
+
+    it('should detect the type, name and symbol when no type is given', async () => {
+      mockFindOne.mockResolvedValue(null);
+      mockDetectContract.mockResolvedValue({ type: 'ERC1155', name: 'Detected', symbol: 'DET' });
+      mockCreate.mockImplementation(async data => data);
+
+      const response = await request(app)
+        .post('/api/v1/contracts')
+        .send({ address: validContract.address, network: 'anvil', name: 'Given' });
+
+      expect(response.status).toBe(201);
+      expect(mockDetectContract).toHaveBeenCalledWith(validContract.address, 'anvil');
+      expect(response.body).toMatchObject({ type: 'ERC1155', name: 'Given', symbol: 'DET' });
+    });
+
+    it('should not detect when a type is given', async () => {
+      mockFindOne.mockResolvedValue(null);
+      mockCreate.mockImplementation(async data => data);
+
+      await request(app).post('/api/v1/contracts').send(validContract);
+
+      expect(mockDetectContract).not.toHaveBeenCalled();
+    });
+
+    it('should report the detection result without registering when detect=true', async () => {
+      const detection = { address: validContract.address, type: 'ERC721', interfaces: { erc721: true } };
+      mockDetectContract.mockResolvedValue(detection);
+
+      const response = await request(app)
+        .post('/api/v1/contracts')
+        .query({ detect: 'true' })
+        .send({ address: validContract.address, network: 'anvil' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(detection);
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it('should require a network to detect the contract type', async () => {
+      const response = await request(app)
+        .post('/api/v1/contracts')
+        .send({ address: validContract.address });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('network is required to detect the contract type');
+      expect(mockDetectContract).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an unknown network', async () => {
+      const response = await request(app)
+        .post('/api/v1/contracts')
+        .send({ ...validContract, network: 'devnet' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Unknown network: devnet');
+    });
+  });
+
+  describe('POST /api/v1/contracts/import/foundry', () => {
+    it('should return 400 for a file that is not a broadcast', async () => {
+      const response = await request(app)
+        .post('/api/v1/contracts/import/foundry')
+        .send({ chain: 31337 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid broadcast file: missing transactions');
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/v1/contracts', () => {
+    it('should return 400 for an invalid finality level', async () => {
+      const response = await request(app)
+        .get('/api/v1/contracts')
+        .query({ finality: 'pending' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toMatch(/Invalid finality/);
+      expect(mockFind).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid type filter', async () => {
+      const response = await request(app)
+        .get('/api/v1/contracts')
+        .query({ type: 'ERC404' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid contract type');
+      expect(mockFind).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid token standard', async () => {
+      const response = await request(app)
+        .get('/api/v1/contracts')
+        .query({ standard: 'ERC404' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toMatch(/Invalid token standard/);
+    });
   });
-}); 
\ No newline at end of file
+});
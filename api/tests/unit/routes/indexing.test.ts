@@ -0,0 +1,269 @@
+/**
+ * @jest-environment node
+ */
+
+import { jest } from '@jest/globals';
+
+const mockContractFindOne = jest.fn<(query: any) => Promise<any>>();
+const mockContractUpdateOne = jest.fn<(...args: any[]) => Promise<any>>();
+const mockContractCountDocuments = jest.fn<(query: any) => Promise<number>>();
+const mockStatusFindOne = jest.fn<(query: any) => Promise<any>>();
+const mockStatusFindOneAndUpdate = jest.fn<(...args: any[]) => Promise<any>>();
+const mockStatusFindById = jest.fn<(id: any) => Promise<any>>();
+const mockStatusCreate = jest.fn<(data: any) => Promise<any>>();
+const mockEventDistinct = jest.fn<(field: string, query: any) => Promise<string[]>>();
+const mockEventDeleteMany = jest.fn<(query: any) => Promise<any>>();
+const mockTransactionDistinct = jest.fn<(field: string, query: any) => Promise<string[]>>();
+const mockTransactionDeleteMany = jest.fn<(query: any) => Promise<any>>();
+const mockResetProjections = jest.fn<(contract: any) => Promise<void>>();
+
+jest.mock('../../../src/models/Contract', () => ({
+  Contract: {
+    findOne: mockContractFindOne,
+    updateOne: mockContractUpdateOne,
+    countDocuments: mockContractCountDocuments
+  },
+  ContractType: {
+    ERC721: 'ERC721',
+    ERC1155: 'ERC1155'
+  }
+}));
+
+jest.mock('../../../src/models/IndexingStatus', () => ({
+  IndexingStatus: {
+    findOne: mockStatusFindOne,
+    findOneAndUpdate: mockStatusFindOneAndUpdate,
+    findById: mockStatusFindById,
+    create: mockStatusCreate
+  },
+  IndexingStatusType: {
+    PENDING: 'pending',
+    RUNNING: 'running',
+    PAUSED: 'paused',
+    COMPLETED: 'completed',
+    FAILED: 'failed'
+  }
+}));
+
+jest.mock('../../../src/models/Event', () => ({
+  Event: { distinct: mockEventDistinct, deleteMany: mockEventDeleteMany }
+}));
+jest.mock('../../../src/models/Transaction', () => ({
+  Transaction: { distinct: mockTransactionDistinct, deleteMany: mockTransactionDeleteMany }
+}));
+jest.mock('../../../src/indexer/projections', () => ({ resetProjections: mockResetProjections }));
+
+import request from 'supertest';
+import { app } from '../../../src/app';
+
+describe('Indexing Control Routes', () => {
+  const address = '0x1234567890123456789012345678901234567890';
+  const base = `/api/v1/contracts/${address}/indexing`;
+  const contract = { _id: 'contract-id', address, network: 'anvil', deployedAt: 100 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockContractFindOne.mockResolvedValue(contract);
+    mockContractCountDocuments.mockResolvedValue(1);
+    mockEventDistinct.mockResolvedValue([]);
+    mockTransactionDistinct.mockResolvedValue([]);
+    mockStatusFindOneAndUpdate.mockImplementation(async (filter: any, update: any) => ({
+      _id: 'status-id',
+      ...update.$set
+    }));
+  });
+
+  describe('GET /indexing', () => {
+    it('should return the indexing status', async () => {
+      mockStatusFindOne.mockResolvedValue({ status: 'running', progress: 50 });
+
+      const response = await request(app).get(base);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ status: 'running', progress: 50 });
+    });
+
+    it('should return 404 for unknown contracts', async () => {
+      mockContractFindOne.mockResolvedValue(null);
+
+      const response = await request(app).get(base);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Contract not found');
+    });
+
+    it('should return 400 for invalid addresses', async () => {
+      const response = await request(app).get('/api/v1/contracts/invalid/indexing');
+      expect(response.status).toBe(400);
+    });
+
+    it('should ask for a network when the address is registered on several', async () => {
+      mockContractCountDocuments.mockResolvedValue(2);
+
+      const response = await request(app).get(base);
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Contract is registered on multiple networks, specify a network');
+    });
+
+    it('should scope the lookup to the requested network', async () => {
+      mockStatusFindOne.mockResolvedValue({ status: 'running', progress: 50 });
+
+      const response = await request(app).get(`${base}?network=sepolia`);
+
+      expect(response.status).toBe(200);
+      expect(mockContractFindOne).toHaveBeenCalledWith({ address, network: 'sepolia' });
+      expect(mockContractCountDocuments).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /indexing/start', () => {
+    it('should create a pending backfill job', async () => {
+      mockStatusFindOne.mockResolvedValue(null);
+      mockStatusCreate.mockImplementation(async data => data);
+
+      const response = await request(app)
+        .post(`${base}/start`)
+        .send({ startBlock: 10, endBlock: 20 });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ status: 'pending', startBlock: 10, endBlock: 20 });
+    });
+
+    it('should default to the deployment block', async () => {
+      mockStatusFindOne.mockResolvedValue({ _id: 'status-id', status: 'completed' });
+
+      const response = await request(app).post(`${base}/start`).send({});
+
+      expect(response.status).toBe(200);
+      expect(response.body.startBlock).toBe(100);
+    });
+
+    it('should reject starting a running job', async () => {
+      mockStatusFindOne.mockResolvedValue({ _id: 'status-id', status: 'running' });
+
+      const response = await request(app).post(`${base}/start`).send({ startBlock: 10 });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Cannot start indexing while status is running');
+    });
+
+    it('should reject an inverted block range', async () => {
+      const response = await request(app)
+        .post(`${base}/start`)
+        .send({ startBlock: 20, endBlock: 10 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('startBlock must be less than or equal to endBlock');
+    });
+  });
+
+  describe('POST /indexing/pause and /resume', () => {
+    it('should pause a running job', async () => {
+      mockStatusFindOne.mockResolvedValue({ _id: 'status-id', status: 'running' });
+
+      const response = await request(app).post(`${base}/pause`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('paused');
+      expect(mockStatusFindOneAndUpdate.mock.calls[0][0]).toEqual({ _id: 'status-id', status: 'running' });
+    });
+
+    it('should reject resuming a job that is not paused', async () => {
+      mockStatusFindOne.mockResolvedValue({ _id: 'status-id', status: 'completed' });
+
+      const response = await request(app).post(`${base}/resume`);
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Cannot resume indexing while status is completed');
+    });
+
+    it('should report a concurrent status change', async () => {
+      mockStatusFindOne.mockResolvedValue({ _id: 'status-id', status: 'running' });
+      mockStatusFindOneAndUpdate.mockResolvedValue(null);
+      mockStatusFindById.mockResolvedValue({ _id: 'status-id', status: 'completed' });
+
+      const response = await request(app).post(`${base}/pause`);
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Cannot pause indexing while status is completed');
+    });
+  });
+
+  describe('POST /indexing/retry', () => {
+    it('should requeue a failed job and clear the error', async () => {
+      mockStatusFindOne.mockResolvedValue({ _id: 'status-id', status: 'failed', error: 'boom' });
+
+      const response = await request(app).post(`${base}/retry`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('pending');
+      expect(mockStatusFindOneAndUpdate.mock.calls[0][1]).toMatchObject({ $unset: { error: '' } });
+    });
+
+    it('should reject retrying a job without a status', async () => {
+      mockStatusFindOne.mockResolvedValue(null);
+
+      const response = await request(app).post(`${base}/retry`);
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Cannot retry indexing before it has been started');
+    });
+  });
+
+  describe('POST /indexing/reset', () => {
+    it('should clear indexed data and restart from the deployment block', async () => {
+      mockStatusFindOne.mockResolvedValue({ _id: 'status-id', status: 'paused', startBlock: 50 });
+
+      const response = await request(app).post(`${base}/reset`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ status: 'pending', startBlock: 100, progress: 0 });
+      expect(mockEventDeleteMany).toHaveBeenCalledWith({ contract: 'contract-id' });
+      expect(mockResetProjections).toHaveBeenCalledWith(contract);
+      expect(mockContractUpdateOne).toHaveBeenCalledWith(
+        { _id: 'contract-id' },
+        { $unset: { lastIndexedBlock: '' } }
+      );
+      expect(mockStatusFindOneAndUpdate.mock.calls[0][1].$unset).toHaveProperty('lastIndexedBlock');
+      expect(mockStatusFindOneAndUpdate.mock.calls[0][1].$set).not.toHaveProperty('lastIndexedBlock');
+    });
+
+    it('should keep transactions other contracts still reference', async () => {
+      mockStatusFindOne.mockResolvedValue({ _id: 'status-id', status: 'paused' });
+      mockEventDistinct.mockResolvedValueOnce(['0xshared', '0xown']).mockResolvedValueOnce(['0xshared']);
+      mockTransactionDistinct.mockResolvedValue(['0xown', '0xsent']);
+
+      await request(app).post(`${base}/reset`);
+
+      expect(mockEventDistinct).toHaveBeenLastCalledWith('transactionHash', {
+        network: 'anvil',
+        transactionHash: { $in: ['0xshared', '0xown', '0xsent'] }
+      });
+      expect(mockTransactionDeleteMany).toHaveBeenCalledWith({
+        network: 'anvil',
+        hash: { $in: ['0xshared', '0xown', '0xsent'], $nin: ['0xshared'] }
+      });
+    });
+
+    it('should leave the status untouched when clearing fails', async () => {
+      mockStatusFindOne.mockResolvedValue({ _id: 'status-id', status: 'completed' });
+      mockEventDeleteMany.mockRejectedValueOnce(new Error('connection lost'));
+
+      const response = await request(app).post(`${base}/reset`);
+
+      expect(response.status).toBe(500);
+      expect(mockStatusFindOneAndUpdate).not.toHaveBeenCalled();
+      expect(mockContractUpdateOne).not.toHaveBeenCalled();
+    });
+
+    it('should require pausing a running job first', async () => {
+      mockStatusFindOne.mockResolvedValue({ _id: 'status-id', status: 'running' });
+
+      const response = await request(app).post(`${base}/reset`);
+
+      expect(response.status).toBe(409);
+      expect(mockEventDeleteMany).not.toHaveBeenCalled();
+    });
+  });
+});
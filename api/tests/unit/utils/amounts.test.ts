@@ -0,0 +1,31 @@
+import { ValidationError } from '../../../src/middleware/error-handler';
+import { formatAmount, parseAmount, withFormatted } from '../../../src/utils/amounts';
+
+describe('Amount Utils', () => {
+  describe('parseAmount', () => {
+    it('should accept wei amounts and treat blanks as unset', () => {
+      expect(parseAmount('1000', 'minPrice')).toBe('1000');
+      expect(parseAmount('', 'minPrice')).toBeUndefined();
+    });
+
+    it('should reject fractional amounts', () => {
+      expect(() => parseAmount('1.5', 'minPrice')).toThrow(ValidationError);
+    });
+  });
+
+  describe('formatAmount', () => {
+    it('should format wei with 18 decimals', () => {
+      expect(formatAmount('1500000000000000000')).toBe('1.5');
+      expect(formatAmount('0')).toBe('0.0');
+    });
+  });
+
+  describe('withFormatted', () => {
+    it('should add formatted values only when requested', () => {
+      const row = { price: '2000000000000000000', floorPrice: null, count: 1 };
+
+      expect(withFormatted(row, ['price', 'floorPrice'], false)).toBe(row);
+      expect(withFormatted(row, ['price', 'floorPrice'], true)).toEqual({ ...row, priceFormatted: '2.0' });
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { EngagementEntryType } from '../../../src/models/EngagementEntry';
+import { claimableRewards, EMPTY_FAN_STATE, foldFanState, leaderboardWindow } from '../../../src/utils/engagement';
+
+describe('engagement', () => {
+  describe('foldFanState', () => {
+    it('should add points and interactions and spend points on a claim', () => {
+      const entries = [
+        { type: EngagementEntryType.POINTS_EARNED, points: 1, timestamp: 100 },
+        { type: EngagementEntryType.ACHIEVEMENT_UNLOCKED, timestamp: 100 },
+        { type: EngagementEntryType.POINTS_EARNED, points: 5, timestamp: 200 },
+        { type: EngagementEntryType.REWARDS_CLAIMED, amount: '60000000000000000', timestamp: 300 },
+        { type: EngagementEntryType.POINTS_EARNED, points: 2, timestamp: 400 }
+      ];
+
+      expect(entries.reduce(foldFanState, EMPTY_FAN_STATE)).toEqual({
+        totalPoints: 8,
+        points: 2,
+        totalInteractions: 3,
+        achievementCount: 1,
+        rewardsClaimed: '60000000000000000',
+        firstInteractionAt: 100,
+        lastInteractionAt: 400
+      });
+    });
+  });
+
+  it('should pay one token per hundred points', () => {
+    expect(claimableRewards(6)).toBe(60000000000000000n);
+    expect(claimableRewards(250)).toBe(2500000000000000000n);
+  });
+
+  describe('leaderboardWindow', () => {
+    // Wednesday 2024-01-17 12:00 UTC
+    const at = Date.UTC(2024, 0, 17, 12) / 1000;
+
+    it('should cover the UTC week from Monday', () => {
+      expect(leaderboardWindow('weekly', at)).toEqual({
+        from: Date.UTC(2024, 0, 15) / 1000,
+        to: Date.UTC(2024, 0, 22) / 1000
+      });
+    });
+
+    it('should put Sunday in the week that started the Monday before', () => {
+      expect(leaderboardWindow('weekly', Date.UTC(2024, 0, 21, 23) / 1000)?.from).toBe(Date.UTC(2024, 0, 15) / 1000);
+    });
+
+    it('should cover the UTC month', () => {
+      expect(leaderboardWindow('monthly', at)).toEqual({
+        from: Date.UTC(2024, 0, 1) / 1000,
+        to: Date.UTC(2024, 1, 1) / 1000
+      });
+    });
+
+    it('should be unbounded for all-time', () => {
+      expect(leaderboardWindow('all-time', at)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { ValidationError } from '../../../src/middleware/error-handler';
+import { blockFinalityFilter, Finality, finalityFilter, parseFinality } from '../../../src/utils/finality';
+import { getFinalityConfig } from '../../../src/config/networks';
+import { Block } from '../../../src/models/Block';
+
+const storeBlock = (network: string, number: number, finalized: boolean) =>
+  Block.create({
+    network,
+    number,
+    hash: `0x${number.toString(16).padStart(64, '0')}`,
+    parentHash: `0x${(number - 1).toString(16).padStart(64, '0')}`,
+    timestamp: 1700000000 + number,
+    finalized
+  });
+
+describe('Finality Utils', () => {
+  const originalDepths = process.env.CONFIRMATION_DEPTHS;
+
+  afterEach(() => {
+    if (originalDepths === undefined) {
+      delete process.env.CONFIRMATION_DEPTHS;
+    } else {
+      process.env.CONFIRMATION_DEPTHS = originalDepths;
+    }
+  });
+
+  describe('parseFinality', () => {
+    it('should default to latest', () => {
+      expect(parseFinality(undefined)).toBe(Finality.LATEST);
+      expect(parseFinality('')).toBe(Finality.LATEST);
+    });
+
+    it('should accept known finality levels', () => {
+      expect(parseFinality('safe')).toBe(Finality.SAFE);
+      expect(parseFinality('finalized')).toBe(Finality.FINALIZED);
+    });
+
+    it('should reject unknown finality levels', () => {
+      expect(() => parseFinality('pending')).toThrow(ValidationError);
+    });
+  });
+
+  describe('finalityFilter', () => {
+    it('should not filter latest data', () => {
+      expect(finalityFilter(Finality.LATEST)).toEqual({});
+    });
+
+    it('should require the finalized flag for finalized data', () => {
+      expect(finalityFilter(Finality.FINALIZED, 'ethereum')).toEqual({ finalized: true });
+    });
+
+    it('should require the safe depth for safe data', () => {
+      expect(finalityFilter(Finality.SAFE, 'ethereum')).toEqual({
+        confirmations: { $gte: getFinalityConfig('ethereum').safeDepth }
+      });
+    });
+  });
+
+  describe('blockFinalityFilter', () => {
+    it('should not filter latest data', async () => {
+      expect(await blockFinalityFilter(Finality.LATEST, 'ethereum')).toEqual({});
+    });
+
+    it('should cap rows at the network finality head', async () => {
+      await storeBlock('ethereum', 100, true);
+      await storeBlock('ethereum', 101, false);
+
+      expect(await blockFinalityFilter(Finality.FINALIZED, 'ethereum')).toEqual({
+        network: 'ethereum',
+        blockNumber: { $lte: 100 }
+      });
+    });
+
+    it('should cap each network at its own head without a network', async () => {
+      await storeBlock('ethereum', 100, true);
+      await storeBlock('polygon', 500, true);
+      await storeBlock('arbitrum', 7, false);
+
+      const filter = await blockFinalityFilter(Finality.FINALIZED);
+      expect(filter.$or).toHaveLength(2);
+      expect(filter.$or).toEqual(expect.arrayContaining([
+        { network: 'ethereum', blockNumber: { $lte: 100 } },
+        { network: 'polygon', blockNumber: { $lte: 500 } }
+      ]));
+    });
+
+    it('should match nothing while no block meets the finality', async () => {
+      await storeBlock('ethereum', 100, false);
+
+      expect(await blockFinalityFilter(Finality.FINALIZED, 'ethereum')).toEqual({ blockNumber: { $lt: 0 } });
+    });
+  });
+
+  describe('getFinalityConfig', () => {
+    it('should use per-network defaults', () => {
+      expect(getFinalityConfig('polygon').confirmationDepth).toBe(256);
+    });
+
+    it('should apply environment overrides', () => {
+      process.env.CONFIRMATION_DEPTHS = 'ethereum:20:5,polygon:10';
+      expect(getFinalityConfig('ethereum')).toEqual({ confirmationDepth: 20, safeDepth: 5 });
+      expect(getFinalityConfig('polygon')).toEqual({ confirmationDepth: 10, safeDepth: 5 });
+    });
+
+    it('should fall back to the default depth for unknown networks', () => {
+      expect(getFinalityConfig('unknown-chain').confirmationDepth).toBe(12);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { AbiCoder, keccak256, toUtf8Bytes } from 'ethers';
+import { ProposalState } from '../../../src/models/Proposal';
+import { TimelockOperationStatus } from '../../../src/models/TimelockOperation';
+import {
+  proposalState,
+  proposalTitle,
+  quorumAt,
+  quorumProgress,
+  stateTransitions,
+  timelockOperationId,
+  timelockOperationStatus
+} from '../../../src/utils/governance';
+
+describe('governance', () => {
+  const proposal = {
+    voteStart: 10,
+    voteEnd: 20,
+    forVotes: '600',
+    againstVotes: '300',
+    abstainVotes: '100',
+    proposedBlock: 9,
+    proposedAt: 1000,
+    transactionHash: '0x' + '9'.padStart(64, '0')
+  };
+
+  describe('timelockOperationId', () => {
+    it('should hash the batch with the governor address XORed into the description hash', () => {
+      const governor = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+      const description = '# Fund the artist pool';
+      const descriptionHash = keccak256(toUtf8Bytes(description));
+      // bytes20(governor) fills the high bytes of the salt
+      const salt = '0x' + (BigInt(governor + '0'.repeat(24)) ^ BigInt(descriptionHash)).toString(16).padStart(64, '0');
+      const expected = keccak256(AbiCoder.defaultAbiCoder().encode(
+        ['address[]', 'uint256[]', 'bytes[]', 'bytes32', 'bytes32'],
+        [[governor], [0n], ['0x1234'], '0x' + '0'.repeat(64), salt]
+      ));
+
+      expect(timelockOperationId(governor.toLowerCase(), [governor], ['0'], ['0x1234'], description)).toBe(expected);
+    });
+  });
+
+  it('should take the first non-empty line as title', () => {
+    expect(proposalTitle('\n# Fund the artist pool\n\nDetails')).toBe('Fund the artist pool');
+    expect(proposalTitle('')).toBe('');
+  });
+
+  it('should compute the quorum as a percentage of the past supply', () => {
+    expect(quorumAt(10_000n, 4n)).toBe(400n);
+  });
+
+  it('should count for and abstain votes towards the quorum', () => {
+    expect(quorumProgress(proposal, 800n)).toEqual({ quorum: '800', votes: '700', progress: 87.5, reached: false });
+    expect(quorumProgress(proposal, 700n)).toMatchObject({ progress: 100, reached: true });
+    expect(quorumProgress(proposal, null)).toEqual({ quorum: null, votes: '700', progress: null, reached: null });
+  });
+
+  describe('proposalState', () => {
+    it('should be pending up to the snapshot and active up to the deadline', () => {
+      expect(proposalState(proposal, 10, 400n)).toBe(ProposalState.PENDING);
+      expect(proposalState(proposal, 11, 400n)).toBe(ProposalState.ACTIVE);
+      expect(proposalState(proposal, 20, 400n)).toBe(ProposalState.ACTIVE);
+    });
+
+    it('should succeed with a majority and quorum after the deadline', () => {
+      expect(proposalState(proposal, 21, 400n)).toBe(ProposalState.SUCCEEDED);
+      expect(proposalState(proposal, 21, 800n)).toBe(ProposalState.DEFEATED);
+      expect(proposalState({ ...proposal, againstVotes: '600' }, 21, 400n)).toBe(ProposalState.DEFEATED);
+    });
+
+    it('should be unknown when the outcome depends on a quorum that is not indexed', () => {
+      expect(proposalState(proposal, 21, null)).toBeNull();
+      expect(proposalState({ ...proposal, againstVotes: '600' }, 21, null)).toBe(ProposalState.DEFEATED);
+    });
+
+    it('should follow the timelock once queued', () => {
+      const queued = { ...proposal, queuedBlock: 22, eta: 5000 };
+
+      expect(proposalState(queued, 30, null)).toBe(ProposalState.QUEUED);
+      expect(proposalState(queued, 30, null, { executedBlock: 31 })).toBe(ProposalState.EXECUTED);
+      expect(proposalState(queued, 30, null, { cancelledBlock: 31 })).toBe(ProposalState.CANCELED);
+      expect(proposalState({ ...queued, executedBlock: 40 }, 41, null)).toBe(ProposalState.EXECUTED);
+    });
+
+    it('should be canceled whatever the block', () => {
+      expect(proposalState({ ...proposal, canceledBlock: 9 }, 100, 400n)).toBe(ProposalState.CANCELED);
+    });
+  });
+
+  describe('stateTransitions', () => {
+    it('should list the states of an executed proposal in order', () => {
+      const executed = { ...proposal, queuedBlock: 22, queuedAt: 3000, executedBlock: 40, executedAt: 5000 };
+
+      expect(stateTransitions(executed, 41, ProposalState.EXECUTED).map(t => [t.state, t.blockNumber])).toEqual([
+        [ProposalState.PENDING, 9],
+        [ProposalState.ACTIVE, 11],
+        [ProposalState.SUCCEEDED, 21],
+        [ProposalState.QUEUED, 22],
+        [ProposalState.EXECUTED, 40]
+      ]);
+    });
+
+    it('should stop at the cancellation', () => {
+      const canceled = { ...proposal, canceledBlock: 10, canceledAt: 1100 };
+
+      expect(stateTransitions(canceled, 41, ProposalState.CANCELED).map(t => t.state)).toEqual([
+        ProposalState.PENDING,
+        ProposalState.CANCELED
+      ]);
+    });
+
+    it('should leave out the outcome while voting is open', () => {
+      expect(stateTransitions(proposal, 15, ProposalState.ACTIVE).map(t => t.state)).toEqual([
+        ProposalState.PENDING,
+        ProposalState.ACTIVE
+      ]);
+    });
+  });
+
+  it('should tell waiting, ready, done and cancelled operations apart', () => {
+    expect(timelockOperationStatus({ readyAt: 100 }, 99)).toBe(TimelockOperationStatus.WAITING);
+    expect(timelockOperationStatus({ readyAt: 100 }, 100)).toBe(TimelockOperationStatus.READY);
+    expect(timelockOperationStatus({ readyAt: 100, executedBlock: 5 }, 200)).toBe(TimelockOperationStatus.DONE);
+    expect(timelockOperationStatus({ readyAt: 100, cancelledBlock: 5 }, 200)).toBe(TimelockOperationStatus.CANCELLED);
+  });
+});
@@ -0,0 +1,40 @@
+import { diffMetadata } from '../../../src/utils/metadataDiff';
+
+describe('diffMetadata', () => {
+  it('should list added, removed and changed fields', () => {
+    const changes = diffMetadata(
+      { name: 'Song', description: 'Demo', image: 'ipfs://cover' },
+      { name: 'Song (Remastered)', image: 'ipfs://cover', animation_url: 'ipfs://audio' }
+    );
+
+    expect(changes).toEqual([
+      { field: 'animation_url', change: 'added', to: 'ipfs://audio' },
+      { field: 'description', change: 'removed', from: 'Demo' },
+      { field: 'name', change: 'changed', from: 'Song', to: 'Song (Remastered)' }
+    ]);
+  });
+
+  it('should compare attributes by trait type regardless of order', () => {
+    const changes = diffMetadata(
+      { attributes: [{ trait_type: 'Genre', value: 'House' }, { trait_type: 'BPM', value: 120 }] },
+      { attributes: [{ trait_type: 'BPM', value: 124 }, { trait_type: 'Genre', value: 'House' }] }
+    );
+
+    expect(changes).toEqual([{ field: 'attributes.BPM', change: 'changed', from: 120, to: 124 }]);
+  });
+
+  it('should descend into nested objects', () => {
+    const changes = diffMetadata(
+      { properties: { mastering: { engineer: 'A' } } },
+      { properties: { mastering: { engineer: 'B' } } }
+    );
+
+    expect(changes).toEqual([
+      { field: 'properties.mastering.engineer', change: 'changed', from: 'A', to: 'B' }
+    ]);
+  });
+
+  it('should report nothing for identical metadata', () => {
+    expect(diffMetadata({ name: 'Song', tags: ['a', 'b'] }, { name: 'Song', tags: ['a', 'b'] })).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { ValidationError } from '../../../src/middleware/error-handler';
+import { AmbiguousContractError, contractScope, parseNetwork, scopeFilter } from '../../../src/utils/network';
+import { getNetwork, getNetworkForChainId, isKnownNetwork } from '../../../src/config/networks';
+import { Contract, ContractType } from '../../../src/models/Contract';
+
+describe('Network Utils', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe('network registry', () => {
+    it('should describe the known networks', () => {
+      expect(isKnownNetwork('polygon')).toBe(true);
+      expect(isKnownNetwork('devnet')).toBe(false);
+      expect(getNetwork('polygon')).toMatchObject({ name: 'polygon', chainId: 137, blockTimeMs: 2000 });
+      expect(getNetwork('devnet')).toBeUndefined();
+    });
+
+    it('should read RPC endpoints from the environment', () => {
+      process.env.RPC_URLS_SEPOLIA = 'https://a.example, https://b.example';
+      process.env.RPC_URL = 'http://anvil:8545';
+
+      expect(getNetwork('sepolia')?.rpcUrls).toEqual(['https://a.example', 'https://b.example']);
+      expect(getNetwork('anvil')?.rpcUrls).toEqual(['http://anvil:8545']);
+      expect(getNetwork('ethereum')?.rpcUrls).toEqual(['https://cloudflare-eth.com']);
+    });
+
+    it('should map chain IDs to networks', () => {
+      expect(getNetworkForChainId(11155111)).toBe('sepolia');
+      expect(getNetworkForChainId(999)).toBeUndefined();
+    });
+  });
+
+  describe('parseNetwork', () => {
+    it('should accept known networks and treat blanks as unset', () => {
+      expect(parseNetwork('ethereum')).toBe('ethereum');
+      expect(parseNetwork(undefined)).toBeUndefined();
+      expect(parseNetwork('')).toBeUndefined();
+    });
+
+    it('should reject unknown networks', () => {
+      expect(() => parseNetwork('devnet')).toThrow(ValidationError);
+    });
+  });
+
+  describe('contractScope', () => {
+    const address = '0x1234567890123456789012345678901234567890';
+
+    beforeEach(async () => {
+      await Contract.create({ address, type: ContractType.ERC721, network: 'ethereum' });
+    });
+
+    it('should select the only registration of an address', async () => {
+      await expect(contractScope(address.toUpperCase().replace('0X', '0x'))).resolves.toEqual({ address });
+    });
+
+    it('should require a network once the address is registered twice', async () => {
+      await Contract.create({ address, type: ContractType.ERC721, network: 'polygon' });
+
+      await expect(contractScope(address)).rejects.toThrow(AmbiguousContractError);
+      await expect(contractScope(address, 'polygon')).resolves.toEqual({ address, network: 'polygon' });
+    });
+  });
+
+  describe('scopeFilter', () => {
+    it('should filter read models by network and contract address', () => {
+      expect(scopeFilter({})).toEqual({});
+      expect(scopeFilter({ network: 'polygon', contract: '0x1234567890123456789012345678901234567890' })).toEqual({
+        network: 'polygon',
+        contractAddress: '0x1234567890123456789012345678901234567890'
+      });
+    });
+
+    it('should reject invalid contract addresses', () => {
+      expect(() => scopeFilter({ contract: 'nope' })).toThrow(ValidationError);
+    });
+  });
+});
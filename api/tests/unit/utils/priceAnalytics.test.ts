@@ -0,0 +1,46 @@
+import { ValidationError } from '../../../src/middleware/error-handler';
+import { buildCandles, CANDLE_INTERVALS, parseInterval, summarizeWindow } from '../../../src/utils/priceAnalytics';
+
+describe('Price Analytics', () => {
+  const HOUR = 3600;
+  const sales = [
+    { price: '20000000000000000000', timestamp: 0 },
+    { price: '5', timestamp: 10 },
+    { price: '30', timestamp: HOUR + 1 },
+    { price: '10', timestamp: 3 * HOUR }
+  ];
+
+  describe('summarizeWindow', () => {
+    it('should sum volume and find the floor of sales in the window', () => {
+      expect(summarizeWindow(sales, 10)).toEqual({ volume: '45', count: 3, floorPrice: '5' });
+      expect(summarizeWindow(sales, 0).volume).toBe('20000000000000000045');
+    });
+
+    it('should report an empty window without a floor', () => {
+      expect(summarizeWindow(sales, 4 * HOUR)).toEqual({ volume: '0', count: 0, floorPrice: null });
+    });
+  });
+
+  describe('buildCandles', () => {
+    it('should group sales into OHLC candles and skip empty intervals', () => {
+      expect(buildCandles(sales, HOUR)).toEqual([
+        { time: 0, open: '20000000000000000000', high: '20000000000000000000', low: '5', close: '5', volume: '20000000000000000005', count: 2 },
+        { time: HOUR, open: '30', high: '30', low: '30', close: '30', volume: '30', count: 1 },
+        { time: 3 * HOUR, open: '10', high: '10', low: '10', close: '10', volume: '10', count: 1 }
+      ]);
+    });
+  });
+
+  describe('parseInterval', () => {
+    it('should fall back to the default interval', () => {
+      expect(parseInterval(undefined, CANDLE_INTERVALS, '1d')).toEqual({ interval: '1d', size: 24 * HOUR });
+      expect(parseInterval('4h', CANDLE_INTERVALS, '1d')).toEqual({ interval: '4h', size: 4 * HOUR });
+    });
+
+    it('should refuse unknown and inherited keys', () => {
+      for (const value of ['3m', 'constructor', 'toString', '__proto__', ['1h']]) {
+        expect(() => parseInterval(value, CANDLE_INTERVALS, '1d')).toThrow(ValidationError);
+      }
+    });
+  });
+});
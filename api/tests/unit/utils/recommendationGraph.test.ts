@@ -0,0 +1,97 @@
+import { recommendTracks, relatedTracks, shortestPath } from '../../../src/utils/recommendationGraph';
+
+describe('recommendationGraph', () => {
+  const edge = (fromTrack: string, toTrack: string, weight: number) => ({ fromTrack, toTrack, weight });
+
+  describe('relatedTracks', () => {
+    const edges = [
+      edge('1', '2', 50),
+      edge('1', '3', 90),
+      edge('3', '2', 80),
+      edge('2', '4', 100),
+      edge('4', '1', 100)
+    ];
+
+    it('should rank tracks by the strongest path within the depth', () => {
+      const related = relatedTracks(edges, '1', 2);
+
+      expect(related.map(({ tokenId, hops, path }) => ({ tokenId, hops, path }))).toEqual([
+        { tokenId: '3', hops: 1, path: ['1', '3'] },
+        { tokenId: '2', hops: 1, path: ['1', '3', '2'] },
+        { tokenId: '4', hops: 2, path: ['1', '2', '4'] }
+      ]);
+      expect(related[1].strength).toBeCloseTo(0.72);
+      expect(related[2].strength).toBeCloseTo(0.5);
+    });
+
+    it('should stop at the depth and never return the start track', () => {
+      expect(relatedTracks(edges, '1', 1).map(track => track.tokenId)).toEqual(['3', '2']);
+      expect(relatedTracks(edges, '1', 4).map(track => track.tokenId)).not.toContain('1');
+    });
+  });
+
+  describe('shortestPath', () => {
+    it('should take the fewest edges, then the heaviest', () => {
+      const edges = [
+        edge('1', '2', 10),
+        edge('1', '3', 60),
+        edge('2', '4', 20),
+        edge('3', '4', 30),
+        edge('1', '5', 100),
+        edge('5', '6', 100),
+        edge('6', '4', 100)
+      ];
+
+      expect(shortestPath(edges, '1', '4')).toEqual({
+        path: ['1', '3', '4'],
+        edges: [edge('1', '3', 60), edge('3', '4', 30)],
+        hops: 2,
+        totalWeight: 90
+      });
+    });
+
+    it('should follow edge direction', () => {
+      expect(shortestPath([edge('1', '2', 50)], '2', '1')).toBeNull();
+    });
+
+    it('should be empty from a track to itself', () => {
+      expect(shortestPath([], '7', '7')).toEqual({ path: ['7'], edges: [], hops: 0, totalWeight: 0 });
+    });
+  });
+
+  describe('recommendTracks', () => {
+    it('should weigh edges by how the user interacted with their source', () => {
+      const interactions = [
+        { tokenId: '1', interactionType: 0 },
+        { tokenId: '2', interactionType: 2 },
+        { tokenId: '2', interactionType: 1 }
+      ];
+      const edges = [edge('1', '3', 100), edge('2', '4', 20), edge('2', '3', 10), edge('1', '2', 90)];
+
+      const recommendations = recommendTracks(interactions, edges, new Map([['3', 4]]));
+
+      // Track 4: (5 + 3) * 20; track 3: 1 * 100 + 8 * 10
+      expect(recommendations.map(({ tokenId, score }) => ({ tokenId, score }))).toEqual([
+        { tokenId: '3', score: 180 },
+        { tokenId: '4', score: 160 }
+      ]);
+      expect(recommendations[0]).toMatchObject({
+        interactionCount: 4,
+        because: [
+          { tokenId: '1', interactions: { view: 1 }, weight: 100, score: 100 },
+          { tokenId: '2', interactions: { share: 1, like: 1 }, weight: 10, score: 80 }
+        ]
+      });
+    });
+
+    it('should break ties by popularity', () => {
+      const recommendations = recommendTracks(
+        [{ tokenId: '1', interactionType: 1 }],
+        [edge('1', '2', 50), edge('1', '3', 50)],
+        new Map([['3', 2]])
+      );
+
+      expect(recommendations.map(r => r.tokenId)).toEqual(['3', '2']);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  buildMatrix,
+  explainGraphRecommendation,
+  hybridRecommendations,
+  itemSimilarities,
+  recommendSimilar,
+  topAction
+} from '../../../src/utils/recommendations';
+
+describe('recommendations', () => {
+  const signal = (user: string, tokenId: string, action: string, weight: number) => ({ user, tokenId, action, weight });
+
+  describe('buildMatrix', () => {
+    it('should sum weights per action and damp the cell value', () => {
+      const matrix = buildMatrix([
+        signal('alice', '1', 'stream', 1),
+        signal('alice', '1', 'stream', 1),
+        signal('alice', '1', 'purchase', 5),
+        signal('bob', '1', 'like', 1)
+      ]);
+
+      const item = matrix.get('alice')!.get('1')!;
+      expect(item.actions).toEqual({ stream: 2, purchase: 5 });
+      expect(item.value).toBeCloseTo(Math.log(8));
+      expect(topAction(item)).toBe('purchase');
+      expect(matrix.get('bob')!.get('1')!.value).toBeCloseTo(Math.log(2));
+    });
+  });
+
+  describe('itemSimilarities', () => {
+    // Tracks 1 and 2 share two users, 1 and 3 only one
+    const matrix = buildMatrix([
+      signal('u1', '1', 'like', 3),
+      signal('u1', '2', 'like', 3),
+      signal('u2', '1', 'like', 3),
+      signal('u2', '2', 'like', 3),
+      signal('u3', '1', 'like', 3),
+      signal('u3', '3', 'like', 3)
+    ]);
+
+    it('should keep cosine similarities of pairs seen by enough users', () => {
+      const similarities = itemSimilarities(matrix, { neighbors: 20, minCommonUsers: 2, maxItemsPerUser: 200 });
+
+      expect(similarities.get('1')).toEqual([{ tokenId: '2', similarity: expect.closeTo(2 / Math.sqrt(6)), commonUsers: 2 }]);
+      expect(similarities.get('2')).toEqual([{ tokenId: '1', similarity: expect.closeTo(2 / Math.sqrt(6)), commonUsers: 2 }]);
+      expect(similarities.has('3')).toBe(false);
+    });
+
+    it('should rank and cap the similar tracks of each track', () => {
+      const similarities = itemSimilarities(matrix, { neighbors: 1, minCommonUsers: 1, maxItemsPerUser: 200 });
+
+      expect(similarities.get('1')!.map(item => item.tokenId)).toEqual(['2']);
+      expect(similarities.get('3')).toEqual([{ tokenId: '1', similarity: expect.closeTo(1 / Math.sqrt(3)), commonUsers: 1 }]);
+    });
+
+    it('should only pair the strongest tracks of each user', () => {
+      expect(itemSimilarities(matrix, { neighbors: 20, minCommonUsers: 1, maxItemsPerUser: 1 }).size).toBe(0);
+    });
+  });
+
+  describe('recommendSimilar', () => {
+    it('should weigh similarities by the user activity they come from and explain the strongest', () => {
+      const items = buildMatrix([signal('alice', '1', 'like', 3), signal('alice', '4', 'stream', 1)]).get('alice')!;
+      const similarities = new Map([
+        ['1', [
+          { tokenId: '2', similarity: 0.8, commonUsers: 3 },
+          { tokenId: '3', similarity: 0.5, commonUsers: 2 },
+          { tokenId: '4', similarity: 0.9, commonUsers: 2 }
+        ]],
+        ['4', [{ tokenId: '3', similarity: 0.4, commonUsers: 2 }]]
+      ]);
+
+      const recommendations = recommendSimilar(items, similarities);
+
+      expect(recommendations.map(r => r.tokenId)).toEqual(['2', '3']);
+      expect(recommendations[0].score).toBeCloseTo(1.6 * Math.log(2));
+      expect(recommendations[1]).toMatchObject({
+        explanation: 'Because you liked track #1',
+        because: [
+          { tokenId: '1', action: 'like', similarity: 0.5 },
+          { tokenId: '4', action: 'stream', similarity: 0.4 }
+        ]
+      });
+      expect(recommendations[1].score).toBeCloseTo(1.4 * Math.log(2));
+    });
+  });
+
+  it('should explain a graph recommendation by the strongest interaction with its top source', () => {
+    const recommendation = explainGraphRecommendation({
+      tokenId: '3',
+      score: 60,
+      interactionCount: 0,
+      because: [
+        { tokenId: '2', interactions: { view: 2, share: 1 }, weight: 10, score: 70 },
+        { tokenId: '1', interactions: { like: 1 }, weight: 20, score: 60 }
+      ]
+    });
+
+    expect(recommendation.explanation).toBe('Because you shared track #2');
+  });
+
+  describe('hybridRecommendations', () => {
+    const graph = [
+      { tokenId: '5', score: 100, interactionCount: 0, because: [], explanation: 'Because you liked track #1' },
+      { tokenId: '6', score: 50, interactionCount: 0, because: [], explanation: 'Because you viewed track #1' }
+    ];
+    const cf = [
+      { tokenId: '6', score: 2, because: [], explanation: 'Because you streamed track #2' },
+      { tokenId: '7', score: 1, because: [], explanation: 'Because you bought track #2' }
+    ];
+
+    it('should blend scores scaled to each strategy and explain by the larger part', () => {
+      const recommendations = hybridRecommendations(graph, cf, new Set());
+
+      expect(recommendations.map(({ tokenId, score, explanation }) => ({ tokenId, score, explanation }))).toEqual([
+        { tokenId: '6', score: 0.75, explanation: 'Because you streamed track #2' },
+        { tokenId: '5', score: 0.5, explanation: 'Because you liked track #1' },
+        { tokenId: '7', score: 0.25, explanation: 'Because you bought track #2' }
+      ]);
+      expect(recommendations[0].graph).toBe(graph[1]);
+      expect(recommendations[1].cf).toBeNull();
+    });
+
+    it('should leave out tracks the user was already active on', () => {
+      expect(hybridRecommendations(graph, cf, new Set(['6'])).map(r => r.tokenId)).toEqual(['5', '7']);
+    });
+  });
+});
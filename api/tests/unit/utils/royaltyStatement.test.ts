@@ -0,0 +1,73 @@
+import { buildStatement, statementToCsv } from '../../../src/utils/royaltyStatement';
+import { RoyaltySource } from '../../../src/models/RoyaltyEntry';
+import { RoyaltyPaymentType } from '../../../src/models/RoyaltyPayment';
+
+describe('Royalty Statement', () => {
+  const address = '0xabcdef0123456789abcdef0123456789abcdef01';
+  const distributor = '0x9fe46736679d2d9a65f0992f2272de9f3c7fa6e0';
+
+  const payment = (tokenId: string, amount: string, overrides: Record<string, unknown> = {}) => ({
+    network: 'anvil',
+    contractAddress: distributor,
+    tokenId,
+    amount,
+    type: RoyaltyPaymentType.DISTRIBUTION,
+    source: RoyaltySource.SALE,
+    isPositive: true,
+    ...overrides
+  });
+
+  const statement = buildStatement(address, 100, 200, 1000n, [
+    payment('10', '500'),
+    payment('2', '300'),
+    payment('2', '200', { source: RoyaltySource.STREAMING }),
+    payment('2', '50', { type: RoyaltyPaymentType.RECONCILIATION, source: undefined, isPositive: false })
+  ]);
+
+  describe('buildStatement', () => {
+    it('should split each track into sale, streaming and adjustments', () => {
+      expect(statement.lines).toEqual([
+        {
+          network: 'anvil',
+          contractAddress: distributor,
+          tokenId: '2',
+          saleRoyalties: '300',
+          streamingRoyalties: '200',
+          adjustments: '-50',
+          total: '450'
+        },
+        expect.objectContaining({ tokenId: '10', saleRoyalties: '500', total: '500' })
+      ]);
+    });
+
+    it('should carry the opening balance to the closing balance', () => {
+      expect(statement.totals).toEqual({
+        saleRoyalties: '800',
+        streamingRoyalties: '200',
+        adjustments: '-50',
+        total: '950'
+      });
+      expect(statement.openingBalance).toBe('1000');
+      expect(statement.closingBalance).toBe('1950');
+    });
+  });
+
+  describe('statementToCsv', () => {
+    it('should write balances and one row per track', () => {
+      expect(statementToCsv(statement).split('\n')).toEqual([
+        'line,network,contractAddress,tokenId,saleRoyalties,streamingRoyalties,adjustments,total',
+        'opening_balance,,,,,,,1000',
+        `track,anvil,${distributor},2,300,200,-50,450`,
+        `track,anvil,${distributor},10,500,0,0,500`,
+        'period_total,,,,800,200,-50,950',
+        'closing_balance,,,,,,,1950',
+        ''
+      ]);
+    });
+
+    it('should write TUNE amounts when formatted', () => {
+      const csv = statementToCsv(buildStatement(address, 0, 1, 1500000000000000000n, []), true);
+      expect(csv).toContain('opening_balance,,,,,,,1.5');
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { DEFAULT_SERVICE_TIERS, effectiveTiers, resolveTier } from '../../../src/utils/serviceTiers';
+
+const TUNE = 10n ** 18n;
+
+describe('service tiers', () => {
+  it('should fall back to the constructor tiers', () => {
+    expect(effectiveTiers([])).toEqual(DEFAULT_SERVICE_TIERS);
+  });
+
+  it('should override defaults with indexed updates and keep new tiers', () => {
+    const tiers = effectiveTiers([
+      { tier: 2, minTokens: (40_000n * TUNE).toString(), discountRate: 1500 },
+      { tier: 4, minTokens: (500_000n * TUNE).toString(), discountRate: 5000 }
+    ]);
+
+    expect(tiers.map(t => [t.tier, t.discountRate])).toEqual([[1, 500], [2, 1500], [3, 2000], [4, 5000]]);
+  });
+
+  it('should resolve a balance below every tier to no discount', () => {
+    expect(resolveTier(5_000n * TUNE, DEFAULT_SERVICE_TIERS)).toEqual({
+      tier: null,
+      discountRate: 0,
+      balance: (5_000n * TUNE).toString(),
+      nextTier: {
+        tier: 1,
+        minTokens: (10_000n * TUNE).toString(),
+        discountRate: 500,
+        tokensNeeded: (5_000n * TUNE).toString()
+      }
+    });
+  });
+
+  it('should count a balance exactly at the minimum and point at the next tier', () => {
+    const resolution = resolveTier(50_000n * TUNE, DEFAULT_SERVICE_TIERS);
+
+    expect(resolution).toMatchObject({ tier: 2, discountRate: 1000 });
+    expect(resolution.nextTier).toMatchObject({ tier: 3, tokensNeeded: (50_000n * TUNE).toString() });
+  });
+
+  it('should have no next tier at the top', () => {
+    expect(resolveTier(1_000_000n * TUNE, DEFAULT_SERVICE_TIERS)).toMatchObject({ tier: 3, discountRate: 2000, nextTier: null });
+  });
+
+  it('should ignore tiers getServiceTierDiscount does not look at', () => {
+    const tiers = effectiveTiers([{ tier: 4, minTokens: '1', discountRate: 9000 }]);
+
+    expect(resolveTier(20_000n * TUNE, tiers)).toMatchObject({ tier: 1, discountRate: 500 });
+  });
+
+  it('should take the highest discount when tiers are reordered', () => {
+    const tiers = effectiveTiers([{ tier: 1, minTokens: (10_000n * TUNE).toString(), discountRate: 3000 }]);
+    const resolution = resolveTier(200_000n * TUNE, tiers);
+
+    expect(resolution).toMatchObject({ tier: 1, discountRate: 3000, nextTier: null });
+  });
+});
@@ -0,0 +1,52 @@
+import { id } from 'ethers';
+import { TokenSupplyEntryType } from '../../../src/models/TokenSupplyEntry';
+import { buildSupplySeries, circulatingSupply, poolName } from '../../../src/utils/tokenSupply';
+
+describe('token supply', () => {
+  const state = (totalSupply: string, overrides: Record<string, unknown> = {}) => ({
+    totalSupply,
+    totalMinted: totalSupply,
+    inflationMinted: '0',
+    totalBurned: '0',
+    contractBalance: '0',
+    pools: [],
+    rewardPerToken: '0',
+    ...overrides
+  });
+
+  describe('poolName', () => {
+    it('should recognise the hashes of the inflation pools', () => {
+      expect(poolName(id('liquidityMiningPool'))).toBe('liquidityMiningPool');
+      expect(poolName(id('governance'))).toBe('governancePool');
+      expect(poolName(id('marketing'))).toBe(id('marketing'));
+      expect(poolName('marketing')).toBe('marketing');
+    });
+  });
+
+  describe('circulatingSupply', () => {
+    it('should leave out what the token contract holds', () => {
+      expect(circulatingSupply({ totalSupply: '1000', contractBalance: '300' })).toBe('700');
+    });
+  });
+
+  describe('buildSupplySeries', () => {
+    it('should carry the supply across empty intervals and sum mints and burns', () => {
+      const points = buildSupplySeries(
+        state('1000'),
+        [
+          { type: TokenSupplyEntryType.INFLATION, amount: '20', timestamp: 3600, state: state('1020', { contractBalance: '20' }) },
+          { type: TokenSupplyEntryType.BURNED, amount: '5', timestamp: 3700, state: state('1015', { contractBalance: '20', totalBurned: '5' }) }
+        ],
+        0,
+        7200,
+        3600
+      );
+
+      expect(points.map(p => [p.time, p.totalSupply, p.circulatingSupply, p.minted, p.burned])).toEqual([
+        [0, '1000', '1000', '0', '0'],
+        [3600, '1015', '995', '20', '5'],
+        [7200, '1015', '995', '0', '0']
+      ]);
+    });
+  });
+});
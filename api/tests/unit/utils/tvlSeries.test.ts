@@ -0,0 +1,29 @@
+import { buildTvlSeries } from '../../../src/utils/tvlSeries';
+
+describe('buildTvlSeries', () => {
+  it('should carry the total staked across empty intervals', () => {
+    const points = buildTvlSeries(
+      100n,
+      [
+        { tvlDelta: '50', timestamp: 3600 },
+        { tvlDelta: '-20', timestamp: 3700 },
+        { tvlDelta: '10', timestamp: 3 * 3600 }
+      ],
+      0,
+      3 * 3600,
+      3600
+    );
+
+    expect(points).toEqual([
+      { time: 0, tvl: '100', inflow: '0', outflow: '0' },
+      { time: 3600, tvl: '130', inflow: '50', outflow: '20' },
+      { time: 7200, tvl: '130', inflow: '0', outflow: '0' },
+      { time: 10800, tvl: '140', inflow: '10', outflow: '0' }
+    ]);
+  });
+
+  it('should align the first interval to its size', () => {
+    const points = buildTvlSeries(0n, [], 5000, 7000, 3600);
+    expect(points.map(p => p.time)).toEqual([3600]);
+  });
+});
@@ -0,0 +1,54 @@
+import { buildUnlockCalendar, lockedAmount, vestedAmount, vestingStatus } from '../../../src/utils/vesting';
+
+describe('vesting', () => {
+  const schedule = {
+    totalAmount: '1000',
+    startTime: 1000,
+    duration: 300,
+    revoked: false,
+    releasedAmount: '200'
+  };
+
+  describe('vestedAmount', () => {
+    it('should vest linearly between the start and the end, rounding down', () => {
+      expect(vestedAmount(schedule, 999)).toBe(0n);
+      expect(vestedAmount(schedule, 1000)).toBe(0n);
+      expect(vestedAmount(schedule, 1100)).toBe(333n);
+      expect(vestedAmount(schedule, 1300)).toBe(1000n);
+      expect(vestedAmount(schedule, 5000)).toBe(1000n);
+    });
+
+    it('should keep vesting a revoked schedule like the contract does', () => {
+      const revoked = { ...schedule, revoked: true, revokedAt: 1100 };
+      expect(vestedAmount(revoked, 1200)).toBe(666n);
+      expect(lockedAmount(revoked, 1050)).toBe(834n);
+      expect(lockedAmount(revoked, 1200)).toBe(0n);
+    });
+  });
+
+  describe('vestingStatus', () => {
+    it('should report what can still be released', () => {
+      expect(vestingStatus(schedule, 1150)).toEqual({
+        at: 1150,
+        vested: '500',
+        locked: '500',
+        released: '200',
+        releasable: '300'
+      });
+      expect(vestingStatus(schedule, 1000).releasable).toBe('0');
+    });
+  });
+
+  describe('buildUnlockCalendar', () => {
+    it('should sum unlocks across schedules per interval', () => {
+      const other = { ...schedule, totalAmount: '50', startTime: 1200, duration: 1 };
+      const points = buildUnlockCalendar([schedule, other], 1000, 1200, 100);
+
+      expect(points).toEqual([
+        { time: 1000, unlocked: '333', vested: '333', locked: '717' },
+        { time: 1100, unlocked: '333', vested: '666', locked: '384' },
+        { time: 1200, unlocked: '384', vested: '1050', locked: '0' }
+      ]);
+    });
+  });
+});